@@ -1,24 +1,39 @@
 import "./globals.css";
 import type { Metadata } from "next";
+import { cookies } from "next/headers";
 import { Geist, Geist_Mono } from "next/font/google";
 
+import I18nProvider from "@/components/I18nProvider";
+import LanguageSwitch from "@/components/LanguageSwitch";
+import { UI_LANG_COOKIE, isUiLang, translator, type UiLang } from "@/lib/i18n";
+
 const geistSans = Geist({ variable: "--font-geist-sans", subsets: ["latin"] });
 const geistMono = Geist_Mono({ variable: "--font-geist-mono", subsets: ["latin"] });
 
-export const metadata: Metadata = {
-  title: "AI Math Worksheet Generator",
-  description: "Generate printable math worksheets with AI",
-};
+// Ngôn ngữ giao diện GV đã chọn (cookie), mặc định tiếng Việt
+async function uiLang(): Promise<UiLang> {
+  const v = (await cookies()).get(UI_LANG_COOKIE)?.value;
+  return isUiLang(v) ? v : "vi";
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { m } = translator(await uiLang());
+  return { title: m.meta.title, description: m.meta.description };
+}
 
-export default function RootLayout({ children }: { children: React.ReactNode }) {
+export default async function RootLayout({ children }: { children: React.ReactNode }) {
+  const lang = await uiLang();
   return (
-    <html lang="vi">
+    <html lang={lang}>
       {/* thêm bg + antialiased để test Tailwind */}
      <body
         suppressHydrationWarning
         className={`${geistSans.variable} ${geistMono.variable} bg-slate-50 text-slate-900 antialiased overflow-x-hidden`}
       >
-        {children}
+        <I18nProvider initialLang={lang}>
+          <LanguageSwitch />
+          {children}
+        </I18nProvider>
       </body>
     </html>
   );
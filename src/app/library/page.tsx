@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft, BookOpen, Copy, Database, FolderOpen, GraduationCap, Library, Search, Trash2,
+} from "lucide-react";
+
+import { banks, matchesQuery, worksheets, type SavedBank, type SavedWorksheet } from "@/lib/storage/library";
+import { useI18n } from "@/hooks/useI18n";
+import { errorMessage } from "@/lib/i18n";
+
+type Tab = "worksheets" | "banks";
+
+const variantCount = (it: SavedWorksheet | SavedBank) => ("variants" in it ? it.variants?.length ?? 0 : 0);
+
+export default function LibraryPage() {
+  const tr = useI18n();
+  const { m, t, count, dec, date } = tr;
+  const [tab, setTab] = useState<Tab>("worksheets");
+  const [query, setQuery] = useState("");
+  const [sheets, setSheets] = useState<SavedWorksheet[]>([]);
+  const [pools, setPools] = useState<SavedBank[]>([]);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  const reload = async () => {
+    try {
+      const [w, b] = await Promise.all([worksheets.list(), banks.list()]);
+      setSheets(w);
+      setPools(b);
+    } catch (e: unknown) {
+      setError(e);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const repo = tab === "worksheets" ? worksheets : banks;
+  const items = (tab === "worksheets" ? sheets : pools).filter((it) => matchesQuery(it, query));
+
+  const act = async (fn: () => Promise<unknown>) => {
+    try {
+      await fn();
+      await reload();
+    } catch (e: unknown) {
+      setError(e);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-purple-50/30">
+      <div className="container mx-auto max-w-5xl px-6 py-12 space-y-8">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/"
+            className="p-2 rounded-xl bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+            title={m.common.backHome}
+          >
+            <ArrowLeft className="size-5" />
+          </Link>
+          <div className="p-2 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg">
+            <Library className="size-5" />
+          </div>
+          <h1 className="text-3xl font-bold text-slate-800">{m.library.title}</h1>
+        </div>
+
+        <div className="relative backdrop-blur-xl bg-white/80 border border-white/50 rounded-3xl p-8 shadow-2xl space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            {([
+              ["worksheets", m.library.worksheets, sheets.length],
+              ["banks", m.library.banks, pools.length],
+            ] as const).map(([key, label, n]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setTab(key)}
+                className={`px-4 py-2 rounded-xl text-sm font-semibold transition ${
+                  tab === key
+                    ? "bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg"
+                    : "bg-white/70 border border-slate-200 text-slate-700 hover:bg-white"
+                }`}
+              >
+                {label} ({n})
+              </button>
+            ))}
+            <label className="ml-auto relative flex-1 min-w-[200px] max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-slate-400" />
+              <input
+                className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 pl-9 pr-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all"
+                placeholder={m.library.search}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </label>
+          </div>
+
+          {error != null && (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{errorMessage(tr, error)}</div>
+          )}
+
+          <div className="space-y-3">
+            {items.map((it) => (
+              <motion.div
+                key={it.id}
+                initial={{ opacity: 0, y: 4 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="p-4 rounded-2xl bg-gradient-to-r from-slate-50 to-blue-50 border border-slate-200 flex flex-wrap items-center gap-4"
+              >
+                <div className="p-2 rounded-xl bg-white/80 border border-slate-200">
+                  {tab === "worksheets" ? <BookOpen className="size-5 text-blue-600" /> : <Database className="size-5 text-emerald-600" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold truncate">{it.name}</div>
+                  <div className="text-xs text-slate-500">
+                    {count(m.common.questions, it.problems.length)}
+                    {it.evaluation && <> • {t(m.library.avgDifficulty, { value: dec(it.evaluation.avg_difficulty) })}</>}
+                    {variantCount(it) > 1 && <> • {count(m.library.variants, variantCount(it))}</>}
+                    {" "}• {t(m.library.updated, { date: date(it.updated_at, { dateStyle: "short", timeStyle: "short" }) })}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Link
+                    href={tab === "worksheets" ? `/?worksheet=${it.id}` : `/?bank=${it.id}`}
+                    className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-sm transition"
+                  >
+                    <FolderOpen className="size-3.5" /> {m.library.open}
+                  </Link>
+                  {tab === "worksheets" && (
+                    <Link
+                      href={`/practice?worksheet=${it.id}`}
+                      className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                    >
+                      <GraduationCap className="size-3.5" /> {m.common.practice}
+                    </Link>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => act(() => repo.duplicate(it.id, m.library.copySuffix))}
+                    className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                  >
+                    <Copy className="size-3.5" /> {m.library.duplicate}
+                  </button>
+                  {confirmDelete === it.id ? (
+                    <button
+                      type="button"
+                      onClick={() => act(() => repo.remove(it.id))}
+                      onBlur={() => setConfirmDelete(null)}
+                      autoFocus
+                      className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-rose-600 text-white shadow-sm transition"
+                    >
+                      <Trash2 className="size-3.5" /> {m.library.confirmDelete}
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setConfirmDelete(it.id)}
+                      className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-rose-50 hover:text-rose-600 shadow-sm transition"
+                    >
+                      <Trash2 className="size-3.5" /> {m.common.remove}
+                    </button>
+                  )}
+                </div>
+              </motion.div>
+            ))}
+
+            {items.length === 0 && (
+              <div className="text-slate-500 text-sm">
+                {query ? m.library.noMatch : m.library.empty}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+// Mock server cục bộ cùng hợp đồng HTTP với backend thật (NEXT_PUBLIC_BACKEND=mock).
+import { createMemoryBackend } from "@/lib/backend/memory";
+import { toApiError } from "@/lib/errors";
+import { AssemblePayloadSchema, ProblemListSchema, parseRequest } from "@/lib/schemas";
+
+const backend = createMemoryBackend();
+
+// Chỉ dùng khi phát triển: bản build production không mở /mock/api
+const enabled = process.env.NODE_ENV === "development";
+
+const json = (data: unknown) => Response.json(data);
+const fail = (status: number, message: string) => new Response(message, { status });
+
+export async function POST(req: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  if (!enabled) return fail(404, "Mock server chỉ chạy ở chế độ phát triển.");
+  const [action, kind] = (await params).path;
+  try {
+    switch (action) {
+      case "generate": return json(await backend.generate(await req.json()));
+      case "assemble": return json(await backend.assemble(parseRequest(AssemblePayloadSchema, await req.json())));
+      case "evaluate": return json(await backend.evaluate(parseRequest(ProblemListSchema, await req.json())));
+      case "upload": {
+        const file = (await req.formData()).get("file");
+        if (!(file instanceof File)) return fail(400, "Thiếu file.");
+        return json(await backend.upload(file));
+      }
+      case "export": {
+        if (kind !== "questions" && kind !== "answers") return fail(404, `Không có kiểu xuất "${kind}".`);
+        const blob = await backend.export(kind, await req.json());
+        return new Response(blob, { headers: { "Content-Type": blob.type } });
+      }
+      default: return fail(404, `Không có endpoint "${action}".`);
+    }
+  } catch (e: unknown) {
+    const err = toApiError(e);
+    if (err.kind === "validation") {
+      return Response.json({ detail: Object.entries(err.fields).map(([field, msg]) => ({ field, msg })), message: err.message }, { status: 422 });
+    }
+    return fail(err.status ?? 500, err.message);
+  }
+}
@@ -1,23 +1,61 @@
 "use client";
 
-import { useState, type ReactNode } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
 import { useForm, type SubmitHandler, type Resolver } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { motion } from "framer-motion";
+import Link from "next/link";
+import { motion, Reorder } from "framer-motion";
 import {
   Loader2, Sparkles, BookOpen, UploadCloud, Settings2, Puzzle,
   BarChart3, ListChecks, BrainCircuit, Download, Target, TrendingUp,
-  Star, Award, Play,
+  Star, Award, Play, X, AlertCircle,
+  Pencil, Trash2, Undo2, Redo2, GripVertical, Plus, RefreshCw,
+  Save, Library, Database, Copy as CopyIcon, SlidersHorizontal, GraduationCap, Share2,
 } from "lucide-react";
 
 import {
-  generateProblems,
+  generateVariants,
   exportPDF,
+  exportProblems,
+  exportVariants,
+  exportBubbleSheet,
+  downloadAnswerKeys,
   uploadQuestions,
-  assembleExam,
+  assembleVariants,
   evaluateExam,
 } from "@/lib/api";
+import { toApiError, type FieldErrors } from "@/lib/errors";
+import { useHistory } from "@/hooks/useHistory";
+import ProblemEditor from "@/components/ProblemEditor";
+import BankManager from "@/components/BankManager";
+import ImportPreview, { downloadTemplate } from "@/components/ImportPreview";
+import BlueprintEditor from "@/components/BlueprintEditor";
+import MathView from "@/components/MathView";
+import { isBlockMath, splitPrompt } from "@/lib/math";
+import { BlueprintConflictError, EMPTY_BLUEPRINT, conflictFields } from "@/lib/blueprint";
+import { PRESETS, scopeDefaults, scopeIssues, scopeOf, type Term } from "@/lib/curriculum";
+import { EXTRA_KINDS, KIND_EXAMPLES, extraCount, isExtraKind } from "@/lib/kinds";
+import { scoreProblem, withDifficulty } from "@/lib/difficulty";
+import { readTable } from "@/lib/import/mapping";
+import { regenerateProblem } from "@/lib/local/regenerate";
+import { analyzeLocal } from "@/lib/local/analyze";
+import { WORD_THEMES, resolveSeed } from "@/lib/local/generator";
+import { ensureOptions, isMcq, mcqOptions, OPTION_LETTERS } from "@/lib/mcq";
+import { stashPractice } from "@/lib/practice";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/exporters";
+import type { BubbleSheetKind } from "@/lib/exporters/bubblesheet";
+import { labelsOf } from "@/lib/exporters/model";
+import { MAX_VARIANTS, type Variant } from "@/lib/variants";
+import { banks, worksheets, type AssembleSettings } from "@/lib/storage/library";
+import { contentDigest, makeSharedSheet, readShare, restoreVariants, shareLink, type SharedSheet } from "@/lib/share";
+import {
+  EMPTY_CURATION, appendBank, crossSourceDuplicates, groupBySource, type Curation,
+} from "@/lib/bank";
+import {
+  apiErrorMessage, blueprintMessage, describeDifficulty, errorMessage, noteMessage, scopeMessage, zodErrorMap, type Translator,
+} from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
 
 import type {
   GenerationConfig,
@@ -25,11 +63,22 @@ import type {
   Operation,
   Evaluation,
   Mode,
+  ExportOptions,
+  ExportContent,
+  AnswerLayout,
+  AnswerStyle,
+  PaperSize,
+  Blueprint,
+  ExamAnalysis,
+  ExtraKind,
+  OperationRules,
 } from "@/lib/types";
 
 
-const schema = z.object({
+// Thông báo lỗi theo ngôn ngữ giao diện nên schema dựng lại khi đổi ngôn ngữ
+const makeSchema = (tr: Translator) => z.object({
   grade: z.coerce.number().min(1).max(5),
+  term: z.coerce.number().int().min(1).max(2),
   operations: z.array(z.enum(["+", "-", "×", "÷"])).min(1),
   count: z.coerce.number().min(5).max(200),
   min_value: z.coerce.number().min(0),
@@ -40,37 +89,96 @@ const schema = z.object({
   language: z.enum(["vi", "en"]),
   mcq_count: z.coerce.number().min(0).optional(),
   word_count: z.coerce.number().min(0).optional(),
+  variants: z.coerce.number().int().min(1).max(MAX_VARIANTS),
+  theme: z.string().optional(),
+  carry: z.coerce.boolean(),
+  remainder: z.coerce.boolean(),
+  tables: z.array(z.number().int().min(1).max(10)),
+  layout: z.enum(["inline", "column"]),
+  kind_counts: z.partialRecord(z.enum(EXTRA_KINDS), z.number().int(tr.m.validation.integer).min(0, tr.m.validation.nonNegative)),
 })
 .refine(v => (v.word_count ?? 0) <= v.count, {
   path: ["word_count"],
-  message: "Số câu lời văn phải ≤ Tổng số câu",
+  message: tr.m.validation.wordCount,
+})
+.refine(v => extraCount(v.kind_counts) <= v.count - (v.word_count ?? 0), {
+  path: ["kind_counts"],
+  message: tr.m.validation.kindCounts,
 })
 .refine(v => (v.mcq_count ?? 0) <= v.count - (v.word_count ?? 0), {
   path: ["mcq_count"],
-  message: "Số câu trắc nghiệm phải ≤ Tổng số câu trừ lời văn",
+  message: tr.m.validation.mcqCount,
+})
+// Vượt hẳn chương trình cả năm thì chặn; lệch học kỳ chỉ cảnh báo dưới form
+.superRefine((v, ctx) => {
+  for (const issue of scopeIssues({ ...v, term: v.term as Term, rules: rulesOf(v), kinds: kindsOf(v.kind_counts) })) {
+    if (issue.level === "block") ctx.addIssue({ code: "custom", path: [issue.path], message: scopeMessage(tr, issue) });
+  }
 });
 
-type FormValues = z.infer<typeof schema>;
+type FormValues = z.infer<ReturnType<typeof makeSchema>>;
+
+/** Lỗi theo trường của yêu cầu ráp đề có chỗ hiện ngay dưới ô nhập. */
+const ASSEMBLE_FIELDS = ["total_count", "mcq_count", "word_count", "mode"];
+
+/** Cấu hình (seed đã chốt) và cài đặt ráp đề đã tạo ra phiếu đang xem, không phải những gì đang gõ trên form. */
+type SheetOrigin = { config: GenerationConfig; assemble?: AssembleSettings; blueprint?: Blueprint };
+
+const kindsOf = (counts?: Partial<Record<ExtraKind, number>>) =>
+  EXTRA_KINDS.filter((k) => (counts?.[k] ?? 0) > 0);
+
+function rulesOf(v: Pick<FormValues, "carry" | "remainder" | "tables">): OperationRules {
+  return { carry: v.carry, remainder: v.remainder, ...(v.tables.length ? { tables: v.tables } : {}) };
+}
 
 export default function Home() {
-  const [problems, setProblems] = useState<Problem[]>([]);
+  const tr = useI18n();
+  const { m, t, count, num, dec, date } = tr;
+  const history = useHistory<Problem[]>([]);
+  const problems = history.value;
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const regenRounds = useRef(new Map<number, number>());
   const [loading, setLoading] = useState(false);
   const [pool, setPool] = useState<Problem[]>([]);
   const [poolEval, setPoolEval] = useState<Evaluation | null>(null);
-  const [examEval, setExamEval] = useState<Evaluation | null>(null);
+  const [examEval, setExamEval] = useState<ExamAnalysis | null>(null);
+  const [examMode, setExamMode] = useState<Mode | null>(null);
   const [tot, setTot] = useState(20);
   const [mcq, setMcq] = useState(10);
   const [word, setWord] = useState(0);
   const [mode, setMode] = useState<Mode>("easy_to_hard");
+  const [asmVariants, setAsmVariants] = useState(1);
+  const [useBlueprint, setUseBlueprint] = useState(false);
+  const [blueprint, setBlueprint] = useState<Blueprint>(EMPTY_BLUEPRINT);
+  const [poolName, setPoolName] = useState("");
+  const [curation, setCuration] = useState<Curation>(EMPTY_CURATION);
+  const [showBank, setShowBank] = useState(false);
+  const [importQueue, setImportQueue] = useState<{ fileName: string; rows: string[][] }[]>([]);
+  const [uploadMode, setUploadMode] = useState<"append" | "replace">("append");
+  const replaceNext = useRef(false);
+  const [sourceEvals, setSourceEvals] = useState<{ source: string; count: number; evaluation: Evaluation }[]>([]);
+  const [crossDupes, setCrossDupes] = useState<Problem[][]>([]);
+  const poolEvalTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [savedBankId, setSavedBankId] = useState<string | undefined>();
+  const [sheetName, setSheetName] = useState("");
+  const [savedSheetId, setSavedSheetId] = useState<string | undefined>();
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [origin, setOrigin] = useState<SheetOrigin | null>(null);
+  const [activeVariant, setActiveVariant] = useState(0);
+  const [toasts, setToasts] = useState<{ id: number; tone: "error" | "info"; message: string }[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [assembleErrors, setAssembleErrors] = useState<FieldErrors>({});
+  const abortRef = useRef<AbortController | null>(null);
 
+  const schema = useMemo(() => makeSchema(tr), [tr]);
+  const resolver = zodResolver(schema, { error: zodErrorMap(tr.lang) }) as unknown as Resolver<FormValues>;
 
-  type FormValues = z.infer<typeof schema>;
-  const resolver = zodResolver(schema) as unknown as Resolver<FormValues>; 
-
-  const { register, handleSubmit, watch, setValue } = useForm<FormValues>({
+  const { register, handleSubmit, watch, setValue, setError, reset, formState: { errors } } = useForm<FormValues>({
     resolver,           
     defaultValues: {
       grade: 2,
+      term: 1,
       operations: ["+", "-"],
       count: 20,
       min_value: 0,
@@ -81,38 +189,165 @@ export default function Home() {
       language: "vi",
       mcq_count: 10,
       word_count: 0,
+      variants: 1,
+      theme: "school",
+      carry: true,
+      remainder: false,
+      tables: [],
+      kind_counts: {},
+      layout: "inline",
     },
   });
 
 
   const selectedOps = watch("operations");
   const cfg = watch();
+  const scope = scopeOf(Number(cfg.grade), Number(cfg.term) as Term);
+  // Lỗi "block" đã do superRefine báo dưới từng ô; ở đây chỉ gom các cảnh báo lệch học kỳ
+  const scopeWarnings = scopeIssues({
+    grade: Number(cfg.grade),
+    term: Number(cfg.term) as Term,
+    operations: cfg.operations ?? [],
+    max_value: Number(cfg.max_value),
+    rules: rulesOf({ carry: cfg.carry, remainder: cfg.remainder, tables: cfg.tables ?? [] }),
+    kinds: kindsOf(cfg.kind_counts),
+  }).filter((i) => i.level === "warn");
+
+  const toast = useCallback((message: string, tone: "error" | "info" = "error") => {
+    const id = Date.now() + Math.random();
+    setToasts((ts) => [...ts, { id, tone, message }]);
+    setTimeout(() => setToasts((ts) => ts.filter((t) => t.id !== id)), 6000);
+  }, []);
+
+  // Mỗi lần chỉ một yêu cầu dài (sinh / upload / ráp); bắt đầu yêu cầu mới sẽ hủy yêu cầu cũ
+  const startRequest = () => {
+    abortRef.current?.abort();
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setLoading(true);
+    return ctrl.signal;
+  };
+
+  const endRequest = (signal: AbortSignal) => {
+    if (abortRef.current?.signal !== signal) return;
+    abortRef.current = null;
+    setLoading(false);
+  };
+
+  const cancelRequest = () => abortRef.current?.abort();
+
+  /** Lỗi kiểm tra dữ liệu có chi tiết theo trường thì hiện ngay dưới trường đó; còn lại hiện toast. */
+  const reportError = useCallback(
+    (e: unknown, onFields?: (fields: FieldErrors) => boolean) => {
+      const err = toApiError(e);
+      if (err.kind === "aborted") return toast(m.toast.aborted, "info");
+      if (err.kind === "validation" && Object.keys(err.fields).length > 0 && onFields?.(err.fields)) return;
+      toast(apiErrorMessage(tr, err));
+    },
+    [m.toast.aborted, toast, tr],
+  );
+
+  const formFields = Object.keys(schema.shape) as (keyof FormValues)[];
+
+  // "variants" chỉ là tùy chọn của giao diện, không gửi lên backend; các ô quy tắc gộp thành rules
+  const toGenerationConfig = (v: FormValues): GenerationConfig => {
+    const { carry, remainder, tables, term, ...conf }: Omit<FormValues, "variants"> & { variants?: number } = v;
+    delete conf.variants;
+    return { ...conf, term: term as Term, rules: rulesOf({ carry, remainder, tables }) };
+  };
+
+  // Lưu, chia sẻ và sinh lại câu theo cấu hình đã tạo ra phiếu; chỉ khi chưa có phiếu (soạn tay từ đầu) mới lấy form
+  const sheetOrigin: SheetOrigin = origin ?? { config: toGenerationConfig(cfg) };
+
+  /** Ngược lại với toGenerationConfig, để reset form từ phiếu đã lưu (phiếu cũ chưa có term/rules). */
+  const toFormValues = ({ rules, ...c }: GenerationConfig, variantCount: number): FormValues => ({
+    ...c,
+    term: c.term ?? 2,
+    theme: c.theme ?? "",
+    carry: rules?.carry ?? true,
+    remainder: rules?.remainder ?? false,
+    tables: rules?.tables ?? [],
+    kind_counts: c.kind_counts ?? {},
+    layout: c.layout ?? "inline",
+    variants: variantCount,
+  });
+
+  /** Đổi lớp / học kỳ: điền sẵn phạm vi, phép tính và quy tắc theo chương trình. */
+  const applyScope = (grade: number, term: Term) => {
+    const d = scopeDefaults(grade, term);
+    if (!d) return;
+    const opts = { shouldValidate: true };
+    setValue("operations", d.operations, opts);
+    setValue("min_value", d.min_value, opts);
+    setValue("max_value", d.max_value, opts);
+    setValue("carry", d.rules.carry ?? true, opts);
+    setValue("remainder", d.rules.remainder ?? false, opts);
+    setValue("tables", d.rules.tables ?? [], opts);
+    setValue("theme", d.theme, opts);
+  };
+
+  const applyPreset = (id: string) => {
+    const p = PRESETS.find((x) => x.id === id);
+    if (!p) return;
+    const opts = { shouldValidate: true };
+    setValue("grade", p.grade, opts);
+    setValue("term", p.term, opts);
+    setValue("operations", p.config.operations, opts);
+    setValue("min_value", p.config.min_value, opts);
+    setValue("max_value", p.config.max_value, opts);
+    setValue("include_word_problems", p.config.include_word_problems, opts);
+    setValue("carry", p.config.rules.carry ?? true, opts);
+    setValue("remainder", p.config.rules.remainder ?? false, opts);
+    setValue("tables", p.config.rules.tables ?? [], opts);
+    setValue("theme", p.config.theme ?? scopeOf(p.grade, p.term)?.themes[0], opts);
+  };
+
+  /** Nạp bộ đề mới (một hoặc nhiều mã đề), hiện mã đề đầu tiên. */
+  const loadVariants = (vs: Variant[], from: SheetOrigin, saved?: { id: string; name: string }) => {
+    setOrigin(from);
+    setSavedSheetId(saved?.id);
+    setSheetName(saved?.name ?? "");
+    setVariants(vs);
+    setActiveVariant(0);
+    history.reset(vs[0]?.problems ?? []);
+    // Bản đã lưu có thể chỉ có Evaluation cũ: phân tích lại cho đủ chỉ số
+    setExamEval(vs[0]?.problems.length ? analyzeLocal(vs[0].problems) : null);
+    setExamMode(null);
+    setEditingId(null);
+    setSelected(new Set());
+    regenRounds.current.clear();
+  };
 
   const onSubmit: SubmitHandler<FormValues> = async (values) => {
+    const signal = startRequest();
     try {
-      setLoading(true);
-      const data = await generateProblems(values as unknown as GenerationConfig);
-      setProblems(data);
-      setExamEval(await evaluateExam(data));
+      const config = { ...toGenerationConfig(values), seed: resolveSeed(values.seed) };
+      loadVariants(await generateVariants(config, values.variants, { signal }), { config });
     } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e);
-      alert(msg);
+      reportError(e, (fields) => {
+        const known = Object.entries(fields).filter(([f]) => formFields.includes(f as keyof FormValues));
+        known.forEach(([f, message]) => setError(f as keyof FormValues, { type: "server", message }));
+        return known.length > 0;
+      });
     } finally {
-      setLoading(false);
+      endRequest(signal);
     }
   };
 
-  const diffBadge = (v?: number) => {
+  const fieldError = (message?: string) =>
+    message ? <span className="block text-xs font-medium text-rose-600">{message}</span> : null;
+
+  const diffBadge = (v?: number, tooltip?: string) => {
     if (v == null) return null;
-    let label: "Easy" | "Medium" | "Hard" = "Easy";
+    let label = m.bands.easy;
     let gradient = "from-emerald-400 to-emerald-600";
     let glow = "shadow-emerald-200";
     if (v >= 0.67) {
-      label = "Hard";
+      label = m.bands.hard;
       gradient = "from-red-400 to-rose-600";
       glow = "shadow-rose-200";
     } else if (v >= 0.34) {
-      label = "Medium";
+      label = m.bands.medium;
       gradient = "from-amber-400 to-orange-600";
       glow = "shadow-amber-200";
     }
@@ -120,14 +355,24 @@ export default function Home() {
       <motion.span 
         initial={{ scale: 0.8, opacity: 0 }}
         animate={{ scale: 1, opacity: 1 }}
-        className={`inline-flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full bg-gradient-to-r ${gradient} text-white shadow-lg ${glow} backdrop-blur-sm`}
+        className={`inline-flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full bg-gradient-to-r ${gradient} text-white shadow-lg ${glow} backdrop-blur-sm ${tooltip ? "cursor-help" : ""}`}
+        title={tooltip}
       >
         <Star className="size-3" />
-        {label} • {v.toFixed(2)}
+        {label} • {dec(v)}
       </motion.span>
     );
   };
 
+  // Diễn giải độ khó theo mô hình; nếu độ khó đang dùng (từ backend / file) khác thì ghi kèm
+  const difficultyOf = (p: Problem) => {
+    const b = scoreProblem(p, p.grade ?? (Number(cfg.grade) || undefined));
+    if (!b) return { value: p.difficulty };
+    let tooltip = describeDifficulty(tr, b);
+    if (p.difficulty != null && Math.abs(p.difficulty - b.score) >= 0.01) tooltip += `\n${t(m.preview.difficultyInUse, { value: dec(p.difficulty) })}`;
+    return { value: p.difficulty ?? b.score, tooltip };
+  };
+
   const statCard = (icon: ReactNode, label: string, value: string, gradient: string) => (
     <motion.div 
       whileHover={{ scale: 1.02, y: -2 }}
@@ -157,24 +402,374 @@ export default function Home() {
     </div>
   );
 
-  const copyQuestion = async (p: Problem) => {
+  const copyQuestion = async (p: Problem, index: number) => {
     try {
-      await navigator.clipboard.writeText(`${p.id}. ${p.text}`);
+      await navigator.clipboard.writeText(`${index + 1}. ${p.text}`);
     } catch {}
   };
 
+  // Sau mỗi lần sửa / hoàn tác thì đánh giá lại đề (trễ một chút để gộp các thao tác liên tiếp)
+  const needsEval = useRef(false);
+  const [evalTick, setEvalTick] = useState(0);
+  const requestEval = () => {
+    needsEval.current = true;
+    setEvalTick((t) => t + 1);
+  };
+  useEffect(() => {
+    if (!needsEval.current) return;
+    needsEval.current = false;
+    const snapshot = problems;
+    let fired = false;
+    const t = setTimeout(async () => {
+      fired = true;
+      try {
+        setExamEval(snapshot.length ? await evaluateExam(snapshot) : null);
+      } catch (e: unknown) {
+        reportError(e);
+      }
+    }, 400);
+    return () => {
+      clearTimeout(t);
+      // Hủy giữa chừng (đề đổi tiếp, đổi ngôn ngữ...) thì lần chạy sau vẫn phải đánh giá
+      if (!fired) needsEval.current = true;
+    };
+  }, [problems, evalTick, reportError]);
+
+  const editProblems = (next: (prev: Problem[]) => Problem[], opts?: { transient?: boolean }) => {
+    if (!opts?.transient) needsEval.current = true;
+    history.set(next, opts);
+  };
+
+  // Seed xáo phương án cho câu sửa tay / sinh lại; câu từ backend đã có sẵn thứ tự
+  const optionSeed = Number.isFinite(sheetOrigin.config.seed) ? Number(sheetOrigin.config.seed) : 0;
+
+  const saveProblem = (p: Problem) => {
+    const next = ensureOptions(p, optionSeed);
+    editProblems((ps) => ps.map((x) => (x.id === p.id ? next : x)));
+    setEditingId(null);
+  };
+
+  const deleteProblem = (id: number) => {
+    editProblems((ps) => ps.filter((x) => x.id !== id));
+    setSelected((s) => {
+      const next = new Set(s);
+      next.delete(id);
+      return next;
+    });
+    if (editingId === id) setEditingId(null);
+  };
+
+  const addProblem = () => {
+    const id = problems.reduce((m, p) => Math.max(m, p.id), 0) + 1;
+    editProblems((ps) => [...ps, { id, text: "", answer: "", kind: "arithmetic" }]);
+    setEditingId(id);
+  };
+
+  /** Sinh lại các câu theo id, giữ nguyên vị trí; mỗi lần sinh lại một câu dùng lượt seed kế tiếp. */
+  const regenerate = (ids: number[]) => {
+    if (ids.length === 0) return;
+    const conf = sheetOrigin.config;
+    // Tính trước ngoài updater: updater có thể chạy hai lần ở StrictMode, làm nhảy lượt seed
+    const fresh = new Map<number, Problem>();
+    for (const p of problems) {
+      if (!ids.includes(p.id)) continue;
+      const round = (regenRounds.current.get(p.id) ?? 0) + 1;
+      regenRounds.current.set(p.id, round);
+      fresh.set(p.id, ensureOptions(regenerateProblem(p, conf, round), optionSeed + round));
+    }
+    editProblems((ps) => ps.map((p) => fresh.get(p.id) ?? p));
+  };
+
+  const toggleSelected = (id: number) =>
+    setSelected((s) => {
+      const next = new Set(s);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const undo = () => {
+    needsEval.current = true;
+    setEditingId(null);
+    history.undo();
+  };
+
+  const redo = () => {
+    needsEval.current = true;
+    setEditingId(null);
+    history.redo();
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const el = e.target as HTMLElement | null;
+      if (el && /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName)) return;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z" && e.key.toLowerCase() !== "y") return;
+      e.preventDefault();
+      if (e.key.toLowerCase() === "y" || e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
   const totalBuckets = (examEval?.buckets?.easy ?? 0) + (examEval?.buckets?.medium ?? 0) + (examEval?.buckets?.hard ?? 0);
   const pct = (n: number) => totalBuckets === 0 ? 0 : Math.round((n / totalBuckets) * 100);
+  const pct100 = (ratio: number) => Math.round(ratio * 100);
+
+  const [downloading, setDownloading] = useState<"none" | ExportContent | BubbleSheetKind>("none");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("pdf");
+  const [exportOpts, setExportOpts] = useState<ExportOptions>({
+    header: "",
+    answer_layout: "separate_page",
+    paper: "a4",
+    columns: 1,
+    answer_style: "blanks",
+  });
+  // Chưa sửa tiêu đề thì dùng tiêu đề mặc định theo ngôn ngữ của đề; xóa trống nghĩa là không in tiêu đề
+  const exportTitle = exportOpts.title ?? labelsOf({ language: sheetOrigin.config.language }).title;
+  const exportLayout: ExportOptions = { ...exportOpts, title: exportTitle, language: sheetOrigin.config.language };
+
+  const saveWorksheet = async () => {
+    const { config } = sheetOrigin;
+    const name = sheetName.trim() || t(m.preview.defaultSheetName, { grade: config.grade, date: date(Date.now()) });
+    try {
+      const saved = await worksheets.save({
+        id: savedSheetId,
+        name,
+        config,
+        seed: Number.isFinite(config.seed) ? config.seed : undefined,
+        problems,
+        evaluation: examEval,
+        variants: liveVariants.length > 1 ? liveVariants : undefined,
+        assemble: sheetOrigin.assemble,
+        blueprint: sheetOrigin.blueprint,
+      });
+      setSavedSheetId(saved.id);
+      setSheetName(saved.name);
+      toast(t(m.toast.sheetSaved, { name: saved.name }), "info");
+    } catch (e: unknown) {
+      reportError(e);
+    }
+  };
+
+  /**
+   * Liên kết chia sẻ: sinh lại đề từ cấu hình đã tạo ra phiếu (seed cố định) để chỉ phải gói phần khác bản sinh.
+   * Copy không được (trang không an toàn, trình duyệt chặn) thì đưa liên kết lên thanh địa chỉ.
+   */
+  const shareSheet = async () => {
+    const config = { ...sheetOrigin.config, seed: resolveSeed(sheetOrigin.config.seed) };
+    const signal = startRequest();
+    try {
+      const current = liveVariants.length > 0 ? liveVariants : [{ code: "A", problems }];
+      const generated = await generateVariants(config, current.length, { signal });
+      const sheet = makeSharedSheet({
+        name: sheetName.trim(),
+        config,
+        generated,
+        current,
+        assemble: sheetOrigin.assemble,
+        blueprint: sheetOrigin.blueprint,
+      });
+      const { url, local } = await shareLink(sheet, `${window.location.origin}${window.location.pathname}`);
+      try {
+        await navigator.clipboard.writeText(url);
+        toast(local ? m.toast.shareLocal : m.toast.shareCopied, "info");
+      } catch {
+        window.history.replaceState(null, "", url);
+        toast(m.toast.shareCopyFailed, "info");
+      }
+    } catch (e: unknown) {
+      reportError(e);
+    } finally {
+      endRequest(signal);
+    }
+  };
+
+  /** Mở liên kết chia sẻ: điền lại form, sinh lại cùng đề rồi áp chỉnh sửa; đề khác lúc chia sẻ thì cảnh báo. */
+  const openShared = async (sheet: SharedSheet) => {
+    reset(toFormValues(sheet.config, sheet.variants));
+    if (sheet.assemble) {
+      setTot(sheet.assemble.total_count);
+      setMcq(sheet.assemble.mcq_count);
+      setWord(sheet.assemble.word_count);
+      setMode(sheet.assemble.mode);
+    }
+    if (sheet.blueprint) {
+      setBlueprint(sheet.blueprint);
+      setUseBlueprint(true);
+    }
+    const signal = startRequest();
+    try {
+      const restored = restoreVariants(await generateVariants(sheet.config, sheet.variants, { signal }), sheet.edits);
+      loadVariants(restored, { config: sheet.config, assemble: sheet.assemble, blueprint: sheet.blueprint });
+      setSheetName(sheet.name ?? "");
+      if (contentDigest(restored) !== sheet.digest) toast(m.toast.shareChanged);
+    } finally {
+      endRequest(signal);
+    }
+  };
+
+  // Đánh giá cả ngân hàng, từng file nguồn (khi có từ hai file) và tìm câu trùng giữa các file
+  const evaluatePool = async (next: Problem[]) => {
+    const groups = [...groupBySource(next)];
+    const [all, ...parts] = await Promise.all([
+      next.length ? evaluateExam(next) : null,
+      ...(groups.length > 1 ? groups.map(([, ps]) => evaluateExam(ps)) : []),
+    ]);
+    setPoolEval(all);
+    setSourceEvals(parts.map((e, i) => ({ source: groups[i][0], count: groups[i][1].length, evaluation: e! })));
+    setCrossDupes(groups.length > 1 ? crossSourceDuplicates(next) : []);
+  };
+
+  // Sửa ngân hàng trong trình quản lý: cập nhật ngay, đánh giá lại sau một nhịp.
+  // poolRef giữ bản mới nhất, để các upload xong sau await gộp vào đúng ngân hàng hiện tại.
+  const poolRef = useRef(pool);
+  const changePool = (update: Problem[] | ((prev: Problem[]) => Problem[])) => {
+    const next = typeof update === "function" ? update(poolRef.current) : update;
+    poolRef.current = next;
+    setPool(next);
+    if (poolEvalTimer.current) clearTimeout(poolEvalTimer.current);
+    poolEvalTimer.current = setTimeout(() => evaluatePool(next).catch(reportError), 400);
+  };
+
+  /**
+   * Thêm các file vừa tải lên vào ngân hàng. Chế độ "Thay thế" chỉ áp dụng cho file đầu tiên
+   * của lần chọn file; các file sau (kể cả file đang chờ xem trước) được gộp tiếp.
+   */
+  const addToPool = (batches: { fileName: string; problems: Problem[] }[]) => {
+    const replace = replaceNext.current || poolRef.current.length === 0;
+    replaceNext.current = false;
+    if (replace) {
+      setCuration(EMPTY_CURATION);
+      setSavedBankId(undefined);
+      setPoolName(batches.map((b) => b.fileName.replace(/\.[^.]+$/, "")).join(" + "));
+    }
+    // Câu chưa có độ khó thì chấm bằng mô hình (lib/difficulty)
+    changePool((prev) =>
+      batches.reduce((acc, b) => appendBank(acc, withDifficulty(b.problems), b.fileName), replace ? [] : prev),
+    );
+    const added = batches.reduce((n, b) => n + b.problems.length, 0);
+    toast(count(replace ? m.toast.poolLoaded : m.toast.poolAppended, added, { files: batches.map((b) => b.fileName).join(", ") }), "info");
+  };
 
-  const [downloading, setDownloading] = useState<"none" | "questions" | "answers">("none");
+  const removeFromPool = (ids: Set<number>) => {
+    changePool((prev) => prev.filter((p) => !ids.has(p.id)));
+    setCuration((c) => ({
+      pinned: c.pinned.filter((id) => !ids.has(id)),
+      excluded: c.excluded.filter((id) => !ids.has(id)),
+    }));
+  };
 
-  async function handleExport(kind: "questions" | "answers") {
+  const saveBank = async () => {
+    try {
+      const saved = await banks.save({
+        id: savedBankId,
+        name: poolName.trim() || t(m.bank.defaultName, { date: date(Date.now()) }),
+        problems: pool,
+        evaluation: poolEval,
+        curation,
+      });
+      setSavedBankId(saved.id);
+      setPoolName(saved.name);
+      toast(t(m.toast.bankSaved, { name: saved.name }), "info");
+    } catch (e: unknown) {
+      reportError(e);
+    }
+  };
+
+  // Mở từ thư viện: /?worksheet=<id> hoặc /?bank=<id>; liên kết chia sẻ: /?s=<phiếu> hoặc /?share=<mã>.
+  // Chỉ chạy một lần khi mở trang nên giữ hàm của lần render đầu trong ref, effect không phụ thuộc gì.
+  const openFromUrl = useRef(async () => {
+    const params = new URLSearchParams(window.location.search);
+    const sheetId = params.get("worksheet");
+    const bankId = params.get("bank");
+    try {
+      if (params.has("s") || params.has("share")) {
+        const sheet = await readShare(params);
+        if (!sheet) return toast(m.toast.shareInvalid);
+        await openShared(sheet);
+      }
+      if (sheetId) {
+        const w = await worksheets.get(sheetId);
+        if (!w) return toast(m.toast.sheetNotFound);
+        reset({ ...toFormValues(w.config, w.variants?.length ?? 1), seed: w.seed ?? w.config.seed });
+        if (w.assemble) {
+          setTot(w.assemble.total_count);
+          setMcq(w.assemble.mcq_count);
+          setWord(w.assemble.word_count);
+          setMode(w.assemble.mode);
+        }
+        if (w.blueprint) {
+          setBlueprint(w.blueprint);
+          setUseBlueprint(true);
+        }
+        loadVariants(
+          w.variants ?? [{ code: "A", problems: w.problems, evaluation: w.evaluation ?? undefined }],
+          { config: { ...w.config, seed: w.seed ?? w.config.seed }, assemble: w.assemble, blueprint: w.blueprint },
+          w,
+        );
+      }
+      if (bankId) {
+        const b = await banks.get(bankId);
+        if (!b) return toast(m.toast.bankNotFound);
+        changePool(b.problems);
+        setPoolEval(b.evaluation);
+        setCuration(b.curation ?? EMPTY_CURATION);
+        setPoolName(b.name);
+        setSavedBankId(b.id);
+      }
+    } catch (e: unknown) {
+      reportError(e);
+    }
+  });
+  useEffect(() => {
+    openFromUrl.current();
+  }, []);
+
+  // Mã đề đang mở được sửa trong history; ghép lại để so sánh và xuất
+  const liveVariants: Variant[] = variants.map((v, i) =>
+    i === activeVariant ? { ...v, problems, evaluation: examEval ?? v.evaluation } : v,
+  );
+
+  // Đổi mã đề thì lịch sử hoàn tác bắt đầu lại cho mã đề đó
+  const switchVariant = (i: number) => {
+    if (i === activeVariant) return;
+    setVariants(liveVariants);
+    setActiveVariant(i);
+    history.reset(liveVariants[i].problems);
+    setExamEval(liveVariants[i].problems.length ? analyzeLocal(liveVariants[i].problems) : null);
+    setEditingId(null);
+    setSelected(new Set());
+  };
+
+  async function handleExport(content: ExportContent) {
     if (downloading !== "none") return;            // chặn bấm liên tiếp
+    setDownloading(content);
+    const meta = { grade: sheetOrigin.config.grade };
+    try {
+      // Có câu hỏi trên màn hình thì xuất đúng các câu đó; chưa có thì để backend sinh PDF từ cấu hình
+      if (liveVariants.length > 1) await exportVariants(liveVariants, exportFormat, content, exportLayout, meta);
+      else if (problems.length > 0) await exportProblems(problems, exportFormat, content, exportLayout, meta);
+      else if (content === "both") {
+        await exportPDF(toGenerationConfig(cfg), "questions");
+        await exportPDF(toGenerationConfig(cfg), "answers");
+      } else await exportPDF(toGenerationConfig(cfg), content);
+    } catch (err) {
+      reportError(err);
+    } finally {
+      setDownloading("none");
+    }
+  }
+
+  async function handleBubbleSheet(kind: BubbleSheetKind) {
+    if (downloading !== "none") return;
     setDownloading(kind);
     try {
-      await exportPDF(cfg as unknown as GenerationConfig, kind);
+      const sets = liveVariants.length > 1 ? liveVariants : [{ code: "A", problems }];
+      await exportBubbleSheet(sets, kind, exportLayout, { grade: sheetOrigin.config.grade });
     } catch (err) {
-      console.error("Export failed:", err);
+      reportError(err);
     } finally {
       setDownloading("none");
     }
@@ -215,22 +810,28 @@ export default function Home() {
               <div className="rounded-full bg-white p-3">
                 <Sparkles className="size-6 text-blue-600" />
               </div>
-              <span className="pr-4 text-white font-semibold">AI Math Worksheet Generator</span>
+              <span className="pr-4 text-white font-semibold">{m.hero.badge}</span>
             </motion.div>
             
             <h1 className="text-5xl md:text-7xl font-bold bg-gradient-to-r from-slate-900 via-blue-900 to-purple-900 bg-clip-text text-transparent leading-tight">
-              Tạo Bài Tập Toán
+              {m.hero.title}
               <br />
               <span className="bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-                Tiện Ích và Nhanh Chóng
+                {m.hero.tagline}
               </span>
             </h1>
             
             <p className="text-xl text-slate-600 max-w-3xl mx-auto leading-relaxed">
-              Sinh tự động bài tập Toán tiểu học với AI, hỗ trợ upload ngân hàng câu hỏi, 
-              ráp đề theo độ khó và xuất PDF chuyên nghiệp.
+              {m.hero.subtitle}
             </p>
 
+            <Link
+              href="/library"
+              className="inline-flex items-center gap-2 rounded-full bg-white/80 border border-slate-200 px-4 py-2 text-sm font-medium text-slate-700 shadow-sm hover:bg-white transition"
+            >
+              <Library className="size-4" /> {m.hero.library}
+            </Link>
+
             {/* Hero stats */}
             {problems.length > 0 && examEval && (
               <motion.div
@@ -239,9 +840,9 @@ export default function Home() {
                 transition={{ delay: 0.4 }}
                 className="flex flex-wrap justify-center gap-4 mt-8"
               >
-                {statCard(<BookOpen className="size-6" />, "Câu hỏi", String(problems.length), "from-blue-500 to-cyan-500")}
-                {statCard(<Target className="size-6" />, "Độ khó TB", examEval.avg_difficulty.toFixed(2), "from-purple-500 to-pink-500")}
-                {statCard(<Award className="size-6" />, "Phân bố", `${examEval.buckets?.easy ?? 0}/${examEval.buckets?.medium ?? 0}/${examEval.buckets?.hard ?? 0}`, "from-orange-500 to-red-500")}
+                {statCard(<BookOpen className="size-6" />, m.hero.questions, String(problems.length), "from-blue-500 to-cyan-500")}
+                {statCard(<Target className="size-6" />, m.hero.avgDifficulty, dec(examEval.avg_difficulty), "from-purple-500 to-pink-500")}
+                {statCard(<Award className="size-6" />, m.hero.distribution, `${examEval.buckets?.easy ?? 0}/${examEval.buckets?.medium ?? 0}/${examEval.buckets?.hard ?? 0}`, "from-orange-500 to-red-500")}
               </motion.div>
             )}
           </motion.div>
@@ -268,22 +869,51 @@ export default function Home() {
                   <div className="p-2 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg">
                     <Settings2 className="size-5" />
                   </div>
-                  <h3 className="text-xl font-bold text-slate-800">Cấu hình thông minh</h3>
+                  <h3 className="text-xl font-bold text-slate-800">{m.config.title}</h3>
                 </div>
 
                 <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-                  <div className="grid grid-cols-2 gap-4">
+                  <label className="block space-y-2">
+                    <span className="text-sm font-semibold text-slate-700">{m.config.preset}</span>
+                    <select
+                      className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-amber-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-amber-400 transition-all"
+                      value=""
+                      onChange={(e) => applyPreset(e.target.value)}
+                    >
+                      <option value="">{m.config.presetPlaceholder}</option>
+                      {PRESETS.map((p) => (
+                        <option key={p.id} value={p.id}>{m.presets[p.id as keyof typeof m.presets] ?? p.label}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <div className="grid grid-cols-3 gap-4">
                     <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
-                      <span className="text-sm font-semibold text-slate-700">Khối lớp</span>
-                      <select className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all" {...register("grade")}>
+                      <span className="text-sm font-semibold text-slate-700">{m.config.grade}</span>
+                      <select
+                        className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all"
+                        {...register("grade", { onChange: (e) => applyScope(Number(e.target.value), Number(cfg.term) as Term) })}
+                      >
                         {[1, 2, 3, 4, 5].map((n) => (
-                          <option key={n} value={n}>Lớp {n}</option>
+                          <option key={n} value={n}>{t(m.common.grade, { n })}</option>
                         ))}
                       </select>
+                      {fieldError(errors.grade?.message)}
+                    </motion.label>
+
+                    <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
+                      <span className="text-sm font-semibold text-slate-700">{m.config.term}</span>
+                      <select
+                        className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all"
+                        {...register("term", { onChange: (e) => applyScope(Number(cfg.grade), Number(e.target.value) as Term) })}
+                      >
+                        <option value={1}>{t(m.config.termN, { n: 1 })}</option>
+                        <option value={2}>{t(m.config.termN, { n: 2 })}</option>
+                      </select>
                     </motion.label>
 
                     <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
-                      <span className="text-sm font-semibold text-slate-700">Ngôn ngữ</span>
+                      <span className="text-sm font-semibold text-slate-700">{m.config.contentLanguage}</span>
                       <select className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all" {...register("language")}>
                         <option value="vi">🇻🇳 Tiếng Việt</option>
                         <option value="en">🇺🇸 English</option>
@@ -291,9 +921,19 @@ export default function Home() {
                     </motion.label>
                   </div>
 
+                  {scope && (
+                    <div className="text-xs text-slate-500 -mt-3">
+                      {t(m.config.scopeSummary, {
+                        grade: scope.grade,
+                        term: scope.term,
+                        summary: m.curriculum[`${scope.grade}-${scope.term}` as keyof typeof m.curriculum] ?? scope.summary,
+                      })}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-3 gap-4">
                     <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
-                      <span className="text-sm font-semibold text-slate-700">Tổng câu</span>
+                      <span className="text-sm font-semibold text-slate-700">{m.config.count}</span>
                       <input
                         type="number"
                         min={5}
@@ -301,51 +941,57 @@ export default function Home() {
                         className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-purple-400 transition-all"
                         {...register("count", { valueAsNumber: true })}
                       />
+                      {fieldError(errors.count?.message)}
                     </motion.label>
                     
                     <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
-                      <span className="text-sm font-semibold text-slate-700">Trắc nghiệm</span>
+                      <span className="text-sm font-semibold text-slate-700">{m.config.mcq}</span>
                       <input
                         type="number"
                         min={0}
                         className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-green-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-green-400 transition-all"
                         {...register("mcq_count", { valueAsNumber: true })}
                       />
+                      {fieldError(errors.mcq_count?.message)}
                     </motion.label>
 
                     <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
-                      <span className="text-sm font-semibold text-slate-700">Tự luận</span>
+                      <span className="text-sm font-semibold text-slate-700">{m.config.word}</span>
                       <input
                         type="number"
                         min={0}
                         className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-pink-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-pink-400 transition-all"
                         {...register("word_count", { valueAsNumber: true })}
                       />
+                      {fieldError(errors.word_count?.message)}
                     </motion.label>
                   </div>
 
                   <div className="grid grid-cols-2 gap-4">
                     <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
-                      <span className="text-sm font-semibold text-slate-700">Giá trị nhỏ nhất</span>
+                      <span className="text-sm font-semibold text-slate-700">{m.config.min}</span>
                       <input 
                         type="number" 
                         className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-cyan-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-cyan-400 transition-all" 
                         {...register("min_value", { valueAsNumber: true })} 
                       />
+                      {fieldError(errors.min_value?.message)}
                     </motion.label>
                     <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
-                      <span className="text-sm font-semibold text-slate-700">Giá trị lớn nhất</span>
+                      <span className="text-sm font-semibold text-slate-700">{m.config.max}</span>
                       <input 
                         type="number" 
                         className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-cyan-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-cyan-400 transition-all" 
                         {...register("max_value", { valueAsNumber: true })} 
                       />
+                      {fieldError(errors.max_value?.message)}
                     </motion.label>
                   </div>
 
                   {/* Operations */}
                   <div className="space-y-3">
-                    <span className="text-sm font-semibold text-slate-700">Phép toán</span>
+                    <span className="text-sm font-semibold text-slate-700">{m.config.operations}</span>
+                    {fieldError(errors.operations?.message)}
                     <div className="flex flex-wrap items-center justify-center gap-4">
                       {["+", "-", "×", "÷"].map((op) => {
                         const isSelected = selectedOps.includes(op as Operation);
@@ -381,6 +1027,87 @@ export default function Home() {
                     </div>
                   </div>
 
+                  {/* Quy tắc theo chương trình */}
+                  <div className="space-y-2 text-sm">
+                    <div className="flex flex-wrap gap-x-5 gap-y-2">
+                      <label className="inline-flex items-center gap-2 text-slate-700">
+                        <input type="checkbox" {...register("carry")} /> {m.config.carry}
+                      </label>
+                      <label className="inline-flex items-center gap-2 text-slate-700">
+                        <input type="checkbox" {...register("remainder")} /> {m.config.remainder}
+                      </label>
+                      <label className="inline-flex items-center gap-2 text-slate-700">
+                        <input
+                          type="checkbox"
+                          checked={cfg.layout === "column"}
+                          onChange={(e) => setValue("layout", e.target.checked ? "column" : "inline")}
+                        />{" "}
+                        {m.config.column}
+                      </label>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <span className="text-slate-700 mr-1">{m.config.tables}</span>
+                      {[2, 3, 4, 5, 6, 7, 8, 9].map((t) => {
+                        const on = (cfg.tables ?? []).includes(t);
+                        return (
+                          <button
+                            key={t}
+                            type="button"
+                            onClick={() =>
+                              setValue(
+                                "tables",
+                                on ? cfg.tables.filter((x) => x !== t) : [...(cfg.tables ?? []), t].sort((a, b) => a - b),
+                                { shouldValidate: true },
+                              )
+                            }
+                            className={`size-7 rounded-lg text-xs font-semibold border transition ${
+                              on ? "bg-indigo-600 text-white border-indigo-600" : "bg-white/70 text-slate-600 border-slate-200 hover:bg-white"
+                            }`}
+                          >
+                            {t}
+                          </button>
+                        );
+                      })}
+                      <span className="text-xs text-slate-500 ml-1">
+                        {cfg.tables?.length ? m.config.tablesSome : m.config.tablesAll}
+                      </span>
+                    </div>
+                    {scopeWarnings.length > 0 && (
+                      <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 space-y-1">
+                        {scopeWarnings.map((w) => (
+                          <div key={w.message} className="flex items-start gap-1.5">
+                            <AlertCircle className="size-3.5 mt-0.5 shrink-0" /> {scopeMessage(tr, w)}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Dạng bài khác: lấy chỗ của câu tính */}
+                  <details className="rounded-2xl border border-slate-200 bg-white/60 px-4 py-3" open={extraCount(cfg.kind_counts) > 0}>
+                    <summary className="cursor-pointer text-sm font-semibold text-slate-700">
+                      {m.config.extraKinds}{" "}
+                      {extraCount(cfg.kind_counts) > 0 && `(${count(m.common.questions, extraCount(cfg.kind_counts))})`}
+                    </summary>
+                    <div className="mt-3 grid grid-cols-3 gap-3">
+                      {EXTRA_KINDS.map((k) => (
+                        <label key={k} className="space-y-1 text-xs">
+                          <span className="block font-medium text-slate-700">{m.kinds[k]}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            placeholder="0"
+                            title={KIND_EXAMPLES[k]}
+                            className="w-full rounded-lg border-0 bg-white/90 px-2 py-1.5 shadow-inner focus:ring-2 focus:ring-indigo-400"
+                            {...register(`kind_counts.${k}`, { setValueAs: (v) => (v === "" || v == null ? undefined : Number(v)) })}
+                          />
+                          <span className="block text-slate-400 truncate">{KIND_EXAMPLES[k]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    {fieldError(errors.kind_counts?.message)}
+                  </details>
+
                   {/* Toggles */}
                   <div className="space-y-4">
                     <motion.label 
@@ -392,8 +1119,19 @@ export default function Home() {
                         className="w-5 h-5 rounded-lg border-2 border-emerald-300 text-emerald-600 focus:ring-emerald-400 transition-all" 
                         {...register("include_word_problems")} 
                       />
-                      <span className="font-medium text-slate-700 group-hover:text-emerald-700 transition-colors">Bài toán có lời văn (AI)</span>
+                      <span className="font-medium text-slate-700 group-hover:text-emerald-700 transition-colors">{m.config.wordProblems}</span>
                     </motion.label>
+                    {cfg.include_word_problems && (
+                      <label className="flex items-center gap-3 px-4 text-sm text-slate-700">
+                        {m.config.theme}
+                        <select className="rounded-lg border-0 bg-white/90 px-2 py-1.5 shadow-inner" {...register("theme")}>
+                          <option value="">{m.config.themeMixed}</option>
+                          {Object.entries(WORD_THEMES).map(([k, th]) => (
+                            <option key={k} value={k}>{m.themes[k as keyof typeof m.themes] ?? th.label}</option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
 
                     <motion.label 
                       whileHover={{ scale: 1.01 }}
@@ -405,19 +1143,36 @@ export default function Home() {
                         className="w-5 h-5 rounded-lg border-2 border-purple-300 text-purple-600 focus:ring-purple-400 transition-all" 
                         {...register("include_distractors")} 
                       />
-                      <span className="font-medium text-slate-700 group-hover:text-purple-700 transition-colors">Sinh lựa chọn nhiễu (MCQ)</span>
+                      <span className="font-medium text-slate-700 group-hover:text-purple-700 transition-colors">{m.config.distractors}</span>
                     </motion.label>
                   </div>
 
-                  <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
-                    <span className="text-sm font-semibold text-slate-700">Seed (tùy chọn)</span>
-                    <input 
-                      type="number" 
-                      placeholder="42" 
-                      className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all" 
-                      {...register("seed", { valueAsNumber: true })} 
-                    />
-                  </motion.label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
+                      <span className="text-sm font-semibold text-slate-700">{m.config.seed}</span>
+                      <input 
+                        type="number" 
+                        placeholder="42" 
+                        className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all" 
+                        {...register("seed", { valueAsNumber: true })} 
+                      />
+                      {fieldError(errors.seed?.message)}
+                    </motion.label>
+                    <motion.label whileHover={{ scale: 1.02 }} className="space-y-2">
+                      <span className="text-sm font-semibold text-slate-700">{m.config.variants}</span>
+                      <select
+                        className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-4 py-3 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all"
+                        {...register("variants")}
+                      >
+                        {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map((n) => (
+                          <option key={n} value={n}>
+                            {n === 1 ? m.config.variantsOne : t(m.config.variantsMany, { n, last: "ABCD"[n - 1] })}
+                          </option>
+                        ))}
+                      </select>
+                      {fieldError(errors.variants?.message)}
+                    </motion.label>
+                  </div>
 
                   {/* Action buttons */}
                   <div className="flex flex-wrap gap-3 pt-4">
@@ -433,16 +1188,29 @@ export default function Home() {
                         {loading ? (
                           <>
                             <Loader2 className="size-5 animate-spin" />
-                            Đang sinh...
+                            {m.config.generating}
                           </>
                         ) : (
                           <>
                             <Play className="size-5" />
-                            Generate
+                            {m.config.generate}
                           </>
                         )}
                       </span>
                     </motion.button>
+
+                    {loading && (
+                      <motion.button
+                        initial={{ opacity: 0, scale: 0.9 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        className="inline-flex items-center gap-2 rounded-2xl bg-white/80 border border-slate-200 px-4 py-4 text-slate-700 shadow-lg hover:bg-white transition-all"
+                        type="button"
+                        onClick={cancelRequest}
+                      >
+                        <X className="size-5" />
+                        {m.common.cancel}
+                      </motion.button>
+                    )}
                     
                     <motion.button
                       whileHover={downloading === "none" ? { scale: 1.05 } : {}}
@@ -457,7 +1225,7 @@ export default function Home() {
                       {downloading === "questions"
                         ? <Loader2 className="size-5 animate-spin" />
                         : <Download className="size-5" />}
-                      {downloading === "questions" ? "Đang xuất..." : "Câu hỏi"}
+                      {downloading === "questions" ? m.common.exporting : m.content.questions}
                     </motion.button>
 
                     {/* Nút: Đáp án */}
@@ -474,7 +1242,24 @@ export default function Home() {
                       {downloading === "answers"
                         ? <Loader2 className="size-5 animate-spin" />
                         : <Download className="size-5" />}
-                      {downloading === "answers" ? "Đang xuất..." : "Đáp án"}
+                      {downloading === "answers" ? m.common.exporting : m.content.answers}
+                    </motion.button>
+
+                    {/* Nút: Đề kèm trang đáp án */}
+                    <motion.button
+                      whileHover={downloading === "none" ? { scale: 1.05 } : {}}
+                      whileTap={downloading === "none" ? { scale: 0.95 } : {}}
+                      className="inline-flex items-center gap-2 rounded-2xl bg-gradient-to-r from-sky-500 to-indigo-600 px-4 py-4 text-white shadow-xl hover:shadow-2xl transition-all disabled:opacity-60 disabled:cursor-not-allowed"
+                      type="button"
+                      disabled={downloading !== "none"}
+                      aria-disabled={downloading !== "none"}
+                      aria-busy={downloading === "both"}
+                      onClick={() => handleExport("both")}
+                    >
+                      {downloading === "both"
+                        ? <Loader2 className="size-5 animate-spin" />
+                        : <Download className="size-5" />}
+                      {downloading === "both" ? m.common.exporting : m.content.both}
                     </motion.button>
                   </div>
                 </form>
@@ -494,7 +1279,7 @@ export default function Home() {
                   <div className="p-2 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-600 text-white shadow-lg">
                     <UploadCloud className="size-5" />
                   </div>
-                  <h3 className="text-xl font-bold text-slate-800">Ngân hàng GV</h3>
+                  <h3 className="text-xl font-bold text-slate-800">{m.bank.title}</h3>
                 </div>
 
                 {/* Upload area */}
@@ -505,83 +1290,258 @@ export default function Home() {
                         <UploadCloud className="size-8 text-white" />
                       </div>
                       <div>
-                        <div className="font-semibold text-slate-800">Tải lên ngân hàng câu hỏi</div>
-                        <div className="text-sm text-slate-500">Hỗ trợ .txt, .csv, .pdf, .docx</div>
+                        <div className="font-semibold text-slate-800">{m.bank.upload}</div>
+                        <div className="text-sm text-slate-500">{m.bank.uploadHint}</div>
                       </div>
                     </motion.div>
                     <input
                       className="hidden"
                       type="file"
                       accept=".txt,.csv,.pdf,.doc,.docx,.xlsx,.xls"
+                      multiple
                       onChange={async (e: React.ChangeEvent<HTMLInputElement>) => {
-                        const f = e.target.files?.[0];
-                        if (!f) return;
+                        const files = [...(e.target.files ?? [])];
+                        e.target.value = "";
+                        if (files.length === 0) return;
+                        setUploadError(null);
+                        replaceNext.current = uploadMode === "replace";
+                        // CSV / XLSX / TXT: đọc ngay trong trình duyệt để GV xem trước và ghép cột
+                        const previews: { fileName: string; rows: string[][] }[] = [];
+                        const remote: File[] = [];
+                        for (const f of files) {
+                          try {
+                            const rows = await readTable(f);
+                            if (rows) previews.push({ fileName: f.name, rows });
+                            else remote.push(f);
+                          } catch (err: unknown) {
+                            setUploadError(`${f.name}: ${errorMessage(tr, err)}`);
+                          }
+                        }
+                        if (previews.length) {
+                          setImportQueue((q) => [...q, ...previews]);
+                          setTimeout(() => document.getElementById("import-preview")?.scrollIntoView({ behavior: "smooth" }), 50);
+                        }
+                        if (remote.length === 0) return;
+                        const signal = startRequest();
                         try {
-                          setLoading(true);
-                          const _pool = await uploadQuestions(f);
-                          setPool(_pool);
-                          const eva = await evaluateExam(_pool);
-                          setPoolEval(eva);
+                          const batches = [];
+                          for (const f of remote) batches.push({ fileName: f.name, problems: await uploadQuestions(f, { signal }) });
+                          addToPool(batches);
                         } catch (err: unknown) {
-                          const msg = err instanceof Error ? err.message : String(err);
-                          alert(msg);
+                          const apiErr = toApiError(err);
+                          if (apiErr.kind === "aborted") toast(m.toast.uploadAborted, "info");
+                          else setUploadError(apiErrorMessage(tr, apiErr));
                         } finally {
-                          setLoading(false);
+                          endRequest(signal);
                         }
                       }}
                     />
                   </div>
                 </motion.label>
 
+                <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+                  <button
+                    type="button"
+                    onClick={downloadTemplate}
+                    className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                  >
+                    <Download className="size-3.5" /> {m.bank.template}
+                  </button>
+                  {pool.length > 0 && (
+                    <div className="ml-auto inline-flex rounded-lg border border-slate-200 bg-white/80 p-0.5 shadow-sm">
+                      {(["append", "replace"] as const).map((um) => (
+                        <button
+                          key={um}
+                          type="button"
+                          onClick={() => setUploadMode(um)}
+                          className={`px-2.5 py-1 rounded-md transition ${
+                            uploadMode === um ? "bg-gradient-to-r from-blue-600 to-purple-600 text-white" : "text-slate-600 hover:bg-white"
+                          }`}
+                        >
+                          {m.bank[um]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {uploadError && (
+                  <div className="mt-3 flex items-start gap-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+                    <AlertCircle className="size-4 mt-0.5 shrink-0" />
+                    <span>{uploadError}</span>
+                  </div>
+                )}
+
                 {/* Stats pool */}
                 {poolEval && (
-                  <div className="mt-4 flex flex-wrap gap-3">
-                    {statPill(<BookOpen className="size-4" />, "Số câu", String(pool.length))}
-                    {statPill(<BarChart3 className="size-4" />, "Độ khó TB", poolEval.avg_difficulty.toFixed(2))}
+                  <div className="mt-4 flex flex-wrap items-center gap-3">
+                    {statPill(<BookOpen className="size-4" />, m.bank.count, String(pool.length))}
+                    {statPill(<BarChart3 className="size-4" />, m.bank.avgDifficulty, dec(poolEval.avg_difficulty))}
+                    <button
+                      type="button"
+                      onClick={saveBank}
+                      className="ml-auto inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                      title={m.bank.saveTitle}
+                    >
+                      <Save className="size-3.5" /> {savedBankId ? m.bank.update : m.bank.save}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setShowBank((v) => !v);
+                        setTimeout(() => document.getElementById("bank-manager")?.scrollIntoView({ behavior: "smooth" }), 50);
+                      }}
+                      className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                    >
+                      <Database className="size-3.5" /> {showBank ? m.bank.hide : m.bank.manage}
+                    </button>
+                  </div>
+                )}
+
+                {/* Đánh giá theo từng file nguồn */}
+                {poolEval && sourceEvals.length > 1 && (
+                  <div className="mt-3 overflow-x-auto rounded-2xl border border-slate-200 bg-white/70">
+                    <table className="w-full text-xs">
+                      <thead className="bg-slate-50 text-left text-slate-500">
+                        <tr>
+                          <th className="p-2 font-medium">{m.bank.source}</th>
+                          <th className="p-2 font-medium text-right">{m.bank.count}</th>
+                          <th className="p-2 font-medium text-right">{m.bank.avgDifficulty}</th>
+                          <th className="p-2 font-medium text-right">{m.bank.bandsShort}</th>
+                          <th className="p-2 font-medium text-right">{m.bank.kindsShort}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[
+                          ...sourceEvals.map((s) => ({ label: s.source || m.common.unknownSource, count: s.count, ev: s.evaluation, total: false })),
+                          { label: m.bank.total, count: pool.length, ev: poolEval, total: true },
+                        ].map((r) => (
+                          <tr key={r.label} className={`border-t border-slate-100 ${r.total ? "font-semibold bg-slate-50/70" : ""}`}>
+                            <td className="p-2 max-w-[180px] truncate" title={r.label}>{r.label}</td>
+                            <td className="p-2 text-right">{r.count}</td>
+                            <td className="p-2 text-right">{dec(r.ev.avg_difficulty)}</td>
+                            <td className="p-2 text-right">{r.ev.buckets.easy ?? 0} / {r.ev.buckets.medium ?? 0} / {r.ev.buckets.hard ?? 0}</td>
+                            <td className="p-2 text-right">{r.ev.by_kind.arithmetic} / {r.ev.by_kind.word}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {crossDupes.length > 0 && (
+                  <div className="mt-3 rounded-2xl border border-amber-200 bg-amber-50/70 p-3 text-xs space-y-2">
+                    <div className="flex items-center gap-2">
+                      <CopyIcon className="size-3.5 text-amber-700" />
+                      <span className="font-medium text-amber-800">{count(m.bank.crossDupes, crossDupes.length)}</span>
+                      <button
+                        type="button"
+                        onClick={() => removeFromPool(new Set(crossDupes.flatMap((g) => g.slice(1).map((p) => p.id))))}
+                        className="ml-auto inline-flex items-center gap-1 px-2.5 py-1 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                      >
+                        {m.bank.keepFirst}
+                      </button>
+                    </div>
+                    <ul className="list-disc pl-5 space-y-0.5 text-slate-700">
+                      {crossDupes.slice(0, 5).map((g) => (
+                        <li key={g[0].id}>
+                          {g[0].text} — <span className="text-slate-500">{g.map((p) => p.source ?? "?").join(", ")}</span>
+                        </li>
+                      ))}
+                      {crossDupes.length > 5 && <li className="list-none text-slate-500">{count(m.bank.moreGroups, crossDupes.length - 5)}</li>}
+                    </ul>
                   </div>
                 )}
 
                 {/* Assemble controls */}
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-4">
                   <label className="col-span-1">
-                    <span className="text-sm font-medium text-slate-700">Tổng số câu</span>
+                    <span className="text-sm font-medium text-slate-700">{m.bank.totalCount}</span>
                     <input 
                       className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all" 
                       type="number" 
                       value={tot} 
                       onChange={(e) => setTot(Number(e.target.value))} 
                     />
+                    {fieldError(assembleErrors.total_count)}
                   </label>
                   <label className="col-span-1">
-                    <span className="text-sm font-medium text-slate-700">Trắc nghiệm</span>
+                    <span className="text-sm font-medium text-slate-700">{m.config.mcq}</span>
                     <input 
                       className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-green-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-green-400 transition-all" 
                       type="number" 
                       value={mcq} 
                       onChange={(e) => setMcq(Number(e.target.value))} 
                     />
+                    {fieldError(assembleErrors.mcq_count)}
                   </label>
                   <label className="col-span-1">
-                    <span className="text-sm font-medium text-slate-700">Tự luận</span>
+                    <span className="text-sm font-medium text-slate-700">{m.config.word}</span>
                     <input 
                       className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-pink-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-pink-400 transition-all" 
                       type="number" 
                       value={word} 
                       onChange={(e) => setWord(Number(e.target.value))} 
                     />
+                    {fieldError(assembleErrors.word_count)}
                   </label>
                   <label className="col-span-1">
-                    <span className="text-sm font-medium text-slate-700">Độ khó</span>
+                    <span className="text-sm font-medium text-slate-700">{m.bank.difficulty}</span>
                     <select 
                       className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all" 
                       value={mode} 
                       onChange={(e) => setMode(e.target.value as Mode)}
                     >
-                      <option value="easy_to_hard">Dễ → Khó</option>
-                      <option value="balanced">Cân bằng</option>
-                      <option value="hard_to_easy">Khó → Dễ</option>
+                      {(Object.keys(m.modes) as Mode[]).map((md) => (
+                        <option key={md} value={md}>{m.modes[md]}</option>
+                      ))}
                     </select>
+                    {fieldError(assembleErrors.mode)}
                   </label>
+                  <label className="col-span-1">
+                    <span className="text-sm font-medium text-slate-700">{m.bank.variants}</span>
+                    <select
+                      className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all"
+                      value={asmVariants}
+                      onChange={(e) => setAsmVariants(Number(e.target.value))}
+                    >
+                      {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map((n) => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {/* Ma trận đề */}
+                <div className="mt-3 rounded-2xl border border-slate-200 bg-gradient-to-r from-slate-50 to-indigo-50/60 p-3">
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={useBlueprint} onChange={(e) => setUseBlueprint(e.target.checked)} />
+                    <SlidersHorizontal className="size-4 text-indigo-600" />
+                    {m.bank.useBlueprint}
+                  </label>
+                  {useBlueprint && (
+                    <div className="mt-3">
+                      <BlueprintEditor
+                        value={blueprint}
+                        onChange={(next) => {
+                          setBlueprint(next);
+                          setAssembleErrors({});
+                        }}
+                        pool={pool}
+                        curation={curation}
+                        settings={{ total_count: tot, mcq_count: mcq, word_count: word, mode }}
+                        errors={assembleErrors}
+                        onLoad={(saved) => {
+                          setBlueprint(saved.blueprint);
+                          setTot(saved.settings.total_count);
+                          setMcq(saved.settings.mcq_count);
+                          setWord(saved.settings.word_count);
+                          setMode(saved.settings.mode);
+                          setAssembleErrors({});
+                        }}
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <div className="mt-3">
@@ -590,30 +1550,36 @@ export default function Home() {
                     whileTap={{ scale: 0.98 }}
                     className="w-full rounded-2xl bg-gradient-to-r from-blue-600 to-purple-600 px-4 py-3 text-white font-medium shadow-xl hover:shadow-2xl transition-all flex items-center justify-center gap-2"
                     type="button"
+                    disabled={loading}
                     onClick={async () => {
-                      if (pool.length === 0) return alert("Hãy upload ngân hàng trước.");
+                      if (pool.length === 0) return setUploadError(m.bank.uploadFirst);
+                      setAssembleErrors({});
+                      const signal = startRequest();
+                      const settings = { total_count: tot, mcq_count: mcq, word_count: word, mode, seed: resolveSeed(cfg.seed) };
+                      const bp = useBlueprint ? blueprint : undefined;
                       try {
-                        setLoading(true);
-                        const exam = await assembleExam({
-                          pool,
-                          total_count: tot,
-                          mcq_count: mcq,
-                          word_count: word,
-                          mode,
-                        });
-                        setProblems(exam);
-                        setExamEval(await evaluateExam(exam));
+                        loadVariants(
+                          await assembleVariants({ pool, curation, ...settings, blueprint: bp }, asmVariants, { signal }),
+                          { config: { ...toGenerationConfig(cfg), seed: settings.seed }, assemble: settings, blueprint: bp },
+                        );
+                        setExamMode(mode);
                         window.scrollTo({ top: 0, behavior: "smooth" });
                       } catch (e: unknown) {
-                        const msg = e instanceof Error ? e.message : String(e);
-                        alert(msg);
+                        reportError(e, (fields) => {
+                          // Ma trận đề liệt kê mọi lỗi trả về; không dùng ma trận thì chỉ các ô số câu / chế độ có chỗ hiện
+                          const shown = Object.keys(fields).filter((f) => useBlueprint || ASSEMBLE_FIELDS.includes(f));
+                          setAssembleErrors(
+                            e instanceof BlueprintConflictError ? conflictFields(e.conflicts, (c) => blueprintMessage(tr, c)) : fields,
+                          );
+                          return shown.length > 0;
+                        });
                       } finally {
-                        setLoading(false);
+                        endRequest(signal);
                       }
                     }}
                   >
                     <Puzzle className="size-4" />
-                    Ráp đề từ ngân hàng
+                    {m.bank.assemble}
                   </motion.button>
                 </div>
               </div>
@@ -635,47 +1601,374 @@ export default function Home() {
                   <div className="p-2 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg">
                     <ListChecks className="size-5" />
                   </div>
-                  <h3 className="text-xl font-bold text-slate-800">Xem trước câu hỏi</h3>
+                  <h3 className="text-xl font-bold text-slate-800">{m.preview.title}</h3>
+                  {problems.length > 0 && (
+                    <div className="ml-auto flex items-center gap-2">
+                      {selected.size > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            regenerate([...selected]);
+                            setSelected(new Set());
+                          }}
+                          className="inline-flex items-center gap-1 text-xs px-3 py-2 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-sm transition"
+                        >
+                          <RefreshCw className="size-3.5" />
+                          {count(m.preview.regenSelected, selected.size)}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={undo}
+                        disabled={!history.canUndo}
+                        className="p-2 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition disabled:opacity-40"
+                        title={m.preview.undo}
+                      >
+                        <Undo2 className="size-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={redo}
+                        disabled={!history.canRedo}
+                        className="p-2 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition disabled:opacity-40"
+                        title={m.preview.redo}
+                      >
+                        <Redo2 className="size-4" />
+                      </button>
+                    </div>
+                  )}
                 </div>
 
-                <div className="space-y-4">
-                  {problems.map((p) => (
-                    <motion.div
+                {/* Save to library */}
+                {problems.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-6">
+                    <input
+                      className="flex-1 min-w-[180px] rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all"
+                      placeholder={m.preview.sheetName}
+                      value={sheetName}
+                      onChange={(e) => setSheetName(e.target.value)}
+                    />
+                    <button
+                      type="button"
+                      onClick={saveWorksheet}
+                      className="inline-flex items-center gap-1 text-xs px-3 py-2 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-sm transition"
+                    >
+                      <Save className="size-3.5" /> {savedSheetId ? m.common.update : m.common.save}
+                    </button>
+                    <Link
+                      href="/library"
+                      className="inline-flex items-center gap-1 text-xs px-3 py-2 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                    >
+                      <Library className="size-3.5" /> {m.common.library}
+                    </Link>
+                    <Link
+                      href="/practice"
+                      onClick={() => stashPractice({ title: sheetName.trim() || m.preview.currentSheet, problems })}
+                      className="inline-flex items-center gap-1 text-xs px-3 py-2 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                    >
+                      <GraduationCap className="size-3.5" /> {m.common.practice}
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={shareSheet}
+                      disabled={loading}
+                      title={m.preview.shareTitle}
+                      className="inline-flex items-center gap-1 text-xs px-3 py-2 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition disabled:opacity-40"
+                    >
+                      <Share2 className="size-3.5" /> {m.preview.share}
+                    </button>
+                  </div>
+                )}
+
+                {/* Variant tabs */}
+                {liveVariants.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-6">
+                    {liveVariants.map((v, i) => (
+                      <button
+                        key={v.code}
+                        type="button"
+                        onClick={() => switchVariant(i)}
+                        className={`px-4 py-2 rounded-xl text-sm font-semibold transition ${
+                          i === activeVariant
+                            ? "bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg"
+                            : "bg-white/70 border border-slate-200 text-slate-700 hover:bg-white"
+                        }`}
+                      >
+                        {t(m.preview.variantTab, { code: v.code })}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => downloadAnswerKeys(liveVariants, exportLayout, { grade: sheetOrigin.config.grade })}
+                      className="ml-auto inline-flex items-center gap-1 text-xs px-3 py-2 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                    >
+                      <Download className="size-3.5" />
+                      {m.preview.answerKeys}
+                    </button>
+                  </div>
+                )}
+
+                {/* Export options */}
+                {problems.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+                    <label>
+                      <span className="text-sm font-medium text-slate-700">{m.preview.format}</span>
+                      <select
+                        className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all"
+                        value={exportFormat}
+                        onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                      >
+                        {EXPORT_FORMATS.map((x) => (
+                          <option key={x.format} value={x.format}>{m.exportFormats[x.format]}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label>
+                      <span className="text-sm font-medium text-slate-700">{m.preview.docTitle}</span>
+                      <input
+                        className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all"
+                        value={exportTitle}
+                        onChange={(e) => setExportOpts((o) => ({ ...o, title: e.target.value }))}
+                      />
+                    </label>
+                    <label>
+                      <span className="text-sm font-medium text-slate-700">{m.preview.header}</span>
+                      <input
+                        className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all"
+                        placeholder={m.preview.headerPlaceholder}
+                        value={exportOpts.header ?? ""}
+                        onChange={(e) => setExportOpts((o) => ({ ...o, header: e.target.value }))}
+                      />
+                    </label>
+                    <label>
+                      <span className="text-sm font-medium text-slate-700">{m.preview.answerLayout}</span>
+                      <select
+                        className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all"
+                        value={exportOpts.answer_layout}
+                        onChange={(e) => setExportOpts((o) => ({ ...o, answer_layout: e.target.value as AnswerLayout }))}
+                      >
+                        {(Object.keys(m.answerLayouts) as AnswerLayout[]).map((al) => (
+                          <option key={al} value={al}>{m.answerLayouts[al]}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="md:col-span-4 grid grid-cols-2 md:grid-cols-5 gap-3">
+                      <label>
+                        <span className="text-sm font-medium text-slate-700">{m.preview.school}</span>
+                        <input
+                          className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all"
+                          placeholder={m.preview.schoolPlaceholder}
+                          value={exportOpts.school ?? ""}
+                          onChange={(e) => setExportOpts((o) => ({ ...o, school: e.target.value }))}
+                        />
+                      </label>
+                      <label>
+                        <span className="text-sm font-medium text-slate-700">{m.preview.className}</span>
+                        <input
+                          className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all"
+                          placeholder={m.preview.classPlaceholder}
+                          value={exportOpts.class_name ?? ""}
+                          onChange={(e) => setExportOpts((o) => ({ ...o, class_name: e.target.value }))}
+                        />
+                      </label>
+                      <label>
+                        <span className="text-sm font-medium text-slate-700">{m.preview.paper}</span>
+                        <select
+                          className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all"
+                          value={exportOpts.paper}
+                          onChange={(e) => setExportOpts((o) => ({ ...o, paper: e.target.value as PaperSize }))}
+                        >
+                          <option value="a4">A4</option>
+                          <option value="letter">Letter</option>
+                        </select>
+                      </label>
+                      <label>
+                        <span className="text-sm font-medium text-slate-700">{m.preview.columns}</span>
+                        <select
+                          className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all"
+                          value={exportOpts.columns}
+                          onChange={(e) => setExportOpts((o) => ({ ...o, columns: Number(e.target.value) as 1 | 2 | 3 }))}
+                        >
+                          {[1, 2, 3].map((n) => (
+                            <option key={n} value={n}>{count(m.preview.columnsN, n)}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label>
+                        <span className="text-sm font-medium text-slate-700">{m.preview.answerStyle}</span>
+                        <select
+                          className="w-full rounded-xl border-0 bg-gradient-to-r from-slate-50 to-indigo-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-indigo-400 transition-all"
+                          value={exportOpts.answer_style}
+                          onChange={(e) => setExportOpts((o) => ({ ...o, answer_style: e.target.value as AnswerStyle }))}
+                        >
+                          {(Object.keys(m.answerStyles) as AnswerStyle[]).map((st) => (
+                            <option key={st} value={st}>{m.answerStyles[st]}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                    {/* Phiếu tô và đáp án dùng đúng thứ tự phương án như bản xem trước bên dưới */}
+                    {problems.some(isMcq) && (
+                      <div className="md:col-span-4 flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium text-slate-700">{m.preview.bubbleSheet}</span>
+                        {(["sheet", "key"] as const).map((kind) => (
+                          <button
+                            key={kind}
+                            type="button"
+                            disabled={downloading !== "none"}
+                            aria-busy={downloading === kind}
+                            onClick={() => handleBubbleSheet(kind)}
+                            className="inline-flex items-center gap-1 text-xs px-3 py-2 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition disabled:opacity-40"
+                          >
+                            {downloading === kind ? <Loader2 className="size-3.5 animate-spin" /> : <ListChecks className="size-3.5" />}
+                            {m.bubbleSheet[kind]}
+                          </button>
+                        ))}
+                        {liveVariants.length > 1 && (
+                          <span className="text-xs text-slate-500">{count(m.preview.bubbleMerged, liveVariants.length)}</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <Reorder.Group
+                  axis="y"
+                  values={problems}
+                  onReorder={(next) => editProblems(() => next, { transient: true })}
+                  className="space-y-4"
+                >
+                  {problems.map((p, i) => (
+                    <Reorder.Item
                       key={p.id}
+                      value={p}
+                      dragListener={editingId !== p.id}
+                      onDragStart={() => history.checkpoint()}
+                      onDragEnd={requestEval}
                       initial={{ opacity: 0, y: 4 }}
                       animate={{ opacity: 1, y: 0 }}
                       className="p-4 rounded-2xl bg-gradient-to-r from-slate-50 to-blue-50 border border-slate-200 flex items-start justify-between gap-3"
                     >
-                      <div className="flex-1">
-                        <div className="font-semibold">{p.id}. {p.text}</div>
-
-                        {/* MCQ block */}
-                        {p.kind === "arithmetic" && p.distractors && p.distractors.length >= 3 && (
-                          <div className="text-sm mt-2 grid grid-cols-2 sm:grid-cols-4 gap-2">
-                            <span className="rounded-lg bg-white/70 px-2 py-1 border border-slate-200">A) {p.distractors[0]}</span>
-                            <span className="rounded-lg bg-white/70 px-2 py-1 border border-slate-200">B) {p.answer}</span>
-                            <span className="rounded-lg bg-white/70 px-2 py-1 border border-slate-200">C) {p.distractors[1]}</span>
-                            <span className="rounded-lg bg-white/70 px-2 py-1 border border-slate-200">D) {p.distractors[2]}</span>
+                      {editingId === p.id ? (
+                        <ProblemEditor
+                          problem={p}
+                          onSave={saveProblem}
+                          onCancel={() => {
+                            // Câu vừa thêm mà chưa lưu thì bỏ luôn
+                            if (!p.text) deleteProblem(p.id);
+                            setEditingId(null);
+                          }}
+                        />
+                      ) : (
+                        <>
+                          <GripVertical className="size-4 mt-1 shrink-0 text-slate-400 cursor-grab" />
+                          <input
+                            type="checkbox"
+                            className="mt-1 w-4 h-4 rounded border-slate-300"
+                            checked={selected.has(p.id)}
+                            onChange={() => toggleSelected(p.id)}
+                            aria-label={t(m.common.selectQuestion, { n: i + 1 })}
+                          />
+                          <div className="flex-1">
+                            <div className="font-semibold">
+                              {i + 1}.{" "}
+                              {p.math?.type === "inline" ? (
+                                <>
+                                  {splitPrompt(p.text)[0] && `${splitPrompt(p.text)[0]}: `}
+                                  <MathView math={p.math} />
+                                </>
+                              ) : (
+                                p.text
+                              )}
+                              {isExtraKind(p.kind) && (
+                                <span className="ml-2 align-middle text-[11px] font-medium rounded-md px-1.5 py-0.5 bg-indigo-50 text-indigo-700 border border-indigo-100">
+                                  {m.kinds[p.kind]}
+                                </span>
+                              )}
+                            </div>
+                            {isBlockMath(p.math) && (
+                              <div className="mt-2 pl-5">
+                                <MathView math={p.math} />
+                              </div>
+                            )}
+
+                            {/* MCQ block — đúng thứ tự đã lưu trong options, như trong file đáp án */}
+                            {(() => {
+                              const mcq = mcqOptions(p);
+                              if (!mcq) return null;
+                              return (
+                                <div className="text-sm mt-2 grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                  {mcq.options.map((o, j) => (
+                                    <span
+                                      key={j}
+                                      className={`rounded-lg bg-white/70 px-2 py-1 border ${
+                                        OPTION_LETTERS[j] === mcq.correct ? "border-emerald-400" : "border-slate-200"
+                                      }`}
+                                    >
+                                      {OPTION_LETTERS[j]}) {o}
+                                    </span>
+                                  ))}
+                                </div>
+                              );
+                            })()}
                           </div>
-                        )}
-                      </div>
 
-                      <div className="flex flex-col items-end gap-2">
-                        {diffBadge(p.difficulty)}
-                        <button
-                          onClick={() => copyQuestion(p)}
-                          className="text-xs px-3 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
-                          title="Sao chép câu hỏi"
-                        >
-                          Sao chép
-                        </button>
-                      </div>
-                    </motion.div>
+                          <div className="flex flex-col items-end gap-2">
+                            {(() => {
+                              const d = difficultyOf(p);
+                              return diffBadge(d.value, d.tooltip);
+                            })()}
+                            <div className="flex gap-1">
+                              <button
+                                onClick={() => setEditingId(p.id)}
+                                className="p-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                                title={m.preview.edit}
+                              >
+                                <Pencil className="size-3.5" />
+                              </button>
+                              <button
+                                onClick={() => regenerate([p.id])}
+                                className="p-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                                title={m.preview.regenerate}
+                              >
+                                <RefreshCw className="size-3.5" />
+                              </button>
+                              <button
+                                onClick={() => deleteProblem(p.id)}
+                                className="p-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-rose-50 hover:text-rose-600 shadow-sm transition"
+                                title={m.preview.remove}
+                              >
+                                <Trash2 className="size-3.5" />
+                              </button>
+                            </div>
+                            <button
+                              onClick={() => copyQuestion(p, i)}
+                              className="text-xs px-3 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+                              title={m.preview.copyTitle}
+                            >
+                              {m.preview.copy}
+                            </button>
+                          </div>
+                        </>
+                      )}
+                    </Reorder.Item>
                   ))}
+                </Reorder.Group>
+
+                <div className="space-y-4 mt-4">
+                  {problems.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={addProblem}
+                      className="w-full inline-flex items-center justify-center gap-2 rounded-2xl border-2 border-dashed border-slate-300 py-3 text-sm text-slate-600 hover:border-blue-400 hover:text-blue-600 transition"
+                    >
+                      <Plus className="size-4" /> {m.preview.add}
+                    </button>
+                  )}
 
                   {problems.length === 0 && (
                     <div className="text-slate-500 text-sm">
-                      Chưa có dữ liệu — hãy Generate hoặc Upload & Ráp đề.
+                      {m.preview.empty}
                     </div>
                   )}
                 </div>
@@ -695,7 +1988,7 @@ export default function Home() {
                   <div className="p-2 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-600 text-white shadow-lg">
                     <BrainCircuit className="size-5" />
                   </div>
-                  <h3 className="text-xl font-bold text-slate-800">Đánh giá đề</h3>
+                  <h3 className="text-xl font-bold text-slate-800">{m.evaluation.title}</h3>
                 </div>
 
                 {examEval ? (
@@ -703,22 +1996,29 @@ export default function Home() {
                     {/* KPI row */}
                     <div className="grid md:grid-cols-3 gap-4">
                       <div className="rounded-2xl border p-4 bg-white/70">
-                        <div className="text-sm text-slate-500 mb-1">Độ khó trung bình</div>
-                        <div className="text-2xl font-bold">{examEval.avg_difficulty.toFixed(2)}</div>
+                        <div className="text-sm text-slate-500 mb-1">{m.evaluation.avgDifficulty}</div>
+                        <div className="text-2xl font-bold">{dec(examEval.avg_difficulty)}</div>
                         <div className="mt-2 text-sm text-slate-600 flex items-center gap-2">
                           <TrendingUp className="size-4 text-purple-600" />
-                          E:{examEval.buckets?.easy ?? 0} • M:{examEval.buckets?.medium ?? 0} • H:{examEval.buckets?.hard ?? 0}
+                          {t(m.evaluation.bucketsShort, {
+                            easy: examEval.buckets?.easy ?? 0,
+                            medium: examEval.buckets?.medium ?? 0,
+                            hard: examEval.buckets?.hard ?? 0,
+                          })}
                         </div>
                       </div>
 
                       <div className="rounded-2xl border p-4 bg-white/70">
-                        <div className="text-sm text-slate-500 mb-1">Theo loại</div>
-                        <div className="text-sm">Số học: <b>{examEval.by_kind?.arithmetic ?? 0}</b></div>
-                        <div className="text-sm">Lời văn: <b>{examEval.by_kind?.word ?? 0}</b></div>
+                        <div className="text-sm text-slate-500 mb-1">{m.evaluation.byKind}</div>
+                        <div className="text-sm">{m.kinds.arithmetic}: <b>{examEval.by_kind?.arithmetic ?? 0}</b></div>
+                        <div className="text-sm">{m.kinds.word}: <b>{examEval.by_kind?.word ?? 0}</b></div>
+                        {EXTRA_KINDS.filter((k) => examEval.by_kind?.[k]).map((k) => (
+                          <div key={k} className="text-sm">{m.kinds[k]}: <b>{examEval.by_kind[k]}</b></div>
+                        ))}
                       </div>
 
                       <div className="rounded-2xl border p-4 bg-white/70">
-                        <div className="text-sm text-slate-500 mb-1">Theo phép toán</div>
+                        <div className="text-sm text-slate-500 mb-1">{m.evaluation.byOp}</div>
                         <div className="text-sm flex flex-wrap gap-2">
                           {(["+","-","×","÷"] as Operation[]).map(op => (
                             <span key={op} className="rounded-lg bg-slate-100 px-2 py-1 border border-slate-200">
@@ -731,7 +2031,7 @@ export default function Home() {
 
                     {/* Distribution bar */}
                     <div>
-                      <div className="text-sm text-slate-500 mb-2">Phân bố độ khó</div>
+                      <div className="text-sm text-slate-500 mb-2">{m.evaluation.distribution}</div>
                       <div className="h-3 w-full overflow-hidden rounded-full bg-slate-200">
                         <motion.div
                           className="h-full bg-gradient-to-r from-emerald-400 to-emerald-600"
@@ -755,30 +2055,243 @@ export default function Home() {
                         />
                       </div>
                       <div className="mt-2 flex items-center gap-4 text-xs text-slate-600">
-                        <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-emerald-500" /> Dễ {pct(examEval.buckets?.easy ?? 0)}%</span>
-                        <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-orange-500" /> Trung bình {pct(examEval.buckets?.medium ?? 0)}%</span>
-                        <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-rose-500" /> Khó {pct(examEval.buckets?.hard ?? 0)}%</span>
+                        <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-emerald-500" /> {m.bands.easy} {pct(examEval.buckets?.easy ?? 0)}%</span>
+                        <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-orange-500" /> {m.bands.medium} {pct(examEval.buckets?.medium ?? 0)}%</span>
+                        <span className="inline-flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-rose-500" /> {m.bands.hard} {pct(examEval.buckets?.hard ?? 0)}%</span>
+                      </div>
+                    </div>
+
+                    {/* Histogram */}
+                    <div>
+                      <div className="text-sm text-slate-500 mb-2">{m.evaluation.histogram}</div>
+                      <div className="flex items-end gap-1 h-24">
+                        {examEval.histogram.map((n, i) => {
+                          const peak = Math.max(1, ...examEval.histogram);
+                          return (
+                            <div key={i} className="flex-1 flex flex-col items-center justify-end h-full" title={count(m.evaluation.histogramBar, n, { from: dec(i / 10, 1), to: dec((i + 1) / 10, 1) })}>
+                              {n > 0 && <span className="text-[10px] text-slate-500">{n}</span>}
+                              <motion.div
+                                className={`w-full rounded-t-md ${i < 3 ? "bg-emerald-500" : i < 7 ? "bg-orange-500" : "bg-rose-500"}`}
+                                initial={{ height: 0 }}
+                                animate={{ height: `${(n / peak) * 80}%` }}
+                                transition={{ type: "spring", stiffness: 100, damping: 20 }}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <div className="mt-1 flex justify-between text-[10px] text-slate-400">
+                        <span>0</span><span>{num(0.5)}</span><span>1</span>
+                      </div>
+                    </div>
+
+                    {/* Detailed analytics */}
+                    <div className="grid md:grid-cols-2 gap-4 text-sm">
+                      <div className="rounded-2xl border p-4 bg-white/70">
+                        <div className="text-slate-500 mb-1">{m.evaluation.ordering}</div>
+                        <div>
+                          {m.evaluation.ascending}: <b>{pct100(examEval.ordering.ascending)}%</b> • {m.evaluation.descending}:{" "}
+                          <b>{pct100(examEval.ordering.descending)}%</b>
+                        </div>
+                        <div className="text-slate-600">{count(m.evaluation.inversions, examEval.ordering.inversions)}</div>
+                        {examMode && examMode !== "balanced" && (() => {
+                          const score = examMode === "easy_to_hard" ? examEval.ordering.ascending : examEval.ordering.descending;
+                          return (
+                            <div className={`mt-1 font-medium ${score === 1 ? "text-emerald-600" : "text-amber-600"}`}>
+                              {m.modes[examMode]}:{" "}
+                              {score === 1 ? m.evaluation.perfectOrder : t(m.evaluation.partialOrder, { pct: pct100(score) })}
+                            </div>
+                          );
+                        })()}
+                      </div>
+
+                      <div className="rounded-2xl border p-4 bg-white/70">
+                        <div className="text-slate-500 mb-1">{m.evaluation.time}</div>
+                        <div className="text-2xl font-bold">{count(m.evaluation.minutes, examEval.estimated_minutes)}</div>
+                      </div>
+
+                      <div className="rounded-2xl border p-4 bg-white/70">
+                        <div className="text-slate-500 mb-1">{m.evaluation.answers}</div>
+                        {examEval.answers ? (
+                          <>
+                            <div>
+                              {m.evaluation.answerRange} <b>{num(examEval.answers.min)}</b> {m.evaluation.answerRangeTo}{" "}
+                              <b>{num(examEval.answers.max)}</b> • {m.evaluation.answerMean} {dec(examEval.answers.mean, 1)}
+                            </div>
+                            {examEval.answers.non_numeric > 0 && (
+                              <div className="text-slate-600">{count(m.evaluation.nonNumeric, examEval.answers.non_numeric)}</div>
+                            )}
+                          </>
+                        ) : (
+                          <div className="text-slate-600">{m.evaluation.noNumeric}</div>
+                        )}
+                      </div>
+
+                      <div className="rounded-2xl border p-4 bg-white/70">
+                        <div className="text-slate-500 mb-1">{m.evaluation.skills}</div>
+                        <div>
+                          {m.evaluation.carry}: <b>{examEval.steps.carry}</b> • {m.evaluation.borrow}: <b>{examEval.steps.borrow}</b> •{" "}
+                          {m.evaluation.remainder}: <b>{examEval.steps.remainder}</b>
+                        </div>
+                        <div className="text-slate-600">{count(m.evaluation.parsed, examEval.steps.parsed)}</div>
                       </div>
                     </div>
 
+                    {/* Duplicates */}
+                    {examEval.duplicates.length > 0 && (
+                      <div className="rounded-2xl border border-amber-200 p-4 bg-amber-50/70 text-sm">
+                        <div className="text-amber-800 font-medium mb-2">{m.evaluation.duplicates}</div>
+                        <ul className="list-disc pl-5 space-y-1">
+                          {examEval.duplicates.map((g) => (
+                            <li key={g.join("-")}>
+                              {g.map((id) => t(m.common.question, { n: problems.findIndex((p) => p.id === id) + 1 })).join(" ≈ ")}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {/* Variant comparison */}
+                    {liveVariants.length > 1 && (
+                      <div className="rounded-2xl border p-4 bg-white/70 overflow-x-auto">
+                        <div className="text-sm text-slate-500 mb-2">{m.evaluation.compare}</div>
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-slate-500">
+                              <th className="py-1 pr-3 font-medium">{m.evaluation.code}</th>
+                              <th className="py-1 pr-3 font-medium">{m.bank.avgDifficulty}</th>
+                              <th className="py-1 pr-3 font-medium">{m.evaluation.bandsShort}</th>
+                              <th className="py-1 pr-3 font-medium">{m.evaluation.kindsShort}</th>
+                              {(["+","-","×","÷"] as Operation[]).map((op) => (
+                                <th key={op} className="py-1 pr-3 font-medium">{op}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {liveVariants.map((v, i) => (
+                              <tr key={v.code} className={i === activeVariant ? "font-semibold" : ""}>
+                                <td className="py-1 pr-3">{t(m.preview.variantTab, { code: v.code })}</td>
+                                <td className="py-1 pr-3">{v.evaluation ? dec(v.evaluation.avg_difficulty) : "—"}</td>
+                                <td className="py-1 pr-3">
+                                  {v.evaluation
+                                    ? `${v.evaluation.buckets.easy ?? 0}/${v.evaluation.buckets.medium ?? 0}/${v.evaluation.buckets.hard ?? 0}`
+                                    : "—"}
+                                </td>
+                                <td className="py-1 pr-3">
+                                  {v.evaluation ? `${v.evaluation.by_kind.arithmetic ?? 0}/${v.evaluation.by_kind.word ?? 0}` : "—"}
+                                </td>
+                                {(["+","-","×","÷"] as Operation[]).map((op) => (
+                                  <td key={op} className="py-1 pr-3">{v.evaluation?.by_op[op] ?? 0}</td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
                     {/* Notes */}
-                    {examEval.notes?.length > 0 && (
+                    {examEval.note_codes.length > 0 && (
                       <div className="rounded-2xl border p-4 bg-white/70">
-                        <div className="text-sm text-slate-500 mb-2">Ghi chú</div>
+                        <div className="text-sm text-slate-500 mb-2">{m.evaluation.notes}</div>
                         <ul className="list-disc pl-5 space-y-1 text-sm">
-                          {examEval.notes.map((n, i) => <li key={i}>{n}</li>)}
+                          {examEval.note_codes.map((n) => <li key={n.code}>{noteMessage(tr, n)}</li>)}
                         </ul>
                       </div>
                     )}
                   </div>
                 ) : (
-                  <div className="text-slate-500 text-sm">Chưa có dữ liệu đánh giá.</div>
+                  <div className="text-slate-500 text-sm">{m.evaluation.empty}</div>
                 )}
               </div>
             </motion.div>
           </div>
         </div>
       </section>
+
+      {/* Import preview */}
+      {importQueue.length > 0 && (
+        <section id="import-preview" className="relative">
+          <div className="container mx-auto max-w-7xl px-6 py-8">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="relative backdrop-blur-xl bg-white/80 border border-white/50 rounded-3xl p-8 shadow-2xl"
+            >
+              <div className="flex items-center gap-3 mb-6">
+                <div className="p-2 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-600 text-white shadow-lg">
+                  <UploadCloud className="size-5" />
+                </div>
+                <h3 className="text-xl font-bold text-slate-800">
+                  {m.importPreview.title}
+                  {importQueue.length > 1 && count(m.importPreview.queued, importQueue.length)}
+                </h3>
+              </div>
+              <ImportPreview
+                key={`${importQueue[0].fileName}-${importQueue.length}`}
+                fileName={importQueue[0].fileName}
+                rows={importQueue[0].rows}
+                onCancel={() => setImportQueue((q) => q.slice(1))}
+                onCommit={(items) => {
+                  addToPool([{ fileName: importQueue[0].fileName, problems: items }]);
+                  setImportQueue((q) => q.slice(1));
+                }}
+              />
+            </motion.div>
+          </div>
+        </section>
+      )}
+
+      {/* Bank manager */}
+      {showBank && pool.length > 0 && (
+        <section id="bank-manager" className="relative">
+          <div className="container mx-auto max-w-7xl px-6 py-8">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="relative backdrop-blur-xl bg-white/80 border border-white/50 rounded-3xl p-8 shadow-2xl"
+            >
+              <div className="flex items-center gap-3 mb-6">
+                <div className="p-2 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-600 text-white shadow-lg">
+                  <Database className="size-5" />
+                </div>
+                <h3 className="text-xl font-bold text-slate-800">
+                  {m.bank.managerTitle}
+                  {poolName && ` – ${poolName}`}
+                </h3>
+              </div>
+              <BankManager pool={pool} onPoolChange={changePool} curation={curation} onCurationChange={setCuration} />
+            </motion.div>
+          </div>
+        </section>
+      )}
+
+      {/* Toasts */}
+      <div className="fixed bottom-6 right-6 z-50 flex flex-col gap-3 max-w-sm" role="status" aria-live="polite">
+        {toasts.map((t) => (
+          <motion.div
+            key={t.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={`flex items-start gap-3 rounded-2xl px-4 py-3 shadow-2xl backdrop-blur-xl border text-sm ${
+              t.tone === "error"
+                ? "bg-rose-50/95 border-rose-200 text-rose-800"
+                : "bg-white/95 border-slate-200 text-slate-700"
+            }`}
+          >
+            <AlertCircle className="size-4 mt-0.5 shrink-0" />
+            <span className="flex-1">{t.message}</span>
+            <button
+              type="button"
+              onClick={() => setToasts((ts) => ts.filter((x) => x.id !== t.id))}
+              className="opacity-60 hover:opacity-100"
+              aria-label={m.common.close}
+            >
+              <X className="size-4" />
+            </button>
+          </motion.div>
+        ))}
+      </div>
     </div>
   );
 }
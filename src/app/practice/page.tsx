@@ -0,0 +1,396 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { ArrowLeft, ArrowRight, Check, ClipboardCheck, GraduationCap, RotateCcw, X } from "lucide-react";
+
+import MathView from "@/components/MathView";
+import type { Operation, Problem } from "@/lib/types";
+import { isBlockMath, splitPrompt } from "@/lib/math";
+import { mcqOptions, OPTION_LETTERS } from "@/lib/mcq";
+import { worksheets } from "@/lib/storage/library";
+import {
+  gradeOne, gradePractice, readStashedPractice, scoreOutOf10,
+  type PracticeMode, type PracticeReport, type PracticeResult, type PracticeSet, type Tally,
+} from "@/lib/practice";
+import type { Band } from "@/lib/bank";
+import { useI18n } from "@/hooks/useI18n";
+import { errorMessage } from "@/lib/i18n";
+
+const OPS: (Operation | "other")[] = ["+", "-", "×", "÷", "other"];
+const BANDS: Band[] = ["easy", "medium", "hard"];
+
+const pct = (t: Tally) => (t.total ? Math.round((t.correct / t.total) * 100) : 0);
+
+function QuestionText({ p, index }: { p: Problem; index: number }) {
+  return (
+    <>
+      <div className="font-semibold">
+        {index + 1}.{" "}
+        {p.math?.type === "inline" ? (
+          <>
+            {splitPrompt(p.text)[0] && `${splitPrompt(p.text)[0]}: `}
+            <MathView math={p.math} />
+          </>
+        ) : (
+          p.text
+        )}
+      </div>
+      {isBlockMath(p.math) && (
+        <div className="mt-2 pl-5">
+          <MathView math={p.math} />
+        </div>
+      )}
+    </>
+  );
+}
+
+/** Ô trả lời: câu trắc nghiệm bấm chọn phương án (lưu chữ cái), câu tự luận gõ tự do. */
+function AnswerInput({
+  p, value, onChange, onEnter, locked,
+}: {
+  p: Problem;
+  value: string;
+  onChange: (v: string) => void;
+  onEnter?: () => void;
+  locked: boolean;
+}) {
+  const { m } = useI18n();
+  const mcq = mcqOptions(p);
+  if (mcq) {
+    return (
+      <div className="text-sm mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {mcq.options.map((o, j) => {
+          const letter = OPTION_LETTERS[j];
+          return (
+            <button
+              key={j}
+              type="button"
+              disabled={locked}
+              onClick={() => onChange(letter)}
+              className={`text-left rounded-lg px-3 py-2 border transition ${
+                value === letter
+                  ? "bg-gradient-to-r from-blue-600 to-purple-600 text-white border-transparent shadow"
+                  : "bg-white/80 border-slate-200 hover:bg-white"
+              } disabled:cursor-default`}
+            >
+              {letter}) {o}
+            </button>
+          );
+        })}
+      </div>
+    );
+  }
+  return (
+    <input
+      className="mt-3 w-full max-w-xs rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all disabled:opacity-70"
+      placeholder={m.practice.answerPlaceholder}
+      value={value}
+      disabled={locked}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" && onEnter) {
+          e.preventDefault();
+          onEnter();
+        }
+      }}
+    />
+  );
+}
+
+function Feedback({ r }: { r: PracticeResult }) {
+  const { m } = useI18n();
+  return r.correct ? (
+    <div className="mt-2 inline-flex items-center gap-1 text-sm text-emerald-700">
+      <Check className="size-4" /> {m.practice.correct}
+    </div>
+  ) : (
+    <div className="mt-2 inline-flex items-center gap-1 text-sm text-rose-700">
+      <X className="size-4" /> {r.given.trim() ? m.practice.wrong : m.practice.unanswered} — {m.practice.expected}{" "}
+      <b>{r.expected}</b>
+    </div>
+  );
+}
+
+function TallyTable({ title, rows }: { title: string; rows: [string, Tally][] }) {
+  return (
+    <div className="rounded-2xl bg-white/70 border border-slate-200 p-4">
+      <div className="text-sm font-semibold text-slate-700 mb-2">{title}</div>
+      <table className="w-full text-sm">
+        <tbody>
+          {rows.map(([label, t]) => (
+            <tr key={label} className="border-t border-slate-100 first:border-0">
+              <td className="py-1">{label}</td>
+              <td className="py-1 text-right tabular-nums">
+                {t.correct}/{t.total}
+              </td>
+              <td className="py-1 pl-3 w-24">
+                <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-blue-500 to-purple-600" style={{ width: `${pct(t)}%` }} />
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function PracticePage() {
+  const [set, setSet] = useState<PracticeSet | null>(null);
+  const tr = useI18n();
+  const { m, t, count } = tr;
+  const [error, setError] = useState<unknown>(null);
+  // Lỗi đã biết giữ dạng khóa để đổi ngôn ngữ giao diện vẫn hiện đúng
+  const [missing, setMissing] = useState<"noSet" | "notFound" | null>(null);
+  const [variantCode, setVariantCode] = useState<string | undefined>();
+  const [mode, setMode] = useState<PracticeMode>("single");
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  // Câu đã bấm "Kiểm tra" ở chế độ từng câu
+  const [checked, setChecked] = useState<Record<number, PracticeResult>>({});
+  const [index, setIndex] = useState(0);
+  const [report, setReport] = useState<PracticeReport | null>(null);
+
+  // Nguồn câu hỏi: /practice?worksheet=<id>[&variant=B] hoặc bộ câu vừa chuyển từ trang tạo đề
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const sheetId = params.get("worksheet");
+    (async () => {
+      try {
+        if (!sheetId) {
+          const stashed = readStashedPractice();
+          if (!stashed?.problems.length) return setMissing("noSet");
+          return setSet(stashed);
+        }
+        const w = await worksheets.get(sheetId);
+        if (!w) return setMissing("notFound");
+        const code = params.get("variant");
+        const variant = code ? w.variants?.find((v) => v.code === code) : undefined;
+        setVariantCode(variant?.code);
+        setSet({ title: w.name, problems: variant?.problems ?? w.problems });
+      } catch (e: unknown) {
+        setError(e);
+      }
+    })();
+  }, []);
+
+  const problems = set?.problems ?? [];
+  const current = problems[index];
+  const answer = (id: number) => answers[id] ?? "";
+  const setAnswer = (id: number, v: string) => setAnswers((a) => ({ ...a, [id]: v }));
+
+  const restart = (next: PracticeMode = mode) => {
+    setMode(next);
+    setAnswers({});
+    setChecked({});
+    setIndex(0);
+    setReport(null);
+  };
+
+  const checkCurrent = () => {
+    if (!current || checked[current.id]) return;
+    setChecked((c) => ({ ...c, [current.id]: gradeOne(current, answer(current.id)) }));
+  };
+
+  const submit = () => setReport(gradePractice(problems, answers));
+
+  const resultOf = (id: number) => report?.results.find((r) => r.id === id) ?? checked[id];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-purple-50/30">
+      <div className="container mx-auto max-w-4xl px-6 py-12 space-y-8">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/"
+            className="p-2 rounded-xl bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+            title={m.common.backHome}
+          >
+            <ArrowLeft className="size-5" />
+          </Link>
+          <div className="p-2 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg">
+            <GraduationCap className="size-5" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-3xl font-bold text-slate-800">{m.practice.title}</h1>
+            {set && (
+              <div className="text-sm text-slate-500 truncate">
+                {variantCode ? t(m.practice.variantTitle, { name: set.title, code: variantCode }) : set.title} •{" "}
+                {count(m.common.questions, problems.length)}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {(error != null || missing) && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {error != null ? errorMessage(tr, error) : (missing === "noSet" ? m.practice.noSet : m.toast.sheetNotFound)}
+          </div>
+        )}
+
+        {set && problems.length > 0 && (
+          <div className="relative backdrop-blur-xl bg-white/80 border border-white/50 rounded-3xl p-8 shadow-2xl space-y-6">
+            <div className="flex flex-wrap items-center gap-3">
+              {([
+                ["single", m.practice.single],
+                ["page", m.practice.page],
+              ] as const).map(([key, label]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => key !== mode && restart(key)}
+                  className={`px-4 py-2 rounded-xl text-sm font-semibold transition ${
+                    mode === key
+                      ? "bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg"
+                      : "bg-white/70 border border-slate-200 text-slate-700 hover:bg-white"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => restart()}
+                className="ml-auto inline-flex items-center gap-1 text-xs px-3 py-2 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+              >
+                <RotateCcw className="size-3.5" /> {m.practice.restart}
+              </button>
+            </div>
+
+            {/* Kết quả cuối: điểm, rồi tỉ lệ đúng theo phép toán và theo mức độ */}
+            {report && (
+              <motion.div
+                initial={{ opacity: 0, y: 8 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="p-6 rounded-2xl bg-gradient-to-r from-blue-50 to-purple-50 border border-blue-100 space-y-4"
+              >
+                <div className="flex flex-wrap items-baseline gap-4">
+                  <div className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+                    {t(m.practice.score, { score: scoreOutOf10(report.score) })}
+                  </div>
+                  <div className="text-slate-600">
+                    {t(m.practice.correctOf, { correct: report.score.correct, total: report.score.total, pct: pct(report.score) })}
+                  </div>
+                </div>
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <TallyTable
+                    title={m.practice.byOp}
+                    rows={OPS.filter((k) => report.by_op[k]).map((k) => [m.ops[k], report.by_op[k]!])}
+                  />
+                  <TallyTable
+                    title={m.practice.byBand}
+                    rows={BANDS.filter((k) => report.by_band[k]).map((k) => [m.bands[k], report.by_band[k]!])}
+                  />
+                </div>
+              </motion.div>
+            )}
+
+            {mode === "single" && !report && current && (
+              <div className="space-y-4">
+                <div className="flex items-center gap-3 text-sm text-slate-500">
+                  {t(m.practice.progress, { n: index + 1, total: problems.length })}
+                  <div className="flex-1 h-2 rounded-full bg-slate-100 overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all"
+                      style={{ width: `${(Object.keys(checked).length / problems.length) * 100}%` }}
+                    />
+                  </div>
+                </div>
+                <motion.div
+                  key={current.id}
+                  initial={{ opacity: 0, x: 12 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  className="p-6 rounded-2xl bg-gradient-to-r from-slate-50 to-blue-50 border border-slate-200"
+                >
+                  <QuestionText p={current} index={index} />
+                  <AnswerInput
+                    p={current}
+                    value={answer(current.id)}
+                    onChange={(v) => setAnswer(current.id, v)}
+                    onEnter={checkCurrent}
+                    locked={!!checked[current.id]}
+                  />
+                  {checked[current.id] && (
+                    <div>
+                      <Feedback r={checked[current.id]} />
+                    </div>
+                  )}
+                </motion.div>
+                <div className="flex justify-end gap-2">
+                  {!checked[current.id] ? (
+                    <button
+                      type="button"
+                      onClick={checkCurrent}
+                      disabled={!answer(current.id).trim()}
+                      className="inline-flex items-center gap-1 text-sm px-4 py-2 rounded-xl bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg transition disabled:opacity-50"
+                    >
+                      <Check className="size-4" /> {m.practice.check}
+                    </button>
+                  ) : index < problems.length - 1 ? (
+                    <button
+                      type="button"
+                      onClick={() => setIndex((i) => i + 1)}
+                      className="inline-flex items-center gap-1 text-sm px-4 py-2 rounded-xl bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg transition"
+                    >
+                      {m.practice.next} <ArrowRight className="size-4" />
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={submit}
+                      className="inline-flex items-center gap-1 text-sm px-4 py-2 rounded-xl bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg transition"
+                    >
+                      <ClipboardCheck className="size-4" /> {m.practice.results}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Cả trang, hoặc xem lại từng câu sau khi đã có kết quả */}
+            {(mode === "page" || report) && (
+              <div className="space-y-3">
+                {problems.map((p, i) => {
+                  const r = resultOf(p.id);
+                  return (
+                    <div
+                      key={p.id}
+                      className={`p-4 rounded-2xl border bg-gradient-to-r from-slate-50 to-blue-50 ${
+                        r ? (r.correct ? "border-emerald-300" : "border-rose-300") : "border-slate-200"
+                      }`}
+                    >
+                      <QuestionText p={p} index={i} />
+                      <AnswerInput
+                        p={p}
+                        value={answer(p.id)}
+                        onChange={(v) => setAnswer(p.id, v)}
+                        locked={!!report}
+                      />
+                      {report && r && (
+                        <div>
+                          <Feedback r={r} />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {!report && (
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={submit}
+                      className="inline-flex items-center gap-1 text-sm px-4 py-2 rounded-xl bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg transition"
+                    >
+                      <ClipboardCheck className="size-4" /> {m.practice.submit}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
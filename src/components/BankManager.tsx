@@ -0,0 +1,305 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Ban, ChevronLeft, ChevronRight, Copy as CopyIcon, Pencil, Pin, Search, Tag, Trash2,
+} from "lucide-react";
+
+import type { Operation, Problem } from "@/lib/types";
+import {
+  EMPTY_FILTER, filterBank, sourcesOf, tagProblems, type Band, type BankFilter, type Curation,
+} from "@/lib/bank";
+import { findDuplicateGroups } from "@/lib/dedupe";
+import { opOf } from "@/lib/local/evaluate";
+import { useI18n } from "@/hooks/useI18n";
+import ProblemEditor from "./ProblemEditor";
+
+const PAGE_SIZE = 20;
+
+const inputCls =
+  "rounded-xl border-0 bg-gradient-to-r from-slate-50 to-blue-50 px-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all";
+const chipBtn =
+  "inline-flex items-center gap-1 text-xs px-2.5 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition";
+
+const toggle = (ids: number[], id: number) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]);
+
+export default function BankManager({
+  pool,
+  onPoolChange,
+  curation,
+  onCurationChange,
+}: {
+  pool: Problem[];
+  onPoolChange: (next: Problem[]) => void;
+  curation: Curation;
+  onCurationChange: (next: Curation) => void;
+}) {
+  const { m, t, count, dec } = useI18n();
+  const [filter, setFilter] = useState<BankFilter>(EMPTY_FILTER);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [topic, setTopic] = useState("");
+  const [grade, setGrade] = useState("");
+  const [showDupes, setShowDupes] = useState(false);
+
+  const rows = useMemo(() => filterBank(pool, filter), [pool, filter]);
+  const pages = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const current = Math.min(page, pages - 1);
+  const visible = rows.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+  const dupes = useMemo(() => (showDupes ? findDuplicateGroups(pool) : []), [pool, showDupes]);
+  const sources = sourcesOf(pool);
+
+  const setF = (patch: Partial<BankFilter>) => {
+    setFilter((f) => ({ ...f, ...patch }));
+    setPage(0);
+  };
+
+  const allVisibleSelected = visible.length > 0 && visible.every((p) => selected.has(p.id));
+  const toggleVisible = () =>
+    setSelected((s) => {
+      const next = new Set(s);
+      visible.forEach((p) => (allVisibleSelected ? next.delete(p.id) : next.add(p.id)));
+      return next;
+    });
+
+  const removeIds = (ids: Set<number>) => {
+    onPoolChange(pool.filter((p) => !ids.has(p.id)));
+    onCurationChange({
+      pinned: curation.pinned.filter((id) => !ids.has(id)),
+      excluded: curation.excluded.filter((id) => !ids.has(id)),
+    });
+    setSelected((s) => new Set([...s].filter((id) => !ids.has(id))));
+  };
+
+  const applyTags = () => {
+    onPoolChange(
+      tagProblems(pool, selected, {
+        topic: topic.trim() || undefined,
+        grade: grade ? Number(grade) : undefined,
+      }),
+    );
+    setTopic("");
+    setGrade("");
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-slate-400" />
+          <input
+            className={`${inputCls} w-full pl-9`}
+            placeholder={m.bankManager.search}
+            value={filter.query}
+            onChange={(e) => setF({ query: e.target.value })}
+          />
+        </label>
+        <select className={inputCls} value={filter.kind} onChange={(e) => setF({ kind: e.target.value as BankFilter["kind"] })}>
+          <option value="">{m.bankManager.allKinds}</option>
+          {Object.entries(m.kinds).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+        </select>
+        <select className={inputCls} value={filter.op} onChange={(e) => setF({ op: e.target.value as Operation | "" })}>
+          <option value="">{m.bankManager.allOps}</option>
+          {(["+", "-", "×", "÷"] as Operation[]).map((op) => <option key={op} value={op}>{op}</option>)}
+        </select>
+        <select className={inputCls} value={filter.band} onChange={(e) => setF({ band: e.target.value as Band | "" })}>
+          <option value="">{m.bankManager.allBands}</option>
+          {(["easy", "medium", "hard"] as Band[]).map((b) => <option key={b} value={b}>{m.bands[b]}</option>)}
+        </select>
+        {sources.length > 1 && (
+          <select className={inputCls} value={filter.source} onChange={(e) => setF({ source: e.target.value })}>
+            <option value="">{m.bankManager.allSources}</option>
+            {sources.map((s) => <option key={s} value={s}>{s || m.common.unknownSource}</option>)}
+          </select>
+        )}
+      </div>
+
+      {/* Bulk actions */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-slate-500">
+          {t(m.bankManager.summary, {
+            shown: rows.length,
+            total: pool.length,
+            pinned: curation.pinned.length,
+            excluded: curation.excluded.length,
+          })}
+          {selected.size > 0 && t(m.bankManager.selected, { n: selected.size })}
+        </span>
+        {selected.size > 0 && (
+          <>
+            <input className={`${inputCls} w-40`} placeholder={m.bankManager.topic} value={topic} onChange={(e) => setTopic(e.target.value)} />
+            <select className={inputCls} value={grade} onChange={(e) => setGrade(e.target.value)}>
+              <option value="">{m.bankManager.grade}</option>
+              {[1, 2, 3, 4, 5].map((n) => <option key={n} value={n}>{t(m.common.grade, { n })}</option>)}
+            </select>
+            <button type="button" className={chipBtn} onClick={applyTags} disabled={!topic.trim() && !grade}>
+              <Tag className="size-3.5" /> {m.bankManager.tag}
+            </button>
+            <button type="button" className={chipBtn} onClick={() => removeIds(selected)}>
+              <Trash2 className="size-3.5" /> {m.bankManager.removeSelected}
+            </button>
+          </>
+        )}
+        <button type="button" className={`${chipBtn} ml-auto`} onClick={() => setShowDupes((v) => !v)}>
+          <CopyIcon className="size-3.5" /> {showDupes ? m.bankManager.hideDupes : m.bankManager.findDupes}
+        </button>
+      </div>
+
+      {/* Duplicates */}
+      {showDupes && (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50/70 p-4 space-y-3 text-sm">
+          {dupes.length === 0 ? (
+            <div className="text-slate-600">{m.bankManager.noDupes}</div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-amber-800">{count(m.bankManager.dupeGroups, dupes.length)}</span>
+                <button
+                  type="button"
+                  className={`${chipBtn} ml-auto`}
+                  onClick={() => removeIds(new Set(dupes.flatMap((g) => g.slice(1).map((p) => p.id))))}
+                >
+                  {m.bankManager.keepFirst}
+                </button>
+              </div>
+              {dupes.map((g, i) => (
+                <ul key={i} className="list-disc pl-5 space-y-0.5">
+                  {g.map((p) => (
+                    <li key={p.id}>
+                      #{p.id} {p.text} <span className="text-slate-500">({p.source ?? "?"})</span>
+                    </li>
+                  ))}
+                </ul>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white/70">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-left text-slate-500">
+            <tr>
+              <th className="p-2 w-8">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleVisible} aria-label={m.bankManager.selectPage} />
+              </th>
+              <th className="p-2 font-medium">#</th>
+              <th className="p-2 font-medium">{m.bankManager.question}</th>
+              <th className="p-2 font-medium">{m.bankManager.answer}</th>
+              <th className="p-2 font-medium">{m.bankManager.kind}</th>
+              <th className="p-2 font-medium">{m.bankManager.difficulty}</th>
+              <th className="p-2 font-medium">{m.bankManager.topicGrade}</th>
+              <th className="p-2 font-medium">{m.bankManager.source}</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((p) => {
+              const pinned = curation.pinned.includes(p.id);
+              const excluded = curation.excluded.includes(p.id);
+              if (editingId === p.id) {
+                return (
+                  <tr key={p.id} className="border-t border-slate-100">
+                    <td colSpan={9} className="p-3">
+                      <ProblemEditor
+                        problem={p}
+                        onSave={(next) => {
+                          onPoolChange(pool.map((x) => (x.id === next.id ? next : x)));
+                          setEditingId(null);
+                        }}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    </td>
+                  </tr>
+                );
+              }
+              return (
+                <tr
+                  key={p.id}
+                  className={`border-t border-slate-100 ${excluded ? "opacity-50 line-through" : ""} ${pinned ? "bg-blue-50/60" : ""}`}
+                >
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(p.id)}
+                      onChange={() =>
+                        setSelected((s) => {
+                          const next = new Set(s);
+                          if (next.has(p.id)) next.delete(p.id);
+                          else next.add(p.id);
+                          return next;
+                        })
+                      }
+                      aria-label={t(m.common.selectQuestion, { n: p.id })}
+                    />
+                  </td>
+                  <td className="p-2 text-slate-500">{p.id}</td>
+                  <td className="p-2 max-w-md">{p.text}</td>
+                  <td className="p-2 font-medium">{p.answer}</td>
+                  <td className="p-2">{p.kind === "arithmetic" ? `${m.kinds.arithmetic} ${opOf(p) ?? ""}` : m.kinds[p.kind]}</td>
+                  <td className="p-2">{p.difficulty == null ? "—" : dec(p.difficulty)}</td>
+                  <td className="p-2">{[p.topic, p.grade && t(m.common.grade, { n: p.grade })].filter(Boolean).join(" • ") || "—"}</td>
+                  <td className="p-2 text-slate-500">{p.source ?? "—"}</td>
+                  <td className="p-2">
+                    <div className="flex justify-end gap-1">
+                      <button type="button" className={chipBtn} onClick={() => setEditingId(p.id)} title={m.bankManager.edit}>
+                        <Pencil className="size-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        className={`${chipBtn} ${pinned ? "text-blue-600 border-blue-300" : ""}`}
+                        onClick={() =>
+                          onCurationChange({
+                            pinned: toggle(curation.pinned, p.id),
+                            excluded: curation.excluded.filter((x) => x !== p.id),
+                          })
+                        }
+                        title={pinned ? m.bankManager.unpin : m.bankManager.pin}
+                      >
+                        <Pin className="size-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        className={`${chipBtn} ${excluded ? "text-rose-600 border-rose-300" : ""}`}
+                        onClick={() =>
+                          onCurationChange({
+                            pinned: curation.pinned.filter((x) => x !== p.id),
+                            excluded: toggle(curation.excluded, p.id),
+                          })
+                        }
+                        title={excluded ? m.bankManager.include : m.bankManager.exclude}
+                      >
+                        <Ban className="size-3.5" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={9} className="p-4 text-center text-slate-500">{m.bankManager.noMatch}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {pages > 1 && (
+        <div className="flex items-center justify-center gap-3 text-sm">
+          <button type="button" className={chipBtn} disabled={current === 0} onClick={() => setPage(current - 1)}>
+            <ChevronLeft className="size-3.5" />
+          </button>
+          <span>{t(m.common.page, { page: current + 1, pages })}</span>
+          <button type="button" className={chipBtn} disabled={current >= pages - 1} onClick={() => setPage(current + 1)}>
+            <ChevronRight className="size-3.5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, FolderOpen, Save, Trash2 } from "lucide-react";
+
+import type { Blueprint, CountRange, Operation, Problem } from "@/lib/types";
+import type { FieldErrors } from "@/lib/errors";
+import { checkBlueprint } from "@/lib/blueprint";
+import { sourcesOf, type Band, type Curation } from "@/lib/bank";
+import { bucketOf, opOf } from "@/lib/local/evaluate";
+import { blueprints, type AssembleSettings, type SavedBlueprint } from "@/lib/storage/library";
+import { blueprintMessage, errorMessage } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+const numCls =
+  "w-16 rounded-lg border-0 bg-white/90 px-2 py-1 text-xs shadow-inner focus:ring-2 focus:ring-indigo-400";
+const chipBtn =
+  "inline-flex items-center gap-1 text-xs px-2.5 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition";
+
+type Group = "by_op" | "by_band" | "by_topic" | "by_source";
+
+const OPS: Operation[] = ["+", "-", "×", "÷"];
+const BANDS: Band[] = ["easy", "medium", "hard"];
+
+const parseCount = (v: string) => (v.trim() === "" ? undefined : Math.max(0, Math.floor(Number(v))));
+
+export default function BlueprintEditor({
+  value,
+  onChange,
+  pool,
+  curation,
+  settings,
+  errors,
+  onLoad,
+}: {
+  value: Blueprint;
+  onChange: (next: Blueprint) => void;
+  pool: Problem[];
+  curation: Curation;
+  settings: AssembleSettings;
+  errors: FieldErrors;
+  onLoad: (saved: SavedBlueprint) => void;
+}) {
+  const tr = useI18n();
+  const { m, t, date } = tr;
+  const [saved, setSaved] = useState<SavedBlueprint[]>([]);
+  const [name, setName] = useState("");
+  const [savedId, setSavedId] = useState<string | undefined>();
+  const [storeError, setStoreError] = useState<unknown>(null);
+
+  const reload = () => blueprints.list().then(setSaved, setStoreError);
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const topics = useMemo(
+    () => [...new Set([...pool.map((p) => p.topic ?? ""), ...Object.keys(value.by_topic)])].filter(Boolean).sort(),
+    [pool, value.by_topic],
+  );
+  const sources = useMemo(() => [...new Set([...sourcesOf(pool), ...Object.keys(value.by_source)])], [pool, value.by_source]);
+  const conflicts = useMemo(() => checkBlueprint(pool, settings, value, curation), [pool, settings, value, curation]);
+  // Mâu thuẫn thấy ngay khi nhập, cộng với mâu thuẫn bộ giải báo về sau lần ráp gần nhất
+  const messages = [...new Set([...conflicts.map((c) => blueprintMessage(tr, c)), ...Object.values(errors)])];
+
+  const available = (match: (p: Problem) => boolean) => pool.filter(match).length;
+
+  const setRange = (group: Group, key: string, patch: Partial<CountRange>) => {
+    const prev = (value[group] as Record<string, CountRange | undefined>)[key] ?? {};
+    const next = { ...prev, ...patch };
+    const entries = { ...(value[group] as Record<string, CountRange>) };
+    if (next.min == null && next.max == null) delete entries[key];
+    else entries[key] = next;
+    onChange({ ...value, [group]: entries });
+  };
+
+  const row = (group: Group, key: string, label: string, count: number) => {
+    const r = (value[group] as Record<string, CountRange | undefined>)[key];
+    const err = errors[`${group}.${key}`] ?? errors[`${group}.${key}.min`];
+    return (
+      <tr key={`${group}.${key}`} className="border-t border-slate-100">
+        <td className="p-1.5">{label}</td>
+        <td className="p-1.5 text-slate-500 text-right">{count}</td>
+        <td className="p-1.5">
+          <input
+            type="number"
+            min={0}
+            className={numCls}
+            value={r?.min ?? ""}
+            onChange={(e) => setRange(group, key, { min: parseCount(e.target.value) })}
+            aria-label={t(m.blueprint.minOf, { label })}
+          />
+        </td>
+        <td className="p-1.5">
+          <input
+            type="number"
+            min={0}
+            className={numCls}
+            value={r?.max ?? ""}
+            onChange={(e) => setRange(group, key, { max: parseCount(e.target.value) })}
+            aria-label={t(m.blueprint.maxOf, { label })}
+          />
+        </td>
+        <td className="p-1.5 text-rose-600">{err && <span title={err}>!</span>}</td>
+      </tr>
+    );
+  };
+
+  const section = (title: string, rows: React.ReactNode[]) =>
+    rows.length > 0 && (
+      <>
+        <tr>
+          <td colSpan={5} className="pt-3 pb-1 font-semibold text-slate-700">{title}</td>
+        </tr>
+        {rows}
+      </>
+    );
+
+  const save = async () => {
+    try {
+      const entry = await blueprints.save({
+        id: savedId,
+        name: name.trim() || t(m.blueprint.defaultName, { date: date(Date.now()) }),
+        settings,
+        blueprint: value,
+      });
+      setSavedId(entry.id);
+      setName(entry.name);
+      await reload();
+    } catch (e: unknown) {
+      setStoreError(e);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      {/* Ma trận đã lưu */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="rounded-lg border-0 bg-white/90 px-2 py-1.5 shadow-inner"
+          value={savedId ?? ""}
+          onChange={(e) => {
+            const it = saved.find((s) => s.id === e.target.value);
+            setSavedId(it?.id);
+            setName(it?.name ?? "");
+            if (it) onLoad(it);
+          }}
+        >
+          <option value="">{t(m.blueprint.saved, { n: saved.length })}</option>
+          {saved.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <input
+          className="flex-1 min-w-[140px] rounded-lg border-0 bg-white/90 px-2 py-1.5 shadow-inner"
+          placeholder={m.blueprint.namePlaceholder}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button type="button" className={chipBtn} onClick={save}>
+          <Save className="size-3.5" /> {savedId ? m.common.update : m.common.save}
+        </button>
+        {savedId && (
+          <>
+            <button type="button" className={chipBtn} onClick={() => setSavedId(undefined)} title={m.blueprint.saveAsNewTitle}>
+              <FolderOpen className="size-3.5" /> {m.blueprint.saveAsNew}
+            </button>
+            <button
+              type="button"
+              className={`${chipBtn} hover:text-rose-600`}
+              onClick={async () => {
+                await blueprints.remove(savedId);
+                setSavedId(undefined);
+                setName("");
+                reload();
+              }}
+            >
+              <Trash2 className="size-3.5" /> {m.common.remove}
+            </button>
+          </>
+        )}
+      </div>
+      {storeError != null && <div className="text-rose-600">{errorMessage(tr, storeError)}</div>}
+
+      <table className="w-full">
+        <thead className="text-left text-slate-500">
+          <tr>
+            <th className="p-1.5 font-medium">{m.blueprint.constraint}</th>
+            <th className="p-1.5 font-medium text-right">{m.blueprint.available}</th>
+            <th className="p-1.5 font-medium">{m.blueprint.min}</th>
+            <th className="p-1.5 font-medium">{m.blueprint.max}</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {section(
+            m.blueprint.ops,
+            OPS.map((op) => row("by_op", op, t(m.blueprint.op, { op }), available((p) => opOf(p) === op))),
+          )}
+          {section(
+            m.blueprint.bands,
+            BANDS.map((b) => row("by_band", b, m.bands[b], available((p) => bucketOf(p.difficulty ?? 0.5) === b))),
+          )}
+          {section(m.blueprint.topics, topics.map((tp) => row("by_topic", tp, tp, available((p) => p.topic === tp))))}
+          {sources.length > 1 &&
+            section(
+              m.blueprint.sources,
+              sources.map((s) => row("by_source", s, s || m.common.unknownSource, available((p) => (p.source ?? "") === s))),
+            )}
+        </tbody>
+      </table>
+      <div className="text-slate-500">{m.blueprint.hint}</div>
+
+      {/* Độ khó trung bình mục tiêu */}
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="inline-flex items-center gap-1.5 font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={!!value.target_difficulty}
+            onChange={(e) =>
+              onChange({ ...value, target_difficulty: e.target.checked ? { value: 0.5, tolerance: 0.05 } : undefined })
+            }
+          />
+          {m.blueprint.target}
+        </label>
+        {value.target_difficulty && (
+          <>
+            <input
+              type="number"
+              step={0.05}
+              min={0}
+              max={1}
+              className={numCls}
+              value={value.target_difficulty.value}
+              onChange={(e) => onChange({ ...value, target_difficulty: { ...value.target_difficulty!, value: Number(e.target.value) } })}
+            />
+            <span>±</span>
+            <input
+              type="number"
+              step={0.01}
+              min={0}
+              max={0.5}
+              className={numCls}
+              value={value.target_difficulty.tolerance}
+              onChange={(e) =>
+                onChange({ ...value, target_difficulty: { ...value.target_difficulty!, tolerance: Number(e.target.value) } })
+              }
+            />
+            {errors.target_difficulty && <span className="text-rose-600">!</span>}
+          </>
+        )}
+      </div>
+
+      {messages.length > 0 && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-rose-700 space-y-1">
+          {messages.map((m) => (
+            <div key={m} className="flex items-start gap-1.5">
+              <AlertCircle className="size-3.5 mt-0.5 shrink-0" /> {m}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { createContext, useMemo, useState, type ReactNode } from "react";
+
+import { UI_LANG_COOKIE, translator, type Translator, type UiLang } from "@/lib/i18n";
+
+export type I18n = Translator & { setLang: (lang: UiLang) => void };
+
+export const I18nContext = createContext<I18n>({ ...translator("vi"), setLang: () => {} });
+
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+/**
+ * Ngôn ngữ giao diện cho cả cây trang. initialLang do layout đọc từ cookie nên lần render đầu ở server
+ * và ở trình duyệt trùng nhau; đổi ngôn ngữ thì ghi lại cookie, <html lang> và tiêu đề tab.
+ */
+export default function I18nProvider({ initialLang, children }: { initialLang: UiLang; children: ReactNode }) {
+  const [lang, setLangState] = useState(initialLang);
+
+  const value = useMemo<I18n>(
+    () => ({
+      ...translator(lang),
+      setLang: (next) => {
+        document.cookie = `${UI_LANG_COOKIE}=${next}; path=/; max-age=${ONE_YEAR}; samesite=lax`;
+        document.documentElement.lang = next;
+        document.title = translator(next).m.meta.title;
+        setLangState(next);
+      },
+    }),
+    [lang],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertCircle, CheckCircle2, ChevronLeft, ChevronRight, Download, X } from "lucide-react";
+
+import type { Problem } from "@/lib/types";
+import {
+  IMPORT_FIELDS, TEMPLATE_CSV, guessMapping, mapRows, type ImportField,
+} from "@/lib/import/mapping";
+import { useI18n } from "@/hooks/useI18n";
+import { rowErrorMessage } from "@/lib/i18n";
+
+const PAGE_SIZE = 50;
+
+const selectCls =
+  "w-full rounded-lg border-0 bg-white/90 px-2 py-1 text-xs shadow-inner focus:ring-2 focus:ring-blue-400";
+const chipBtn =
+  "inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition";
+
+export function downloadTemplate() {
+  const url = URL.createObjectURL(new Blob(["\uFEFF" + TEMPLATE_CSV], { type: "text/csv;charset=utf-8" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = "mau_ngan_hang_cau_hoi.csv";
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ImportPreview({
+  fileName,
+  rows: initialRows,
+  onCommit,
+  onCancel,
+}: {
+  fileName: string;
+  rows: string[][];
+  onCommit: (problems: Problem[]) => void;
+  onCancel: () => void;
+}) {
+  const tr = useI18n();
+  const { m, t, count } = tr;
+  const width = Math.max(0, ...initialRows.map((r) => r.length));
+  const guess = useMemo(() => guessMapping(initialRows[0] ?? []), [initialRows]);
+  const [rows, setRows] = useState(initialRows);
+  const [mapping, setMapping] = useState<ImportField[]>(() =>
+    Array.from({ length: width }, (_, i) => guess.mapping[i] ?? "ignore"),
+  );
+  const [hasHeader, setHasHeader] = useState(guess.hasHeader);
+  const [skipped, setSkipped] = useState<Set<number>>(new Set());
+  const [page, setPage] = useState(0);
+
+  const results = useMemo(() => mapRows(rows, mapping, hasHeader, fileName), [rows, mapping, hasHeader, fileName]);
+  const invalid = results.filter((r) => r.errors.length > 0);
+  const unresolved = invalid.filter((r) => !skipped.has(r.row)).length;
+  const ready = results.filter((r) => r.problem && !skipped.has(r.row));
+  const missingRequired = !mapping.includes("text") || !mapping.includes("answer");
+
+  const pages = Math.max(1, Math.ceil(results.length / PAGE_SIZE));
+  const current = Math.min(page, pages - 1);
+  const visible = results.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+  const editCell = (fileRow: number, col: number, value: string) =>
+    setRows((rs) => rs.map((r, i) => (i === fileRow - 1 ? Object.assign([...r], { [col]: value }) : r)));
+
+  const toggleSkip = (row: number) =>
+    setSkipped((s) => {
+      const next = new Set(s);
+      if (next.has(row)) next.delete(row);
+      else next.add(row);
+      return next;
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-semibold text-slate-800">{fileName}</span>
+        <span className="text-slate-500">
+          {t(m.importPreview.summary, {
+            rows: count(m.importPreview.rows, results.length),
+            valid: results.length - invalid.length,
+            invalid: invalid.length,
+          })}
+        </span>
+        <label className="inline-flex items-center gap-2 text-slate-700">
+          <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+          {m.importPreview.hasHeader}
+        </label>
+        <button type="button" className={`${chipBtn} ml-auto`} onClick={downloadTemplate}>
+          <Download className="size-3.5" /> {m.importPreview.template}
+        </button>
+        {invalid.length > 0 && (
+          <button type="button" className={chipBtn} onClick={() => setSkipped(new Set(invalid.map((r) => r.row)))}>
+            {m.importPreview.skipAll}
+          </button>
+        )}
+      </div>
+
+      {missingRequired && (
+        <div className="flex items-center gap-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <AlertCircle className="size-4" />{" "}
+          {t(m.importPreview.missingRequired, { text: m.importFields.text, answer: m.importFields.answer })}
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white/70">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-left text-slate-500">
+            <tr>
+              <th className="p-2 font-medium">{m.importPreview.row}</th>
+              {mapping.map((field, col) => (
+                <th key={col} className="p-2 min-w-[120px]">
+                  <select
+                    className={selectCls}
+                    value={field}
+                    onChange={(e) => setMapping((ms) => ms.map((x, i) => (i === col ? (e.target.value as ImportField) : x)))}
+                  >
+                    {IMPORT_FIELDS.map((f) => <option key={f.value} value={f.value}>{m.importFields[f.value]}</option>)}
+                  </select>
+                </th>
+              ))}
+              <th className="p-2 font-medium">{m.importPreview.status}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((r) => {
+              const bad = r.errors.length > 0;
+              const skip = skipped.has(r.row);
+              return (
+                <tr key={r.row} className={`border-t border-slate-100 align-top ${skip ? "opacity-50" : bad ? "bg-rose-50/60" : ""}`}>
+                  <td className="p-2 text-slate-500">{r.row}</td>
+                  {mapping.map((_, col) => (
+                    <td key={col} className="p-2">
+                      {bad && !skip ? (
+                        <input
+                          className="w-full rounded-lg border border-rose-200 bg-white px-2 py-1 text-xs"
+                          value={r.cells[col] ?? ""}
+                          onChange={(e) => editCell(r.row, col, e.target.value)}
+                        />
+                      ) : (
+                        <span className={mapping[col] === "ignore" ? "text-slate-400" : ""}>{r.cells[col]}</span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="p-2 min-w-[180px]">
+                    {bad ? (
+                      <div className="space-y-1">
+                        <ul className="text-xs text-rose-700 space-y-0.5">
+                          {r.errors.map((e) => <li key={e.code}>• {rowErrorMessage(tr, e)}</li>)}
+                        </ul>
+                        <label className="inline-flex items-center gap-1 text-xs text-slate-600">
+                          <input type="checkbox" checked={skip} onChange={() => toggleSkip(r.row)} /> {m.importPreview.skipRow}
+                        </label>
+                      </div>
+                    ) : (
+                      <CheckCircle2 className="size-4 text-emerald-500" />
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {pages > 1 && (
+        <div className="flex items-center justify-center gap-3 text-sm">
+          <button type="button" className={chipBtn} disabled={current === 0} onClick={() => setPage(current - 1)}>
+            <ChevronLeft className="size-3.5" />
+          </button>
+          <span>{t(m.common.page, { page: current + 1, pages })}</span>
+          <button type="button" className={chipBtn} disabled={current >= pages - 1} onClick={() => setPage(current + 1)}>
+            <ChevronRight className="size-3.5" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {unresolved > 0 && (
+          <span className="text-sm text-rose-600 mr-auto">{count(m.importPreview.unresolved, unresolved)}</span>
+        )}
+        <button type="button" className={chipBtn} onClick={onCancel}>
+          <X className="size-3.5" /> {m.common.cancel}
+        </button>
+        <button
+          type="button"
+          disabled={missingRequired || unresolved > 0 || ready.length === 0}
+          onClick={() => onCommit(ready.map((r, i) => ({ ...r.problem!, id: i + 1 })))}
+          className="inline-flex items-center gap-1 text-sm px-4 py-2 rounded-xl bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <CheckCircle2 className="size-4" /> {count(m.importPreview.commit, ready.length)}
+        </button>
+      </div>
+    </div>
+  );
+}
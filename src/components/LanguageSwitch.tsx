@@ -0,0 +1,35 @@
+"use client";
+
+import { Languages } from "lucide-react";
+
+import { UI_LANGS } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+/** Nút đổi ngôn ngữ giao diện, cố định góc trên bên phải ở mọi trang; không đổi ngôn ngữ nội dung đề. */
+export default function LanguageSwitch() {
+  const { lang, setLang, m } = useI18n();
+  return (
+    <div
+      role="group"
+      aria-label={m.common.uiLanguage}
+      title={m.common.uiLanguage}
+      className="fixed top-4 right-4 z-50 inline-flex items-center gap-1 rounded-xl border border-slate-200 bg-white/80 p-1 text-xs shadow-sm backdrop-blur-xl"
+    >
+      <Languages className="size-3.5 mx-1 text-slate-500" />
+      {UI_LANGS.map((l) => (
+        <button
+          key={l}
+          type="button"
+          lang={l}
+          aria-pressed={l === lang}
+          onClick={() => setLang(l)}
+          className={`px-2 py-1 rounded-lg font-semibold uppercase transition ${
+            l === lang ? "bg-gradient-to-r from-blue-600 to-purple-600 text-white" : "text-slate-600 hover:bg-white"
+          }`}
+        >
+          {l}
+        </button>
+      ))}
+    </div>
+  );
+}
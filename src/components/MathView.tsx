@@ -0,0 +1,82 @@
+"use client";
+
+import type { MathNode, MathToken } from "@/lib/types";
+import { columnResult, divisionResult } from "@/lib/math";
+import { useI18n } from "@/hooks/useI18n";
+
+const blankCls = "inline-block min-w-8 h-6 align-middle rounded border border-dashed border-slate-400";
+
+function Token({ t }: { t: MathToken }) {
+  switch (t.t) {
+    case "frac":
+      return (
+        <span className="inline-flex items-center gap-1 align-middle">
+          {t.w && <span>{t.w}</span>}
+          <span className="inline-flex flex-col items-center leading-tight text-[0.9em]">
+            <span className="px-1 border-b border-current">{t.n}</span>
+            <span className="px-1">{t.d}</span>
+          </span>
+        </span>
+      );
+    case "pow":
+      return (
+        <span>
+          {t.base}
+          <sup>{t.exp}</sup>
+        </span>
+      );
+    case "blank":
+      return <span className={blankCls} />;
+    default:
+      return <span>{t.v}</span>;
+  }
+}
+
+/**
+ * Vẽ phần toán của câu hỏi: biểu thức ngang (phân số xếp chồng, lũy thừa), đặt tính cột dọc,
+ * chia cột kiểu Việt Nam (số bị chia bên trái, số chia và thương bên phải). withAnswer điền kết quả.
+ */
+export default function MathView({ math, withAnswer = false }: { math: MathNode; withAnswer?: boolean }) {
+  const { m } = useI18n();
+  if (math.type === "inline") {
+    return (
+      <span className="inline-flex flex-wrap items-center gap-x-1.5 gap-y-1 align-middle">
+        {math.tokens.map((t, i) => <Token key={i} t={t} />)}
+      </span>
+    );
+  }
+
+  if (math.type === "column") {
+    const result = columnResult(math);
+    return (
+      <table className="font-mono tabular-nums text-base leading-snug my-1" aria-label={m.math.column}>
+        <tbody>
+          {math.operands.map((x, i) => (
+            <tr key={i}>
+              <td className="pr-2 text-slate-600 align-middle">{i === math.operands.length - 1 ? math.op : ""}</td>
+              <td className="text-right tracking-[0.3em]">{x}</td>
+            </tr>
+          ))}
+          <tr>
+            <td />
+            <td className="text-right tracking-[0.3em] border-t-2 border-slate-700 pt-0.5 h-7">
+              {withAnswer ? result : ""}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    );
+  }
+
+  const { quotient, remainder } = divisionResult(math);
+  return (
+    <div className="inline-grid grid-cols-[auto_auto] font-mono tabular-nums text-base leading-snug my-1" aria-label={m.math.division}>
+      <div className="pr-2 tracking-[0.3em] border-r-2 border-slate-700">{math.dividend}</div>
+      <div className="pl-2 tracking-[0.3em] border-b-2 border-slate-700">{math.divisor}</div>
+      <div className="pr-2 tracking-[0.3em] border-r-2 border-slate-700 h-7 text-right text-slate-500">
+        {withAnswer ? remainder : ""}
+      </div>
+      <div className="pl-2 tracking-[0.3em]">{withAnswer ? quotient : ""}</div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useMemo } from "react";
+import { useForm, type Resolver } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Check, X } from "lucide-react";
+
+import type { Problem } from "@/lib/types";
+import { ProblemKindSchema } from "@/lib/schemas";
+import { applyEdit, parseDifficulty } from "@/lib/edit";
+import { zodErrorMap, type Messages } from "@/lib/i18n";
+import { useI18n } from "@/hooks/useI18n";
+
+const splitList = (v: string) => v.split(/[;\n]/).map((s) => s.trim()).filter(Boolean);
+
+// Thông báo lỗi theo ngôn ngữ giao diện nên schema dựng lại khi đổi ngôn ngữ
+const makeEditSchema = ({ validation: v }: Messages) => z
+  .object({
+    text: z.string().trim().min(1, v.textRequired),
+    answer: z.string().trim().min(1, v.answerRequired),
+    distractors: z.string(),
+    kind: ProblemKindSchema,
+    difficulty: z.string().trim(),
+  })
+  .refine((v) => {
+    const d = parseDifficulty(v.difficulty);
+    return d === undefined || (d >= 0 && d <= 1);
+  }, {
+    path: ["difficulty"],
+    message: v.difficultyRange,
+  })
+  .refine((v) => !splitList(v.distractors).includes(v.answer.trim()), {
+    path: ["distractors"],
+    message: v.distractorIsAnswer,
+  })
+  .refine((v) => new Set(splitList(v.distractors)).size === splitList(v.distractors).length, {
+    path: ["distractors"],
+    message: v.distractorsDistinct,
+  })
+  .refine((v) => splitList(v.distractors).length <= 9, {
+    path: ["distractors"],
+    message: v.distractorsMax,
+  });
+
+type EditValues = z.infer<ReturnType<typeof makeEditSchema>>;
+
+const inputCls =
+  "w-full rounded-xl border-0 bg-white/80 px-3 py-2 shadow-inner focus:ring-2 focus:ring-blue-400 transition-all";
+
+export default function ProblemEditor({
+  problem,
+  onSave,
+  onCancel,
+}: {
+  problem: Problem;
+  onSave: (p: Problem) => void;
+  onCancel: () => void;
+}) {
+  const { lang, m } = useI18n();
+  const editSchema = useMemo(() => makeEditSchema(m), [m]);
+  const resolver = zodResolver(editSchema, { error: zodErrorMap(lang) }) as unknown as Resolver<EditValues>;
+  const { register, handleSubmit, formState: { errors } } = useForm<EditValues>({
+    resolver,
+    defaultValues: {
+      text: problem.text,
+      answer: problem.answer,
+      distractors: (problem.distractors ?? []).join("; "),
+      kind: problem.kind,
+      difficulty: problem.difficulty == null ? "" : String(problem.difficulty),
+    },
+  });
+
+  const submit = (v: EditValues) => {
+    onSave(applyEdit(problem, {
+      text: v.text,
+      answer: v.answer,
+      distractors: splitList(v.distractors),
+      kind: v.kind,
+      difficulty: parseDifficulty(v.difficulty),
+    }));
+  };
+
+  const err = (m?: string) => (m ? <span className="block text-xs font-medium text-rose-600">{m}</span> : null);
+
+  return (
+    <form
+      onSubmit={handleSubmit(submit)}
+      onKeyDown={(e) => e.key === "Escape" && onCancel()}
+      className="flex-1 space-y-3"
+    >
+      <label className="block space-y-1">
+        <span className="text-xs font-semibold text-slate-600">{m.editor.text}</span>
+        <textarea rows={2} className={inputCls} autoFocus {...register("text")} />
+        {err(errors.text?.message)}
+      </label>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <label className="block space-y-1">
+          <span className="text-xs font-semibold text-slate-600">{m.editor.answer}</span>
+          <input className={inputCls} {...register("answer")} />
+          {err(errors.answer?.message)}
+        </label>
+        <label className="block space-y-1 md:col-span-2">
+          <span className="text-xs font-semibold text-slate-600">{m.editor.distractors}</span>
+          <input className={inputCls} placeholder="12; 15; 21" {...register("distractors")} />
+          {err(errors.distractors?.message)}
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-semibold text-slate-600">{m.editor.difficulty}</span>
+          <input className={inputCls} inputMode="decimal" {...register("difficulty")} />
+          {err(errors.difficulty?.message)}
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <select className={`${inputCls} w-auto`} {...register("kind")}>
+          {Object.entries(m.kinds).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+        </select>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-white/80 border border-slate-200 hover:bg-white shadow-sm transition"
+          >
+            <X className="size-3" /> {m.common.cancel}
+          </button>
+          <button
+            type="submit"
+            className="inline-flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-sm transition"
+          >
+            <Check className="size-3" /> {m.common.save}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+type State<T> = { past: T[]; present: T; future: T[] };
+
+const LIMIT = 100;
+
+/**
+ * Giá trị có lịch sử hoàn tác / làm lại.
+ * - set(next): ghi một bước mới
+ * - set(next, { transient: true }): thay giá trị hiện tại mà không ghi bước (dùng khi đang kéo thả);
+ *   gọi checkpoint() trước đó để cả thao tác kéo chỉ tính là một bước
+ * - reset(v): xóa lịch sử (ví dụ khi sinh đề mới)
+ */
+export function useHistory<T>(initial: T) {
+  const [state, setState] = useState<State<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T | ((prev: T) => T), opts: { transient?: boolean } = {}) => {
+    setState((s) => {
+      const value = typeof next === "function" ? (next as (prev: T) => T)(s.present) : next;
+      if (Object.is(value, s.present)) return s;
+      if (opts.transient) return { ...s, present: value };
+      return { past: [...s.past, s.present].slice(-LIMIT), present: value, future: [] };
+    });
+  }, []);
+
+  const checkpoint = useCallback(() => {
+    setState((s) => ({ past: [...s.past, s.present].slice(-LIMIT), present: s.present, future: [] }));
+  }, []);
+
+  const reset = useCallback((value: T) => setState({ past: [], present: value, future: [] }), []);
+
+  const undo = useCallback(() => {
+    setState((s) =>
+      s.past.length === 0
+        ? s
+        : { past: s.past.slice(0, -1), present: s.past[s.past.length - 1], future: [s.present, ...s.future] },
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setState((s) =>
+      s.future.length === 0
+        ? s
+        : { past: [...s.past, s.present], present: s.future[0], future: s.future.slice(1) },
+    );
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    checkpoint,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
@@ -0,0 +1,8 @@
+"use client";
+
+import { useContext } from "react";
+
+import { I18nContext } from "@/components/I18nProvider";
+
+/** Bảng chuỗi và các hàm định dạng theo ngôn ngữ giao diện hiện tại (xem lib/i18n). */
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+
+import { answersMatch, parseNumber } from "./answers";
+
+describe("parseNumber", () => {
+  it.each([
+    ["12", 12],
+    ["-3", -3],
+    ["0,5", 0.5],
+    ["1.5", 1.5],
+    ["13 000", 13000],
+    ["13.000", 13000],
+    ["13,000", 13000],
+    ["3/4", 0.75],
+    ["1 1/2", 1.5],
+  ])("%s → %d", (raw, value) => {
+    expect(parseNumber(raw)).toBe(value);
+  });
+
+  it("mẫu số 0 hay chữ thì không phải số", () => {
+    expect(parseNumber("1/0")).toBeNull();
+    expect(parseNumber("abc")).toBeNull();
+  });
+});
+
+describe("answersMatch", () => {
+  it.each([
+    ["0,5", "1/2"],
+    ["13000 đồng", "13.000 đ"],
+    ["13000 đồng", "13000"],
+    ["8:15", "8 giờ 15 phút"],
+    ["8:15", "20:15"],
+    ["9 giờ", "9:00"],
+    ["7 dư 2", "7 R 2"],
+    ["<", "bé hơn"],
+    ["Đúng", "đúng"],
+    ["ĐÚNG", "dung"],
+  ])("%s khớp %s", (expected, given) => {
+    expect(answersMatch(expected, given)).toBe(true);
+  });
+
+  it.each([
+    ["12", "13"],
+    ["5 cm", "5 m"],
+    ["8:15", "8:30"],
+    ["7 dư 2", "7 dư 3"],
+    ["<", ">"],
+  ])("%s không khớp %s", (expected, given) => {
+    expect(answersMatch(expected, given)).toBe(false);
+  });
+
+  it("đáp án tối giản thì phân số trả lời cũng phải tối giản", () => {
+    expect(answersMatch("3/7", "6/14")).toBe(false);
+    expect(answersMatch("3/7", "3/7")).toBe(true);
+    expect(answersMatch("1 2/5", "1 4/10")).toBe(false);
+  });
+
+  it("đáp án chưa tối giản thì nhận mọi phân số bằng nó", () => {
+    expect(answersMatch("6/14", "3/7")).toBe(true);
+    expect(answersMatch("1/2", "0,5")).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+// lib/answers.ts
+// Chấm đáp án: đọc câu trả lời thành giá trị rồi so sánh, để các cách viết tương đương đều đúng
+// (1/2 và 0,5; 13 000 và 13.000 đồng; 8:15 và 8 giờ 15 phút; 7 dư 2 và 7 R 2).
+
+import { Problem } from "./types";
+
+export type AnswerValue =
+  | { type: "number"; value: number; unit?: string }
+  | { type: "remainder"; q: number; r: number }
+  | { type: "time"; minutes: number }
+  | { type: "symbol"; value: "<" | ">" | "=" }
+  | { type: "text"; value: string };
+
+const EPS = 1e-9;
+
+const fold = (s: string) =>
+  s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/gi, "d").toLowerCase().replace(/\s+/g, " ").trim();
+
+const UNIT_ALIASES: Record<string, string> = {
+  d: "dong", dong: "dong", vnd: "dong", "vn d": "dong",
+  m2: "m²", cm2: "cm²", dm2: "dm²", km2: "km²", mm2: "mm²",
+  lit: "l", litre: "l", liter: "l",
+};
+
+const normUnit = (u: string) => {
+  const f = fold(u).replace(/\.$/, "");
+  return UNIT_ALIASES[f] ?? f;
+};
+
+const SYMBOLS: Record<string, "<" | ">" | "="> = {
+  "<": "<", ">": ">", "=": "=",
+  "be hon": "<", "nho hon": "<", "less": "<", "less than": "<",
+  "lon hon": ">", "greater": ">", "greater than": ">",
+  bang: "=", equal: "=", "equal to": "=",
+};
+
+/** Đọc phần số: 12, -3, 0,5, 1.5, 13 000, 13.000, 13,000, 3/4, 1 1/2. */
+export function parseNumber(raw: string): number | null {
+  const s = raw.trim();
+  const mixed = s.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (mixed) return Number(mixed[3]) === 0 ? null : Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const frac = s.match(/^(-?\d+)\s*\/\s*(\d+)$/);
+  if (frac) return Number(frac[2]) === 0 ? null : Number(frac[1]) / Number(frac[2]);
+  let t = s.replace(/\s+/g, "");
+  // Nhóm nghìn bằng dấu chấm (vi) hoặc dấu phẩy (en), cùng một loại dấu; còn lại dấu phẩy là dấu thập phân
+  if (/^-?[1-9]\d{0,2}(\.\d{3})+$/.test(t) || /^-?[1-9]\d{0,2}(,\d{3})+$/.test(t)) t = t.replace(/[.,]/g, "");
+  else t = t.replace(",", ".");
+  if (!/^-?\d+(\.\d+)?$/.test(t)) return null;
+  return Number(t);
+}
+
+export function parseAnswer(raw: string): AnswerValue {
+  const s = raw.trim();
+  const f = fold(s);
+  if (SYMBOLS[f]) return { type: "symbol", value: SYMBOLS[f] };
+
+  const rem = f.match(/^(\d+)\s*(?:du|r)\s*(\d+)$/);
+  if (rem) return { type: "remainder", q: Number(rem[1]), r: Number(rem[2]) };
+
+  // Giờ phải có phút (8:00, 8h15, 8 giờ 15 phút); "8 giờ" đọc thành số kèm đơn vị, xem minutesOf
+  const time = f.match(/^(\d{1,2})\s*(?::|h|gio)\s*(\d{1,2})\s*(?:phut|p|min|minutes?)?$/);
+  if (time) return { type: "time", minutes: Number(time[1]) * 60 + Number(time[2]) };
+
+  const withUnit = s.match(/^(-?[\d\s.,/]*\d)\s*([^\d\s].*)?$/);
+  if (withUnit) {
+    const value = parseNumber(withUnit[1]);
+    if (value != null) return { type: "number", value, unit: withUnit[2] ? normUnit(withUnit[2]) : undefined };
+  }
+  return { type: "text", value: f };
+}
+
+const minutesOf = (v: AnswerValue) =>
+  v.type === "time" ? v.minutes
+  : v.type === "number" && (v.unit === "gio" || v.unit === "h") && Number.isInteger(v.value) ? v.value * 60
+  : null;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/** Tử và mẫu khi câu trả lời viết dạng phân số (3/7, 1 2/5); không phải phân số thì null. */
+const fractionOf = (raw: string) => {
+  const m = raw.trim().match(/^(?:\d+\s+)?-?(\d+)\s*\/\s*(\d+)$/);
+  return m ? { n: Number(m[1]), d: Number(m[2]) } : null;
+};
+
+// Đáp án là phân số tối giản thì HS viết phân số cũng phải tối giản: 6/14 không đúng cho "Rút gọn 12/28"
+const reducedAsExpected = (expected: string, given: string) => {
+  const e = fractionOf(expected), g = fractionOf(given);
+  return !e || !g || gcd(e.n, e.d) !== 1 || gcd(g.n, g.d) === 1;
+};
+
+// Giờ trên đồng hồ so theo 12 giờ: HS viết 8:15 hay 20:15 đều đúng
+const HALF_DAY = 12 * 60;
+
+/** Hai câu trả lời có cùng giá trị không; đơn vị chỉ so khi cả hai bên đều ghi. */
+export function answersMatch(expected: string, given: string): boolean {
+  const a = parseAnswer(expected), b = parseAnswer(given);
+  if (a.type === "time" || b.type === "time") {
+    const x = minutesOf(a), y = minutesOf(b);
+    return x != null && y != null && x % HALF_DAY === y % HALF_DAY;
+  }
+  if (a.type === "number" && b.type === "number") {
+    return Math.abs(a.value - b.value) < EPS && (!a.unit || !b.unit || a.unit === b.unit) && reducedAsExpected(expected, given);
+  }
+  if (a.type !== b.type) return false;
+  switch (a.type) {
+    case "remainder": return b.type === "remainder" && a.q === b.q && a.r === b.r;
+    case "symbol": return b.type === "symbol" && a.value === b.value;
+    case "text": return b.type === "text" && a.value === b.value;
+  }
+  return false;
+}
+
+/** Chấm một câu. Câu trắc nghiệm nhận cả chữ cái phương án (A, B…) lẫn nội dung phương án. */
+export function checkAnswer(p: Problem, given: string, options?: { options: string[]; correct: string }): boolean {
+  const g = given.trim();
+  if (!g) return false;
+  if (options && /^[A-Ja-j]$/.test(g)) return g.toUpperCase() === options.correct;
+  return answersMatch(p.answer, g);
+}
@@ -1,62 +1,157 @@
 // lib/api.ts
-import { GenerationConfig, Problem, Evaluation, AssemblePayload } from "./types";
-
-const BASE = process.env.NEXT_PUBLIC_BACKEND_URL || "https://web-production-a7c6c.up.railway.app";
-
-export async function generateProblems(cfg: GenerationConfig): Promise<Problem[]> {
-  const res = await fetch(`${BASE}/api/generate`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(cfg),
-    cache: "no-store",
-  });
-  if (!res.ok) throw new Error(await res.text());
-  return res.json();
-}
-
-export async function exportPDF(cfg: GenerationConfig, kind: "questions" | "answers") {
-  const res = await fetch(`${BASE}/api/export/${kind}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(cfg),
-  });
-  if (!res.ok) throw new Error(await res.text());
-
-  const blob = await res.blob();
+// Các hàm gọi API mà trang dùng; phần thực thi nằm ở backend đang chọn (xem lib/backend).
+// Mọi hàm ném ApiError (lib/errors) và nhận RequestOptions để hủy, đặt timeout, thử lại.
+import {
+  GenerationConfig, Problem, ExamAnalysis, AssemblePayload, ExportContent, ExportOptions, Blueprint,
+} from "./types";
+import { getBackend, type ExportKind } from "./backend";
+import type { RequestOptions } from "./request";
+import { throwIfAborted } from "./errors";
+import { ensureOptions } from "./mcq";
+import { resolveSeed } from "./local/generator";
+import { renderAnswerKeyTable } from "./local/export";
+import { EXPORTERS, exportFilename, type ExportFormat, type FileMeta } from "./exporters";
+import { renderBubbleSheetBlob, type BubbleSheetKind } from "./exporters/bubblesheet";
+import { makeVariants, type Variant } from "./variants";
+import { mergePinned, splitCuration, type Curation } from "./bank";
+import { assembleByBlueprint } from "./blueprint";
+import { analyzeLocal } from "./local/analyze";
+
+export type { RequestOptions };
+
+/** Câu trắc nghiệm trả về luôn có options/correct_option, xáo theo seed của đề. */
+export async function generateProblems(cfg: GenerationConfig, opts?: RequestOptions): Promise<Problem[]> {
+  const seed = resolveSeed(cfg.seed);
+  const data = await getBackend().generate({ ...cfg, seed }, opts);
+  return data.map((p) => ensureOptions(p, seed));
+}
+
+function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = kind === "questions" ? "worksheet_questions.pdf" : "worksheet_answers.pdf";
+  a.download = filename;
   document.body.appendChild(a);
   a.click();
   a.remove();
   URL.revokeObjectURL(url);
 }
 
-export async function uploadQuestions(file: File): Promise<Problem[]> {
-  const fd = new FormData();
-  fd.append("file", file);
-  const r = await fetch(`${BASE}/api/upload`, { method: "POST", body: fd });
-  if (!r.ok) throw new Error(await r.text());
-  return r.json();
-}
-
-export async function assembleExam(payload: AssemblePayload): Promise<Problem[]> {
-  const r = await fetch(`${BASE}/api/assemble`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
-  });
-  if (!r.ok) throw new Error(await r.text());
-  return r.json();
-}
-
-export async function evaluateExam(problems: Problem[]): Promise<Evaluation> {
-  const r = await fetch(`${BASE}/api/evaluate`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(problems),
-  });
-  if (!r.ok) throw new Error(await r.text());
-  return r.json();
+/** Backend sinh lại đề từ cfg — chỉ dùng khi chưa có danh sách câu hỏi trên màn hình. */
+export async function exportPDF(cfg: GenerationConfig, kind: ExportKind, opts?: RequestOptions) {
+  const blob = await getBackend().export(kind, cfg, opts);
+  const ext = blob.type.startsWith("text/plain") ? "txt" : "pdf";
+  downloadBlob(blob, exportFilename([], kind, ext, { grade: cfg.grade }));
+}
+
+/**
+ * Xuất đúng các câu đang xem trước, để file câu hỏi và file đáp án luôn khớp nhau.
+ * Mọi định dạng dựng ngay trong trình duyệt (lib/exporters) nên không cần backend và chạy được khi offline.
+ */
+export async function exportProblems(
+  problems: Problem[],
+  format: ExportFormat,
+  content: ExportContent,
+  layout: ExportOptions = {},
+  meta: FileMeta = {},
+  opts?: RequestOptions,
+) {
+  throwIfAborted(opts?.signal);
+  const exporter = EXPORTERS[format];
+  const blob = await exporter.render([{ ...layout, problems }], content);
+  downloadBlob(blob, exportFilename(problems, content, exporter.ext, meta, layout.variant_code));
+}
+
+/**
+ * Mọi mã đề gộp trong một file, mỗi mã đề bắt đầu trang mới và in mã đề của mình ở đầu phiếu
+ * (trình duyệt chặn tải nhiều file liên tiếp nên không tải từng mã đề).
+ */
+export async function exportVariants(
+  variants: Variant[],
+  format: ExportFormat,
+  content: ExportContent,
+  layout: ExportOptions = {},
+  meta: FileMeta = {},
+  opts?: RequestOptions,
+) {
+  throwIfAborted(opts?.signal);
+  const exporter = EXPORTERS[format];
+  const payloads = variants.map((v) => ({ ...layout, variant_code: v.code, problems: v.problems }));
+  const blob = await exporter.render(payloads, content);
+  downloadBlob(blob, exportFilename(variants.flatMap((v) => v.problems), content, exporter.ext, meta));
+}
+
+/**
+ * Phiếu tô trắc nghiệm (hoặc bản đáp án cùng bố cục) cho các câu có phương án.
+ * Nhiều mã đề thì gộp một file, mỗi mã đề bắt đầu trang mới và tô sẵn mã đề của mình.
+ */
+export async function exportBubbleSheet(
+  variants: Variant[],
+  kind: BubbleSheetKind,
+  layout: ExportOptions = {},
+  meta: FileMeta = {},
+  opts?: RequestOptions,
+) {
+  throwIfAborted(opts?.signal);
+  const payloads =
+    variants.length > 1
+      ? variants.map((v) => ({ ...layout, variant_code: v.code, problems: v.problems }))
+      : variants.map((v) => ({ ...layout, problems: v.problems }));
+  const blob = await renderBubbleSheetBlob(payloads, kind);
+  const variant = payloads.length === 1 ? layout.variant_code : undefined;
+  downloadBlob(blob, exportFilename(variants.flatMap((v) => v.problems), `bubble_${kind}`, "pdf", meta, variant));
+}
+
+/** Một file đáp án gộp cho mọi mã đề (bảng câu × mã đề), tiêu đề cột theo layout.language. */
+export function downloadAnswerKeys(variants: Variant[], layout: ExportOptions = {}, meta: FileMeta = {}) {
+  const blob = new Blob([renderAnswerKeyTable(variants, layout)], { type: "text/plain;charset=utf-8" });
+  downloadBlob(blob, exportFilename(variants.flatMap((v) => v.problems), "answer_keys", "txt", meta));
+}
+
+export async function uploadQuestions(file: File, opts?: RequestOptions): Promise<Problem[]> {
+  return getBackend().upload(file, opts);
+}
+
+/**
+ * Yêu cầu ráp đề kèm câu ghim / câu loại và ma trận đề. Cả hai xử lý phía client, backend không cần biết;
+ * có ma trận thì ráp hoàn toàn tại chỗ (có thể ném BlueprintConflictError).
+ */
+export type AssembleRequest = AssemblePayload & { curation?: Curation; blueprint?: Blueprint };
+
+export async function assembleExam(
+  { curation, blueprint, ...payload }: AssembleRequest,
+  opts?: RequestOptions,
+): Promise<Problem[]> {
+  const seed = resolveSeed(payload.seed);
+  if (blueprint) {
+    throwIfAborted(opts?.signal);
+    return assembleByBlueprint({ ...payload, seed }, blueprint, curation).map((p) => ensureOptions(p, seed));
+  }
+  const split = curation ? splitCuration(payload, curation) : { payload, pinned: [] };
+  const data = split.payload.total_count > 0 ? await getBackend().assemble({ ...split.payload, seed }, opts) : [];
+  return mergePinned(data, split.pinned, payload.mode).map((p) => ensureOptions(p, seed));
+}
+
+/** Đánh giá tính ngay trong trình duyệt (không gọi backend); giữ async để nơi gọi không phải đổi. */
+export async function evaluateExam(problems: Problem[], opts?: RequestOptions): Promise<ExamAnalysis> {
+  throwIfAborted(opts?.signal);
+  return analyzeLocal(problems);
+}
+
+/** Sinh đề gốc rồi tạo thêm mã đề; mỗi mã đề đi kèm đánh giá riêng để so sánh. */
+export async function generateVariants(cfg: GenerationConfig, count: number, opts?: RequestOptions): Promise<Variant[]> {
+  const seed = resolveSeed(cfg.seed);
+  const base = await generateProblems({ ...cfg, seed }, opts);
+  return withEvaluations(makeVariants(base, count, { seed, cfg: { ...cfg, seed } }), opts);
+}
+
+export async function assembleVariants(payload: AssembleRequest, count: number, opts?: RequestOptions): Promise<Variant[]> {
+  const seed = resolveSeed(payload.seed);
+  const base = await assembleExam({ ...payload, seed }, opts);
+  return withEvaluations(makeVariants(base, count, { seed, keepBandOrder: payload.mode !== "balanced" }), opts);
+}
+
+async function withEvaluations(variants: Variant[], opts?: RequestOptions): Promise<Variant[]> {
+  const evals = await Promise.all(variants.map((v) => evaluateExam(v.problems, opts)));
+  return variants.map((v, i) => ({ ...v, evaluation: evals[i] }));
 }
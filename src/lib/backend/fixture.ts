@@ -0,0 +1,65 @@
+// lib/backend/fixture.ts
+// Phát lại phản hồi đã ghi sẵn. Dùng createRecorder để ghi từ một backend thật,
+// rồi lưu fixtures ra JSON (ví dụ public/fixtures/backend.json).
+
+import { ServerError, throwIfAborted } from "../errors";
+import { RequestOptions } from "../request";
+import { MathBackend } from "./types";
+
+type Method = "generate" | "upload" | "assemble" | "evaluate";
+
+/** key = `${method}:${khóa yêu cầu}` → phản hồi JSON; khóa "*" dùng cho mọi yêu cầu của phương thức đó. */
+export type Fixtures = Record<string, unknown>;
+
+export function fixtureKey(method: Method, request: unknown): string {
+  if (request instanceof File) return `${method}:${request.name}`;
+  return `${method}:${JSON.stringify(request)}`;
+}
+
+function lookup<T>(fixtures: Fixtures, method: Method, request: unknown, opts?: RequestOptions): T {
+  throwIfAborted(opts?.signal);
+  const hit = fixtures[fixtureKey(method, request)] ?? fixtures[`${method}:*`];
+  if (hit === undefined) throw new ServerError(`Không có fixture cho ${method}.`, 404);
+  return structuredClone(hit) as T;
+}
+
+export function createFixtureBackend(fixtures: Fixtures): MathBackend {
+  return {
+    name: "fixture",
+    async generate(cfg, opts) {
+      return lookup(fixtures, "generate", cfg, opts);
+    },
+    async export(kind, _cfg, opts) {
+      throwIfAborted(opts?.signal);
+      return new Blob([`fixture ${kind}\n`], { type: "text/plain;charset=utf-8" });
+    },
+    async upload(file, opts) {
+      return lookup(fixtures, "upload", file, opts);
+    },
+    async assemble(payload, opts) {
+      return lookup(fixtures, "assemble", payload, opts);
+    },
+    async evaluate(problems, opts) {
+      return lookup(fixtures, "evaluate", problems, opts);
+    },
+  };
+}
+
+export function createRecorder(inner: MathBackend): { backend: MathBackend; fixtures: Fixtures } {
+  const fixtures: Fixtures = {};
+  const record = <T,>(method: Method, request: unknown, res: T) => {
+    fixtures[fixtureKey(method, request)] = res;
+    return res;
+  };
+  return {
+    fixtures,
+    backend: {
+      name: `recording(${inner.name})`,
+      generate: async (cfg, opts) => record("generate", cfg, await inner.generate(cfg, opts)),
+      export: (kind, cfg, opts) => inner.export(kind, cfg, opts),
+      upload: async (file, opts) => record("upload", file, await inner.upload(file, opts)),
+      assemble: async (payload, opts) => record("assemble", payload, await inner.assemble(payload, opts)),
+      evaluate: async (problems, opts) => record("evaluate", problems, await inner.evaluate(problems, opts)),
+    },
+  };
+}
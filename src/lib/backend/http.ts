@@ -0,0 +1,45 @@
+// lib/backend/http.ts
+import { ReadBody, RequestOptions, fetchChecked, readBlob, readJSON, withRetry } from "../request";
+import { Evaluation, Problem } from "../types";
+import { MathBackend } from "./types";
+
+export function createHttpBackend(base: string): MathBackend {
+  const post = <T,>(path: string, body: unknown, read: ReadBody<T>, opts: RequestOptions = {}, init: RequestInit = {}) =>
+    withRetry(
+      () =>
+        fetchChecked(
+          `${base}${path}`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+            ...init,
+          },
+          read,
+          opts,
+        ),
+      opts,
+    );
+
+  return {
+    name: "http",
+    async generate(cfg, opts) {
+      return post("/api/generate", cfg, readJSON<Problem[]>, opts, { cache: "no-store" });
+    },
+    async export(kind, cfg, opts) {
+      return post(`/api/export/${kind}`, cfg, readBlob, opts);
+    },
+    async upload(file, opts) {
+      const fd = new FormData();
+      fd.append("file", file);
+      // Không thử lại: upload có thể đã được ghi nhận ở máy chủ
+      return fetchChecked(`${base}/api/upload`, { method: "POST", body: fd }, readJSON<Problem[]>, opts);
+    },
+    async assemble(payload, opts) {
+      return post("/api/assemble", payload, readJSON<Problem[]>, opts);
+    },
+    async evaluate(problems, opts) {
+      return post("/api/evaluate", problems, readJSON<Evaluation>, opts);
+    },
+  };
+}
@@ -0,0 +1,68 @@
+// lib/backend/index.ts
+// Chọn backend lúc chạy:
+//   NEXT_PUBLIC_BACKEND = "http" (mặc định) | "memory" (hoặc "local") | "mock" | "fixture"
+//   localStorage["math-backend"] ghi đè biến môi trường (tiện khi phát triển).
+
+import { createHttpBackend } from "./http";
+import { createMemoryBackend } from "./memory";
+import { createFixtureBackend, Fixtures } from "./fixture";
+import { MathBackend } from "./types";
+import { withValidation } from "./validate";
+import { ServerError } from "../errors";
+
+export type { MathBackend, ExportKind } from "./types";
+export { createHttpBackend, createMemoryBackend, createFixtureBackend };
+export { createRecorder } from "./fixture";
+export { withValidation } from "./validate";
+
+export const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "https://web-production-a7c6c.up.railway.app";
+const FIXTURES_URL = process.env.NEXT_PUBLIC_BACKEND_FIXTURES || "/fixtures/backend.json";
+
+export type BackendKind = "http" | "memory" | "mock" | "fixture";
+
+function configuredKind(): BackendKind {
+  const stored = typeof window !== "undefined" ? window.localStorage.getItem("math-backend") : null;
+  const kind = stored || process.env.NEXT_PUBLIC_BACKEND || "http";
+  if (kind === "local") return "memory";
+  return (["http", "memory", "mock", "fixture"] as const).includes(kind as BackendKind)
+    ? (kind as BackendKind)
+    : "http";
+}
+
+/** Fixture được tải lười từ FIXTURES_URL ở lần gọi đầu tiên. */
+function lazyFixtureBackend(): MathBackend {
+  let loaded: Promise<MathBackend> | null = null;
+  const get = () =>
+    (loaded ??= fetch(FIXTURES_URL)
+      .then((r) => (r.ok ? r.json() : Promise.reject(new ServerError(`Không tải được fixtures: ${FIXTURES_URL}`, r.status))))
+      .then((f: Fixtures) => createFixtureBackend(f)));
+  return {
+    name: "fixture",
+    generate: async (cfg, opts) => (await get()).generate(cfg, opts),
+    export: async (kind, cfg, opts) => (await get()).export(kind, cfg, opts),
+    upload: async (file, opts) => (await get()).upload(file, opts),
+    assemble: async (payload, opts) => (await get()).assemble(payload, opts),
+    evaluate: async (problems, opts) => (await get()).evaluate(problems, opts),
+  };
+}
+
+/** Backend lấy dữ liệu từ bên ngoài (http, mock, fixture) luôn được kiểm tra phản hồi bằng schema. */
+export function createBackend(kind: BackendKind): MathBackend {
+  switch (kind) {
+    case "memory": return createMemoryBackend();
+    case "mock": return withValidation(createHttpBackend("/mock"));  // mock server trong app (chỉ khi phát triển): src/app/mock/api
+    case "fixture": return withValidation(lazyFixtureBackend());
+    default: return withValidation(createHttpBackend(BACKEND_URL));
+  }
+}
+
+let current: MathBackend | null = null;
+
+export function getBackend(): MathBackend {
+  return (current ??= createBackend(configuredKind()));
+}
+
+/** Thay backend lúc chạy (trang phát triển, kiểm thử). Truyền null để quay về cấu hình. */
+export function setBackend(b: MathBackend | null) {
+  current = b;
+}
@@ -0,0 +1,36 @@
+// lib/backend/memory.ts
+// Backend chạy hoàn toàn trong bộ nhớ — dùng khi offline, khi phát triển và cho mock server.
+
+import { generateLocal } from "../local/generator";
+import { evaluateLocal } from "../local/evaluate";
+import { assembleLocal } from "../local/assemble";
+import { uploadLocal } from "../local/upload";
+import { renderPlainText } from "../local/export";
+import { throwIfAborted } from "../errors";
+import { MathBackend } from "./types";
+
+export function createMemoryBackend(): MathBackend {
+  return {
+    name: "memory",
+    async generate(cfg, opts) {
+      throwIfAborted(opts?.signal);
+      return generateLocal(cfg);
+    },
+    async export(kind, cfg, opts) {
+      throwIfAborted(opts?.signal);
+      return new Blob([renderPlainText({ problems: generateLocal(cfg) }, kind)], { type: "text/plain;charset=utf-8" });
+    },
+    async upload(file, opts) {
+      throwIfAborted(opts?.signal);
+      return uploadLocal(file);
+    },
+    async assemble(payload, opts) {
+      throwIfAborted(opts?.signal);
+      return assembleLocal(payload);
+    },
+    async evaluate(problems, opts) {
+      throwIfAborted(opts?.signal);
+      return evaluateLocal(problems);
+    },
+  };
+}
@@ -0,0 +1,20 @@
+// lib/backend/types.ts
+import { AssemblePayload, Evaluation, GenerationConfig, Problem } from "../types";
+import { RequestOptions } from "../request";
+
+export type ExportKind = "questions" | "answers";
+
+/**
+ * Mọi phương thức ném ApiError (lib/errors). generate/export/assemble/evaluate là idempotent
+ * nên được thử lại theo opts.retry; upload thì không. evaluateExam (lib/api) mặc định vẫn
+ * phân tích tại chỗ (lib/local/analyze); evaluate là hợp đồng /api/evaluate cho backend có hỗ trợ.
+ */
+export interface MathBackend {
+  readonly name: string;
+  generate(cfg: GenerationConfig, opts?: RequestOptions): Promise<Problem[]>;
+  /** Xuất theo cấu hình (backend tự sinh lại); danh sách câu đang xem trước thì xuất ngay ở trình duyệt (lib/exporters). */
+  export(kind: ExportKind, cfg: GenerationConfig, opts?: RequestOptions): Promise<Blob>;
+  upload(file: File, opts?: RequestOptions): Promise<Problem[]>;
+  assemble(payload: AssemblePayload, opts?: RequestOptions): Promise<Problem[]>;
+  evaluate(problems: Problem[], opts?: RequestOptions): Promise<Evaluation>;
+}
@@ -0,0 +1,16 @@
+// lib/backend/validate.ts
+// Bọc một backend để mọi phản hồi JSON được kiểm tra bằng schema trước khi tới UI.
+
+import { EvaluationSchema, ProblemListSchema, parseResponse } from "../schemas";
+import { MathBackend } from "./types";
+
+export function withValidation(inner: MathBackend): MathBackend {
+  return {
+    name: inner.name,
+    generate: async (cfg, opts) => parseResponse(ProblemListSchema, await inner.generate(cfg, opts), "generate"),
+    export: (kind, cfg, opts) => inner.export(kind, cfg, opts),
+    upload: async (file, opts) => parseResponse(ProblemListSchema, await inner.upload(file, opts), "upload"),
+    assemble: async (payload, opts) => parseResponse(ProblemListSchema, await inner.assemble(payload, opts), "assemble"),
+    evaluate: async (problems, opts) => parseResponse(EvaluationSchema, await inner.evaluate(problems, opts), "evaluate"),
+  };
+}
@@ -0,0 +1,97 @@
+// lib/bank.ts
+// Quản lý ngân hàng: gộp nhiều file, lọc, gắn chủ đề/khối lớp hàng loạt, ghim hoặc loại câu trước khi ráp đề.
+
+import { AssemblePayload, Operation, Problem } from "./types";
+import { bucketOf, opOf } from "./local/evaluate";
+import { orderByMode } from "./local/assemble";
+import { isMcqSlot } from "./mcq";
+import { findDuplicateGroups, normalizeText } from "./dedupe";
+
+export type Band = "easy" | "medium" | "hard";
+
+export type BankFilter = {
+  query: string;
+  kind: Problem["kind"] | "";
+  op: Operation | "";
+  band: Band | "";
+  source: string;          // "" = mọi nguồn
+};
+
+export const EMPTY_FILTER: BankFilter = { query: "", kind: "", op: "", band: "", source: "" };
+
+/** Câu ghim luôn có trong đề; câu loại không bao giờ được chọn. */
+export type Curation = { pinned: number[]; excluded: number[] };
+
+export const EMPTY_CURATION: Curation = { pinned: [], excluded: [] };
+
+export function filterBank(pool: Problem[], f: BankFilter): Problem[] {
+  const q = normalizeText(f.query);
+  return pool.filter(
+    (p) =>
+      (!f.kind || p.kind === f.kind) &&
+      (!f.op || opOf(p) === f.op) &&
+      (!f.band || (p.difficulty != null && bucketOf(p.difficulty) === f.band)) &&
+      (!f.source || (p.source ?? "") === f.source) &&
+      (!q || normalizeText(p.text).includes(q) || normalizeText(p.topic ?? "").includes(q)),
+  );
+}
+
+/** Thêm một file vào ngân hàng: id đánh tiếp sau id lớn nhất hiện có, source ghi tên file. */
+export function appendBank(pool: Problem[], incoming: Problem[], source: string): Problem[] {
+  let next = pool.reduce((m, p) => Math.max(m, p.id), 0);
+  return [...pool, ...incoming.map((p) => ({ ...p, id: ++next, source }))];
+}
+
+export function groupBySource(pool: Problem[]): Map<string, Problem[]> {
+  const groups = new Map<string, Problem[]>();
+  for (const p of pool) {
+    const key = p.source ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), p]);
+  }
+  return groups;
+}
+
+/** Nhóm câu trùng nằm ở ít nhất hai file khác nhau (trùng trong cùng file xem ở trình quản lý). */
+export const crossSourceDuplicates = (pool: Problem[]) =>
+  findDuplicateGroups(pool).filter((g) => new Set(g.map((p) => p.source ?? "")).size > 1);
+
+export const sourcesOf = (pool: Problem[]) => [...new Set(pool.map((p) => p.source ?? ""))].sort();
+
+export function tagProblems(pool: Problem[], ids: Set<number>, tag: { topic?: string; grade?: number }): Problem[] {
+  return pool.map((p) =>
+    ids.has(p.id)
+      ? {
+          ...p,
+          ...(tag.topic !== undefined ? { topic: tag.topic || undefined } : {}),
+          ...(tag.grade !== undefined ? { grade: tag.grade || undefined } : {}),
+        }
+      : p,
+  );
+}
+
+/**
+ * Tách câu ghim / câu loại khỏi yêu cầu ráp đề: backend chỉ chọn phần còn thiếu từ các câu còn lại,
+ * sau đó mergePinned ghép câu ghim vào và sắp lại theo chế độ.
+ */
+export function splitCuration(payload: AssemblePayload, c: Curation): { payload: AssemblePayload; pinned: Problem[] } {
+  const pinnedIds = new Set(c.pinned);
+  const excludedIds = new Set(c.excluded);
+  const pinned = payload.pool.filter((p) => pinnedIds.has(p.id) && !excludedIds.has(p.id));
+  const pinnedWord = pinned.filter((p) => p.kind === "word").length;
+  const pinnedMcq = pinned.filter(isMcqSlot).length;
+  return {
+    pinned,
+    payload: {
+      ...payload,
+      pool: payload.pool.filter((p) => !pinnedIds.has(p.id) && !excludedIds.has(p.id)),
+      total_count: Math.max(0, payload.total_count - pinned.length),
+      mcq_count: Math.max(0, payload.mcq_count - pinnedMcq),
+      word_count: Math.max(0, payload.word_count - pinnedWord),
+    },
+  };
+}
+
+export function mergePinned(assembled: Problem[], pinned: Problem[], mode: AssemblePayload["mode"]): Problem[] {
+  if (pinned.length === 0) return assembled;
+  return orderByMode([...pinned, ...assembled], mode).map((p, i) => ({ ...p, id: i + 1 }));
+}
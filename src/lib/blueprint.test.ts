@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { BlueprintConflictError, EMPTY_BLUEPRINT, assembleByBlueprint } from "./blueprint";
+import { generateLocal } from "./local/generator";
+import type { AssemblePayload, Blueprint } from "./types";
+
+const pool = generateLocal({
+  grade: 3,
+  operations: ["+", "-", "×", "÷"],
+  count: 40,
+  min_value: 0,
+  max_value: 100,
+  include_word_problems: false,
+  include_distractors: false,
+  seed: 7,
+  language: "vi",
+});
+
+const payload: AssemblePayload = { pool, total_count: 12, mcq_count: 0, word_count: 0, mode: "balanced", seed: 1 };
+
+const conflictOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof BlueprintConflictError) return e;
+    throw e;
+  }
+  throw new Error("không ném BlueprintConflictError");
+};
+
+describe("assembleByBlueprint", () => {
+  it("ráp đủ số câu và đúng số câu từng phép", () => {
+    const bp: Blueprint = { ...EMPTY_BLUEPRINT, by_op: { "+": { min: 4, max: 4 }, "×": { min: 2 } } };
+    const out = assembleByBlueprint(payload, bp);
+    expect(out).toHaveLength(12);
+    expect(out.filter((p) => p.op === "+")).toHaveLength(4);
+    expect(out.filter((p) => p.op === "×").length).toBeGreaterThanOrEqual(2);
+    expect(out.map((p) => p.id)).toEqual(Array.from({ length: 12 }, (_, i) => i + 1));
+  });
+
+  it("cùng seed cho cùng đề", () => {
+    const bp: Blueprint = { ...EMPTY_BLUEPRINT, by_op: { "-": { min: 3, max: 5 } } };
+    expect(assembleByBlueprint(payload, bp)).toEqual(assembleByBlueprint(payload, bp));
+  });
+
+  it("luôn giữ câu ghim và bỏ câu loại", () => {
+    const out = assembleByBlueprint(payload, EMPTY_BLUEPRINT, { pinned: [pool[0].id], excluded: [pool[1].id] });
+    const texts = out.map((p) => p.text);
+    expect(texts).toContain(pool[0].text);
+    expect(texts).not.toContain(pool[1].text);
+  });
+
+  it("báo mâu thuẫn theo trường khi ngân hàng không đủ câu", () => {
+    const e = conflictOf(() => assembleByBlueprint({ ...payload, total_count: 50 }, EMPTY_BLUEPRINT));
+    expect(e.conflicts.map((c) => c.code)).toContain("bank_short");
+    expect(e.fields.total_count).toBeDefined();
+  });
+
+  it("báo ràng buộc cần nhiều câu hơn ngân hàng có", () => {
+    const bp: Blueprint = { ...EMPTY_BLUEPRINT, by_op: { "+": { min: 11 } } };
+    const e = conflictOf(() => assembleByBlueprint(payload, bp));
+    const c = e.conflicts.find((x) => x.code === "min_over_available");
+    expect(c?.keys).toEqual(["by_op.+"]);
+    expect(c?.params.min).toBe(11);
+  });
+});
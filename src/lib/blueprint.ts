@@ -0,0 +1,361 @@
+// lib/blueprint.ts
+// Ma trận đề: ráp đề từ ngân hàng theo số câu cho từng phép toán, mức độ, chủ đề, nguồn
+// và độ khó trung bình mục tiêu. Giải tại chỗ nên dùng được với mọi backend.
+
+import { AssemblePayload, Blueprint, CountRange, Problem } from "./types";
+import { BlueprintSchema, parseRequest } from "./schemas";
+import { FieldErrors, ValidationError } from "./errors";
+import { bucketOf, opOf } from "./local/evaluate";
+import { orderByMode } from "./local/assemble";
+import { createRng, deriveSeed, type Rng } from "./local/random";
+import { resolveSeed } from "./local/generator";
+import { isMcqSlot } from "./mcq";
+import { EMPTY_CURATION, type Band, type Curation } from "./bank";
+
+export const EMPTY_BLUEPRINT: Blueprint = { by_op: {}, by_band: {}, by_topic: {}, by_source: {} };
+
+export const BAND_LABELS: Record<Band, string> = { easy: "Dễ", medium: "Trung bình", hard: "Khó" };
+
+type Settings = Omit<AssemblePayload, "pool">;
+
+/** Ràng buộc nào trong ma trận: group "kind" (name mcq / word), by_op, by_band, by_topic, by_source. */
+export type ConstraintRef = { group: string; name: string };
+
+/** Một ràng buộc số câu; key trùng đường dẫn trường (by_op.+, by_band.hard, ...) để báo lỗi theo trường. */
+type Constraint = ConstraintRef & {
+  key: string;
+  label: string;
+  match: (p: Problem) => boolean;
+  min: number;
+  max: number;
+};
+
+export type BlueprintConflictCode =
+  | "bank_short" | "pinned_over_total" | "min_over_available" | "min_over_total" | "pinned_over_max"
+  | "group_min_over_total" | "group_max_under_total" | "target_out_of_range"
+  | "not_enough" | "not_enough_blocked" | "max_limits" | "target_unreachable";
+
+/** code + params để giao diện dựng câu theo ngôn ngữ (lib/i18n blueprintMessage); message là bản tiếng Việt. */
+export type BlueprintConflict = {
+  keys: string[];
+  code: BlueprintConflictCode;
+  params: {
+    total?: number; available?: number; pinned?: number; min?: number; max?: number; sum?: number; picked?: number;
+    value?: number; tolerance?: number; lo?: number; hi?: number;
+    refs?: ConstraintRef[]; blocking?: ConstraintRef[];
+  };
+  message: string;
+};
+
+/** Lỗi theo trường từ các mâu thuẫn: mỗi trường lấy mâu thuẫn đầu tiên nhắc tới nó. */
+export function conflictFields(conflicts: BlueprintConflict[], message = (c: BlueprintConflict) => c.message): FieldErrors {
+  const fields: FieldErrors = {};
+  for (const c of conflicts) for (const k of c.keys) fields[k] ??= message(c);
+  return fields;
+}
+
+/** Ma trận đề không thỏa được với ngân hàng hiện có; conflicts chỉ rõ ràng buộc nào vướng. */
+export class BlueprintConflictError extends ValidationError {
+  readonly conflicts: BlueprintConflict[];
+
+  constructor(conflicts: BlueprintConflict[]) {
+    super(`Không ráp được đề theo ma trận:\n${conflicts.map((c) => `• ${c.message}`).join("\n")}`, conflictFields(conflicts));
+    this.name = "BlueprintConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+const diff = (p: Problem) => p.difficulty ?? 0.5;
+const isSet = (r?: CountRange): r is CountRange => r != null && (r.min != null || r.max != null);
+const fmt = (d: number) => d.toFixed(2);
+const refOf = ({ group, name }: Constraint): ConstraintRef => ({ group, name });
+
+export const isEmptyBlueprint = (bp: Blueprint) =>
+  !bp.target_difficulty &&
+  [bp.by_op, bp.by_band, bp.by_topic, bp.by_source].every((g) => Object.values(g).every((r) => !isSet(r)));
+
+/** Mọi ràng buộc, kể cả số câu trắc nghiệm / lời văn của phần ráp đề thường (ở đây là đúng bằng). */
+function constraintsOf(s: Settings, bp: Blueprint): Constraint[] {
+  const list: Constraint[] = [
+    {
+      key: "mcq_count", label: "Trắc nghiệm", group: "kind", name: "mcq",
+      match: isMcqSlot, min: s.mcq_count, max: s.mcq_count,
+    },
+    {
+      key: "word_count", label: "Lời văn", group: "kind", name: "word",
+      match: (p) => p.kind === "word", min: s.word_count, max: s.word_count,
+    },
+  ];
+  const add = (group: string, name: string, label: string, match: Constraint["match"], r?: CountRange) => {
+    if (isSet(r)) list.push({ key: `${group}.${name}`, label, group, name, match, min: r.min ?? 0, max: r.max ?? s.total_count });
+  };
+  for (const [op, r] of Object.entries(bp.by_op)) add("by_op", op, `Phép ${op}`, (p) => opOf(p) === op, r);
+  for (const [band, r] of Object.entries(bp.by_band)) {
+    add("by_band", band, `Mức ${BAND_LABELS[band as Band]}`, (p) => bucketOf(diff(p)) === band, r);
+  }
+  for (const [topic, r] of Object.entries(bp.by_topic)) {
+    add("by_topic", topic, `Chủ đề "${topic || "(chưa gắn)"}"`, (p) => (p.topic ?? "") === topic, r);
+  }
+  for (const [source, r] of Object.entries(bp.by_source)) {
+    add("by_source", source, `Nguồn "${source || "(không rõ)"}"`, (p) => (p.source ?? "") === source, r);
+  }
+  return list;
+}
+
+function usable(pool: Problem[], c: Curation) {
+  const excluded = new Set(c.excluded);
+  const pinnedIds = new Set(c.pinned);
+  const items = pool.filter((p) => !excluded.has(p.id));
+  return { items, pinned: items.filter((p) => pinnedIds.has(p.id)) };
+}
+
+/**
+ * Kiểm tra nhanh (không giải) những mâu thuẫn nhìn thấy ngay: ngân hàng thiếu câu, tổng tối thiểu
+ * vượt số câu của đề, câu ghim vượt tối đa, độ khó mục tiêu ngoài tầm với.
+ */
+export function checkBlueprint(
+  pool: Problem[],
+  s: Settings,
+  bp: Blueprint,
+  curation: Curation = EMPTY_CURATION,
+): BlueprintConflict[] {
+  const { items, pinned } = usable(pool, curation);
+  const total = s.total_count;
+  const out: BlueprintConflict[] = [];
+  if (total > items.length) {
+    out.push({
+      keys: ["total_count"], code: "bank_short", params: { total, available: items.length },
+      message: `Đề cần ${total} câu nhưng ngân hàng chỉ còn ${items.length} câu dùng được.`,
+    });
+  }
+  if (pinned.length > total) {
+    out.push({
+      keys: ["total_count"], code: "pinned_over_total", params: { pinned: pinned.length, total },
+      message: `Đã ghim ${pinned.length} câu, nhiều hơn tổng số câu (${total}).`,
+    });
+  }
+
+  const cons = constraintsOf(s, bp);
+  for (const c of cons) {
+    const available = items.filter(c.match).length;
+    const fixed = pinned.filter(c.match).length;
+    const refs = [refOf(c)];
+    if (c.min > available) {
+      out.push({
+        keys: [c.key], code: "min_over_available", params: { refs, min: c.min, available },
+        message: `${c.label}: cần ít nhất ${c.min} câu, ngân hàng chỉ có ${available}.`,
+      });
+    } else if (c.min > total) {
+      out.push({
+        keys: [c.key], code: "min_over_total", params: { refs, min: c.min, total },
+        message: `${c.label}: tối thiểu ${c.min} câu nhưng đề chỉ có ${total} câu.`,
+      });
+    }
+    if (fixed > c.max) {
+      out.push({
+        keys: [c.key], code: "pinned_over_max", params: { refs, pinned: fixed, max: c.max },
+        message: `${c.label}: đã ghim ${fixed} câu, vượt tối đa ${c.max}.`,
+      });
+    }
+  }
+
+  // Trong một nhóm, mỗi câu thuộc nhiều nhất một ràng buộc nên các tối thiểu cộng dồn được
+  const groups = new Map<string, Constraint[]>();
+  for (const c of cons) groups.set(c.group, [...(groups.get(c.group) ?? []), c]);
+  for (const g of groups.values()) {
+    if (g.length < 2) continue;
+    const keys = g.map((c) => c.key);
+    const refs = g.map(refOf);
+    const labels = g.map((c) => c.label).join(", ");
+    const sumMin = g.reduce((n, c) => n + c.min, 0);
+    if (sumMin > total) {
+      out.push({
+        keys, code: "group_min_over_total", params: { refs, sum: sumMin, total },
+        message: `Tổng tối thiểu của ${labels} là ${sumMin}, vượt ${total} câu của đề.`,
+      });
+    }
+    // Nhóm phủ hết ngân hàng thì tổng tối đa cũng phải đủ số câu
+    const sumMax = g.reduce((n, c) => n + c.max, 0);
+    if (sumMax < total && items.every((p) => g.some((c) => c.match(p)))) {
+      out.push({
+        keys, code: "group_max_under_total", params: { refs, sum: sumMax, total },
+        message: `${labels} cho phép tối đa ${sumMax} câu, chưa đủ ${total} câu của đề.`,
+      });
+    }
+  }
+
+  const t = bp.target_difficulty;
+  if (t && total > 0 && items.length >= total) {
+    const sorted = items.map(diff).sort((a, b) => a - b);
+    const avg = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+    const lo = avg(sorted.slice(0, total));
+    const hi = avg(sorted.slice(-total));
+    if (t.value + t.tolerance < lo || t.value - t.tolerance > hi) {
+      out.push({
+        keys: ["target_difficulty"],
+        code: "target_out_of_range",
+        params: { value: t.value, tolerance: t.tolerance, lo, hi },
+        message: `Độ khó TB ${fmt(t.value)} ± ${fmt(t.tolerance)} nằm ngoài khoảng ngân hàng đáp ứng được (${fmt(lo)}–${fmt(hi)}).`,
+      });
+    }
+  }
+  return out;
+}
+
+type Attempt = { picked: Problem[]; violated: Constraint[]; saturated: Constraint[]; offTarget: boolean };
+
+function attempt(items: Problem[], pinned: Problem[], cons: Constraint[], s: Settings, bp: Blueprint, rng: Rng): Attempt {
+  const total = s.total_count;
+  const target = bp.target_difficulty;
+  const hits = new Map(items.map((p) => [p, cons.map((c) => c.match(p))]));
+  const counts = cons.map(() => 0);
+  const picked: Problem[] = [];
+  const used = new Set<Problem>();
+  let sum = 0;
+  const take = (p: Problem) => {
+    picked.push(p);
+    used.add(p);
+    sum += diff(p);
+    hits.get(p)!.forEach((h, k) => h && counts[k]++);
+  };
+  const fits = (p: Problem) => hits.get(p)!.every((h, k) => !h || counts[k] < cons[k].max);
+  // Độ khó câu tiếp theo cần có để trung bình tiến về mục tiêu
+  const closeness = (p: Problem) => (target ? Math.abs(diff(p) - (target.value * (picked.length + 1) - sum)) : 0);
+  const best = (cands: Problem[], score: (p: Problem) => number) =>
+    cands.reduce((a, b) => (score(b) > score(a) || (score(b) === score(a) && closeness(b) < closeness(a)) ? b : a));
+
+  pinned.forEach(take);
+  const order = rng.shuffle(items.filter((p) => !used.has(p)));
+
+  // 1. Đủ số tối thiểu: ưu tiên câu lấp được nhiều chỗ thiếu nhất
+  while (picked.length < total) {
+    const short = cons.map((c, k) => counts[k] < c.min);
+    if (!short.some(Boolean)) break;
+    const helps = (p: Problem) => hits.get(p)!.filter((h, k) => h && short[k]).length;
+    const cands = order.filter((p) => !used.has(p) && fits(p) && helps(p) > 0);
+    if (cands.length === 0) break;
+    take(best(cands, helps));
+  }
+
+  // 2. Lấp cho đủ tổng số câu mà không vượt tối đa nào
+  while (picked.length < total) {
+    const cands = order.filter((p) => !used.has(p) && fits(p));
+    if (cands.length === 0) break;
+    take(target ? best(cands, () => 0) : cands[0]);
+  }
+
+  const inRange = () => cons.every((c, k) => counts[k] >= c.min && counts[k] <= c.max);
+  const off = () => (target && picked.length ? Math.abs(sum / picked.length - target.value) - target.tolerance : 0);
+
+  // 3. Đổi câu để kéo độ khó trung bình về mục tiêu mà vẫn giữ mọi ràng buộc
+  if (target && picked.length === total && inRange()) {
+    const fixed = new Set(pinned);
+    for (let round = 0; round < total * 4 && off() > 0; round++) {
+      const tooHard = sum / picked.length > target.value;
+      const outs = picked.filter((p) => !fixed.has(p)).sort((a, b) => (tooHard ? diff(b) - diff(a) : diff(a) - diff(b)));
+      const ins = order.filter((p) => !used.has(p)).sort((a, b) => (tooHard ? diff(a) - diff(b) : diff(b) - diff(a)));
+      let swapped = false;
+      for (const o of outs) {
+        const c = ins.find((p) => {
+          if (tooHard ? diff(p) >= diff(o) : diff(p) <= diff(o)) return false;
+          const ho = hits.get(o)!, hp = hits.get(p)!;
+          return cons.every((con, k) => {
+            const n = counts[k] - (ho[k] ? 1 : 0) + (hp[k] ? 1 : 0);
+            return n >= con.min && n <= con.max;
+          });
+        });
+        if (!c) continue;
+        const before = off();
+        const i = picked.indexOf(o);
+        hits.get(o)!.forEach((h, k) => h && counts[k]--);
+        used.delete(o);
+        sum -= diff(o);
+        picked.splice(i, 1);
+        take(c);
+        // Đổi quá tay (vượt qua mục tiêu xa hơn) thì dừng
+        if (off() >= before) {
+          picked.pop();
+          used.delete(c);
+          sum -= diff(c);
+          hits.get(c)!.forEach((h, k) => h && counts[k]--);
+          picked.splice(i, 0, o);
+          used.add(o);
+          sum += diff(o);
+          hits.get(o)!.forEach((h, k) => h && counts[k]++);
+          continue;
+        }
+        swapped = true;
+        break;
+      }
+      if (!swapped) break;
+    }
+  }
+
+  return {
+    picked,
+    violated: cons.filter((c, k) => counts[k] < c.min || counts[k] > c.max),
+    saturated: cons.filter((c, k) => counts[k] === c.max && c.max < total),
+    offTarget: picked.length > 0 && off() > 1e-9,
+  };
+}
+
+const ATTEMPTS = 24;
+
+/**
+ * Ráp đề thỏa ma trận. Câu ghim luôn có mặt (và được tính vào các ràng buộc), câu loại bị bỏ qua.
+ * Thử nhiều thứ tự ngẫu nhiên theo seed; không được thì ném BlueprintConflictError.
+ */
+export function assembleByBlueprint(
+  payload: AssemblePayload,
+  blueprint: Blueprint,
+  curation: Curation = EMPTY_CURATION,
+): Problem[] {
+  const bp = parseRequest(BlueprintSchema, blueprint);
+  const { pool, ...settings } = payload;
+  const early = checkBlueprint(pool, settings, bp, curation);
+  if (early.length) throw new BlueprintConflictError(early);
+
+  const { items, pinned } = usable(pool, curation);
+  const cons = constraintsOf(settings, bp);
+  const seed = resolveSeed(payload.seed);
+  let bestTry: Attempt | null = null;
+  for (let i = 0; i < ATTEMPTS; i++) {
+    const a = attempt(items, pinned, cons, settings, bp, createRng(deriveSeed(seed, "blueprint", i)));
+    const ok = a.picked.length === settings.total_count && a.violated.length === 0 && !a.offTarget;
+    if (ok) return orderByMode(a.picked, payload.mode).map((p, j) => ({ ...p, id: j + 1 }));
+    const rank = (x: Attempt) => x.violated.length * 2 + (x.offTarget ? 1 : 0) + (settings.total_count - x.picked.length) * 2;
+    if (!bestTry || rank(a) < rank(bestTry)) bestTry = a;
+  }
+
+  const b = bestTry!;
+  const conflicts: BlueprintConflict[] = [];
+  if (b.violated.length) {
+    // Ràng buộc đã chạm tối đa thường là thứ chặn không cho lấp chỗ thiếu
+    const blocking = b.saturated.filter((c) => !b.violated.includes(c));
+    conflicts.push({
+      keys: [...b.violated, ...blocking].map((c) => c.key),
+      code: blocking.length ? "not_enough_blocked" : "not_enough",
+      params: { refs: b.violated.map(refOf), blocking: blocking.map(refOf) },
+      message:
+        `Không đủ câu cho ${b.violated.map((c) => c.label).join(", ")}` +
+        (blocking.length ? ` khi vẫn giữ tối đa của ${blocking.map((c) => c.label).join(", ")}` : "") +
+        ". Hãy nới khoảng của một trong số đó.",
+    });
+  } else if (b.picked.length < settings.total_count) {
+    conflicts.push({
+      keys: ["total_count"],
+      code: "max_limits",
+      params: { picked: b.picked.length, total: settings.total_count },
+      message: `Các giới hạn tối đa chỉ cho chọn ${b.picked.length}/${settings.total_count} câu.`,
+    });
+  }
+  if (b.offTarget) {
+    conflicts.push({
+      keys: ["target_difficulty"],
+      code: "target_unreachable",
+      params: {},
+      message: "Không đạt được độ khó TB mục tiêu cùng với các ràng buộc số câu; hãy tăng dung sai.",
+    });
+  }
+  throw new BlueprintConflictError(conflicts);
+}
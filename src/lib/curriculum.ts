@@ -0,0 +1,208 @@
+// lib/curriculum.ts
+// Phạm vi kiến thức số học theo lớp và học kỳ (Chương trình GDPT 2018, môn Toán tiểu học),
+// tóm tắt đủ để gợi ý cấu hình mặc định và cảnh báo khi đề vượt chương trình.
+
+import { ExtraKind, GenerationConfig, Operation, OperationRules } from "./types";
+import { KIND_LABELS } from "./kinds";
+
+export type Term = 1 | 2;
+
+export type GradeScope = {
+  grade: number;
+  term: Term;
+  summary: string;
+  operations: Operation[];     // các phép đã học đến hết học kỳ
+  min_value: number;
+  max_value: number;
+  rules: OperationRules;
+  themes: string[];            // khóa trong WORD_THEMES
+};
+
+const TABLES_2_9 = [2, 3, 4, 5, 6, 7, 8, 9];
+
+export const CURRICULUM: GradeScope[] = [
+  {
+    grade: 1, term: 1, summary: "Cộng, trừ trong phạm vi 10",
+    operations: ["+", "-"], min_value: 0, max_value: 10, rules: { carry: false }, themes: ["toys", "garden"],
+  },
+  {
+    grade: 1, term: 2, summary: "Cộng, trừ không nhớ trong phạm vi 100",
+    operations: ["+", "-"], min_value: 0, max_value: 100, rules: { carry: false }, themes: ["toys", "garden", "school"],
+  },
+  {
+    grade: 2, term: 1, summary: "Cộng, trừ có nhớ trong phạm vi 100",
+    operations: ["+", "-"], min_value: 0, max_value: 100, rules: { remainder: false }, themes: ["school", "garden", "toys"],
+  },
+  {
+    grade: 2, term: 2, summary: "Cộng, trừ trong phạm vi 1000; bảng nhân, chia 2 và 5",
+    operations: ["+", "-", "×", "÷"], min_value: 0, max_value: 1000, rules: { remainder: false, tables: [2, 5] },
+    themes: ["school", "farm", "market"],
+  },
+  {
+    grade: 3, term: 1, summary: "Bảng nhân, chia 2–9; nhân, chia số có hai, ba chữ số với số có một chữ số; chia có dư",
+    operations: ["+", "-", "×", "÷"], min_value: 0, max_value: 1000, rules: { remainder: true }, themes: ["school", "farm", "market"],
+  },
+  {
+    grade: 3, term: 2, summary: "Các số trong phạm vi 100 000; nhân, chia với số có một chữ số",
+    operations: ["+", "-", "×", "÷"], min_value: 0, max_value: 100_000, rules: { remainder: true }, themes: ["market", "farm"],
+  },
+  {
+    grade: 4, term: 1, summary: "Số có nhiều chữ số; cộng, trừ; nhân, chia với số có một chữ số",
+    operations: ["+", "-", "×", "÷"], min_value: 0, max_value: 1_000_000, rules: { remainder: true }, themes: ["market", "farm"],
+  },
+  {
+    grade: 4, term: 2, summary: "Nhân, chia với số có hai chữ số",
+    operations: ["+", "-", "×", "÷"], min_value: 0, max_value: 1_000_000, rules: { remainder: true }, themes: ["market", "farm"],
+  },
+  {
+    grade: 5, term: 1, summary: "Ôn tập và bổ sung các phép tính với số tự nhiên",
+    operations: ["+", "-", "×", "÷"], min_value: 0, max_value: 10_000_000, rules: { remainder: true }, themes: ["market"],
+  },
+  {
+    grade: 5, term: 2, summary: "Vận dụng bốn phép tính với số tự nhiên",
+    operations: ["+", "-", "×", "÷"], min_value: 0, max_value: 10_000_000, rules: { remainder: true }, themes: ["market"],
+  },
+];
+
+export const scopeOf = (grade: number, term: Term = 2): GradeScope | undefined =>
+  CURRICULUM.find((s) => s.grade === grade && s.term === term);
+
+/** Cấu hình đầy đủ cho một lớp / học kỳ: dùng khi GV đổi lớp hoặc học kỳ trên form. */
+export function scopeDefaults(grade: number, term: Term) {
+  const s = scopeOf(grade, term);
+  if (!s) return null;
+  return {
+    operations: s.operations,
+    min_value: s.min_value,
+    max_value: s.max_value,
+    rules: s.rules,
+    theme: s.themes[0],
+  };
+}
+
+// Lớp bắt đầu học từng dạng câu; dạng chưa học chỉ cảnh báo vì GV có thể cho làm bài nâng cao
+const KIND_MIN_GRADE: Record<ExtraKind, number> = {
+  fill_blank: 1, comparison: 1, sequence: 1, time: 1,
+  expression: 2, measurement: 2, money: 2, geometry: 2,
+  fraction: 4,
+};
+
+export type ScopeIssueCode =
+  | "ops_not_this_year" | "ops_next_term" | "max_year" | "max_term" | "remainder" | "carry" | "kind_early";
+
+export type ScopeIssue = {
+  path: "operations" | "max_value" | "rules" | "kind_counts";
+  /** code + params để giao diện tự dựng câu theo ngôn ngữ (lib/i18n scopeMessage); message là bản tiếng Việt. */
+  code: ScopeIssueCode;
+  params: { grade: number; term?: Term; ops?: string; max?: number; kind?: ExtraKind; from?: number };
+  message: string;
+  level: "warn" | "block";   // block: chặn sinh đề; warn: chỉ nhắc
+};
+
+// Vượt quá 10 lần phạm vi số cả năm thì chắc chắn nhầm lớp, chặn hẳn
+const BLOCK_FACTOR = 10;
+
+const fmt = (n: number) => n.toLocaleString("vi-VN");
+
+export function scopeIssues(
+  cfg: Pick<GenerationConfig, "grade" | "operations" | "max_value"> & { term?: Term; rules?: OperationRules; kinds?: ExtraKind[] },
+): ScopeIssue[] {
+  const term = cfg.term ?? 2;
+  const scope = scopeOf(cfg.grade, term);
+  const year = scopeOf(cfg.grade, 2);
+  if (!scope || !year) return [];
+  const out: ScopeIssue[] = [];
+  const label = `lớp ${cfg.grade} HK${term}`;
+
+  const { grade } = cfg;
+  const notThisYear = cfg.operations.filter((op) => !year.operations.includes(op));
+  const notYet = cfg.operations.filter((op) => year.operations.includes(op) && !scope.operations.includes(op));
+  if (notThisYear.length) {
+    const ops = notThisYear.join(", ");
+    out.push({ path: "operations", level: "block", code: "ops_not_this_year", params: { grade, ops }, message: `Lớp ${grade} chưa học phép ${ops}.` });
+  }
+  if (notYet.length) {
+    const ops = notYet.join(", ");
+    out.push({ path: "operations", level: "warn", code: "ops_next_term", params: { grade, ops }, message: `Phép ${ops} học từ HK2 lớp ${grade}.` });
+  }
+
+  if (cfg.max_value > year.max_value * BLOCK_FACTOR) {
+    const max = year.max_value;
+    out.push({ path: "max_value", level: "block", code: "max_year", params: { grade, max }, message: `Lớp ${grade} chỉ học trong phạm vi ${fmt(max)}.` });
+  } else if (cfg.max_value > scope.max_value) {
+    const max = scope.max_value;
+    out.push({ path: "max_value", level: "warn", code: "max_term", params: { grade, term, max }, message: `Chương trình ${label} trong phạm vi ${fmt(max)}.` });
+  }
+
+  const rules = cfg.rules ?? {};
+  if (rules.remainder && !scope.rules.remainder && cfg.operations.includes("÷")) {
+    out.push({ path: "rules", level: "warn", code: "remainder", params: { grade, term }, message: `Chương trình ${label} chưa học chia có dư.` });
+  }
+  if (rules.carry !== false && scope.rules.carry === false && cfg.operations.some((op) => op === "+" || op === "-")) {
+    out.push({ path: "rules", level: "warn", code: "carry", params: { grade, term }, message: `Chương trình ${label} chỉ cộng, trừ không nhớ.` });
+  }
+
+  // Mỗi dạng học sớm một cảnh báo riêng
+  for (const kind of (cfg.kinds ?? []).filter((k) => KIND_MIN_GRADE[k] > grade)) {
+    const from = KIND_MIN_GRADE[kind];
+    out.push({
+      path: "kind_counts",
+      level: "warn",
+      code: "kind_early",
+      params: { grade, kind, from },
+      message: `Dạng ${KIND_LABELS[kind].toLowerCase()} học từ lớp ${from}.`,
+    });
+  }
+  return out;
+}
+
+export type CurriculumPreset = {
+  id: string;
+  label: string;
+  grade: number;
+  term: Term;
+  config: Pick<GenerationConfig, "operations" | "min_value" | "max_value" | "include_word_problems"> & {
+    rules: OperationRules;
+    theme?: string;
+  };
+};
+
+/** Mẫu dựng sẵn theo bài học: một lần bấm điền cả form. */
+export const PRESETS: CurriculumPreset[] = [
+  {
+    id: "g1-t1-add-sub-10", label: "Lớp 1 – HK1 – Cộng trừ trong phạm vi 10", grade: 1, term: 1,
+    config: { operations: ["+", "-"], min_value: 0, max_value: 10, include_word_problems: false, rules: { carry: false } },
+  },
+  {
+    id: "g1-t2-add-sub-100", label: "Lớp 1 – HK2 – Cộng trừ không nhớ phạm vi 100", grade: 1, term: 2,
+    config: { operations: ["+", "-"], min_value: 10, max_value: 99, include_word_problems: true, rules: { carry: false }, theme: "toys" },
+  },
+  {
+    id: "g2-t1-carry-100", label: "Lớp 2 – HK1 – Cộng trừ có nhớ phạm vi 100", grade: 2, term: 1,
+    config: { operations: ["+", "-"], min_value: 10, max_value: 100, include_word_problems: true, rules: { carry: true }, theme: "school" },
+  },
+  {
+    id: "g2-t2-tables-2-5", label: "Lớp 2 – HK2 – Bảng nhân chia 2 và 5", grade: 2, term: 2,
+    config: { operations: ["×", "÷"], min_value: 0, max_value: 50, include_word_problems: true, rules: { tables: [2, 5], remainder: false }, theme: "farm" },
+  },
+  {
+    id: "g3-t1-tables", label: "Lớp 3 – HK1 – Nhân chia trong bảng", grade: 3, term: 1,
+    config: { operations: ["×", "÷"], min_value: 0, max_value: 90, include_word_problems: true, rules: { tables: TABLES_2_9, remainder: false }, theme: "school" },
+  },
+  {
+    id: "g3-t1-remainder", label: "Lớp 3 – HK1 – Chia có dư", grade: 3, term: 1,
+    config: { operations: ["÷"], min_value: 10, max_value: 99, include_word_problems: false, rules: { remainder: true } },
+  },
+  {
+    id: "g3-t2-100000", label: "Lớp 3 – HK2 – Cộng trừ phạm vi 100 000", grade: 3, term: 2,
+    config: { operations: ["+", "-"], min_value: 1000, max_value: 100_000, include_word_problems: true, rules: {}, theme: "market" },
+  },
+  {
+    id: "g4-t2-two-digit", label: "Lớp 4 – HK2 – Nhân chia với số có hai chữ số", grade: 4, term: 2,
+    config: { operations: ["×", "÷"], min_value: 100, max_value: 100_000, include_word_problems: true, rules: { remainder: true }, theme: "market" },
+  },
+  {
+    id: "g5-review", label: "Lớp 5 – Ôn tập bốn phép tính", grade: 5, term: 2,
+    config: { operations: ["+", "-", "×", "÷"], min_value: 100, max_value: 1_000_000, include_word_problems: true, rules: { remainder: true }, theme: "market" },
+  },
+];
@@ -0,0 +1,73 @@
+// lib/dedupe.ts
+// Phát hiện câu trùng hoặc gần trùng: so đề bài đã chuẩn hóa (bỏ dấu, khoảng trắng, dấu câu),
+// coi "3 + 5" và "5 + 3" là một, và so độ giống nhau theo khoảng cách Levenshtein.
+
+import { Problem } from "./types";
+
+export function normalizeText(s: string): string {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/gi, "d")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}+\-×÷*/:=<>?]+/gu, " ")
+    .trim();
+}
+
+// Phép cộng / nhân có tính giao hoán: sắp hai toán hạng để "3 + 5" ≡ "5 + 3"
+function canonical(s: string): string {
+  return normalizeText(s).replace(/(\d+)\s*([+×*])\s*(\d+)/g, (_, a, op, b) =>
+    Number(a) <= Number(b) ? `${a} ${op} ${b}` : `${b} ${op} ${a}`,
+  );
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/** 1 = giống hệt, 0 = khác hoàn toàn. */
+export function similarity(a: string, b: string): number {
+  const x = canonical(a), y = canonical(b);
+  if (x === y) return 1;
+  const len = Math.max(x.length, y.length);
+  return len === 0 ? 1 : 1 - levenshtein(x, y) / len;
+}
+
+export const NEAR_DUPLICATE = 0.85;
+
+/**
+ * Nhóm các câu trùng nhau (mỗi nhóm ≥ 2 câu, giữ thứ tự xuất hiện).
+ * Hai câu chỉ được coi là trùng khi cùng đáp án — tránh gộp "12 + 5" với "12 + 6".
+ */
+export function findDuplicateGroups(problems: Problem[], threshold = NEAR_DUPLICATE): Problem[][] {
+  const keys = problems.map((p) => canonical(p.text));
+  const groupOf = new Array<number>(problems.length).fill(-1);
+  const groups: Problem[][] = [];
+  for (let i = 0; i < problems.length; i++) {
+    if (groupOf[i] !== -1) continue;
+    for (let j = i + 1; j < problems.length; j++) {
+      if (groupOf[j] !== -1 || problems[i].answer.trim() !== problems[j].answer.trim()) continue;
+      const len = Math.max(keys[i].length, keys[j].length);
+      // Chênh lệch độ dài đã vượt ngưỡng thì khỏi tính Levenshtein
+      if (len && Math.abs(keys[i].length - keys[j].length) / len > 1 - threshold) continue;
+      if (keys[i] === keys[j] || similarity(problems[i].text, problems[j].text) >= threshold) {
+        if (groupOf[i] === -1) {
+          groupOf[i] = groups.length;
+          groups.push([problems[i]]);
+        }
+        groupOf[j] = groupOf[i];
+        groups[groupOf[i]].push(problems[j]);
+      }
+    }
+  }
+  return groups;
+}
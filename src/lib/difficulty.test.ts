@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+
+import type { Problem } from "./types";
+import { carryCount, parseSteps, scoreProblem, scoreSteps, withDifficulty } from "./difficulty";
+
+const score = (text: string, extra: Partial<Problem> = {}) =>
+  scoreProblem({ id: 1, text, answer: "", kind: "arithmetic", ...extra })?.score;
+
+const codes = (text: string, extra: Partial<Problem> = {}) =>
+  scoreProblem({ id: 1, text, answer: "", kind: "arithmetic", ...extra })?.factors.map((f) => f.code);
+
+describe("carryCount", () => {
+  it("đếm cả nhớ / mượn dây chuyền", () => {
+    expect(carryCount(12, 5, "+")).toBe(0);
+    expect(carryCount(47, 38, "+")).toBe(1);
+    expect(carryCount(999, 1, "+")).toBe(3);
+    expect(carryCount(52, 38, "-")).toBe(1);
+    expect(carryCount(1000, 1, "-")).toBe(3);
+  });
+});
+
+describe("parseSteps", () => {
+  it("nhân chia trước, cộng trừ sau; ngoặc đổi thứ tự", () => {
+    expect(parseSteps("2 + 3 × 4")).toMatchObject({
+      steps: [{ a: 3, b: 4, op: "×", result: 12 }, { a: 2, b: 12, op: "+", result: 14 }],
+      parentheses: false,
+      mixedOrder: true,
+    });
+    expect(parseSteps("(2 + 3) × 4")).toMatchObject({
+      steps: [{ a: 2, b: 3, op: "+", result: 5 }, { a: 5, b: 4, op: "×", result: 20 }],
+      parentheses: true,
+      mixedOrder: false,
+    });
+  });
+
+  it("biểu thức dở dang hoặc không có phép tính thì null", () => {
+    expect(parseSteps("12 +")).toBeNull();
+    expect(parseSteps("(12 + 5")).toBeNull();
+    expect(parseSteps("12")).toBeNull();
+  });
+});
+
+describe("scoreProblem", () => {
+  it("khó dần theo phép toán, số chữ số và nhớ", () => {
+    const ladder = ["12 + 5 = ?", "6 × 7 = ?", "47 + 38 = ?", "476 + 389 = ?", "36 × 14 = ?"].map((t) => score(t)!);
+    expect(ladder).toEqual([...ladder].sort((a, b) => a - b));
+    expect(new Set(ladder).size).toBe(ladder.length);
+  });
+
+  it("mỗi yếu tố ghi lý do", () => {
+    expect(codes("47 + 38 = ?")).toEqual(["op", "digits", "magnitude", "carries"]);
+    expect(codes("13 × 4 = ?")).toContain("outside_table");
+    expect(codes("17 ÷ 5 = ?")).toContain("remainder");
+    expect(codes("Tính: (12 + 5) × 3 = ?", { kind: "expression" })).toEqual(expect.arrayContaining(["steps", "parentheses"]));
+    expect(codes("So sánh (>, <, =): 54 + 15 … 64", { kind: "comparison" })).toContain("kind");
+  });
+
+  it("so với phạm vi số của lớp", () => {
+    expect(codes("6 × 7 = ?", { grade: 1 })).toContain("grade1_mul_div");
+    expect(codes("476 + 389 = ?", { grade: 1 })).toContain("above_grade");
+    expect(codes("12 + 5 = ?", { grade: 3 })).toContain("below_grade");
+    expect(score("12 + 5 = ?", { grade: 3 })).toBeLessThan(score("12 + 5 = ?")!);
+  });
+
+  it("lời văn dùng op và hai số đầu tiên, đọc được số có nhóm nghìn", () => {
+    const word = { kind: "word" as const, op: "-" as const };
+    const b = scoreProblem({ id: 1, text: "Mẹ đưa 20.000 đồng, mua bánh hết 13.500 đồng. Còn lại bao nhiêu?", answer: "", ...word });
+    expect(b?.factors.find((f) => f.code === "digits")?.params.n).toBe(5);
+    expect(b?.factors.map((f) => f.code)).toContain("word");
+    expect(scoreProblem({ id: 1, text: "Lan có 5 quả cam.", answer: "", ...word })).toBeNull();
+  });
+
+  it("điểm luôn trong 0..1", () => {
+    expect(scoreSteps([{ a: 987654, b: 123, op: "÷", result: 8029.7 }], { grade: 1, word: true }).score).toBe(1);
+    expect(score("1 + 1 = ?", { grade: 5 })).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe("withDifficulty", () => {
+  it("chỉ chấm câu chưa có độ khó", () => {
+    const [kept, scored, unknown] = withDifficulty([
+      { id: 1, text: "47 + 38 = ?", answer: "85", kind: "arithmetic", difficulty: 0.9 },
+      { id: 2, text: "47 + 38 = ?", answer: "85", kind: "arithmetic" },
+      { id: 3, text: "Vẽ một hình tròn.", answer: "", kind: "geometry" },
+    ]);
+    expect(kept.difficulty).toBe(0.9);
+    expect(scored.difficulty).toBe(score("47 + 38 = ?"));
+    expect(unknown.difficulty).toBeUndefined();
+  });
+});
@@ -0,0 +1,214 @@
+// lib/difficulty.ts
+// Mô hình độ khó giải thích được cho câu số học: mỗi yếu tố (phép toán, số chữ số, nhớ/mượn,
+// ngoài bảng nhân, chia có dư, nhiều bước, chuẩn theo lớp) cộng một trọng số, tổng kẹp về 0..1.
+
+import { Operation, Problem, ProblemKind } from "./types";
+
+export type Step = { a: number; b: number; op: Operation; result: number };
+
+export type DifficultyFactorCode =
+  | "op" | "digits" | "magnitude" | "carries" | "borrows" | "outside_table" | "remainder" | "steps"
+  | "parentheses" | "mixed_order" | "word" | "kind" | "above_grade" | "grade1_mul_div" | "below_grade";
+
+/** code + params để giao diện dựng nhãn theo ngôn ngữ (lib/i18n describeDifficulty); label là bản tiếng Việt. */
+export type DifficultyFactor = {
+  code: DifficultyFactorCode;
+  params: { op?: Operation; kind?: ProblemKind; n?: number; value?: number; grade?: number };
+  label: string;
+  weight: number;
+};
+
+export type DifficultyBreakdown = { score: number; factors: DifficultyFactor[] };
+
+const OP_BASE: Record<Operation, number> = { "+": 0.1, "-": 0.15, "×": 0.25, "÷": 0.3 };
+const OP_NAMES: Record<Operation, string> = { "+": "Phép cộng", "-": "Phép trừ", "×": "Phép nhân", "÷": "Phép chia" };
+const SYMBOLS: Record<string, Operation> = { "+": "+", "-": "-", "×": "×", x: "×", "*": "×", "÷": "÷", ":": "÷", "/": "÷" };
+const PRECEDENCE: Record<Operation, number> = { "+": 1, "-": 1, "×": 2, "÷": 2 };
+
+const PER_DIGIT = 0.1;
+const PER_CARRY = 0.07;
+const MAX_CARRY = 0.21;
+const OUTSIDE_TABLE = 0.15;
+const REMAINDER = 0.12;
+const PER_EXTRA_STEP = 0.15;
+const PARENTHESES = 0.05;
+const MIXED_ORDER = 0.05;
+const WORD = 0.1;
+const ABOVE_GRADE = 0.15;
+const BELOW_GRADE = -0.1;
+
+// Cộng thêm theo dạng câu, ngoài độ khó của chính các bước tính
+const KIND_FACTORS: Partial<Record<ProblemKind, [string, number]>> = {
+  fill_blank: ["Tìm thành phần chưa biết", 0.1],
+  comparison: ["So sánh hai vế", 0.05],
+  sequence: ["Tìm quy luật dãy số", 0.15],
+  fraction: ["Phân số", 0.2],
+  measurement: ["Đổi đơn vị đo", 0.15],
+  time: ["Thời gian, đồng hồ", 0.1],
+  money: ["Tiền Việt Nam", 0.05],
+  geometry: ["Chu vi, diện tích", 0.15],
+};
+
+// Phạm vi số theo chương trình GDPT 2018: lớp 1 đến 100, lớp 2 đến 1000, lớp 3 đến 100 000,
+// lớp 4–5 làm việc với số nhiều chữ số
+const GRADE_MAX: Record<number, number> = { 1: 100, 2: 1000, 3: 100_000, 4: 1e9, 5: 1e12 };
+
+const digits = (n: number) => String(Math.abs(Math.trunc(n))).length;
+const round2 = (v: number) => Math.round(v * 100) / 100;
+const fmtNum = (n: number) => n.toLocaleString("vi-VN");
+
+/** Số hàng có nhớ (cộng) hoặc có mượn (trừ), tính cả nhớ/mượn dây chuyền. */
+export function carryCount(a: number, b: number, op: "+" | "-"): number {
+  if (!Number.isInteger(a) || !Number.isInteger(b) || a < 0 || b < 0) return 0;
+  let n = 0, carry = 0;
+  while (a > 0 || b > 0) {
+    const da = a % 10, db = b % 10;
+    carry = op === "+" ? (da + db + carry >= 10 ? 1 : 0) : (da - db - carry < 0 ? 1 : 0);
+    n += carry;
+    a = Math.floor(a / 10);
+    b = Math.floor(b / 10);
+  }
+  return n;
+}
+
+const apply = (a: number, b: number, op: Operation) =>
+  op === "+" ? a + b : op === "-" ? a - b : op === "×" ? a * b : b === 0 ? NaN : a / b;
+
+/**
+ * Đọc biểu thức (có thể nhiều phép tính, có ngoặc) thành các bước theo đúng thứ tự thực hiện.
+ * Trả null nếu không phải biểu thức hợp lệ.
+ */
+export function parseSteps(expr: string): { steps: Step[]; parentheses: boolean; mixedOrder: boolean } | null {
+  const tokens = expr.match(/\d+|[+\-×x*÷:/()]/g);
+  if (!tokens) return null;
+  const values: number[] = [];
+  const ops: (Operation | "(")[] = [];
+  const steps: Step[] = [];
+  const reduce = () => {
+    const op = ops.pop() as Operation;
+    const b = values.pop(), a = values.pop();
+    if (a == null || b == null) return false;
+    const result = apply(a, b, op);
+    if (!Number.isFinite(result)) return false;
+    steps.push({ a, b, op, result });
+    values.push(result);
+    return true;
+  };
+  let expectValue = true;
+  for (const t of tokens) {
+    if (/^\d+$/.test(t)) {
+      if (!expectValue) return null;
+      values.push(Number(t));
+      expectValue = false;
+    } else if (t === "(") {
+      if (!expectValue) return null;
+      ops.push("(");
+    } else if (t === ")") {
+      if (expectValue) return null;
+      while (ops.length && ops[ops.length - 1] !== "(") if (!reduce()) return null;
+      if (ops.pop() !== "(") return null;
+    } else {
+      if (expectValue) return null;
+      const op = SYMBOLS[t];
+      while (ops.length && ops[ops.length - 1] !== "(" && PRECEDENCE[ops[ops.length - 1] as Operation] >= PRECEDENCE[op]) {
+        if (!reduce()) return null;
+      }
+      ops.push(op);
+      expectValue = true;
+    }
+  }
+  if (expectValue) return null;
+  while (ops.length) if (ops[ops.length - 1] === "(" || !reduce()) return null;
+  if (steps.length === 0) return null;
+  const used = new Set(steps.map((s) => PRECEDENCE[s.op]));
+  return { steps, parentheses: tokens.includes("("), mixedOrder: !tokens.includes("(") && used.size > 1 };
+}
+
+/** Chấm điểm các bước tính; grade (nếu có) để so với phạm vi số của lớp. */
+export function scoreSteps(
+  steps: Step[],
+  opts: { word?: boolean; grade?: number; parentheses?: boolean; mixedOrder?: boolean; kind?: ProblemKind } = {},
+): DifficultyBreakdown {
+  const factors: DifficultyFactor[] = [];
+  const add = (code: DifficultyFactorCode, params: DifficultyFactor["params"], label: string, weight: number) => {
+    if (Math.abs(weight) >= 0.005) factors.push({ code, params, label, weight: round2(weight) });
+  };
+
+  const hardest = steps.reduce((m, s) => (OP_BASE[s.op] > OP_BASE[m.op] ? s : m), steps[0]);
+  add("op", { op: hardest.op }, OP_NAMES[hardest.op], OP_BASE[hardest.op]);
+
+  const operands = steps.flatMap((s) => [s.a, s.b]);
+  const largest = Math.max(...operands.map(Math.abs));
+  const d = digits(largest);
+  add("digits", { n: d }, `Số lớn nhất có ${d} chữ số`, (d - 1) * PER_DIGIT);
+  // Cùng số chữ số, 98 vẫn khó hơn 12
+  if (d > 1) add("magnitude", { value: largest }, `Độ lớn toán hạng (${fmtNum(largest)})`, 0.05 * (largest / 10 ** d));
+
+  const carries = steps.reduce((n, s) => n + (s.op === "+" ? carryCount(s.a, s.b, "+") : 0), 0);
+  const borrows = steps.reduce((n, s) => n + (s.op === "-" ? carryCount(s.a, s.b, "-") : 0), 0);
+  if (carries) add("carries", { n: carries }, `${carries} lần nhớ`, Math.min(MAX_CARRY, carries * PER_CARRY));
+  if (borrows) add("borrows", { n: borrows }, `${borrows} lần mượn`, Math.min(MAX_CARRY, borrows * PER_CARRY));
+
+  // Bảng nhân / chia: thừa số, số chia và thương đều không quá 10
+  const outside = steps.some((s) =>
+    s.op === "×" ? Math.max(s.a, s.b) > 10 : s.op === "÷" && (s.b > 10 || Math.floor(s.result) > 10),
+  );
+  if (outside) add("outside_table", {}, "Nhân/chia ngoài bảng", OUTSIDE_TABLE);
+  if (steps.some((s) => s.op === "÷" && !Number.isInteger(s.result))) add("remainder", {}, "Chia có dư", REMAINDER);
+
+  if (steps.length > 1) add("steps", { n: steps.length }, `${steps.length} bước tính`, (steps.length - 1) * PER_EXTRA_STEP);
+  if (opts.parentheses) add("parentheses", {}, "Có dấu ngoặc", PARENTHESES);
+  if (opts.mixedOrder) add("mixed_order", {}, "Phải nhớ thứ tự thực hiện phép tính", MIXED_ORDER);
+  if (opts.word) add("word", {}, "Bài toán có lời văn", WORD);
+  const kindFactor = opts.kind && KIND_FACTORS[opts.kind];
+  if (kindFactor) add("kind", { kind: opts.kind }, ...kindFactor);
+
+  if (opts.grade && GRADE_MAX[opts.grade]) {
+    const biggest = Math.max(largest, ...steps.map((s) => Math.abs(s.result)));
+    if (biggest > GRADE_MAX[opts.grade]) add("above_grade", { grade: opts.grade }, `Vượt phạm vi số lớp ${opts.grade}`, ABOVE_GRADE);
+    else if (opts.grade === 1 && steps.some((s) => s.op === "×" || s.op === "÷")) add("grade1_mul_div", {}, "Lớp 1 chưa học nhân chia", ABOVE_GRADE);
+    // Cộng trừ trong phạm vi của hai lớp dưới là ôn lại; bảng nhân chia thì lớp 3 mới học nên không trừ điểm
+    else if (opts.grade >= 3 && biggest <= GRADE_MAX[opts.grade - 2] && steps.every((s) => s.op === "+" || s.op === "-")) add("below_grade", { grade: opts.grade - 2 }, `Chỉ trong phạm vi số lớp ${opts.grade - 2}`, BELOW_GRADE);
+  }
+
+  const score = round2(Math.max(0, Math.min(1, factors.reduce((s, f) => s + f.weight, 0))));
+  return { score, factors };
+}
+
+// Đoạn biểu thức dài nhất trong đề có ít nhất một phép tính, ví dụ "Tính: (12 + 5) × 3 = ?" → "(12 + 5) × 3"
+const EXPR = /[\d(][\d\s+\-×x*÷:/()]*[\d)]/g;
+
+// Các dạng có biểu thức đầy đủ trong đề: đọc biểu thức; các dạng còn lại dùng op và hai số đầu tiên
+const WITH_EXPRESSION: ProblemKind[] = ["arithmetic", "expression", "comparison"];
+
+/**
+ * Chấm một câu: câu có biểu thức thì đọc biểu thức trong đề; câu lời văn và các dạng khác dùng op
+ * và hai số đầu tiên. Trả null nếu không đọc được phép tính.
+ */
+export function scoreProblem(p: Problem, grade = p.grade): DifficultyBreakdown | null {
+  if (WITH_EXPRESSION.includes(p.kind)) {
+    // Câu so sánh có "=" trong lời dẫn "(>, <, =)" nên đọc cả đề
+    const body = p.kind === "comparison" ? p.text : p.text.split("=")[0];
+    const candidates = (body.match(EXPR) ?? []).filter((m) => /\d\s*[+\-×x*÷:/]\s*\(?\s*\d/.test(m));
+    const expr = candidates.sort((a, b) => b.length - a.length)[0];
+    const parsed = expr ? parseSteps(expr) : null;
+    if (parsed) return scoreSteps(parsed.steps, { grade, parentheses: parsed.parentheses, mixedOrder: parsed.mixedOrder, kind: p.kind });
+    return null;
+  }
+  // "13.000 đồng" là một số: nhóm nghìn bằng dấu chấm / phẩy
+  const nums = (p.text.match(/\d{1,3}(?:[.,]\d{3})+(?!\d)|\d+/g) ?? []).map((n) => Number(n.replace(/[.,]/g, "")));
+  if (!p.op || nums.length < 2) return null;
+  let [a, b] = nums;
+  if ((p.op === "-" || p.op === "÷") && b > a) [a, b] = [b, a];
+  const result = apply(a, b, p.op);
+  if (!Number.isFinite(result)) return null;
+  return scoreSteps([{ a, b, op: p.op, result }], { word: p.kind === "word", grade, kind: p.kind });
+}
+
+/** Chấm các câu chưa có difficulty (ví dụ từ file tải lên); câu đã có giữ nguyên. */
+export const withDifficulty = (problems: Problem[], grade?: number): Problem[] =>
+  problems.map((p) => {
+    if (p.difficulty != null) return p;
+    const b = scoreProblem(p, p.grade ?? grade);
+    return b ? { ...p, difficulty: b.score } : p;
+  });
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { applyEdit, parseDifficulty } from "./edit";
+import { evaluateLocal } from "./local/evaluate";
+import type { Problem } from "./types";
+
+const problem: Problem = { id: 1, text: "12 + 5 = ?", answer: "17", kind: "arithmetic", op: "+", difficulty: 0.2 };
+
+const edit = (p: Problem) => ({ text: p.text, answer: p.answer, distractors: p.distractors ?? [], kind: p.kind, difficulty: p.difficulty });
+
+describe("applyEdit", () => {
+  it("sửa đề thì đọc lại phép toán từ đề mới", () => {
+    const out = applyEdit(problem, { ...edit(problem), text: "12 × 5 = ?", answer: "60" });
+    expect(out.op).toBe("×");
+    expect(evaluateLocal([out]).by_op).toEqual({ "×": 1 });
+  });
+
+  it("đổi sang dạng không có phép toán thì bỏ phép toán cũ", () => {
+    const out = applyEdit(problem, { ...edit(problem), text: "Rút gọn 12/28", answer: "3/7", kind: "fraction" });
+    expect(out.op).toBeUndefined();
+  });
+
+  it("không sửa đề và dạng câu thì giữ nguyên phép toán và cách trình bày", () => {
+    const word: Problem = { ...problem, text: "An có 12 quả táo, được cho thêm 5 quả.", kind: "word" };
+    expect(applyEdit(word, { ...edit(word), answer: "17 quả" }).op).toBe("+");
+  });
+
+  it("sửa đề cột dọc thì trình bày lại theo số mới", () => {
+    const out = applyEdit(problem, { ...edit(problem), text: "Đặt tính rồi tính: 45 + 38" });
+    expect(out.math).toMatchObject({ type: "column", operands: [45, 38] });
+  });
+});
+
+describe("parseDifficulty", () => {
+  it("nhận dấu phẩy thập phân", () => {
+    expect(parseDifficulty("0,5")).toBe(0.5);
+    expect(parseDifficulty(" 0.25 ")).toBe(0.25);
+    expect(parseDifficulty("")).toBeUndefined();
+    expect(parseDifficulty("abc")).toBeNaN();
+  });
+});
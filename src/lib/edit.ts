@@ -0,0 +1,38 @@
+// lib/edit.ts
+// Áp nội dung giáo viên sửa tay lên một câu. Sửa đề hay đổi dạng câu thì những gì suy ra từ đề
+// (phép toán, cách trình bày cột dọc / phân số) phải đọc lại, không giữ giá trị của đề cũ.
+
+import { Problem } from "./types";
+import { ProblemSchema } from "./schemas";
+import { withMath } from "./math";
+import { opOf } from "./local/evaluate";
+
+export type ProblemEdit = {
+  text: string;
+  answer: string;
+  distractors: string[];
+  kind: Problem["kind"];
+  difficulty?: number;
+};
+
+/** Ô độ khó nhận cả dấu phẩy thập phân ("0,5") lẫn dấu chấm; để trống thì undefined. */
+export function parseDifficulty(raw: string): number | undefined {
+  const s = raw.trim().replace(",", ".");
+  return s === "" ? undefined : Number(s);
+}
+
+export function applyEdit(problem: Problem, edit: ProblemEdit): Problem {
+  const text = edit.text.trim();
+  const next = ProblemSchema.parse({
+    ...problem,
+    text,
+    answer: edit.answer.trim(),
+    distractors: edit.distractors.length ? edit.distractors : undefined,
+    kind: edit.kind,
+    difficulty: edit.difficulty,
+  });
+  const textChanged = text !== problem.text;
+  if (!textChanged && edit.kind === problem.kind) return next;
+  const out = textChanged ? withMath(next) : next;
+  return { ...out, op: opOf({ ...out, op: undefined }) };
+}
@@ -0,0 +1,143 @@
+// lib/errors.ts
+// Mô hình lỗi chung cho mọi lời gọi API.
+
+export type ApiErrorKind = "validation" | "network" | "timeout" | "server" | "aborted";
+
+/** field → thông báo, ví dụ { count: "Phải ≤ 200" } */
+export type FieldErrors = Record<string, string>;
+
+/** Lỗi do chính ứng dụng phát hiện (không phải văn bản máy chủ trả về), dịch được theo ngôn ngữ giao diện. */
+export type ErrorCode =
+  | "xlsx_corrupt" | "xlsx_compression" | "xlsx_no_sheet" | "offline_format" | "no_mcq"
+  | "no_indexeddb" | "font_load" | "bad_body" | "invalid_response";
+
+export type ErrorParams = {
+  file?: string; method?: number; url?: string; status?: number; what?: string; path?: string; detail?: string;
+};
+
+/** code + params để giao diện dựng thông báo (lib/i18n apiErrorMessage); message là bản tiếng Việt. */
+export type Coded = { code: ErrorCode; params: ErrorParams };
+
+/** Lỗi ngoài lời gọi API (đọc file, dựng PDF, IndexedDB); toApiError giữ nguyên code khi chuyển thành ApiError. */
+export class AppError extends Error implements Coded {
+  readonly code: ErrorCode;
+  readonly params: ErrorParams;
+
+  constructor(code: ErrorCode, message: string, params: ErrorParams = {}) {
+    super(message);
+    this.name = "AppError";
+    this.code = code;
+    this.params = params;
+  }
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly fields: FieldErrors;
+  readonly coded?: Coded;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    opts: { status?: number; fields?: FieldErrors; cause?: unknown; coded?: Coded } = {},
+  ) {
+    super(message, { cause: opts.cause });
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = opts.status;
+    this.fields = opts.fields ?? {};
+    this.coded = opts.coded;
+  }
+
+  /** Có nên thử lại không: lỗi mạng, quá thời gian, 5xx và 429. */
+  get retryable(): boolean {
+    if (this.kind === "network" || this.kind === "timeout") return true;
+    return this.kind === "server" && (this.status == null || this.status >= 500 || this.status === 429);
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, fields: FieldErrors = {}, status?: number, coded?: Coded) {
+    super("validation", message, { status, fields, coded });
+    this.name = "ValidationError";
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(cause?: unknown) {
+    super("network", "Không kết nối được máy chủ. Kiểm tra mạng rồi thử lại.", { cause });
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly ms: number;
+
+  constructor(ms: number) {
+    super("timeout", `Máy chủ không phản hồi sau ${Math.round(ms / 1000)} giây.`);
+    this.name = "TimeoutError";
+    this.ms = ms;
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, status?: number, coded?: Coded) {
+    super("server", message, { status, coded });
+    this.name = "ServerError";
+  }
+}
+
+export class AbortedError extends ApiError {
+  constructor() {
+    super("aborted", "Đã hủy.");
+    this.name = "AbortedError";
+  }
+}
+
+export const isAborted = (e: unknown) => e instanceof ApiError && e.kind === "aborted";
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new AbortedError();
+}
+
+type Detail = { loc?: (string | number)[]; msg?: string; message?: string; field?: string };
+
+/**
+ * Đọc phản hồi lỗi. Hỗ trợ dạng FastAPI ({ detail: [{ loc, msg }] } hoặc { detail: "..." }),
+ * { errors: { field: msg } } và văn bản thuần.
+ */
+export async function errorFromResponse(res: Response): Promise<ApiError> {
+  const raw = await res.text().catch(() => "");
+  let message = raw || res.statusText || `HTTP ${res.status}`;
+  const fields: FieldErrors = {};
+  try {
+    const body = JSON.parse(raw);
+    if (Array.isArray(body?.detail)) {
+      for (const d of body.detail as Detail[]) {
+        const field = d.field ?? d.loc?.filter((x) => x !== "body").join(".");
+        if (field) fields[field] = d.msg ?? d.message ?? "Không hợp lệ";
+      }
+      message = body.message ?? Object.values(fields)[0] ?? message;
+    } else if (typeof body?.detail === "string") {
+      message = body.detail;
+    } else if (body?.errors && typeof body.errors === "object") {
+      Object.assign(fields, body.errors);
+      message = body.message ?? Object.values(fields)[0] ?? message;
+    } else if (typeof body?.message === "string") {
+      message = body.message;
+    }
+  } catch {
+    // không phải JSON — giữ nguyên văn bản
+  }
+  if (res.status === 400 || res.status === 422) return new ValidationError(message, fields, res.status);
+  return new ServerError(message, res.status);
+}
+
+/** Chuẩn hóa lỗi bất kỳ thành ApiError để UI xử lý một kiểu duy nhất. */
+export function toApiError(e: unknown): ApiError {
+  if (e instanceof ApiError) return e;
+  if (e instanceof DOMException && e.name === "AbortError") return new AbortedError();
+  if (e instanceof AppError) return new ServerError(e.message, undefined, { code: e.code, params: e.params });
+  return new ServerError(e instanceof Error ? e.message : String(e));
+}
@@ -0,0 +1,291 @@
+// lib/exporters/bubblesheet.ts
+// Phiếu tô trắc nghiệm cho các câu có phương án của một phiếu (một mã đề), kèm bản đáp án cùng bố cục.
+// Mọi ô tròn nằm ở vị trí cố định (không phụ thuộc độ dài tiêu đề) nên in bản đáp án lên giấy trong
+// hoặc đục lỗ rồi đặt chồng lên phiếu học sinh là chấm được; bốn ô vuông ở góc để căn cho khớp.
+
+import { PDFDocument, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+
+import { ExportOptions, ExportPayload } from "../types";
+import { AppError } from "../errors";
+import { OPTION_LETTERS } from "../mcq";
+import { VARIANT_CODES } from "../variants";
+import { ANSWER, INK, MUTED, PAPER, loadFont } from "../local/pdf";
+import { itemsOf, labelsOf, studentFields, type Item } from "./model";
+
+/** Phiếu học sinh để tô, hoặc bản đáp án tô sẵn ô đúng. */
+export type BubbleSheetKind = "sheet" | "key";
+
+export const BUBBLE_SHEET_LABELS: Record<BubbleSheetKind, string> = {
+  sheet: "Phiếu tô trắc nghiệm",
+  key: "Đáp án phiếu tô",
+};
+
+// Chữ in trên phiếu theo ngôn ngữ của đề (payload.language), như các nhãn trong exporters/model
+const TEXT = {
+  vi: {
+    sheet: "PHIẾU TRẢ LỜI TRẮC NGHIỆM",
+    key: "ĐÁP ÁN – PHIẾU TRẢ LỜI TRẮC NGHIỆM",
+    cont: "(tiếp)",
+    id: "Số báo danh",
+    howTo: "Mỗi câu tô kín một ô bằng bút chì hoặc bút mực. Ví dụ:",
+    change: "Muốn đổi: gạch chéo ô cũ rồi tô ô mới. Ghi số báo danh vào ô trống rồi tô chữ số tương ứng.",
+    mcqCount: "Số câu trắc nghiệm",
+    grading: [
+      "In ra giấy trong (hoặc đục lỗ các ô tô sẵn) rồi đặt chồng lên phiếu học sinh,",
+      "căn bốn ô vuông ở góc cho khớp; ô tô sẵn nào học sinh không tô là câu sai.",
+    ],
+    items: (n: number) => `${n} câu`,
+  },
+  en: {
+    sheet: "MULTIPLE-CHOICE ANSWER SHEET",
+    key: "ANSWER KEY – MULTIPLE-CHOICE ANSWER SHEET",
+    cont: "(continued)",
+    id: "Student ID",
+    howTo: "Fill in one bubble per question with pencil or pen. Example:",
+    change: "To change an answer, cross out the old bubble and fill in the new one. Write your ID in the boxes, then fill in the digits.",
+    mcqCount: "Multiple-choice questions",
+    grading: [
+      "Print on transparency (or punch out the filled bubbles) and lay it over the student's sheet,",
+      "lining up the four corner squares; any filled bubble the student left empty is a wrong answer.",
+    ],
+    items: (n: number) => `${n} ${n === 1 ? "question" : "questions"}`,
+  },
+};
+
+const textOf = (o: ExportOptions) => TEXT[o.language ?? "vi"];
+
+const MARGIN = 36;
+const MARK = 10;              // cạnh ô vuông căn lề ở bốn góc
+const ID_DIGITS = 6;          // số chữ số của số báo danh
+const CELL = 16;              // bề ngang một cột chữ số
+const CODE_W = 30;            // cột mã đề rộng hơn cho vừa nhãn
+const DIGIT_ROW = 14;
+const ID_HEIGHT = 12 + CELL + 4 + 10 * DIGIT_ROW;
+const HEAD = 50;              // tiêu đề và dòng phụ trên cùng mỗi trang
+const GRID_COLUMNS = 4;        // tối đa; câu nhiều phương án thì bớt cột cho dòng không tràn sang cột bên
+const ROW_LEFT = 24 + 14;     // từ mép cột tới tâm ô A (số câu căn phải trong 24pt)
+const COL_GAP = 8;
+const ROW = 16;
+const GROUP = 5;              // cách thêm một khoảng sau mỗi 5 câu cho dễ dò
+const GROUP_GAP = 6;
+const BUBBLE = 6;             // bán kính ô tô
+const STEP = 18;              // khoảng cách giữa các ô A, B, C...
+
+/** Câu trắc nghiệm của phiếu; số câu giữ đúng số trên đề (câu tự luận bị bỏ qua). */
+export const bubbleItems = (payload: ExportPayload): Item[] => itemsOf(payload.problems).filter((it) => it.mcq);
+
+const textWidth = (font: PDFFont, s: string, size: number) => font.widthOfTextAtSize(s, size);
+
+/** Cắt bớt để dòng chữ không làm xê dịch bố cục. */
+function fit(font: PDFFont, s: string, width: number, size: number): string {
+  if (textWidth(font, s, size) <= width) return s;
+  let cut = s.length;
+  while (cut > 1 && textWidth(font, `${s.slice(0, cut)}…`, size) > width) cut--;
+  return `${s.slice(0, cut)}…`;
+}
+
+function centered(page: PDFPage, font: PDFFont, s: string, cx: number, y: number, size: number, color = INK) {
+  page.drawText(s, { x: cx - textWidth(font, s, size) / 2, y, size, font, color });
+}
+
+/** Ô tròn có chữ bên trong; filled thì tô kín như đã được chọn. */
+function bubble(page: PDFPage, font: PDFFont, label: string, cx: number, cy: number, r: number, filled: boolean) {
+  page.drawCircle({
+    x: cx, y: cy, size: r,
+    borderColor: filled ? ANSWER : INK, borderWidth: 0.7, color: filled ? ANSWER : undefined,
+  });
+  const size = r + 1;
+  centered(page, font, label, cx, cy - size * 0.36, size, filled ? rgb(1, 1, 1) : MUTED);
+}
+
+function drawMarks(page: PDFPage) {
+  const { width, height } = page.getSize();
+  for (const [x, y] of [
+    [MARGIN, height - MARGIN - MARK], [width - MARGIN - MARK, height - MARGIN - MARK],
+    [MARGIN, MARGIN], [width - MARGIN - MARK, MARGIN],
+  ]) {
+    page.drawRectangle({ x, y, width: MARK, height: MARK, color: INK });
+  }
+}
+
+function drawTitle(page: PDFPage, font: PDFFont, kind: BubbleSheetKind, payload: ExportPayload, cont: boolean) {
+  const { width, height } = page.getSize();
+  const T = textOf(payload);
+  const title = T[kind] + (cont ? ` ${T.cont}` : "");
+  const inner = width - 2 * (MARGIN + MARK + 12);
+  centered(page, font, fit(font, title, inner, 14), width / 2, height - MARGIN - 12, 14);
+  const sub = [payload.title, payload.header].filter(Boolean).join(" · ");
+  if (sub) centered(page, font, fit(font, sub, inner, 10), width / 2, height - MARGIN - 27, 10, MUTED);
+  const y = height - MARGIN - HEAD + 12;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: width - MARGIN, y }, thickness: 0.8, color: MUTED });
+}
+
+/**
+ * Khối số báo danh (6 cột chữ số 0–9, trên có ô để viết) và cột mã đề A–D.
+ * Mã đề đã biết thì tô sẵn ở cả hai bản vì mỗi phiếu in riêng cho một mã đề.
+ */
+function drawIdBlock(page: PDFPage, font: PDFFont, payload: ExportPayload, right: number, top: number): number {
+  const code = payload.variant_code;
+  const codeX = right - CODE_W;
+  const codeMid = codeX + CODE_W / 2;
+  const idX = codeX - 10 - ID_DIGITS * CELL;
+  centered(page, font, textOf(payload).id, idX + (ID_DIGITS * CELL) / 2, top - 9, 9);
+  centered(page, font, fit(font, labelsOf(payload).code, CODE_W + 10, 9), codeMid, top - 9, 9);
+  const boxTop = top - 12;
+  const box = (x: number, text?: string) => {
+    page.drawRectangle({ x: x + 1, y: boxTop - CELL, width: CELL - 2, height: CELL - 2, borderColor: INK, borderWidth: 0.7 });
+    if (text) centered(page, font, text, x + CELL / 2, boxTop - CELL + 4, 10);
+  };
+  for (let d = 0; d < ID_DIGITS; d++) box(idX + d * CELL);
+  box(codeMid - CELL / 2, code);
+  const rowsTop = boxTop - CELL - 4;
+  for (let v = 0; v < 10; v++) {
+    const cy = rowsTop - v * DIGIT_ROW - DIGIT_ROW / 2;
+    for (let d = 0; d < ID_DIGITS; d++) bubble(page, font, String(v), idX + d * CELL + CELL / 2, cy, 5.5, false);
+    if (v < VARIANT_CODES.length) {
+      const letter = VARIANT_CODES[v];
+      bubble(page, font, letter, codeMid, cy, 5.5, letter === code);
+    }
+  }
+  page.drawRectangle({
+    x: idX - 4, y: top - ID_HEIGHT - 4, width: right - idX + 8, height: ID_HEIGHT + 4,
+    borderColor: MUTED, borderWidth: 0.6,
+  });
+  return idX - 4;
+}
+
+/** Ô Trường / Lớp / Họ tên / Ngày và hướng dẫn tô; bản đáp án thay bằng hướng dẫn chấm. */
+function drawFields(
+  page: PDFPage, font: PDFFont, kind: BubbleSheetKind, payload: ExportPayload, count: number,
+  x: number, top: number, width: number,
+) {
+  const T = textOf(payload);
+  let y = top - 12;
+  if (kind === "sheet") {
+    for (const [label, value] of studentFields(payload).flat()) {
+      page.drawText(`${label}:`, { x, y, size: 11, font, color: INK });
+      const lx = x + textWidth(font, `${label}:`, 11) + 4;
+      if (value) page.drawText(fit(font, value, x + width - lx, 11), { x: lx, y, size: 11, font, color: INK });
+      else page.drawLine({ start: { x: lx, y: y - 1 }, end: { x: x + width, y: y - 1 }, thickness: 0.6, color: MUTED, dashArray: [1, 2.5] });
+      y -= 24;
+    }
+    y -= 6;
+    page.drawText(T.howTo, { x, y, size: 9, font, color: MUTED });
+    const ex = x + textWidth(font, T.howTo, 9) + 12;
+    bubble(page, font, "A", ex, y + 3, BUBBLE, false);
+    bubble(page, font, "B", ex + STEP, y + 3, BUBBLE, true);
+    bubble(page, font, "C", ex + 2 * STEP, y + 3, BUBBLE, false);
+    y -= 16;
+    page.drawText(T.change, { x, y, size: 9, font, color: MUTED });
+  } else {
+    const facts = [`${T.mcqCount}: ${count}`, payload.variant_code && `${labelsOf(payload).code}: ${payload.variant_code}`].filter(Boolean);
+    for (const l of facts as string[]) {
+      page.drawText(l, { x, y, size: 11, font, color: INK });
+      y -= 24;
+    }
+    for (const l of T.grading) {
+      page.drawText(l, { x, y, size: 9, font, color: MUTED });
+      y -= 14;
+    }
+  }
+}
+
+/** Một dòng câu: số câu rồi các ô A, B, C... theo đúng thứ tự phương án như bản xem trước. */
+function drawRow(page: PDFPage, font: PDFFont, { n, mcq }: Item, x: number, top: number, key: boolean) {
+  const cy = top - ROW / 2;
+  const label = `${n}.`;
+  page.drawText(label, { x: x + 24 - textWidth(font, label, 10), y: cy - 3.5, size: 10, font, color: INK });
+  mcq!.options.forEach((_, j) => {
+    const letter = OPTION_LETTERS[j];
+    bubble(page, font, letter, x + ROW_LEFT + j * STEP, cy, BUBBLE, key && letter === mcq!.correct);
+  });
+}
+
+/** Số cột câu vừa khổ giấy theo câu có nhiều phương án nhất; giữa hai cột chừa ít nhất COL_GAP. */
+function gridColumns(items: Item[], contentWidth: number): number {
+  const widest = Math.max(...items.map((it) => it.mcq!.options.length));
+  const rowWidth = ROW_LEFT + (widest - 1) * STEP + BUBBLE + COL_GAP;
+  return Math.max(1, Math.min(GRID_COLUMNS, Math.floor(contentWidth / rowWidth)));
+}
+
+/** Vẽ phiếu (hoặc bản đáp án) lên một tài liệu đã có font. */
+function drawSheet(doc: PDFDocument, font: PDFFont, payload: ExportPayload, kind: BubbleSheetKind) {
+  const items = bubbleItems(payload);
+  if (!items.length) throw new AppError("no_mcq", "Phiếu chưa có câu trắc nghiệm nào để in phiếu tô");
+  const size = PAPER[payload.paper ?? "a4"];
+  const contentWidth = size[0] - 2 * MARGIN;
+  const columns = gridColumns(items, contentWidth);
+  const colWidth = contentWidth / columns;
+  const bottom = MARGIN + MARK + 12;
+  const pages: PDFPage[] = [];
+
+  const newPage = () => {
+    const page = doc.addPage(size);
+    pages.push(page);
+    drawMarks(page);
+    drawTitle(page, font, kind, payload, pages.length > 1);
+    return page;
+  };
+
+  let page = newPage();
+  let top = size[1] - MARGIN - HEAD;
+  const idLeft = drawIdBlock(page, font, payload, size[0] - MARGIN, top);
+  drawFields(page, font, kind, payload, items.length, MARGIN, top, idLeft - MARGIN - 18);
+  top -= ID_HEIGHT + 14;
+  page.drawLine({ start: { x: MARGIN, y: top }, end: { x: size[0] - MARGIN, y: top }, thickness: 0.8, color: MUTED });
+  top -= 10;
+
+  // Khoảng cách nhóm tính theo dòng trong cột để các cột thẳng hàng với nhau
+  let col = 0;
+  let row = 0;
+  let y = top;
+  for (const it of items) {
+    const gap = row > 0 && row % GROUP === 0 ? GROUP_GAP : 0;
+    if (y - gap - ROW < bottom) {
+      col++;
+      if (col >= columns) {
+        page = newPage();
+        top = size[1] - MARGIN - HEAD;
+        col = 0;
+      }
+      y = top;
+      row = 0;
+    } else {
+      y -= gap;
+    }
+    drawRow(page, font, it, MARGIN + col * colWidth, y, kind === "key");
+    y -= ROW;
+    row++;
+  }
+
+  const L = labelsOf(payload);
+  pages.forEach((p, i) => {
+    const label = [
+      payload.variant_code && `${L.code} ${payload.variant_code}`,
+      textOf(payload).items(items.length),
+      `${L.page} ${i + 1}/${pages.length}`,
+    ].filter(Boolean).join(" · ");
+    centered(p, font, label, size[0] / 2, MARGIN + 1, 9, MUTED);
+  });
+}
+
+/** Phiếu tô / bản đáp án cho một hoặc nhiều mã đề, mỗi mã đề bắt đầu trang mới trong cùng một file. */
+export async function renderBubbleSheet(
+  payloads: ExportPayload[],
+  kind: BubbleSheetKind,
+  font?: ArrayBuffer | Uint8Array,
+): Promise<Uint8Array> {
+  // Giống local/pdf: không ghi metadata ngày tạo để cùng đầu vào cho cùng một file
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  doc.registerFontkit(fontkit);
+  const embedded = await doc.embedFont(font ?? (await loadFont()), { subset: true });
+  doc.setTitle(textOf(payloads[0] ?? {})[kind]);
+  for (const payload of payloads) drawSheet(doc, embedded, payload, kind);
+  return doc.save({ useObjectStreams: false });
+}
+
+export async function renderBubbleSheetBlob(payloads: ExportPayload[], kind: BubbleSheetKind): Promise<Blob> {
+  const bytes = await renderBubbleSheet(payloads, kind);
+  return new Blob([bytes as BlobPart], { type: "application/pdf" });
+}
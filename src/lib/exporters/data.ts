@@ -0,0 +1,58 @@
+// lib/exporters/data.ts
+// Xuất dữ liệu để lưu trữ hoặc nhập lại: CSV cùng cột với mẫu tải lên (lib/import/mapping TEMPLATE_CSV)
+// và JSON giữ nguyên Problem. Bản chỉ có đề bỏ đáp án; bản chỉ có đáp án bỏ đề.
+// Nhiều mã đề thì gộp một file: CSV thêm cột variant ở cuối, JSON thêm danh sách variants.
+
+import { ExportContent, ExportPayload } from "../types";
+import { toCSV } from "../import/csv";
+import { itemsOf, type Item } from "./model";
+
+const num = (d?: number) => (d == null ? "" : String(d));
+
+// Bản đề + đáp án: năm cột đầu trùng mẫu nhập nên mở lại được bằng "Ngân hàng GV"; các cột sau được bỏ qua
+// khi nhập (tên cột tránh các tiền tố mà guessMapping đoán là nhiễu, như option)
+const CSV_COLUMNS: Record<ExportContent, string[]> = {
+  questions: ["no", "text", "options", "kind"],
+  answers: ["no", "answer", "correct_option"],
+  both: ["text", "answer", "distractors", "kind", "difficulty", "display_order", "correct_option", "topic"],
+};
+
+const csvRow = (content: ExportContent, { n, p, mcq }: Item): string[] =>
+  content === "questions"
+    ? [String(n), p.text, mcq?.options.join(";") ?? "", p.kind]
+    : content === "answers"
+      ? [String(n), p.answer, mcq?.correct ?? ""]
+      : [
+          p.text, p.answer, (p.distractors ?? []).join(";"), p.kind, num(p.difficulty),
+          mcq?.options.join(";") ?? "", mcq?.correct ?? "", p.topic ?? "",
+        ];
+
+export function renderCsv(payloads: ExportPayload[], content: ExportContent): string {
+  const multi = payloads.length > 1;
+  const rows = [
+    [...CSV_COLUMNS[content], ...(multi ? ["variant"] : [])],
+    ...payloads.flatMap((pl) =>
+      itemsOf(pl.problems).map((it) => [...csvRow(content, it), ...(multi ? [pl.variant_code ?? ""] : [])]),
+    ),
+  ];
+  // BOM để Excel nhận đúng UTF-8 (tiếng Việt có dấu)
+  return "\uFEFF" + toCSV(rows);
+}
+
+function jsonProblems({ problems }: ExportPayload, content: ExportContent) {
+  const items = itemsOf(problems);
+  return content === "questions"
+    ? items.map(({ n, p, mcq }) => ({ no: n, id: p.id, kind: p.kind, text: p.text, math: p.math, options: mcq?.options }))
+    : content === "answers"
+      ? items.map(({ n, p, mcq }) => ({ no: n, id: p.id, answer: p.answer, correct_option: mcq?.correct }))
+      : problems;
+}
+
+export function renderJson(payloads: ExportPayload[], content: ExportContent): string {
+  const { title, header, variant_code } = payloads[0] ?? { problems: [] };
+  const data =
+    payloads.length > 1
+      ? { title, header, content, variants: payloads.map((p) => ({ variant_code: p.variant_code, problems: jsonProblems(p, content) })) }
+      : { title, header, variant_code, content, problems: payloads[0] ? jsonProblems(payloads[0], content) : [] };
+  return JSON.stringify(data, null, 2) + "\n";
+}
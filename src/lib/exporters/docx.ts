@@ -0,0 +1,181 @@
+// lib/exporters/docx.ts
+// File Word (.docx) để GV sửa tiếp: WordprocessingML tối thiểu (document, styles, footer số trang)
+// đóng gói bằng exporters/zip. Cột dọc / chia cột in bằng font đơn cách cho thẳng hàng.
+
+import { ExportContent, ExportPayload } from "../types";
+import { OPTION_LETTERS } from "../mcq";
+import { isBlockMath, mathToText } from "../math";
+import { answerLabel, itemsOf, keyText, keyTitle, labelsOf, planOf, studentFields, type Item, type Labels } from "./model";
+import { zipStore } from "./zip";
+
+const W = `xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"`;
+
+// Khổ giấy và lề theo twip (1/20 point)
+const PAGE = { a4: { w: 11906, h: 16838 }, letter: { w: 12240, h: 15840 } };
+const MARGIN = 1021;
+
+const DOTS = "……………………………";
+
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+type RunStyle = { bold?: boolean; size?: number; color?: string; mono?: boolean };
+
+function run(text: string, { bold, size, color, mono }: RunStyle = {}): string {
+  const pr = [
+    mono ? `<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>` : "",
+    bold ? "<w:b/>" : "",
+    color ? `<w:color w:val="${color}"/>` : "",
+    size ? `<w:sz w:val="${size * 2}"/>` : "",
+  ].join("");
+  // Tab trong văn bản phải thành <w:tab/> thì Word mới căn theo điểm dừng
+  const body = text
+    .split("\t")
+    .map((t) => `<w:t xml:space="preserve">${esc(t)}</w:t>`)
+    .join("<w:tab/>");
+  return `<w:r>${pr ? `<w:rPr>${pr}</w:rPr>` : ""}${body}</w:r>`;
+}
+
+type ParaStyle = { align?: "center" | "right"; indent?: number; after?: number; keepNext?: boolean; tabs?: number[] };
+
+function para(runs: string | string[], { align, indent, after, keepNext, tabs }: ParaStyle = {}): string {
+  const pr = [
+    keepNext ? "<w:keepNext/>" : "",
+    tabs?.length ? `<w:tabs>${tabs.map((t) => `<w:tab w:val="left" w:pos="${t}"/>`).join("")}</w:tabs>` : "",
+    after != null ? `<w:spacing w:after="${after}"/>` : "",
+    indent ? `<w:ind w:left="${indent}" w:hanging="${indent}"/>` : "",
+    align ? `<w:jc w:val="${align}"/>` : "",
+  ].join("");
+  return `<w:p>${pr ? `<w:pPr>${pr}</w:pPr>` : ""}${Array.isArray(runs) ? runs.join("") : runs}</w:p>`;
+}
+
+const GREEN = "047857";
+const GREY = "64748B";
+const INDENT = 454;
+
+function questionXml({ n, p, mcq }: Item, L: Labels, withAnswer: boolean, bubbles: boolean, textWidth: number): string[] {
+  const out = [para([run(`${n}.\t`), run(p.text)], { indent: INDENT, tabs: [INDENT], keepNext: true, after: 40 })];
+  if (isBlockMath(p.math)) {
+    for (const line of mathToText(p.math, withAnswer)) {
+      out.push(para(run(line || " ", { mono: true }), { indent: INDENT * 2, keepNext: true, after: 0 }));
+    }
+  }
+  if (mcq) {
+    // Bốn phương án trên một dòng, cách nhau bằng điểm dừng tab đều nhau
+    const step = Math.floor((textWidth - INDENT) / 4);
+    const runs = mcq.options.map((o, j) => {
+      const letter = OPTION_LETTERS[j];
+      const hit = withAnswer && letter === mcq.correct;
+      const label = bubbles ? `○ ${letter}  ${o}` : `${letter}. ${o}`;
+      return run(`\t${label}`, hit ? { color: GREEN, bold: true } : {});
+    });
+    out.push(para(runs, { tabs: [0, 1, 2, 3].map((i) => INDENT + i * step), keepNext: !withAnswer, after: 40 }));
+  }
+  if (withAnswer) {
+    if (!mcq) out.push(para([run("\t"), run(`${L.answer}: ${p.answer}`, { color: GREEN })], { tabs: [INDENT], after: 40 }));
+  } else if (!isBlockMath(p.math) && !(mcq && bubbles)) {
+    const label = `${answerLabel(p, L)}:`;
+    if (p.kind === "word") {
+      out.push(para([run("\t"), run(label, { color: GREY })], { tabs: [INDENT], keepNext: true, after: 0 }));
+      for (let i = 0; i < 3; i++) out.push(para([run("\t"), run(DOTS.repeat(3), { color: GREY })], { tabs: [INDENT], after: 0 }));
+    } else {
+      out.push(para([run("\t"), run(`${label} ${DOTS}`, { color: GREY })], { tabs: [INDENT], after: 40 }));
+    }
+  }
+  out.push(para("", { after: 80 }));
+  return out;
+}
+
+function headerXml(payload: ExportPayload, withFields: boolean, half: number): string[] {
+  const out: string[] = [];
+  if (withFields) {
+    for (const row of studentFields(payload)) {
+      const cells = row.map(([label, value]) => `${label}: ${value ?? DOTS}`);
+      out.push(para(run(cells.join("\t")), { tabs: [half], after: 60 }));
+    }
+  }
+  if (payload.variant_code) out.push(para(run(`${labelsOf(payload).code}: ${payload.variant_code}`, { bold: true }), { align: "right", after: 0 }));
+  if (payload.title) out.push(para(run(payload.title, { bold: true, size: 16 }), { align: "center", after: 40 }));
+  if (payload.header) out.push(para(run(payload.header, { color: GREY, size: 10 }), { align: "center", after: 40 }));
+  out.push(para("", { after: 120 }));
+  return out;
+}
+
+const sectPr = (paper: { w: number; h: number }, columns: number) =>
+  `<w:sectPr><w:footerReference w:type="default" r:id="rFooter"/>` +
+  `<w:pgSz w:w="${paper.w}" w:h="${paper.h}"/>` +
+  `<w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="567" w:footer="567" w:gutter="0"/>` +
+  `<w:cols w:num="${columns}" w:space="454"/></w:sectPr>`;
+
+const styles = (lang: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${W}><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="26"/><w:lang w:val="${lang}"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults></w:styles>`;
+
+const field = (instr: string) => `<w:fldSimple w:instr="${instr}">${run("1", { size: 9, color: GREY })}</w:fldSimple>`;
+
+const footer = (L: Labels) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr ${W}>${para([run(`${L.page} `, { size: 9, color: GREY }), field("PAGE"), run("/", { size: 9, color: GREY }), field("NUMPAGES")], { align: "center" })}</w:ftr>`;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+const DOC_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/></Relationships>`;
+
+type Section = { body: string[]; columns: number };
+
+// Mỗi phần là một section riêng để phần đề và trang đáp án có số cột khác nhau
+function sectionsOf(payload: ExportPayload, content: ExportContent, paper: { w: number; h: number }): Section[] {
+  const items = itemsOf(payload.problems);
+  const plan = planOf(content, payload.answer_layout);
+  const columns = payload.columns ?? 1;
+  const textWidth = paper.w - 2 * MARGIN;
+  const colWidth = Math.floor((textWidth - (columns - 1) * 454) / columns);
+  const bubbles = payload.answer_style === "bubbles";
+  const L = labelsOf(payload);
+  const sections: Section[] = [];
+  if (plan.questions) {
+    const body = [
+      ...headerXml(payload, plan.studentFields, Math.floor(textWidth / 2)),
+      ...items.flatMap((it) => questionXml(it, L, plan.inlineAnswers, bubbles, colWidth)),
+    ];
+    sections.push({ body, columns });
+  }
+  if (plan.key) {
+    const body = [
+      ...headerXml({ ...payload, title: keyTitle(L, payload.title) }, false, Math.floor(textWidth / 2)),
+      ...items.map((it) => para(run(`${it.n}. ${keyText(it)}`), { after: 40 })),
+    ];
+    sections.push({ body, columns: 4 });
+  }
+  return sections;
+}
+
+/** Nhiều mã đề thì gộp một file; khổ giấy, ngôn ngữ và chân trang theo phiếu đầu. */
+export function renderDocx(payloads: ExportPayload[], content: ExportContent): Uint8Array {
+  const payload = payloads[0] ?? { problems: [] };
+  const paper = PAGE[payload.paper ?? "a4"];
+  const L = labelsOf(payload);
+  const sections = payloads.flatMap((p) => sectionsOf(p, content, paper));
+  // Section cuối lấy sectPr của body; các section trước gắn sectPr vào đoạn cuối của chính nó
+  // (ngắt section mặc định sang trang mới nên trang đáp án và mỗi mã đề luôn bắt đầu trang riêng)
+  const body = sections
+    .map((s, i) =>
+      i < sections.length - 1
+        ? [...s.body, `<w:p><w:pPr>${sectPr(paper, s.columns)}</w:pPr></w:p>`].join("")
+        : s.body.join("") + sectPr(paper, s.columns),
+    )
+    .join("");
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W}><w:body>${body}</w:body></w:document>`;
+
+  return zipStore([
+    { name: "[Content_Types].xml", data: CONTENT_TYPES },
+    { name: "_rels/.rels", data: ROOT_RELS },
+    { name: "word/document.xml", data: document },
+    { name: "word/_rels/document.xml.rels", data: DOC_RELS },
+    { name: "word/styles.xml", data: styles(payload.language === "en" ? "en-US" : "vi-VN") },
+    { name: "word/footer1.xml", data: footer(L) },
+  ]);
+}
@@ -0,0 +1,158 @@
+// lib/exporters/html.ts
+// Trang HTML tự chứa để mở và in thẳng từ trình duyệt: khổ giấy, số cột, số trang qua CSS in ấn.
+
+import { ExportContent, ExportPayload, MathNode, MathToken } from "../types";
+import { OPTION_LETTERS } from "../mcq";
+import { columnResult, divisionResult, isBlockMath, splitPrompt } from "../math";
+import { answerLabel, itemsOf, keyText, keyTitle, labelsOf, planOf, studentFields, type Item, type Labels } from "./model";
+
+const esc = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const CSS = (paper: string, columns: number, L: Labels) => `
+@page { size: ${paper}; margin: 16mm 15mm 18mm; @bottom-center { content: "${L.page} " counter(page) "/" counter(pages); font-size: 9pt; color: #64748b; } }
+* { box-sizing: border-box; }
+body { font-family: Roboto, "Segoe UI", Arial, sans-serif; font-size: 11pt; color: #1e293b; margin: 0 auto; max-width: 190mm; line-height: 1.45; }
+header { border-bottom: 1px solid #94a3b8; padding-bottom: 6pt; margin-bottom: 12pt; position: relative; }
+.fields { display: grid; grid-template-columns: 1fr 1fr; gap: 4pt 24pt; margin-bottom: 10pt; }
+.field { display: flex; gap: 4pt; }
+.field .dots { flex: 1; border-bottom: 1px dotted #64748b; }
+h1 { font-size: 16pt; font-weight: 500; text-align: center; margin: 0; }
+.sub { text-align: center; color: #64748b; font-size: 10pt; }
+.code { position: absolute; right: 0; bottom: 8pt; border: 1px solid #1e293b; padding: 1pt 6pt; font-size: 10pt; }
+ol.questions { list-style: none; padding: 0; margin: 0; column-count: ${columns}; column-gap: 18pt; }
+ol.questions > li { break-inside: avoid; margin-bottom: 10pt; display: grid; grid-template-columns: 2.2em 1fr; }
+.options { display: grid; grid-template-columns: repeat(auto-fill, minmax(7.5em, 1fr)); gap: 2pt 8pt; margin-top: 3pt; }
+.bubble { display: inline-block; width: 1.35em; height: 1.35em; border: 1px solid #1e293b; border-radius: 50%; text-align: center; font-size: 7.5pt; line-height: 1.3em; margin-right: 4pt; vertical-align: middle; }
+.hit { color: #047857; font-weight: 500; }
+.hit .bubble { background: #047857; border-color: #047857; color: #fff; }
+.blank { display: flex; gap: 4pt; color: #64748b; margin-top: 3pt; }
+.blank .dots, .line { flex: 1; border-bottom: 1px dotted #64748b; height: 1.3em; }
+.answer { color: #047857; margin-top: 3pt; }
+table.column { border-collapse: collapse; font-variant-numeric: tabular-nums; margin: 3pt 0; }
+table.column td { padding: 0 2pt; text-align: right; }
+table.column tr.result td { border-top: 1.5px solid #1e293b; height: 1.4em; }
+.division { display: inline-grid; grid-template-columns: auto auto; margin: 3pt 0; font-variant-numeric: tabular-nums; }
+.division > :nth-child(odd) { border-right: 1.5px solid #1e293b; padding-right: 6pt; text-align: right; }
+.division > :nth-child(2) { border-bottom: 1.5px solid #1e293b; padding-left: 6pt; }
+.division > :nth-child(4) { padding-left: 6pt; min-height: 1.4em; }
+.frac { display: inline-flex; flex-direction: column; vertical-align: middle; text-align: center; font-size: 0.9em; line-height: 1.1; margin: 0 1pt; }
+.frac > span:first-child { border-bottom: 1px solid currentColor; padding: 0 2pt; }
+.key, .sheet + .sheet { break-before: page; }
+.key ol { list-style: none; padding: 0; column-count: 4; column-gap: 18pt; }
+@media screen { body { padding: 16mm 0; } }
+`;
+
+function tokenHtml(t: MathToken): string {
+  switch (t.t) {
+    case "frac":
+      return `${t.w ? esc(t.w) : ""}<span class="frac"><span>${esc(t.n)}</span><span>${esc(t.d)}</span></span>`;
+    case "pow":
+      return `${esc(t.base)}<sup>${esc(t.exp)}</sup>`;
+    case "blank":
+      return `<span class="line" style="display:inline-block;min-width:2.5em"></span>`;
+    default:
+      return esc(t.v);
+  }
+}
+
+/** Cột dọc / chia cột / biểu thức ngang, giống components/MathView.tsx. */
+function mathHtml(m: MathNode, withAnswer: boolean): string {
+  if (m.type === "inline") return m.tokens.map(tokenHtml).join(" ");
+  if (m.type === "column") {
+    const rows = m.operands
+      .map((x, i) => `<tr><td>${i === m.operands.length - 1 ? esc(m.op) : ""}</td><td>${x}</td></tr>`)
+      .join("");
+    return `<table class="column">${rows}<tr class="result"><td></td><td>${withAnswer ? `<span class="hit">${columnResult(m)}</span>` : ""}</td></tr></table>`;
+  }
+  const { quotient, remainder } = divisionResult(m);
+  const ans = (v: number) => (withAnswer ? `<span class="hit">${v}</span>` : "");
+  return `<div class="division"><div>${m.dividend}</div><div>${m.divisor}</div><div>${ans(remainder)}</div><div>${ans(quotient)}</div></div>`;
+}
+
+function questionHtml({ n, p, mcq }: Item, L: Labels, withAnswer: boolean, bubbles: boolean): string {
+  const body: string[] = [];
+  if (p.math?.type === "inline") {
+    const [prompt] = splitPrompt(p.text);
+    body.push(`<div>${prompt ? `${esc(prompt)}: ` : ""}${mathHtml(p.math, false)}</div>`);
+  } else {
+    body.push(`<div>${esc(p.text)}</div>`);
+  }
+  if (isBlockMath(p.math)) body.push(mathHtml(p.math, withAnswer));
+  if (mcq) {
+    const opts = mcq.options.map((o, j) => {
+      const letter = OPTION_LETTERS[j];
+      const hit = withAnswer && letter === mcq.correct ? ` class="hit"` : "";
+      return bubbles
+        ? `<span${hit}><span class="bubble">${letter}</span>${esc(o)}</span>`
+        : `<span${hit}>${letter}. ${esc(o)}</span>`;
+    });
+    body.push(`<div class="options">${opts.join("")}</div>`);
+  }
+  if (withAnswer) {
+    if (!mcq) body.push(`<div class="answer">${L.answer}: ${esc(p.answer)}</div>`);
+  } else if (!isBlockMath(p.math) && !(mcq && bubbles)) {
+    const lines = p.kind === "word" ? `<div class="line"></div>`.repeat(3) : "";
+    body.push(
+      p.kind === "word"
+        ? `<div class="blank">${answerLabel(p, L)}:</div>${lines}`
+        : `<div class="blank">${answerLabel(p, L)}: <span class="dots"></span></div>`,
+    );
+  }
+  return `<li><span>${n}.</span><div>${body.join("")}</div></li>`;
+}
+
+function headerHtml(payload: ExportPayload, withFields: boolean): string {
+  const { title, header, variant_code } = payload;
+  const fields = withFields
+    ? `<div class="fields">${studentFields(payload)
+        .flat()
+        .map(([label, value]) => `<div class="field">${esc(label)}: ${value ? esc(value) : `<span class="dots"></span>`}</div>`)
+        .join("")}</div>`
+    : "";
+  return `<header>${fields}${title ? `<h1>${esc(title)}</h1>` : ""}${header ? `<div class="sub">${esc(header)}</div>` : ""}${
+    variant_code ? `<div class="code">${labelsOf(payload).code}: ${esc(variant_code)}</div>` : ""
+  }</header>`;
+}
+
+function sheetHtml(payload: ExportPayload, content: ExportContent): string {
+  const items = itemsOf(payload.problems);
+  const plan = planOf(content, payload.answer_layout);
+  const bubbles = payload.answer_style === "bubbles";
+  const L = labelsOf(payload);
+  const sections: string[] = [];
+  if (plan.questions) {
+    sections.push(
+      `<section>${headerHtml(payload, plan.studentFields)}<ol class="questions">${items
+        .map((it) => questionHtml(it, L, plan.inlineAnswers, bubbles))
+        .join("")}</ol></section>`,
+    );
+  }
+  if (plan.key) {
+    sections.push(
+      `<section class="key">${headerHtml({ ...payload, title: keyTitle(L, payload.title) }, false)}<ol>${items
+        .map((it) => `<li>${it.n}. ${esc(keyText(it))}</li>`)
+        .join("")}</ol></section>`,
+    );
+  }
+  return `<div class="sheet">\n${sections.join("\n")}\n</div>`;
+}
+
+/** Nhiều mã đề thì gộp một trang, mỗi mã đề bắt đầu trang in mới; khổ giấy, số cột, ngôn ngữ theo phiếu đầu. */
+export function renderHtml(payloads: ExportPayload[], content: ExportContent): string {
+  const payload = payloads[0] ?? { problems: [] };
+  const L = labelsOf(payload);
+  const paper = payload.paper === "letter" ? "letter" : "A4";
+  return `<!doctype html>
+<html lang="${payload.language ?? "vi"}">
+<head>
+<meta charset="utf-8">
+<title>${esc(payload.title || L.title)}</title>
+<style>${CSS(paper, payload.columns ?? 1, L)}</style>
+</head>
+<body>
+${payloads.map((p) => sheetHtml(p, content)).join("\n")}
+</body>
+</html>
+`;
+}
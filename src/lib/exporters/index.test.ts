@@ -0,0 +1,87 @@
+import { readFileSync } from "node:fs";
+import { PDFDocument } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+
+import type { ExportPayload } from "../types";
+import { generateLocal } from "../local/generator";
+import { renderPdf } from "../local/pdf";
+import { EXPORT_FORMATS, exportFilename } from ".";
+import { renderCsv, renderJson } from "./data";
+import { renderDocx } from "./docx";
+import { renderHtml } from "./html";
+import { renderLatex, renderMarkdown } from "./markup";
+
+const problems = generateLocal({
+  grade: 2,
+  operations: ["+", "-"],
+  count: 6,
+  min_value: 0,
+  max_value: 50,
+  include_word_problems: false,
+  include_distractors: true,
+  seed: 3,
+  language: "vi",
+});
+
+const sheet = (variant_code: string): ExportPayload => ({ title: "Phiếu", variant_code, problems });
+const variants = [sheet("A"), sheet("B")];
+
+describe("xuất nhiều mã đề vào một file", () => {
+  it("mọi định dạng dựng được một file cho cả hai mã đề", async () => {
+    for (const exporter of EXPORT_FORMATS.filter((e) => e.format !== "pdf")) {
+      const blob = await exporter.render(variants, "both");
+      expect(blob.size, exporter.format).toBeGreaterThan(0);
+    }
+  });
+
+  it("HTML: mỗi mã đề một khối trang riêng", () => {
+    const html = renderHtml(variants, "questions");
+    expect(html.match(/<div class="sheet">/g)).toHaveLength(2);
+    expect(html).toContain("Mã đề: A");
+    expect(html).toContain("Mã đề: B");
+  });
+
+  it("LaTeX: mã đề sau bắt đầu trang mới", () => {
+    const tex = renderLatex(variants, "questions");
+    expect(tex.split("\\newpage")).toHaveLength(2);
+    expect(tex.match(/\\begin\{document\}/g)).toHaveLength(1);
+  });
+
+  it("Markdown và DOCX có đủ các mã đề", () => {
+    const md = renderMarkdown(variants, "questions");
+    expect(md).toContain("**Mã đề: A**");
+    expect(md).toContain("**Mã đề: B**");
+    const docx = new TextDecoder().decode(renderDocx(variants, "questions"));
+    expect(docx).toContain("Mã đề: A");
+    expect(docx).toContain("Mã đề: B");
+  });
+
+  it("CSV thêm cột variant, JSON thêm danh sách variants", () => {
+    const rows = renderCsv(variants, "answers").split("\r\n").filter(Boolean);
+    expect(rows[0]).toBe("\uFEFFno,answer,correct_option,variant");
+    expect(rows).toHaveLength(1 + 2 * problems.length);
+    expect(rows.at(-1)?.endsWith(",B")).toBe(true);
+    const json = JSON.parse(renderJson(variants, "answers"));
+    expect(json.variants.map((v: { variant_code: string }) => v.variant_code)).toEqual(["A", "B"]);
+  });
+
+  it("một mã đề thì giữ nguyên dạng file cũ", () => {
+    expect(renderCsv([sheet("A")], "answers").split("\r\n")[0]).toBe("\uFEFFno,answer,correct_option");
+    expect(JSON.parse(renderJson([sheet("A")], "answers"))).toMatchObject({ variant_code: "A", problems: expect.any(Array) });
+  });
+
+  it("PDF: mỗi mã đề bắt đầu trang mới", async () => {
+    const font = readFileSync("public/fonts/Roboto-VariableFont_wdth,wght.ttf");
+    const one = await PDFDocument.load(await renderPdf([sheet("A")], "questions", font));
+    const two = await PDFDocument.load(await renderPdf(variants, "questions", font));
+    expect(two.getPageCount()).toBe(2 * one.getPageCount());
+  });
+});
+
+describe("exportFilename", () => {
+  it("ghép lớp, chủ đề, ngày, mã đề và phần xuất", () => {
+    const date = new Date(2026, 9, 19);
+    expect(exportFilename(problems, "answers", "pdf", { grade: 3, topic: "Phân số", date }, "a"))
+      .toBe("toan-lop-3_phan-so_2026-10-19_de-A_dap-an.pdf");
+  });
+});
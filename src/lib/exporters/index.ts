@@ -0,0 +1,110 @@
+// lib/exporters/index.ts
+// Danh sách định dạng xuất: mỗi exporter biến đúng các câu đang xem trước thành một file;
+// nhiều mã đề (mỗi mã đề một payload) gộp vào cùng một file.
+// Tên file ghép từ lớp, chủ đề, ngày, mã đề và phần xuất (đề / đáp án / cả hai).
+
+import { ExportContent, ExportPayload, Problem } from "../types";
+import { KIND_LABELS } from "../kinds";
+import { renderPdfBlob } from "../local/pdf";
+import { renderHtml } from "./html";
+import { renderDocx } from "./docx";
+import { renderLatex, renderMarkdown } from "./markup";
+import { renderCsv, renderJson } from "./data";
+
+export type ExportFormat = "pdf" | "docx" | "html" | "md" | "tex" | "csv" | "json";
+
+export type Exporter = {
+  format: ExportFormat;
+  label: string;
+  ext: string;
+  render: (payloads: ExportPayload[], content: ExportContent) => Promise<Blob>;
+};
+
+const textExporter = (
+  format: ExportFormat, label: string, ext: string, mime: string,
+  render: (payloads: ExportPayload[], content: ExportContent) => string,
+): Exporter => ({
+  format, label, ext,
+  render: async (payloads, content) => new Blob([render(payloads, content)], { type: `${mime};charset=utf-8` }),
+});
+
+export const EXPORTERS: Record<ExportFormat, Exporter> = {
+  pdf: { format: "pdf", label: "PDF", ext: "pdf", render: renderPdfBlob },
+  docx: {
+    format: "docx",
+    label: "Word (.docx)",
+    ext: "docx",
+    render: async (payloads, content) =>
+      new Blob([renderDocx(payloads, content) as BlobPart], {
+        type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      }),
+  },
+  html: textExporter("html", "HTML để in", "html", "text/html", renderHtml),
+  md: textExporter("md", "Markdown", "md", "text/markdown", renderMarkdown),
+  tex: textExporter("tex", "LaTeX", "tex", "application/x-tex", renderLatex),
+  csv: textExporter("csv", "CSV", "csv", "text/csv", renderCsv),
+  json: textExporter("json", "JSON", "json", "application/json", renderJson),
+};
+
+export const EXPORT_FORMATS = Object.values(EXPORTERS);
+
+export const CONTENT_LABELS: Record<ExportContent, string> = {
+  questions: "Câu hỏi",
+  answers: "Đáp án",
+  both: "Đề + đáp án",
+};
+
+/** Phần xuất ghi trong tên file: đề / đáp án / cả hai, phiếu tô trắc nghiệm và đáp án của nó, bảng đáp án các mã đề. */
+export type FileContent = ExportContent | "bubble_sheet" | "bubble_key" | "answer_keys";
+
+const CONTENT_SLUGS: Record<FileContent, string> = {
+  questions: "de",
+  answers: "dap-an",
+  both: "de-dap-an",
+  bubble_sheet: "phieu-to",
+  bubble_key: "dap-an-phieu-to",
+  answer_keys: "bang-dap-an",
+};
+
+/** Thông tin đặt tên file; thiếu chủ đề thì lấy chủ đề / dạng câu chiếm nhiều nhất. */
+export type FileMeta = { grade?: number; topic?: string; date?: Date };
+
+const slug = (s: string) =>
+  s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/gi, "d")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+    .replace(/-+$/, "");
+
+function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const v of values) if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best: string | undefined, n = 0;
+  for (const [v, c] of counts) if (c > n) [best, n] = [v, c];
+  return best;
+}
+
+export const topicOf = (problems: Problem[]) =>
+  mostCommon(problems.map((p) => p.topic)) ?? mostCommon(problems.map((p) => KIND_LABELS[p.kind]));
+
+const isoDate = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+/** "toan-lop-3_phan-so_2026-10-19_de-A_dap-an.pdf" */
+export function exportFilename(
+  problems: Problem[], content: FileContent, ext: string, meta: FileMeta = {}, variant?: string,
+): string {
+  const topic = meta.topic?.trim() || topicOf(problems);
+  const parts = [
+    meta.grade ? `toan-lop-${meta.grade}` : "toan",
+    topic && slug(topic),
+    isoDate(meta.date ?? new Date()),
+    variant && `de-${slug(variant).toUpperCase()}`,
+    CONTENT_SLUGS[content],
+  ];
+  return `${parts.filter(Boolean).join("_")}.${ext}`;
+}
@@ -0,0 +1,183 @@
+// lib/exporters/markup.ts
+// Markdown (dán vào LMS, wiki, tin nhắn) và LaTeX (biên dịch bằng pdflatex với gói vietnam/babel).
+
+import { ExportContent, ExportPayload, MathNode, MathToken } from "../types";
+import { OPTION_LETTERS } from "../mcq";
+import { columnResult, divisionResult, isBlockMath, mathToText, splitPrompt } from "../math";
+import { answerLabel, itemsOf, keyText, keyTitle, labelsOf, planOf, studentFields, type Item, type Labels } from "./model";
+
+const DOTS = "……………";
+
+// ---------- Markdown ----------
+
+// Chỉ thoát những ký tự làm đổi nghĩa đoạn văn; số như "12 * 3" không gặp vì đề dùng ×
+const mdEsc = (s: string) => s.replace(/([\\`*_[\]<>|])/g, "\\$1");
+
+function mdQuestion({ n, p, mcq }: Item, L: Labels, withAnswer: boolean, bubbles: boolean): string[] {
+  const out = [`${n}. ${mdEsc(p.text)}`];
+  if (isBlockMath(p.math)) out.push("", "   ```", ...mathToText(p.math, withAnswer).map((l) => `   ${l}`.trimEnd()), "   ```");
+  if (mcq) {
+    out.push("");
+    mcq.options.forEach((o, j) => {
+      const letter = OPTION_LETTERS[j];
+      const label = `${bubbles ? "○ " : ""}${letter}. ${mdEsc(o)}`;
+      out.push(`   - ${withAnswer && letter === mcq.correct ? `**${label}** ✓` : label}`);
+    });
+  }
+  if (withAnswer) {
+    if (!mcq) out.push("", `   **${L.answer}:** ${mdEsc(p.answer)}`);
+  } else if (!isBlockMath(p.math) && !(mcq && bubbles)) {
+    out.push("", `   ${answerLabel(p, L)}: ${DOTS}`);
+  }
+  return [...out, ""];
+}
+
+function mdHeader(payload: ExportPayload, withFields: boolean): string[] {
+  const out: string[] = [];
+  if (payload.title) out.push(`# ${mdEsc(payload.title)}`, "");
+  if (payload.header) out.push(`_${mdEsc(payload.header)}_`, "");
+  if (payload.variant_code) out.push(`**${labelsOf(payload).code}: ${mdEsc(payload.variant_code)}**`, "");
+  if (withFields) {
+    for (const row of studentFields(payload)) out.push(row.map(([l, v]) => `**${l}:** ${v ? mdEsc(v) : DOTS}`).join(" — ") + "  ");
+    out.push("");
+  }
+  return out;
+}
+
+function mdSheet(payload: ExportPayload, content: ExportContent): string[] {
+  const items = itemsOf(payload.problems);
+  const plan = planOf(content, payload.answer_layout);
+  const bubbles = payload.answer_style === "bubbles";
+  const L = labelsOf(payload);
+  const out: string[] = [];
+  if (plan.questions) {
+    out.push(...mdHeader(payload, plan.studentFields));
+    for (const it of items) out.push(...mdQuestion(it, L, plan.inlineAnswers, bubbles));
+  }
+  if (plan.key) {
+    if (plan.questions) out.push("---", "", `## ${mdEsc(keyTitle(L))}`, "");
+    else out.push(...mdHeader({ ...payload, title: keyTitle(L, payload.title) }, false));
+    for (const it of items) out.push(`${it.n}. ${mdEsc(keyText(it))}`);
+    out.push("");
+  }
+  return out;
+}
+
+/** Markdown không có trang: các mã đề nối tiếp nhau, ngăn bằng một đường kẻ. */
+export function renderMarkdown(payloads: ExportPayload[], content: ExportContent): string {
+  return payloads.map((p) => mdSheet(p, content).join("\n")).join("\n---\n\n");
+}
+
+// ---------- LaTeX ----------
+
+const TEX_CHARS: Record<string, string> = {
+  "\\": "\\textbackslash{}", "{": "\\{", "}": "\\}", $: "\\$", "&": "\\&", "#": "\\#",
+  "%": "\\%", _: "\\_", "^": "\\textasciicircum{}", "~": "\\textasciitilde{}",
+  "×": "$\\times$", "÷": "$\\div$", "<": "$<$", ">": "$>$", "…": "\\ldots{}", "²": "\\textsuperscript{2}", "³": "\\textsuperscript{3}",
+};
+
+const texEsc = (s: string) => s.replace(/[\\{}$&#%_^~×÷<>…²³]/g, (c) => TEX_CHARS[c]);
+
+const TEX_OPS: Record<string, string> = { "×": "\\times", "÷": "\\div", "…": "\\ldots", "-": "-" };
+
+function tokenTex(t: MathToken): string {
+  switch (t.t) {
+    case "frac": return `${t.w ?? ""}\\frac{${t.n}}{${t.d}}`;
+    case "pow": return `${t.base}^{${t.exp}}`;
+    case "blank": return "\\underline{\\hspace{2em}}";
+    case "num": return t.v.replace(",", "{,}");
+    default: return TEX_OPS[t.v] ?? t.v;
+  }
+}
+
+function mathTex(m: MathNode, withAnswer: boolean): string {
+  if (m.type === "inline") return `$${m.tokens.map(tokenTex).join(" ")}$`;
+  if (m.type === "column") {
+    const rows = m.operands.map((x, i) => `${i === m.operands.length - 1 ? `$${TEX_OPS[m.op] ?? m.op}$` : ""} & ${x} \\\\`);
+    return `\\begin{tabular}[t]{@{}c@{\\,}r@{}}\n${rows.join("\n")}\n\\hline\n & ${withAnswer ? columnResult(m) : "\\strut"} \\\\\n\\end{tabular}`;
+  }
+  const { quotient, remainder } = divisionResult(m);
+  return `\\begin{tabular}[t]{r|l}\n${m.dividend} & ${m.divisor} \\\\ \\cline{2-2}\n${withAnswer ? remainder : ""} & ${withAnswer ? quotient : "\\strut"} \\\\\n\\end{tabular}`;
+}
+
+function texQuestion({ p, mcq }: Item, L: Labels, withAnswer: boolean, bubbles: boolean): string {
+  const parts: string[] = [];
+  if (p.math?.type === "inline") {
+    const [prompt] = splitPrompt(p.text);
+    parts.push(`${prompt ? `${texEsc(prompt)}: ` : ""}${mathTex(p.math, false)}`);
+  } else {
+    parts.push(texEsc(p.text));
+  }
+  if (isBlockMath(p.math)) parts.push(`\\\\[2pt]\n${mathTex(p.math, withAnswer)}`);
+  if (mcq) {
+    const opts = mcq.options.map((o, j) => {
+      const letter = OPTION_LETTERS[j];
+      const label = bubbles ? `\\textcircled{\\scriptsize ${letter}}~${texEsc(o)}` : `${letter}. ${texEsc(o)}`;
+      return withAnswer && letter === mcq.correct ? `\\textbf{${label}}` : label;
+    });
+    parts.push(`\\\\[2pt]\n${opts.join("\\hfill ")}\\hfill\\null`);
+  }
+  if (withAnswer) {
+    if (!mcq) parts.push(`\\\\\n\\textbf{${L.answer}:} ${texEsc(p.answer)}`);
+  } else if (!isBlockMath(p.math) && !(mcq && bubbles)) {
+    const lines = p.kind === "word" ? 3 : 1;
+    parts.push(`\\\\\n${answerLabel(p, L)}: ${"\\dotfill\\\\\n".repeat(lines - 1)}\\dotfill`);
+  }
+  return `  \\item ${parts.join("\n")}`;
+}
+
+function texHeader(payload: ExportPayload, withFields: boolean): string[] {
+  const out: string[] = [];
+  if (withFields) {
+    for (const row of studentFields(payload)) {
+      out.push(row.map(([l, v]) => `\\makebox[0.48\\linewidth][l]{${l}: ${v ? texEsc(v) : "\\dotfill"}}`).join("\\hfill") + "\\\\[4pt]");
+    }
+  }
+  if (payload.variant_code) out.push(`\\hfill\\fbox{${labelsOf(payload).code}: ${texEsc(payload.variant_code)}}`);
+  if (payload.title) out.push(`\\begin{center}{\\Large ${texEsc(payload.title)}}${payload.header ? `\\\\[2pt]\n{\\small ${texEsc(payload.header)}}` : ""}\\end{center}`);
+  else if (payload.header) out.push(`\\begin{center}{\\small ${texEsc(payload.header)}}\\end{center}`);
+  out.push("\\hrule\\medskip");
+  return out;
+}
+
+function texSheet(payload: ExportPayload, content: ExportContent): string[] {
+  const items = itemsOf(payload.problems);
+  const plan = planOf(content, payload.answer_layout);
+  const bubbles = payload.answer_style === "bubbles";
+  const L = labelsOf(payload);
+  const columns = payload.columns ?? 1;
+  const body: string[] = [];
+  const inColumns = (n: number, inner: string[]) =>
+    n > 1 ? [`\\begin{multicols}{${n}}`, ...inner, "\\end{multicols}"] : inner;
+  if (plan.questions) {
+    body.push(...texHeader(payload, plan.studentFields));
+    body.push(...inColumns(columns, [
+      "\\begin{enumerate}[label=\\arabic*.,leftmargin=*,itemsep=8pt]",
+      ...items.map((it) => texQuestion(it, L, plan.inlineAnswers, bubbles)),
+      "\\end{enumerate}",
+    ]));
+  }
+  if (plan.key) {
+    if (plan.questions) body.push("\\newpage");
+    body.push(...texHeader({ ...payload, title: keyTitle(L, payload.title) }, false));
+    body.push(...inColumns(4, items.map((it) => `${it.n}. ${texEsc(keyText(it))}\\\\`)));
+  }
+  return body;
+}
+
+/** Nhiều mã đề thì gộp một file, mỗi mã đề từ trang mới; khổ giấy theo phiếu đầu. */
+export function renderLatex(payloads: ExportPayload[], content: ExportContent): string {
+  const paper = payloads[0]?.paper === "letter" ? "letterpaper" : "a4paper";
+  const body = payloads.flatMap((p, i) => [...(i > 0 ? ["\\newpage"] : []), ...texSheet(p, content)]);
+  return [
+    `\\documentclass[11pt,${paper}]{article}`,
+    "\\usepackage[utf8]{vietnam}",
+    "\\usepackage[margin=18mm]{geometry}",
+    "\\usepackage{multicol,enumitem,amsmath,textcomp}",
+    "\\setlength{\\parindent}{0pt}",
+    "\\begin{document}",
+    ...body,
+    "\\end{document}",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,71 @@
+// lib/exporters/model.ts
+// Phần chung của mọi định dạng xuất: in những phần nào, số câu, phương án theo thứ tự xem trước,
+// nhãn đầu phiếu. Mỗi định dạng chỉ lo cách trình bày.
+
+import { AnswerLayout, ExportContent, ExportOptions, ExportPayload, Problem } from "../types";
+import { mcqOptions } from "../mcq";
+
+export type Plan = {
+  questions: boolean;       // có in đề không
+  inlineAnswers: boolean;   // đáp án ngay dưới từng câu (bản giáo viên)
+  key: boolean;             // trang đáp án riêng ở cuối
+  studentFields: boolean;   // ô Trường / Lớp / Họ tên / Ngày ở đầu phiếu
+};
+
+/**
+ * "questions" là phiếu học sinh; "both" là phiếu học sinh kèm trang đáp án. "answers" theo answer_layout:
+ * inline — đề kèm đáp án dưới từng câu; separate_page — đề rồi trang đáp án; key_table — chỉ trang đáp án.
+ */
+export function planOf(content: ExportContent, layout: AnswerLayout = "separate_page"): Plan {
+  if (content === "questions") return { questions: true, inlineAnswers: false, key: false, studentFields: true };
+  if (content === "both") return { questions: true, inlineAnswers: false, key: true, studentFields: true };
+  return {
+    questions: layout !== "key_table",
+    inlineAnswers: layout === "inline",
+    key: layout !== "inline",
+    studentFields: false,
+  };
+}
+
+export type Item = {
+  n: number;                // số câu theo thứ tự hiện tại (id giữ nguyên khi sắp xếp lại)
+  p: Problem;
+  mcq: { options: string[]; correct: string } | null;
+};
+
+export const itemsOf = (problems: Problem[]): Item[] => problems.map((p, i) => ({ n: i + 1, p, mcq: mcqOptions(p) }));
+
+/** Đáp án một câu như trong bảng đáp án: "B) 42" hoặc "7 dư 2". */
+export const keyText = ({ p, mcq }: Item) => (mcq ? `${mcq.correct}) ${p.answer}` : p.answer);
+
+export type Labels = {
+  title: string; key: string; question: string; answer: string; reply: string; solution: string; code: string; variant: string; page: string;
+  school: string; class: string; name: string; date: string;
+};
+
+// Nhãn in trên phiếu theo ngôn ngữ của đề, không theo ngôn ngữ giao diện: phiếu tiếng Anh in "Answer key"
+const LABELS: Record<NonNullable<ExportOptions["language"]>, Labels> = {
+  vi: {
+    title: "Phiếu bài tập Toán", key: "Đáp án", question: "Câu", answer: "Đáp án", reply: "Trả lời", solution: "Bài giải", code: "Mã đề", variant: "Đề", page: "Trang",
+    school: "Trường", class: "Lớp", name: "Họ và tên", date: "Ngày",
+  },
+  en: {
+    title: "Math worksheet", key: "Answer key", question: "Question", answer: "Answer", reply: "Answer", solution: "Solution", code: "Version", variant: "Version", page: "Page",
+    school: "School", class: "Class", name: "Name", date: "Date",
+  },
+};
+
+export const labelsOf = (o: ExportOptions): Labels => LABELS[o.language ?? "vi"];
+
+export const keyTitle = (L: Labels, title?: string) => [title, L.key].filter(Boolean).join(" – ");
+
+/** Ô đầu phiếu theo cặp trái / phải; value rỗng thì in dòng chấm để HS tự điền. */
+export const studentFields = (payload: ExportPayload): [label: string, value?: string][][] => {
+  const L = labelsOf(payload);
+  return [
+    [[L.school, payload.school?.trim()], [L.class, payload.class_name?.trim()]],
+    [[L.name], [L.date]],
+  ];
+};
+
+export const answerLabel = (p: Problem, L: Labels) => (p.kind === "word" ? L.solution : L.reply);
@@ -0,0 +1,540 @@
+// lib/i18n/en.ts
+// Bảng chuỗi giao diện tiếng Anh; khai báo kiểu Messages để thiếu hay thừa khóa là lỗi biên dịch.
+
+import type { Messages } from "./vi";
+import { plural } from "./types";
+
+const en: Messages = {
+  meta: {
+    title: "AI Math Worksheet Generator",
+    description: "Generate primary-school math worksheets, assemble tests from a question bank and export printable files",
+  },
+
+  common: {
+    uiLanguage: "Interface language",
+    cancel: "Cancel",
+    save: "Save",
+    update: "Update",
+    remove: "Delete",
+    close: "Close",
+    exporting: "Exporting...",
+    unknownSource: "(unknown)",
+    grade: "Grade {n}",
+    page: "Page {page}/{pages}",
+    question: "Question {n}",
+    selectQuestion: "Select question {n}",
+    questions: plural({ one: "# question", other: "# questions" }),
+    backHome: "Back to the generator",
+    library: "Library",
+    practice: "Practice",
+  },
+
+  kinds: {
+    arithmetic: "Arithmetic",
+    word: "Word problem",
+    fill_blank: "Fill in the blank",
+    comparison: "Comparison",
+    expression: "Expression",
+    sequence: "Number sequence",
+    fraction: "Fractions",
+    measurement: "Measurement",
+    time: "Time",
+    money: "Money",
+    geometry: "Geometry",
+  },
+
+  bands: { easy: "Easy", medium: "Medium", hard: "Hard" },
+
+  ops: {
+    "+": "Addition",
+    "-": "Subtraction",
+    "×": "Multiplication",
+    "÷": "Division",
+    other: "Other",
+  },
+
+  modes: {
+    easy_to_hard: "Easy → Hard",
+    balanced: "Balanced",
+    hard_to_easy: "Hard → Easy",
+  },
+
+  content: {
+    questions: "Questions",
+    answers: "Answers",
+    both: "Questions + answers",
+  },
+
+  exportFormats: {
+    pdf: "PDF",
+    docx: "Word (.docx)",
+    html: "Printable HTML",
+    md: "Markdown",
+    tex: "LaTeX",
+    csv: "CSV",
+    json: "JSON",
+  },
+
+  bubbleSheet: { sheet: "Bubble answer sheet", key: "Bubble sheet key" },
+
+  answerLayouts: {
+    separate_page: "Separate page",
+    inline: "Below each question",
+    key_table: "Answer key table",
+  },
+
+  answerStyles: {
+    blanks: "Answer lines",
+    bubbles: "Multiple-choice bubbles",
+  },
+
+  importFields: {
+    text: "Question",
+    answer: "Answer",
+    distractors: "Distractors",
+    kind: "Question type",
+    difficulty: "Difficulty",
+    ignore: "Ignore",
+  },
+
+  themes: {
+    school: "School",
+    garden: "Garden",
+    toys: "Toys",
+    farm: "Farm",
+    market: "Market",
+  },
+
+  presets: {
+    "g1-t1-add-sub-10": "Grade 1 – Term 1 – Adding and subtracting within 10",
+    "g1-t2-add-sub-100": "Grade 1 – Term 2 – Adding and subtracting within 100 without regrouping",
+    "g2-t1-carry-100": "Grade 2 – Term 1 – Adding and subtracting within 100 with regrouping",
+    "g2-t2-tables-2-5": "Grade 2 – Term 2 – Times tables for 2 and 5",
+    "g3-t1-tables": "Grade 3 – Term 1 – Times tables",
+    "g3-t1-remainder": "Grade 3 – Term 1 – Division with remainders",
+    "g3-t2-100000": "Grade 3 – Term 2 – Adding and subtracting within 100,000",
+    "g4-t2-two-digit": "Grade 4 – Term 2 – Multiplying and dividing by two-digit numbers",
+    "g5-review": "Grade 5 – Review of the four operations",
+  },
+
+  curriculum: {
+    "1-1": "Adding and subtracting within 10",
+    "1-2": "Adding and subtracting within 100 without regrouping",
+    "2-1": "Adding and subtracting within 100 with regrouping",
+    "2-2": "Adding and subtracting within 1,000; times tables for 2 and 5",
+    "3-1": "Times tables 2–9; multiplying and dividing two- and three-digit numbers by one-digit numbers; remainders",
+    "3-2": "Numbers up to 100,000; multiplying and dividing by one-digit numbers",
+    "4-1": "Multi-digit numbers; adding and subtracting; multiplying and dividing by one-digit numbers",
+    "4-2": "Multiplying and dividing by two-digit numbers",
+    "5-1": "Review and extension of operations on whole numbers",
+    "5-2": "Applying the four operations on whole numbers",
+  },
+
+  scope: {
+    ops_not_this_year: "Grade {grade} does not cover {ops} yet.",
+    ops_next_term: "{ops} is taught from term 2 of grade {grade}.",
+    max_year: "Grade {grade} only works with numbers up to {max}.",
+    max_term: "The grade {grade} term {term} curriculum works with numbers up to {max}.",
+    remainder: "The grade {grade} term {term} curriculum does not cover division with remainders yet.",
+    carry: "The grade {grade} term {term} curriculum only adds and subtracts without regrouping.",
+    kind_early: "The “{kind}” question type is taught from grade {from}.",
+  },
+
+  difficulty: {
+    score: "Difficulty {score}",
+    factors: {
+      digits: "Largest number has {n} digits",
+      magnitude: "Operand size ({value})",
+      carries: "Carries: {n}",
+      borrows: "Borrows: {n}",
+      outside_table: "Beyond the times tables",
+      remainder: "Division with remainder",
+      steps: "Steps: {n}",
+      parentheses: "Has parentheses",
+      mixed_order: "Needs the order of operations",
+      word: "Word problem",
+      above_grade: "Beyond the grade {grade} number range",
+      grade1_mul_div: "Grade 1 has not learned multiplication or division",
+      below_grade: "Only within the grade {grade} number range",
+    },
+    kinds: {
+      fill_blank: "Find the missing number",
+      comparison: "Compare both sides",
+      expression: "Expression",
+      sequence: "Find the sequence rule",
+      fraction: "Fractions",
+      measurement: "Unit conversion",
+      time: "Time and clocks",
+      money: "Money",
+      geometry: "Perimeter and area",
+    },
+  },
+
+  validation: {
+    integer: "The number of questions must be a whole number",
+    nonNegative: "The number of questions cannot be negative",
+    wordCount: "Word problems must be ≤ the total number of questions",
+    kindCounts: "Other question types must be ≤ the total minus word problems",
+    mcqCount: "Multiple-choice questions must be ≤ the total minus word problems",
+    textRequired: "The question cannot be empty",
+    answerRequired: "An answer is required",
+    difficultyRange: "Difficulty must be a number from 0 to 1",
+    distractorIsAnswer: "A distractor cannot be the same as the answer",
+    distractorsDistinct: "Distractors must all be different",
+    distractorsMax: "At most 9 distractors (options A–J)",
+  },
+
+  toast: {
+    aborted: "Request cancelled.",
+    uploadAborted: "Upload cancelled.",
+    network: "Could not reach the server. Check your connection and try again.",
+    timeout: "The server did not respond within {seconds} seconds.",
+    sheetSaved: "Saved \"{name}\".",
+    bankSaved: "Saved question bank \"{name}\".",
+    poolLoaded: plural({ one: "Loaded # question from {files}.", other: "Loaded # questions from {files}." }),
+    poolAppended: plural({ one: "Added # question from {files}.", other: "Added # questions from {files}." }),
+    sheetNotFound: "Saved worksheet not found.",
+    bankNotFound: "Saved question bank not found.",
+    shareCopied: "Share link copied.",
+    shareLocal: "The worksheet is too large to fit in a link, so it was saved on this device; the short link only opens in this browser.",
+    shareCopyFailed: "Could not copy; the link is now in the address bar.",
+    shareInvalid: "The share link is invalid or truncated, or the worksheet is no longer on this device.",
+    shareChanged: "The regenerated worksheet differs from when the link was made (the generator has changed): check it before use.",
+  },
+
+  errors: {
+    xlsx_corrupt: "The .xlsx file is damaged or is not an Excel file.",
+    xlsx_compression: "Compression method {method} is not supported.",
+    xlsx_no_sheet: "No worksheet found in the .xlsx file.",
+    offline_format: "Offline mode only reads .txt/.csv and cannot read \"{file}\".",
+    no_mcq: "The worksheet has no multiple-choice questions to print a bubble sheet for.",
+    no_indexeddb: "This browser does not support IndexedDB.",
+    font_load: "Could not load the font {url} ({status}).",
+    bad_body: "The server response is not in the expected format.",
+    invalid_response: "Invalid {what} response at \"{path}\": {detail}",
+    root: "(root)",
+  },
+
+  hero: {
+    badge: "AI Math Worksheet Generator",
+    title: "Math Worksheets",
+    tagline: "Quick and Convenient",
+    subtitle:
+      "Generate primary-school math exercises with AI, upload your own question bank, assemble tests by difficulty and export professional PDFs.",
+    library: "Saved library",
+    questions: "Questions",
+    avgDifficulty: "Avg. difficulty",
+    distribution: "Distribution",
+  },
+
+  config: {
+    title: "Smart settings",
+    preset: "Curriculum presets",
+    presetPlaceholder: "— Pick a lesson to fill in the form —",
+    grade: "Grade",
+    term: "Term",
+    termN: "Term {n}",
+    contentLanguage: "Worksheet language",
+    scopeSummary: "Grade {grade} term {term} curriculum: {summary}.",
+    count: "Total",
+    mcq: "Multiple choice",
+    word: "Word problems",
+    min: "Minimum value",
+    max: "Maximum value",
+    operations: "Operations",
+    carry: "Add and subtract with regrouping",
+    remainder: "Division with remainders",
+    column: "Column layout",
+    tables: "Times tables:",
+    tablesSome: "only the selected tables",
+    tablesAll: "no limit",
+    extraKinds: "Other question types",
+    wordProblems: "Word problems (AI)",
+    theme: "Word problem theme",
+    themeMixed: "Mixed",
+    distractors: "Generate distractors (MCQ)",
+    seed: "Seed (optional)",
+    variants: "Test versions",
+    variantsOne: "1 version",
+    variantsMany: "{n} versions (A–{last})",
+    generate: "Generate",
+    generating: "Generating...",
+  },
+
+  bank: {
+    title: "Teacher's question bank",
+    upload: "Upload a question bank",
+    uploadHint: "Supports .txt, .csv, .xlsx (with preview), .pdf, .docx",
+    template: "Download template (.csv)",
+    append: "Add to the current bank",
+    replace: "Replace",
+    count: "Questions",
+    avgDifficulty: "Avg. difficulty",
+    save: "Save bank",
+    update: "Update bank",
+    saveTitle: "Save the bank to the library for later",
+    manage: "Manage bank",
+    hide: "Hide bank",
+    source: "Source",
+    bandsShort: "Easy / Medium / Hard",
+    kindsShort: "Arithmetic / Word",
+    total: "Total",
+    crossDupes: plural({
+      one: "# group of duplicate questions across files",
+      other: "# groups of duplicate questions across files",
+    }),
+    keepFirst: "Keep the first of each group",
+    moreGroups: plural({ one: "… and # more group", other: "… and # more groups" }),
+    totalCount: "Total questions",
+    difficulty: "Difficulty",
+    variants: "Versions",
+    useBlueprint: "Assemble from a test blueprint (counts by operation, level, topic, source)",
+    assemble: "Assemble test from bank",
+    uploadFirst: "Upload a question bank first.",
+    defaultName: "Question bank {date}",
+    managerTitle: "Manage question bank",
+  },
+
+  preview: {
+    title: "Question preview",
+    regenSelected: plural({ one: "Regenerate # selected question", other: "Regenerate # selected questions" }),
+    undo: "Undo (Ctrl+Z)",
+    redo: "Redo (Ctrl+Shift+Z)",
+    sheetName: "Worksheet name...",
+    defaultSheetName: "Grade {grade} worksheet – {date}",
+    currentSheet: "Current worksheet",
+    share: "Share",
+    shareTitle: "Copy a link that reopens exactly this worksheet: settings, seed, edits and assembly settings",
+    variantTab: "Version {code}",
+    answerKeys: "Answer keys",
+    format: "Format",
+    docTitle: "Title",
+    header: "Page header",
+    headerPlaceholder: "School, class, date...",
+    answerLayout: "Answer layout",
+    school: "School",
+    schoolPlaceholder: "Leave empty for a dotted line",
+    className: "Class",
+    classPlaceholder: "e.g. 3A",
+    paper: "Paper size",
+    columns: "Columns",
+    columnsN: plural({ one: "# column", other: "# columns" }),
+    answerStyle: "Answer space",
+    bubbleSheet: "Bubble answer sheet (PDF):",
+    bubbleMerged: plural({
+      one: "# version in one file.",
+      other: "# versions in one file, each starting on a new page.",
+    }),
+    edit: "Edit question",
+    regenerate: "Regenerate this question",
+    remove: "Delete question",
+    copyTitle: "Copy question",
+    copy: "Copy",
+    add: "Add question",
+    empty: "Nothing here yet — Generate a worksheet, or upload a bank and assemble a test.",
+    difficultyInUse: "(Difficulty in use: {value})",
+  },
+
+  evaluation: {
+    title: "Test analysis",
+    avgDifficulty: "Average difficulty",
+    bucketsShort: "Easy: {easy} • Medium: {medium} • Hard: {hard}",
+    byKind: "By type",
+    byOp: "By operation",
+    distribution: "Difficulty distribution",
+    histogram: "Difficulty histogram",
+    histogramBar: plural({ one: "{from}–{to}: # question", other: "{from}–{to}: # questions" }),
+    ordering: "Difficulty order",
+    ascending: "Ascending",
+    descending: "Descending",
+    inversions: plural({
+      one: "# pair with a harder question before an easier one",
+      other: "# pairs with a harder question before an easier one",
+    }),
+    perfectOrder: "perfectly ordered",
+    partialOrder: "{pct}% of neighbouring pairs in order",
+    time: "Estimated working time",
+    minutes: plural({ one: "~# minute", other: "~# minutes" }),
+    answers: "Answers",
+    answerRange: "From",
+    answerRangeTo: "to",
+    answerMean: "mean",
+    nonNumeric: plural({ one: "# non-numeric answer", other: "# non-numeric answers" }),
+    noNumeric: "No numeric answers.",
+    skills: "Calculation skills",
+    carry: "Carrying",
+    borrow: "Borrowing",
+    remainder: "Remainders",
+    parsed: plural({ one: "out of # parsed calculation", other: "out of # parsed calculations" }),
+    duplicates: "Duplicate or near-duplicate questions",
+    compare: "Compare versions",
+    code: "Version",
+    bandsShort: "Easy/Medium/Hard",
+    kindsShort: "Arithmetic/Word",
+    notes: "Notes",
+    empty: "No analysis yet.",
+    noteText: {
+      empty: "The test is empty.",
+      no_ops: "No operation could be recognized.",
+      no_hard: "The test has no hard questions yet.",
+      no_easy: "The test has no easy warm-up questions yet.",
+      duplicates: plural({ one: "# group of duplicate or near-duplicate questions.", other: "# groups of duplicate or near-duplicate questions." }),
+    },
+  },
+
+  importPreview: {
+    title: "Import preview",
+    queued: plural({ one: " (# file left)", other: " (# files left)" }),
+    rows: plural({ one: "# row", other: "# rows" }),
+    summary: "{rows} • {valid} valid • {invalid} with errors",
+    hasHeader: "First row is a header",
+    template: "Download template",
+    skipAll: "Skip all rows with errors",
+    missingRequired: "Map at least one “{text}” column and one “{answer}” column.",
+    row: "Row",
+    status: "Status",
+    skipRow: "Skip this row",
+    unresolved: plural({
+      one: "# row still has errors: fix it or skip it.",
+      other: "# rows still have errors: fix them or skip them.",
+    }),
+    commit: plural({ one: "Add # question to the bank", other: "Add # questions to the bank" }),
+    rowErrors: {
+      missing_text: "Question text is missing",
+      missing_answer: "Answer is missing",
+      distractor_is_answer: "A distractor equals the answer",
+      distractors_repeat: "Distractors repeat",
+      distractors_max: "At most 9 distractors",
+      bad_kind: "Question type \"{value}\" is not valid (arithmetic, word problem, fill-in, comparison…)",
+      bad_difficulty: "Difficulty must be a number from 0 to 1",
+      invalid: "{value}",
+    },
+  },
+
+  bankManager: {
+    search: "Search by text or topic...",
+    allKinds: "All types",
+    allOps: "All operations",
+    allBands: "All levels",
+    allSources: "All sources",
+    summary: "{shown}/{total} questions • {pinned} pinned • {excluded} excluded",
+    selected: " • {n} selected",
+    topic: "Topic",
+    grade: "Grade",
+    tag: "Tag",
+    removeSelected: "Delete selected",
+    findDupes: "Find duplicates",
+    hideDupes: "Hide duplicates",
+    noDupes: "No duplicate or near-duplicate questions.",
+    dupeGroups: plural({ one: "# group of duplicates", other: "# groups of duplicates" }),
+    keepFirst: "Keep the first of each group, delete the rest",
+    selectPage: "Select this page",
+    question: "Question",
+    answer: "Answer",
+    kind: "Type",
+    difficulty: "Difficulty",
+    topicGrade: "Topic / Grade",
+    source: "Source",
+    edit: "Edit",
+    pin: "Pin: always include in the test",
+    unpin: "Unpin",
+    exclude: "Exclude: never pick",
+    include: "Use this question again",
+    noMatch: "No questions match the filters.",
+  },
+
+  blueprint: {
+    saved: "— Saved blueprints ({n}) —",
+    namePlaceholder: "Blueprint name, e.g. Grade 3 – End of term 1",
+    defaultName: "Blueprint {date}",
+    saveAsNew: "Save as new",
+    saveAsNewTitle: "Save as a new blueprint",
+    constraint: "Constraint",
+    available: "Available",
+    min: "Minimum",
+    max: "Maximum",
+    minOf: "{label} minimum",
+    maxOf: "{label} maximum",
+    ops: "Operations",
+    op: "Operation {op}",
+    bands: "Levels",
+    topics: "Topics",
+    sources: "Sources",
+    hint: "Empty = no limit; set minimum = maximum to fix the exact count.",
+    target: "Target average difficulty",
+    mcq: "Multiple choice",
+    word: "Word problems",
+    band: "{band} level",
+    topic: "Topic “{topic}”",
+    source: "Source “{source}”",
+    untagged: "(untagged)",
+    unknownSource: "(unknown)",
+    conflicts: {
+      bank_short: "The test needs {total} questions but the bank only has {available} usable ones.",
+      pinned_over_total: "{pinned} questions are pinned, more than the test total ({total}).",
+      min_over_available: "{labels}: needs at least {min} questions, the bank only has {available}.",
+      min_over_total: "{labels}: at least {min} questions but the test only has {total}.",
+      pinned_over_max: "{labels}: {pinned} questions pinned, above the maximum of {max}.",
+      group_min_over_total: "The minimums of {labels} add up to {sum}, more than the test's {total} questions.",
+      group_max_under_total: "{labels} allow at most {sum} questions, fewer than the test's {total}.",
+      target_out_of_range: "Target average difficulty {value} ± {tolerance} is outside what the bank can reach ({lo}–{hi}).",
+      not_enough: "Not enough questions for {labels}. Widen the range of one of them.",
+      not_enough_blocked: "Not enough questions for {labels} while keeping the maximum of {blocking}. Widen the range of one of them.",
+      max_limits: "The maximums only allow {picked}/{total} questions.",
+      target_unreachable: "The target average difficulty cannot be met together with the count constraints; increase the tolerance.",
+    },
+  },
+
+  editor: {
+    text: "Question",
+    answer: "Answer",
+    distractors: "Distractors (separated by ;)",
+    difficulty: "Difficulty (0–1)",
+  },
+
+  math: {
+    column: "Column calculation",
+    division: "Long division",
+  },
+
+  library: {
+    title: "Saved library",
+    worksheets: "Worksheets",
+    banks: "Question banks",
+    search: "Search by name or question text...",
+    avgDifficulty: "Avg. difficulty {value}",
+    variants: plural({ one: "# version", other: "# versions" }),
+    updated: "Updated {date}",
+    open: "Open",
+    duplicate: "Duplicate",
+    copySuffix: "(copy)",
+    confirmDelete: "Confirm delete",
+    noMatch: "Nothing matches your search.",
+    empty: "Nothing saved yet — create a worksheet and press Save.",
+  },
+
+  practice: {
+    title: "Practice",
+    single: "One at a time",
+    page: "Whole page",
+    restart: "Start over",
+    score: "{score} / 10",
+    correctOf: "{correct}/{total} correct ({pct}%)",
+    byOp: "By operation",
+    byBand: "By level",
+    progress: "Question {n}/{total}",
+    check: "Check",
+    next: "Next question",
+    results: "See results",
+    submit: "Submit",
+    correct: "Correct!",
+    wrong: "Not quite",
+    unanswered: "Not answered",
+    expected: "answer:",
+    answerPlaceholder: "Type your answer...",
+    noSet: "No questions to practise — create a worksheet or open a saved one.",
+    variantTitle: "{name} — Version {code}",
+  },
+};
+
+export default en;
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { AppError, NetworkError, ServerError, toApiError } from "../errors";
+import { InvalidResponseError } from "../schemas";
+import { errorMessage, translator } from ".";
+import viMessages from "./vi";
+import enMessages from "./en";
+
+const vi = translator("vi");
+const en = translator("en");
+
+describe("errorMessage", () => {
+  it("lỗi có code dịch theo ngôn ngữ giao diện, bản tiếng Việt giữ trong message", () => {
+    const e = new AppError("xlsx_compression", "Kiểu nén 12 không được hỗ trợ.", { method: 12 });
+    expect(errorMessage(vi, e)).toBe(e.message);
+    expect(errorMessage(en, e)).toBe("Compression method 12 is not supported.");
+    expect(toApiError(e).coded).toEqual({ code: "xlsx_compression", params: { method: 12 } });
+  });
+
+  it("đường dẫn rỗng của phản hồi sai hiện là gốc", () => {
+    const e = new InvalidResponseError("generate", "", "Expected array");
+    expect(errorMessage(vi, e)).toBe(e.message);
+    expect(errorMessage(en, e)).toBe('Invalid generate response at "(root)": Expected array');
+  });
+
+  it("lỗi máy chủ không có code giữ nguyên văn bản, lỗi mạng dùng bảng chuỗi", () => {
+    expect(errorMessage(en, new ServerError("Lỗi máy chủ", 500))).toBe("Lỗi máy chủ");
+    expect(errorMessage(en, new NetworkError())).toBe(en.m.toast.network);
+    expect(errorMessage(en, new Error("boom"))).toBe("boom");
+  });
+});
+
+// Đường dẫn khóa → các tham số {tên} (và "#" của chuỗi số đếm) xuất hiện trong chuỗi
+const placeholders = (node: unknown, path = "", out: Record<string, string[]> = {}) => {
+  if (typeof node === "string") out[path] = [...new Set(node.match(/\{\w+\}|#/g) ?? [])].sort();
+  else if (node && typeof node === "object" && "other" in node) {
+    out[path] = [...new Set(Object.values(node).join(" ").match(/\{\w+\}|#/g) ?? [])].sort();
+  } else if (node && typeof node === "object") {
+    for (const [k, v] of Object.entries(node)) placeholders(v, path ? `${path}.${k}` : k, out);
+  }
+  return out;
+};
+
+describe("bảng chuỗi", () => {
+  it("en có đủ khóa của vi, cùng tham số trong từng chuỗi", () => {
+    expect(placeholders(enMessages)).toEqual(placeholders(viMessages));
+  });
+
+  it("chọn dạng số ít / số nhiều và định dạng số theo locale", () => {
+    expect(en.count(en.m.toast.poolLoaded, 1, { files: "a.csv" })).toBe("Loaded 1 question from a.csv.");
+    expect(en.count(en.m.toast.poolLoaded, 1200, { files: "a.csv" })).toBe("Loaded 1,200 questions from a.csv.");
+    expect(vi.count(vi.m.toast.poolLoaded, 1200, { files: "a.csv" })).toBe("Đã nạp 1.200 câu từ a.csv.");
+  });
+});
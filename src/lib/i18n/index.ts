@@ -0,0 +1,135 @@
+// lib/i18n/index.ts
+// Dịch giao diện: chọn bảng chuỗi theo ngôn ngữ, điền tham số, chọn dạng số ít / số nhiều và định dạng số, ngày
+// theo locale. Nội dung đề và file xuất vẫn theo GenerationConfig.language, không đi qua đây.
+
+import { z } from "zod";
+import { TimeoutError, toApiError, type ApiError } from "../errors";
+import type { ScopeIssue } from "../curriculum";
+import type { DifficultyBreakdown, DifficultyFactor } from "../difficulty";
+import type { BlueprintConflict, ConstraintRef } from "../blueprint";
+import type { Band } from "../bank";
+import type { RowError } from "../import/mapping";
+import type { EvaluationNote, ExtraKind } from "../types";
+import type { Plural, UiLang, Vars } from "./types";
+import vi, { type Messages } from "./vi";
+import en from "./en";
+
+export * from "./types";
+export type { Messages };
+
+const CATALOGUES: Record<UiLang, Messages> = { vi, en };
+
+const LOCALES: Record<UiLang, string> = { vi: "vi-VN", en: "en-US" };
+
+export type Translator = {
+  lang: UiLang;
+  locale: string;
+  m: Messages;
+  /** Điền {tên} trong chuỗi; tham số là số thì định dạng theo locale. */
+  t: (s: string, vars?: Vars) => string;
+  /** Chuỗi có số đếm: chọn dạng theo n, "#" là n đã định dạng. */
+  count: (p: Plural, n: number, vars?: Vars) => string;
+  num: (n: number, opts?: Intl.NumberFormatOptions) => string;
+  /** Số thập phân cố định chữ số, như độ khó 0,45 / 0.45. */
+  dec: (n: number, digits?: number) => string;
+  date: (d: Date | number, opts?: Intl.DateTimeFormatOptions) => string;
+};
+
+export function translator(lang: UiLang): Translator {
+  const locale = LOCALES[lang];
+  const rules = new Intl.PluralRules(locale);
+  const num = (n: number, opts?: Intl.NumberFormatOptions) => n.toLocaleString(locale, opts);
+  const t = (s: string, vars: Vars = {}) =>
+    s.replace(/\{(\w+)\}/g, (all, k: string) => {
+      const v = vars[k];
+      return v == null ? all : typeof v === "number" ? num(v) : v;
+    });
+  return {
+    lang,
+    locale,
+    m: CATALOGUES[lang],
+    t,
+    count: (p, n, vars) => t((rules.select(n) === "one" && p.one) || p.other, vars).replace(/#/g, num(n)),
+    num,
+    dec: (n, digits = 2) => num(n, { minimumFractionDigits: digits, maximumFractionDigits: digits }),
+    date: (d, opts) => new Date(d).toLocaleString(locale, opts ?? { dateStyle: "short" }),
+  };
+}
+
+/** Thông báo mặc định của zod (kiểu sai, quá nhỏ...) theo ngôn ngữ giao diện; dùng làm error của zodResolver. */
+export const zodErrorMap = (lang: UiLang) => z.locales[lang]().localeError;
+
+/** Cảnh báo / lỗi phạm vi chương trình theo ngôn ngữ giao diện (ScopeIssue.message là bản tiếng Việt). */
+export function scopeMessage({ t, num, m }: Translator, issue: ScopeIssue): string {
+  const { kind, max, ...rest } = issue.params;
+  return t(m.scope[issue.code], {
+    ...rest,
+    ...(max != null && { max: num(max) }),
+    ...(kind && { kind: m.kinds[kind].toLowerCase() }),
+  });
+}
+
+/** Tooltip độ khó: điểm rồi mỗi yếu tố một dòng kèm trọng số, theo ngôn ngữ giao diện. */
+export function describeDifficulty({ t, dec, m }: Translator, b: DifficultyBreakdown): string {
+  const label = ({ code, params }: DifficultyFactor) => {
+    if (code === "op") return m.ops[params.op!];
+    if (code === "kind") return m.difficulty.kinds[params.kind as ExtraKind] ?? m.kinds[params.kind!];
+    return t(m.difficulty.factors[code], params);
+  };
+  return [
+    t(m.difficulty.score, { score: dec(b.score) }),
+    ...b.factors.map((f) => `${f.weight >= 0 ? "+" : "−"}${dec(Math.abs(f.weight))}  ${label(f)}`),
+  ].join("\n");
+}
+
+/** Mâu thuẫn của ma trận đề theo ngôn ngữ giao diện (BlueprintConflict.message là bản tiếng Việt). */
+export function blueprintMessage({ t, dec, m }: Translator, c: BlueprintConflict): string {
+  const b = m.blueprint;
+  const label = ({ group, name }: ConstraintRef) => {
+    switch (group) {
+      case "kind": return name === "word" ? b.word : b.mcq;
+      case "by_op": return t(b.op, { op: name });
+      case "by_band": return t(b.band, { band: m.bands[name as Band] ?? name });
+      case "by_topic": return t(b.topic, { topic: name || b.untagged });
+      default: return t(b.source, { source: name || b.unknownSource });
+    }
+  };
+  const { refs = [], blocking = [], value, tolerance = 0, lo = 0, hi = 0, ...counts } = c.params;
+  return t(b.conflicts[c.code], {
+    ...counts,
+    labels: refs.map(label).join(", "),
+    blocking: blocking.map(label).join(", "),
+    ...(value != null && { value: dec(value), tolerance: dec(tolerance), lo: dec(lo), hi: dec(hi) }),
+  });
+}
+
+/** Ghi chú đánh giá đề theo ngôn ngữ giao diện (EvaluationNote.message là bản tiếng Việt). */
+export function noteMessage({ m, count }: Translator, note: EvaluationNote): string {
+  const text = m.evaluation.noteText[note.code];
+  return typeof text === "string" ? text : count(text, note.params.n ?? 0);
+}
+
+/**
+ * Thông báo lỗi API theo ngôn ngữ giao diện: lỗi mạng, quá thời gian, hủy và lỗi có code là của ứng dụng nên
+ * dịch được; lỗi máy chủ và lỗi dữ liệu giữ nguyên văn bản máy chủ trả về.
+ */
+export function apiErrorMessage({ m, t }: Translator, e: ApiError): string {
+  if (e.coded) {
+    const { code, params } = e.coded;
+    return t(m.errors[code], { ...params, path: params.path || m.errors.root });
+  }
+  if (e.kind === "network") return m.toast.network;
+  if (e.kind === "aborted") return m.toast.aborted;
+  if (e instanceof TimeoutError) return t(m.toast.timeout, { seconds: Math.round(e.ms / 1000) });
+  return e.message;
+}
+
+/** Lỗi bất kỳ bắt được ở giao diện (đọc file, IndexedDB…): quy về ApiError rồi dịch như trên. */
+export function errorMessage(tr: Translator, e: unknown): string {
+  return apiErrorMessage(tr, toApiError(e));
+}
+
+/** Lỗi một dòng khi nhập file theo ngôn ngữ giao diện (RowError.message là bản tiếng Việt). */
+export function rowErrorMessage({ m, t }: Translator, e: RowError): string {
+  return t(m.importPreview.rowErrors[e.code], e.params);
+}
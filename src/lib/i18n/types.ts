@@ -0,0 +1,22 @@
+// lib/i18n/types.ts
+// Ngôn ngữ giao diện: độc lập với ngôn ngữ nội dung đề (GenerationConfig.language).
+
+export type UiLang = "vi" | "en";
+
+export const UI_LANGS: UiLang[] = ["vi", "en"];
+
+/** Cookie lưu ngôn ngữ giao diện; layout đọc cookie này để đặt <html lang> ngay từ server. */
+export const UI_LANG_COOKIE = "ui-lang";
+
+export const isUiLang = (v: unknown): v is UiLang => v === "vi" || v === "en";
+
+/**
+ * Chuỗi có số đếm: chọn dạng theo Intl.PluralRules, "#" được thay bằng số đã định dạng.
+ * Tiếng Việt chỉ cần other; tiếng Anh thêm one cho số ít.
+ */
+export type Plural = { one?: string; other: string };
+
+export const plural = (p: Plural): Plural => p;
+
+/** Tham số thay vào chỗ {tên} trong chuỗi; thiếu tham số thì giữ nguyên {tên}. */
+export type Vars = Record<string, string | number | undefined>;
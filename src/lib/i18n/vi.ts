@@ -0,0 +1,538 @@
+// lib/i18n/vi.ts
+// Bảng chuỗi giao diện tiếng Việt: là bản gốc, kiểu Messages lấy từ đây nên en.ts phải có đủ khóa.
+// {tên} là tham số; "#" trong plural(...) là số đếm đã định dạng.
+
+import type { AnswerLayout, AnswerStyle, ExportContent, ExtraKind, Mode, Operation, ProblemKind } from "../types";
+import type { DifficultyFactorCode } from "../difficulty";
+import type { BlueprintConflictCode } from "../blueprint";
+import type { RowErrorCode } from "../import/mapping";
+import type { ErrorCode } from "../errors";
+import { plural } from "./types";
+
+const vi = {
+  meta: {
+    title: "Tạo phiếu bài tập Toán bằng AI",
+    description: "Sinh phiếu bài tập Toán tiểu học, ráp đề từ ngân hàng câu hỏi và xuất file để in",
+  },
+
+  common: {
+    uiLanguage: "Ngôn ngữ giao diện",
+    cancel: "Hủy",
+    save: "Lưu",
+    update: "Cập nhật",
+    remove: "Xóa",
+    close: "Đóng",
+    exporting: "Đang xuất...",
+    unknownSource: "(không rõ)",
+    grade: "Lớp {n}",
+    page: "Trang {page}/{pages}",
+    question: "Câu {n}",
+    selectQuestion: "Chọn câu {n}",
+    questions: plural({ other: "# câu" }),
+    backHome: "Về trang tạo đề",
+    library: "Thư viện",
+    practice: "Luyện tập",
+  },
+
+  kinds: {
+    arithmetic: "Số học",
+    word: "Lời văn",
+    fill_blank: "Điền số",
+    comparison: "So sánh",
+    expression: "Biểu thức",
+    sequence: "Dãy số",
+    fraction: "Phân số",
+    measurement: "Đo lường",
+    time: "Thời gian",
+    money: "Tiền",
+    geometry: "Hình học",
+  } satisfies Record<ProblemKind, string>,
+
+  bands: { easy: "Dễ", medium: "Trung bình", hard: "Khó" },
+
+  ops: {
+    "+": "Phép cộng",
+    "-": "Phép trừ",
+    "×": "Phép nhân",
+    "÷": "Phép chia",
+    other: "Dạng khác",
+  } satisfies Record<Operation | "other", string>,
+
+  modes: {
+    easy_to_hard: "Dễ → Khó",
+    balanced: "Cân bằng",
+    hard_to_easy: "Khó → Dễ",
+  } satisfies Record<Mode, string>,
+
+  content: {
+    questions: "Câu hỏi",
+    answers: "Đáp án",
+    both: "Đề + đáp án",
+  } satisfies Record<ExportContent, string>,
+
+  exportFormats: {
+    pdf: "PDF",
+    docx: "Word (.docx)",
+    html: "HTML để in",
+    md: "Markdown",
+    tex: "LaTeX",
+    csv: "CSV",
+    json: "JSON",
+  },
+
+  bubbleSheet: { sheet: "Phiếu tô trắc nghiệm", key: "Đáp án phiếu tô" },
+
+  answerLayouts: {
+    separate_page: "Trang riêng",
+    inline: "Ngay dưới câu hỏi",
+    key_table: "Bảng đáp án",
+  } satisfies Record<AnswerLayout, string>,
+
+  answerStyles: {
+    blanks: "Dòng trả lời",
+    bubbles: "Tô tròn trắc nghiệm",
+  } satisfies Record<AnswerStyle, string>,
+
+  importFields: {
+    text: "Đề bài",
+    answer: "Đáp án",
+    distractors: "Lựa chọn nhiễu",
+    kind: "Loại câu",
+    difficulty: "Độ khó",
+    ignore: "Bỏ qua",
+  },
+
+  // Theo khóa của WORD_THEMES, id của PRESETS và "lớp-học kỳ" của CURRICULUM (lib/local/generator, lib/curriculum)
+  themes: {
+    school: "Trường học",
+    garden: "Vườn cây",
+    toys: "Đồ chơi",
+    farm: "Trang trại",
+    market: "Đi chợ",
+  },
+
+  presets: {
+    "g1-t1-add-sub-10": "Lớp 1 – HK1 – Cộng trừ trong phạm vi 10",
+    "g1-t2-add-sub-100": "Lớp 1 – HK2 – Cộng trừ không nhớ phạm vi 100",
+    "g2-t1-carry-100": "Lớp 2 – HK1 – Cộng trừ có nhớ phạm vi 100",
+    "g2-t2-tables-2-5": "Lớp 2 – HK2 – Bảng nhân chia 2 và 5",
+    "g3-t1-tables": "Lớp 3 – HK1 – Nhân chia trong bảng",
+    "g3-t1-remainder": "Lớp 3 – HK1 – Chia có dư",
+    "g3-t2-100000": "Lớp 3 – HK2 – Cộng trừ phạm vi 100 000",
+    "g4-t2-two-digit": "Lớp 4 – HK2 – Nhân chia với số có hai chữ số",
+    "g5-review": "Lớp 5 – Ôn tập bốn phép tính",
+  },
+
+  curriculum: {
+    "1-1": "Cộng, trừ trong phạm vi 10",
+    "1-2": "Cộng, trừ không nhớ trong phạm vi 100",
+    "2-1": "Cộng, trừ có nhớ trong phạm vi 100",
+    "2-2": "Cộng, trừ trong phạm vi 1000; bảng nhân, chia 2 và 5",
+    "3-1": "Bảng nhân, chia 2–9; nhân, chia số có hai, ba chữ số với số có một chữ số; chia có dư",
+    "3-2": "Các số trong phạm vi 100 000; nhân, chia với số có một chữ số",
+    "4-1": "Số có nhiều chữ số; cộng, trừ; nhân, chia với số có một chữ số",
+    "4-2": "Nhân, chia với số có hai chữ số",
+    "5-1": "Ôn tập và bổ sung các phép tính với số tự nhiên",
+    "5-2": "Vận dụng bốn phép tính với số tự nhiên",
+  },
+
+  // Theo ScopeIssue.code (lib/curriculum)
+  scope: {
+    ops_not_this_year: "Lớp {grade} chưa học phép {ops}.",
+    ops_next_term: "Phép {ops} học từ HK2 lớp {grade}.",
+    max_year: "Lớp {grade} chỉ học trong phạm vi {max}.",
+    max_term: "Chương trình lớp {grade} HK{term} trong phạm vi {max}.",
+    remainder: "Chương trình lớp {grade} HK{term} chưa học chia có dư.",
+    carry: "Chương trình lớp {grade} HK{term} chỉ cộng, trừ không nhớ.",
+    kind_early: "Dạng {kind} học từ lớp {from}.",
+  },
+
+  // Tooltip độ khó: mỗi yếu tố của lib/difficulty một dòng; "op" lấy tên phép tính trong ops
+  difficulty: {
+    score: "Độ khó {score}",
+    factors: {
+      digits: "Số lớn nhất có {n} chữ số",
+      magnitude: "Độ lớn toán hạng ({value})",
+      carries: "{n} lần nhớ",
+      borrows: "{n} lần mượn",
+      outside_table: "Nhân/chia ngoài bảng",
+      remainder: "Chia có dư",
+      steps: "{n} bước tính",
+      parentheses: "Có dấu ngoặc",
+      mixed_order: "Phải nhớ thứ tự thực hiện phép tính",
+      word: "Bài toán có lời văn",
+      above_grade: "Vượt phạm vi số lớp {grade}",
+      grade1_mul_div: "Lớp 1 chưa học nhân chia",
+      below_grade: "Chỉ trong phạm vi số lớp {grade}",
+    } satisfies Record<Exclude<DifficultyFactorCode, "op" | "kind">, string>,
+    kinds: {
+      fill_blank: "Tìm thành phần chưa biết",
+      comparison: "So sánh hai vế",
+      expression: "Biểu thức",
+      sequence: "Tìm quy luật dãy số",
+      fraction: "Phân số",
+      measurement: "Đổi đơn vị đo",
+      time: "Thời gian, đồng hồ",
+      money: "Tiền Việt Nam",
+      geometry: "Chu vi, diện tích",
+    } satisfies Record<ExtraKind, string>,
+  },
+
+  validation: {
+    integer: "Số câu phải là số nguyên",
+    nonNegative: "Số câu không âm",
+    wordCount: "Số câu lời văn phải ≤ Tổng số câu",
+    kindCounts: "Số câu các dạng khác phải ≤ Tổng số câu trừ lời văn",
+    mcqCount: "Số câu trắc nghiệm phải ≤ Tổng số câu trừ lời văn",
+    textRequired: "Đề bài không được để trống",
+    answerRequired: "Cần có đáp án",
+    difficultyRange: "Độ khó là số từ 0 đến 1",
+    distractorIsAnswer: "Lựa chọn nhiễu không được trùng đáp án",
+    distractorsDistinct: "Các lựa chọn nhiễu phải khác nhau",
+    distractorsMax: "Tối đa 9 lựa chọn nhiễu (phương án A–J)",
+  },
+
+  toast: {
+    aborted: "Đã hủy yêu cầu.",
+    uploadAborted: "Đã hủy tải lên.",
+    network: "Không kết nối được máy chủ. Kiểm tra mạng rồi thử lại.",
+    timeout: "Máy chủ không phản hồi sau {seconds} giây.",
+    sheetSaved: "Đã lưu \"{name}\".",
+    bankSaved: "Đã lưu ngân hàng \"{name}\".",
+    poolLoaded: plural({ other: "Đã nạp # câu từ {files}." }),
+    poolAppended: plural({ other: "Đã gộp thêm # câu từ {files}." }),
+    sheetNotFound: "Không tìm thấy phiếu đã lưu.",
+    bankNotFound: "Không tìm thấy ngân hàng đã lưu.",
+    shareCopied: "Đã sao chép liên kết chia sẻ.",
+    shareLocal: "Phiếu quá lớn để đưa cả vào liên kết nên đã lưu trên máy này; liên kết ngắn chỉ mở được trên trình duyệt này.",
+    shareCopyFailed: "Không sao chép được; liên kết đã hiện trên thanh địa chỉ.",
+    shareInvalid: "Liên kết chia sẻ không hợp lệ hoặc bị cắt mất, hoặc phiếu không còn trên máy này.",
+    shareChanged: "Đề sinh lại khác với lúc tạo liên kết (trình sinh đề đã thay đổi): hãy kiểm tra lại trước khi dùng.",
+  },
+
+  errors: {
+    xlsx_corrupt: "File .xlsx hỏng hoặc không phải định dạng Excel.",
+    xlsx_compression: "Kiểu nén {method} không được hỗ trợ.",
+    xlsx_no_sheet: "Không tìm thấy trang tính trong file .xlsx.",
+    offline_format: "Chế độ offline chỉ đọc được .txt/.csv, không đọc được \"{file}\".",
+    no_mcq: "Phiếu chưa có câu trắc nghiệm nào để in phiếu tô.",
+    no_indexeddb: "Trình duyệt không hỗ trợ IndexedDB.",
+    font_load: "Không tải được font {url} ({status}).",
+    bad_body: "Phản hồi của máy chủ không đúng định dạng.",
+    invalid_response: "Phản hồi {what} không hợp lệ tại \"{path}\": {detail}",
+    root: "(gốc)",
+  } satisfies Record<ErrorCode | "root", string>,
+
+  hero: {
+    badge: "AI Math Worksheet Generator",
+    title: "Tạo Bài Tập Toán",
+    tagline: "Tiện Ích và Nhanh Chóng",
+    subtitle:
+      "Sinh tự động bài tập Toán tiểu học với AI, hỗ trợ upload ngân hàng câu hỏi, ráp đề theo độ khó và xuất PDF chuyên nghiệp.",
+    library: "Thư viện đã lưu",
+    questions: "Câu hỏi",
+    avgDifficulty: "Độ khó TB",
+    distribution: "Phân bố",
+  },
+
+  config: {
+    title: "Cấu hình thông minh",
+    preset: "Mẫu theo chương trình",
+    presetPlaceholder: "— Chọn bài học để điền nhanh —",
+    grade: "Khối lớp",
+    term: "Học kỳ",
+    termN: "HK{n}",
+    contentLanguage: "Ngôn ngữ đề",
+    scopeSummary: "Chương trình lớp {grade} HK{term}: {summary}.",
+    count: "Tổng câu",
+    mcq: "Trắc nghiệm",
+    word: "Tự luận",
+    min: "Giá trị nhỏ nhất",
+    max: "Giá trị lớn nhất",
+    operations: "Phép toán",
+    carry: "Cộng, trừ có nhớ",
+    remainder: "Chia có dư",
+    column: "Đặt tính cột dọc",
+    tables: "Bảng nhân/chia:",
+    tablesSome: "chỉ lấy trong các bảng đã chọn",
+    tablesAll: "không giới hạn",
+    extraKinds: "Dạng bài khác",
+    wordProblems: "Bài toán có lời văn (AI)",
+    theme: "Chủ đề lời văn",
+    themeMixed: "Tổng hợp",
+    distractors: "Sinh lựa chọn nhiễu (MCQ)",
+    seed: "Seed (tùy chọn)",
+    variants: "Số mã đề",
+    variantsOne: "1 đề",
+    variantsMany: "{n} đề (A–{last})",
+    generate: "Sinh đề",
+    generating: "Đang sinh...",
+  },
+
+  bank: {
+    title: "Ngân hàng GV",
+    upload: "Tải lên ngân hàng câu hỏi",
+    uploadHint: "Hỗ trợ .txt, .csv, .xlsx (xem trước), .pdf, .docx",
+    template: "Tải file mẫu (.csv)",
+    append: "Gộp vào ngân hàng hiện có",
+    replace: "Thay thế",
+    count: "Số câu",
+    avgDifficulty: "Độ khó TB",
+    save: "Lưu ngân hàng",
+    update: "Cập nhật ngân hàng",
+    saveTitle: "Lưu ngân hàng vào thư viện để dùng lại",
+    manage: "Quản lý ngân hàng",
+    hide: "Ẩn ngân hàng",
+    source: "Nguồn",
+    bandsShort: "Dễ / TB / Khó",
+    kindsShort: "Số học / Lời văn",
+    total: "Tổng hợp",
+    crossDupes: plural({ other: "# nhóm câu trùng giữa các file" }),
+    keepFirst: "Giữ câu đầu mỗi nhóm",
+    moreGroups: plural({ other: "… và # nhóm khác" }),
+    totalCount: "Tổng số câu",
+    difficulty: "Độ khó",
+    variants: "Mã đề",
+    useBlueprint: "Ráp theo ma trận đề (số câu theo phép toán, mức độ, chủ đề, nguồn)",
+    assemble: "Ráp đề từ ngân hàng",
+    uploadFirst: "Hãy upload ngân hàng trước.",
+    defaultName: "Ngân hàng {date}",
+    managerTitle: "Quản lý ngân hàng",
+  },
+
+  preview: {
+    title: "Xem trước câu hỏi",
+    regenSelected: plural({ other: "Sinh lại # câu đã chọn" }),
+    undo: "Hoàn tác (Ctrl+Z)",
+    redo: "Làm lại (Ctrl+Shift+Z)",
+    sheetName: "Tên phiếu để lưu...",
+    defaultSheetName: "Phiếu lớp {grade} – {date}",
+    currentSheet: "Phiếu hiện tại",
+    share: "Chia sẻ",
+    shareTitle: "Sao chép liên kết mở lại đúng phiếu này: cấu hình, seed, chỉnh sửa và cài đặt ráp đề",
+    variantTab: "Đề {code}",
+    answerKeys: "Đáp án các đề",
+    format: "Định dạng",
+    docTitle: "Tiêu đề",
+    header: "Dòng đầu trang",
+    headerPlaceholder: "Trường, lớp, ngày...",
+    answerLayout: "Trình bày đáp án",
+    school: "Trường",
+    schoolPlaceholder: "Để trống: in dòng chấm",
+    className: "Lớp",
+    classPlaceholder: "VD: 3A",
+    paper: "Khổ giấy",
+    columns: "Số cột",
+    columnsN: plural({ other: "# cột" }),
+    answerStyle: "Chỗ làm bài",
+    bubbleSheet: "Phiếu tô trắc nghiệm (PDF):",
+    bubbleMerged: plural({ other: "Gộp # mã đề trong một file, mỗi mã đề bắt đầu trang mới." }),
+    edit: "Sửa câu hỏi",
+    regenerate: "Sinh lại câu này",
+    remove: "Xóa câu hỏi",
+    copyTitle: "Sao chép câu hỏi",
+    copy: "Sao chép",
+    add: "Thêm câu hỏi",
+    empty: "Chưa có dữ liệu — hãy Sinh đề hoặc tải ngân hàng lên rồi Ráp đề.",
+    difficultyInUse: "(Độ khó đang dùng: {value})",
+  },
+
+  evaluation: {
+    title: "Đánh giá đề",
+    avgDifficulty: "Độ khó trung bình",
+    bucketsShort: "Dễ: {easy} • TB: {medium} • Khó: {hard}",
+    byKind: "Theo loại",
+    byOp: "Theo phép toán",
+    distribution: "Phân bố độ khó",
+    histogram: "Biểu đồ độ khó",
+    histogramBar: plural({ other: "{from}–{to}: # câu" }),
+    ordering: "Thứ tự độ khó",
+    ascending: "Tăng dần",
+    descending: "Giảm dần",
+    inversions: plural({ other: "# cặp câu khó đứng trước câu dễ hơn" }),
+    perfectOrder: "đúng thứ tự hoàn toàn",
+    partialOrder: "{pct}% cặp liền kề đúng chiều",
+    time: "Thời gian làm bài ước tính",
+    minutes: plural({ other: "~# phút" }),
+    answers: "Đáp án",
+    answerRange: "Từ",
+    answerRangeTo: "đến",
+    answerMean: "TB",
+    nonNumeric: plural({ other: "# đáp án không phải số" }),
+    noNumeric: "Không có đáp án dạng số.",
+    skills: "Kỹ năng tính",
+    carry: "Có nhớ",
+    borrow: "Có mượn",
+    remainder: "Chia có dư",
+    parsed: plural({ other: "trên # câu đọc được phép tính" }),
+    duplicates: "Câu trùng hoặc gần trùng",
+    compare: "So sánh các mã đề",
+    code: "Mã đề",
+    bandsShort: "Dễ/TB/Khó",
+    kindsShort: "Số học/Lời văn",
+    notes: "Ghi chú",
+    empty: "Chưa có dữ liệu đánh giá.",
+    noteText: {
+      empty: "Đề trống.",
+      no_ops: "Không nhận diện được phép toán nào.",
+      no_hard: "Đề chưa có câu khó.",
+      no_easy: "Đề chưa có câu dễ để khởi động.",
+      duplicates: plural({ other: "Có # nhóm câu trùng hoặc gần trùng." }),
+    },
+  },
+
+  importPreview: {
+    title: "Xem trước dữ liệu nhập",
+    queued: plural({ other: " (còn # file)" }),
+    rows: plural({ other: "# dòng" }),
+    summary: "{rows} • hợp lệ {valid} • lỗi {invalid}",
+    hasHeader: "Dòng đầu là tiêu đề",
+    template: "Tải file mẫu",
+    skipAll: "Bỏ qua mọi dòng lỗi",
+    missingRequired: "Cần chọn ít nhất một cột “{text}” và một cột “{answer}”.",
+    row: "Dòng",
+    status: "Trạng thái",
+    skipRow: "Bỏ qua dòng này",
+    unresolved: plural({ other: "Còn # dòng lỗi: sửa lại hoặc chọn bỏ qua." }),
+    commit: plural({ other: "Thêm # câu vào ngân hàng" }),
+    rowErrors: {
+      missing_text: "Thiếu đề bài",
+      missing_answer: "Thiếu đáp án",
+      distractor_is_answer: "Lựa chọn nhiễu trùng đáp án",
+      distractors_repeat: "Lựa chọn nhiễu bị lặp",
+      distractors_max: "Tối đa 9 lựa chọn nhiễu",
+      bad_kind: "Loại câu \"{value}\" không hợp lệ (số học, lời văn, điền số, so sánh…)",
+      bad_difficulty: "Độ khó phải là số từ 0 đến 1",
+      invalid: "{value}",
+    } satisfies Record<RowErrorCode, string>,
+  },
+
+  bankManager: {
+    search: "Tìm theo nội dung hoặc chủ đề...",
+    allKinds: "Mọi loại",
+    allOps: "Mọi phép toán",
+    allBands: "Mọi mức độ",
+    allSources: "Mọi nguồn",
+    summary: "{shown}/{total} câu • ghim {pinned} • loại {excluded}",
+    selected: " • đã chọn {n}",
+    topic: "Chủ đề",
+    grade: "Khối lớp",
+    tag: "Gắn nhãn",
+    removeSelected: "Xóa đã chọn",
+    findDupes: "Tìm câu trùng",
+    hideDupes: "Ẩn câu trùng",
+    noDupes: "Không có câu trùng hoặc gần trùng.",
+    dupeGroups: plural({ other: "# nhóm câu trùng" }),
+    keepFirst: "Giữ câu đầu mỗi nhóm, xóa phần còn lại",
+    selectPage: "Chọn cả trang",
+    question: "Câu hỏi",
+    answer: "Đáp án",
+    kind: "Loại",
+    difficulty: "Độ khó",
+    topicGrade: "Chủ đề / Lớp",
+    source: "Nguồn",
+    edit: "Sửa",
+    pin: "Ghim: luôn có trong đề",
+    unpin: "Bỏ ghim",
+    exclude: "Loại: không bao giờ chọn",
+    include: "Dùng lại câu này",
+    noMatch: "Không có câu nào khớp bộ lọc.",
+  },
+
+  blueprint: {
+    saved: "— Ma trận đã lưu ({n}) —",
+    namePlaceholder: "Tên ma trận, ví dụ: Lớp 3 – Cuối HK1",
+    defaultName: "Ma trận {date}",
+    saveAsNew: "Lưu bản mới",
+    saveAsNewTitle: "Lưu thành ma trận mới",
+    constraint: "Ràng buộc",
+    available: "Có sẵn",
+    min: "Tối thiểu",
+    max: "Tối đa",
+    minOf: "{label} tối thiểu",
+    maxOf: "{label} tối đa",
+    ops: "Phép toán",
+    op: "Phép {op}",
+    bands: "Mức độ",
+    topics: "Chủ đề",
+    sources: "Nguồn",
+    hint: "Để trống = không giới hạn; tối thiểu = tối đa để cố định đúng số câu.",
+    target: "Độ khó TB mục tiêu",
+    mcq: "Trắc nghiệm",
+    word: "Lời văn",
+    band: "Mức {band}",
+    topic: "Chủ đề \"{topic}\"",
+    source: "Nguồn \"{source}\"",
+    untagged: "(chưa gắn)",
+    unknownSource: "(không rõ)",
+    conflicts: {
+      bank_short: "Đề cần {total} câu nhưng ngân hàng chỉ còn {available} câu dùng được.",
+      pinned_over_total: "Đã ghim {pinned} câu, nhiều hơn tổng số câu ({total}).",
+      min_over_available: "{labels}: cần ít nhất {min} câu, ngân hàng chỉ có {available}.",
+      min_over_total: "{labels}: tối thiểu {min} câu nhưng đề chỉ có {total} câu.",
+      pinned_over_max: "{labels}: đã ghim {pinned} câu, vượt tối đa {max}.",
+      group_min_over_total: "Tổng tối thiểu của {labels} là {sum}, vượt {total} câu của đề.",
+      group_max_under_total: "{labels} cho phép tối đa {sum} câu, chưa đủ {total} câu của đề.",
+      target_out_of_range: "Độ khó TB {value} ± {tolerance} nằm ngoài khoảng ngân hàng đáp ứng được ({lo}–{hi}).",
+      not_enough: "Không đủ câu cho {labels}. Hãy nới khoảng của một trong số đó.",
+      not_enough_blocked: "Không đủ câu cho {labels} khi vẫn giữ tối đa của {blocking}. Hãy nới khoảng của một trong số đó.",
+      max_limits: "Các giới hạn tối đa chỉ cho chọn {picked}/{total} câu.",
+      target_unreachable: "Không đạt được độ khó TB mục tiêu cùng với các ràng buộc số câu; hãy tăng dung sai.",
+    } satisfies Record<BlueprintConflictCode, string>,
+  },
+
+  editor: {
+    text: "Đề bài",
+    answer: "Đáp án",
+    distractors: "Lựa chọn nhiễu (cách nhau bởi ;)",
+    difficulty: "Độ khó (0–1)",
+  },
+
+  math: {
+    column: "Đặt tính cột dọc",
+    division: "Chia cột",
+  },
+
+  library: {
+    title: "Thư viện đã lưu",
+    worksheets: "Phiếu bài tập",
+    banks: "Ngân hàng câu hỏi",
+    search: "Tìm theo tên hoặc nội dung câu hỏi...",
+    avgDifficulty: "Độ khó TB {value}",
+    variants: plural({ other: "# mã đề" }),
+    updated: "Cập nhật {date}",
+    open: "Mở",
+    duplicate: "Nhân bản",
+    copySuffix: "(bản sao)",
+    confirmDelete: "Xác nhận xóa",
+    noMatch: "Không tìm thấy mục nào phù hợp.",
+    empty: "Chưa lưu mục nào — hãy tạo đề rồi bấm Lưu.",
+  },
+
+  practice: {
+    title: "Luyện tập",
+    single: "Từng câu",
+    page: "Cả trang",
+    restart: "Làm lại",
+    score: "{score} điểm",
+    correctOf: "Đúng {correct}/{total} câu ({pct}%)",
+    byOp: "Theo phép toán",
+    byBand: "Theo mức độ",
+    progress: "Câu {n}/{total}",
+    check: "Kiểm tra",
+    next: "Câu tiếp",
+    results: "Xem kết quả",
+    submit: "Nộp bài",
+    correct: "Đúng rồi!",
+    wrong: "Chưa đúng",
+    unanswered: "Chưa trả lời",
+    expected: "đáp án:",
+    answerPlaceholder: "Nhập đáp án...",
+    noSet: "Chưa có câu hỏi để luyện tập — hãy tạo đề hoặc mở một phiếu đã lưu.",
+    variantTitle: "{name} — Mã {code}",
+  },
+};
+
+export type Messages = typeof vi;
+
+export default vi;
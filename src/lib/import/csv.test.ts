@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+
+import { detectDelimiter, parseCSV, toCSV } from "./csv";
+
+describe("detectDelimiter", () => {
+  it("nhận dấu xuất hiện đều trên mọi dòng", () => {
+    expect(detectDelimiter("a;b;c\n1;2;3\n")).toBe(";");
+    expect(detectDelimiter("a\tb\n1\t2\n")).toBe("\t");
+    expect(detectDelimiter("a|b\n1|2\n")).toBe("|");
+  });
+
+  it("không bị lừa bởi dấu phẩy thập phân trong ô", () => {
+    expect(detectDelimiter("Đề bài;Đáp án\n0,5 + 0,5 = ?;1\n1,5 + 1 = ?;2,5\n")).toBe(";");
+  });
+});
+
+describe("parseCSV", () => {
+  it("đọc ô có ngoặc kép, dấu phân cách và xuống dòng bên trong", () => {
+    const text = '\uFEFFĐề bài,Đáp án\r\n"Tính: 2 + 3, rồi ""viết"" kết quả\ntrên vở",5\r\n\r\n';
+    expect(parseCSV(text)).toEqual([
+      ["Đề bài", "Đáp án"],
+      ['Tính: 2 + 3, rồi "viết" kết quả\ntrên vở', "5"],
+    ]);
+  });
+
+  it("đọc lại đúng bảng do toCSV ghi", () => {
+    const rows = [["a", "b;c"], ['x "y"', "1|2"], ["dòng\nmới", ""]];
+    expect(parseCSV(toCSV(rows), ",")).toEqual(rows);
+  });
+});
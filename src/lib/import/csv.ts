@@ -0,0 +1,63 @@
+// lib/import/csv.ts
+// CSV theo RFC 4180 (ngoặc kép, xuống dòng trong ô); tự nhận dấu phân cách , ; tab hoặc |.
+
+const DELIMITERS = [",", ";", "\t", "|"];
+
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, 10).filter((l) => l.trim());
+  let best = ",", bestScore = 0;
+  for (const d of DELIMITERS) {
+    const counts = sample.map((l) => l.split(d).length - 1);
+    // Ưu tiên dấu xuất hiện đều trên mọi dòng; không đều (ô có ngoặc kép chứa dấu) thì tính theo dòng ít nhất
+    if (counts.length === 0) continue;
+    const score = counts.every((c) => c === counts[0]) ? counts[0] * 2 : Math.min(...counts);
+    if (score > bestScore) {
+      best = d;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function parseCSV(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && cell === "") quoted = true;
+    else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export function toCSV(rows: string[][], delimiter = ","): string {
+  const esc = (c: string) => (/[",\r\n;|\t]/.test(c) ? `"${c.replace(/"/g, '""')}"` : c);
+  return rows.map((r) => r.map(esc).join(delimiter)).join("\r\n") + "\r\n";
+}
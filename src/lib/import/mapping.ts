@@ -0,0 +1,127 @@
+// lib/import/mapping.ts
+// Ghép cột của bảng nhập vào các trường của Problem và kiểm tra từng dòng.
+
+import { Problem } from "../types";
+import { ProblemSchema } from "../schemas";
+import { opOf } from "../local/evaluate";
+import { KIND_ALIASES } from "../kinds";
+import { inferMath } from "../math";
+import { parseCSV, toCSV } from "./csv";
+import { readXlsx } from "./xlsx";
+
+export type ImportField = "text" | "answer" | "distractors" | "kind" | "difficulty" | "ignore";
+
+export const IMPORT_FIELDS: { value: ImportField; label: string }[] = [
+  { value: "text", label: "Đề bài" },
+  { value: "answer", label: "Đáp án" },
+  { value: "distractors", label: "Lựa chọn nhiễu" },
+  { value: "kind", label: "Loại câu" },
+  { value: "difficulty", label: "Độ khó" },
+  { value: "ignore", label: "Bỏ qua" },
+];
+
+const HEADER_HINTS: Record<Exclude<ImportField, "ignore">, RegExp> = {
+  text: /^(text|question|cau hoi|de bai|noi dung)/,
+  answer: /^(answer|dap an|ket qua)/,
+  distractors: /^(distractor|nhieu|phuong an|lua chon|option|[a-d]$)/,
+  kind: /^(kind|type|loai)/,
+  difficulty: /^(difficulty|do kho|muc do)/,
+};
+
+const fold = (s: string) =>
+  s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/gi, "d").toLowerCase().trim();
+
+/** Đoán cột theo tiêu đề; không có tiêu đề thì theo thứ tự text, answer, distractors... */
+export function guessMapping(header: string[]): { mapping: ImportField[]; hasHeader: boolean } {
+  const guessed = header.map((h) => {
+    const f = fold(h);
+    const hit = (Object.keys(HEADER_HINTS) as Exclude<ImportField, "ignore">[]).find((k) => HEADER_HINTS[k].test(f));
+    return hit ?? "ignore";
+  });
+  if (guessed.includes("text")) return { mapping: guessed, hasHeader: true };
+  const order: ImportField[] = ["text", "answer", "distractors", "distractors", "distractors", "kind", "difficulty"];
+  return { mapping: header.map((_, i) => order[i] ?? "ignore"), hasHeader: false };
+}
+
+export type RowErrorCode =
+  | "missing_text" | "missing_answer" | "distractor_is_answer" | "distractors_repeat" | "distractors_max"
+  | "bad_kind" | "bad_difficulty" | "invalid";
+
+/** code + params để giao diện dựng lỗi theo ngôn ngữ (lib/i18n rowErrorMessage); message là bản tiếng Việt. */
+export type RowError = { code: RowErrorCode; params: { value?: string }; message: string };
+
+export type RowResult = {
+  row: number;            // số dòng trong file (bắt đầu từ 1)
+  cells: string[];
+  problem?: Problem;
+  errors: RowError[];
+};
+
+export function mapRows(rows: string[][], mapping: ImportField[], hasHeader: boolean, source: string): RowResult[] {
+  const body = hasHeader ? rows.slice(1) : rows;
+  return body.map((cells, i) => {
+    const errors: RowError[] = [];
+    const fail = (code: RowErrorCode, message: string, params: RowError["params"] = {}) => errors.push({ code, params, message });
+    const pick = (f: ImportField) => mapping.flatMap((m, j) => (m === f ? [(cells[j] ?? "").trim()] : []));
+    const text = pick("text").filter(Boolean).join(" ");
+    const answer = pick("answer").filter(Boolean).join(" ");
+    const distractors = pick("distractors").flatMap((c) => c.split(";")).map((d) => d.trim()).filter(Boolean);
+    const kindRaw = fold(pick("kind")[0] ?? "");
+    const diffRaw = (pick("difficulty")[0] ?? "").replace(",", ".");
+
+    if (!text) fail("missing_text", "Thiếu đề bài");
+    if (!answer) fail("missing_answer", "Thiếu đáp án");
+    if (distractors.includes(answer)) fail("distractor_is_answer", "Lựa chọn nhiễu trùng đáp án");
+    if (new Set(distractors).size !== distractors.length) fail("distractors_repeat", "Lựa chọn nhiễu bị lặp");
+    if (distractors.length > 9) fail("distractors_max", "Tối đa 9 lựa chọn nhiễu");
+
+    let kind: Problem["kind"] | undefined = kindRaw ? KIND_ALIASES[kindRaw] : undefined;
+    if (kindRaw && !kind) {
+      const value = pick("kind")[0];
+      fail("bad_kind", `Loại câu "${value}" không hợp lệ (số học, lời văn, điền số, so sánh…)`, { value });
+    }
+    kind ??= opOf({ id: 0, text, answer, kind: "arithmetic" }) && text.length < 40 ? "arithmetic" : "word";
+
+    let difficulty: number | undefined;
+    if (diffRaw) {
+      difficulty = Number(diffRaw);
+      if (!Number.isFinite(difficulty) || difficulty < 0 || difficulty > 1) fail("bad_difficulty", "Độ khó phải là số từ 0 đến 1");
+    }
+
+    const result: RowResult = { row: i + 1 + (hasHeader ? 1 : 0), cells, errors };
+    if (errors.length === 0) {
+      const parsed = ProblemSchema.safeParse({
+        id: i + 1,
+        text,
+        answer,
+        distractors: distractors.length ? distractors : undefined,
+        kind,
+        difficulty,
+        source,
+        math: inferMath(text),
+      });
+      if (parsed.success) result.problem = parsed.data;
+      else fail("invalid", parsed.error.issues[0].message, { value: parsed.error.issues[0].message });
+    }
+    return result;
+  });
+}
+
+/** Bảng thô từ file; null nếu định dạng phải nhờ backend đọc (.pdf, .doc, .docx, .xls). */
+export async function readTable(file: File): Promise<string[][] | null> {
+  const ext = file.name.toLowerCase().split(".").pop();
+  if (ext === "csv") return parseCSV(await file.text());
+  if (ext === "txt") {
+    const text = await file.text();
+    // TXT theo mẫu "câu hỏi | đáp án | nhiễu..." hoặc tab
+    return parseCSV(text, text.includes("|") ? "|" : "\t");
+  }
+  if (ext === "xlsx") return readXlsx(await file.arrayBuffer());
+  return null;
+}
+
+export const TEMPLATE_CSV = toCSV([
+  ["text", "answer", "distractors", "kind", "difficulty"],
+  ["12 + 7 = ?", "19", "18;20;21", "arithmetic", "0.2"],
+  ["Lan có 15 quả táo, Lan cho bạn 6 quả. Hỏi Lan còn lại bao nhiêu quả táo?", "9", "", "word", "0.4"],
+]);
@@ -0,0 +1,85 @@
+// lib/import/xlsx.ts
+// Đọc trang tính đầu tiên của file .xlsx ngay trong trình duyệt: giải nén bằng DecompressionStream,
+// đọc XML bằng DOMParser. Không hỗ trợ .xls (định dạng nhị phân cũ) — loại đó vẫn gửi lên backend.
+
+import { AppError } from "../errors";
+
+type Entry = { name: string; method: number; offset: number; size: number };
+
+function zipEntries(buf: ArrayBuffer): Map<string, Entry> {
+  const view = new DataView(buf);
+  // Tìm End Of Central Directory từ cuối file
+  let eocd = -1;
+  for (let i = buf.byteLength - 22; i >= Math.max(0, buf.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new AppError("xlsx_corrupt", "File .xlsx hỏng hoặc không phải định dạng Excel.");
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const dec = new TextDecoder();
+  const out = new Map<string, Entry>();
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(p + 10, true);
+    const size = view.getUint32(p + 20, true);
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    const local = view.getUint32(p + 42, true);
+    const name = dec.decode(new Uint8Array(buf, p + 46, nameLen));
+    // Dữ liệu nằm sau local header (30 byte + tên + extra của local header)
+    const offset = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    out.set(name, { name, method, offset, size });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return out;
+}
+
+async function readEntry(buf: ArrayBuffer, e: Entry): Promise<string> {
+  const data = new Uint8Array(buf, e.offset, e.size);
+  if (e.method === 0) return new TextDecoder().decode(data);
+  if (e.method !== 8) throw new AppError("xlsx_compression", `Kiểu nén ${e.method} không được hỗ trợ.`, { method: e.method });
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+const colIndex = (ref: string) => {
+  const letters = ref.replace(/\d+/g, "");
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+};
+
+export async function readXlsx(buf: ArrayBuffer): Promise<string[][]> {
+  const entries = zipEntries(buf);
+  const parse = (xml: string) => new DOMParser().parseFromString(xml, "application/xml");
+
+  const sharedEntry = entries.get("xl/sharedStrings.xml");
+  const shared = sharedEntry
+    ? [...parse(await readEntry(buf, sharedEntry)).getElementsByTagName("si")].map((si) =>
+        [...si.getElementsByTagName("t")].map((t) => t.textContent ?? "").join(""),
+      )
+    : [];
+
+  const sheetName = [...entries.keys()].filter((n) => /^xl\/worksheets\/sheet\d+\.xml$/.test(n)).sort()[0];
+  if (!sheetName) throw new AppError("xlsx_no_sheet", "Không tìm thấy trang tính trong file .xlsx.");
+  const sheet = parse(await readEntry(buf, entries.get(sheetName)!));
+
+  const rows: string[][] = [];
+  for (const r of sheet.getElementsByTagName("row")) {
+    const row: string[] = [];
+    for (const c of r.getElementsByTagName("c")) {
+      const type = c.getAttribute("t");
+      const v = c.getElementsByTagName("v")[0]?.textContent ?? "";
+      const text =
+        type === "s" ? shared[Number(v)] ?? ""
+        : type === "inlineStr" ? [...c.getElementsByTagName("t")].map((t) => t.textContent ?? "").join("")
+        : v;
+      row[colIndex(c.getAttribute("r") ?? "A")] = text;
+    }
+    rows.push(Array.from(row, (x) => x ?? ""));
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
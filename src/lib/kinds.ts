@@ -0,0 +1,56 @@
+// lib/kinds.ts
+// Danh mục các dạng câu hỏi: nhãn hiển thị, ví dụ cho form và nhận diện dạng khi nhập file.
+
+import { ExtraKind, ProblemKind } from "./types";
+
+export const KIND_LABELS: Record<ProblemKind, string> = {
+  arithmetic: "Số học",
+  word: "Lời văn",
+  fill_blank: "Điền số",
+  comparison: "So sánh",
+  expression: "Biểu thức",
+  sequence: "Dãy số",
+  fraction: "Phân số",
+  measurement: "Đo lường",
+  time: "Thời gian",
+  money: "Tiền",
+  geometry: "Hình học",
+};
+
+export const EXTRA_KINDS: ExtraKind[] = [
+  "fill_blank", "comparison", "expression", "sequence", "fraction", "measurement", "time", "money", "geometry",
+];
+
+/** Ví dụ ngắn cạnh ô nhập số câu trên form. */
+export const KIND_EXAMPLES: Record<ExtraKind, string> = {
+  fill_blank: "__ + 7 = 15",
+  comparison: "35 + 12 … 50",
+  expression: "(12 + 5) × 3",
+  sequence: "3, 6, 9, __, 15",
+  fraction: "2/7 + 3/7",
+  measurement: "3 m = __ cm",
+  time: "7:30 + 45 phút",
+  money: "20 000 − 13 000 đồng",
+  geometry: "Chu vi, diện tích",
+};
+
+export const isExtraKind = (k: ProblemKind): k is ExtraKind => k !== "arithmetic" && k !== "word";
+
+/** Tổng số câu các dạng khác trong cấu hình. */
+export const extraCount = (counts?: Partial<Record<ExtraKind, number>>) =>
+  Object.values(counts ?? {}).reduce((s, n) => s + (Number.isFinite(n) ? Math.max(0, Math.floor(n ?? 0)) : 0), 0);
+
+/** Tên dạng (đã bỏ dấu, viết thường) → dạng, dùng khi đọc cột "Loại câu" trong file tải lên. */
+export const KIND_ALIASES: Record<string, ProblemKind> = {
+  arithmetic: "arithmetic", "so hoc": "arithmetic", tinh: "arithmetic",
+  word: "word", "loi van": "word", "co loi van": "word",
+  fill_blank: "fill_blank", "dien so": "fill_blank", "tim x": "fill_blank",
+  comparison: "comparison", "so sanh": "comparison",
+  expression: "expression", "bieu thuc": "expression",
+  sequence: "sequence", "day so": "sequence",
+  fraction: "fraction", "phan so": "fraction",
+  measurement: "measurement", "do luong": "measurement", "doi don vi": "measurement",
+  time: "time", "thoi gian": "time", "xem gio": "time",
+  money: "money", tien: "money",
+  geometry: "geometry", "hinh hoc": "geometry",
+};
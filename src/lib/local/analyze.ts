@@ -0,0 +1,99 @@
+// lib/local/analyze.ts
+// Phân tích đề tại chỗ: các chỉ số của evaluateLocal cộng thêm biểu đồ độ khó, thứ tự độ khó,
+// câu trùng, khoảng đáp án, số câu có nhớ / mượn / dư và thời gian làm bài ước tính.
+
+import { ExamAnalysis, Operation, Problem } from "../types";
+import { evaluateLocal, evaluationNotes, opOf } from "./evaluate";
+import { hasCarry } from "./generator";
+import { findDuplicateGroups } from "../dedupe";
+import { isMcqSlot } from "../mcq";
+
+const BINS = 10;
+
+// Giây cho một câu ở độ khó 0; câu khó nhất tốn gấp đôi. Trắc nghiệm nhanh hơn vì chỉ cần chọn.
+const BASE_SECONDS: Record<Problem["kind"], number> = {
+  arithmetic: 30, word: 90,
+  fill_blank: 40, comparison: 40, expression: 60, sequence: 45, fraction: 60,
+  measurement: 45, time: 60, money: 75, geometry: 75,
+};
+const MCQ_FACTOR = 0.75;
+
+/** Hai toán hạng của phép tính đầu tiên trong đề, ví dụ "35 + 17 = ?" → 35, 17. */
+export function operandsOf(p: Problem): { a: number; b: number; op: Operation } | null {
+  const op = opOf(p);
+  if (!op) return null;
+  const m = p.text.match(/(\d+)\s*([+\-×÷*:x])\s*(\d+)/);
+  if (!m) return null;
+  return { a: Number(m[1]), b: Number(m[3]), op };
+}
+
+export const problemSeconds = (p: Problem) =>
+  BASE_SECONDS[p.kind] * (1 + (p.difficulty ?? 0.5)) * (isMcqSlot(p) ? MCQ_FACTOR : 1);
+
+const toNumber = (s: string) => {
+  const n = Number(s.trim().replace(/\s/g, "").replace(",", "."));
+  return s.trim() !== "" && Number.isFinite(n) ? n : null;
+};
+
+export function analyzeLocal(problems: Problem[]): ExamAnalysis {
+  const base = evaluateLocal(problems);
+
+  const histogram = new Array<number>(BINS).fill(0);
+  const diffs: number[] = [];
+  for (const p of problems) {
+    if (p.difficulty == null) continue;
+    diffs.push(p.difficulty);
+    histogram[Math.min(BINS - 1, Math.floor(p.difficulty * BINS + 1e-9))]++; // 0.3 * 10 = 2.9999…
+  }
+
+  // Thứ tự chỉ xét các câu đã có độ khó, theo đúng thứ tự trên phiếu
+  let up = 0, down = 0, inversions = 0;
+  for (let i = 1; i < diffs.length; i++) {
+    if (diffs[i] >= diffs[i - 1]) up++;
+    if (diffs[i] <= diffs[i - 1]) down++;
+  }
+  for (let i = 0; i < diffs.length; i++) for (let j = i + 1; j < diffs.length; j++) if (diffs[i] > diffs[j]) inversions++;
+  const pairs = Math.max(1, diffs.length - 1);
+
+  const numeric = problems.map((p) => toNumber(p.answer)).filter((n): n is number => n != null);
+  const answers = numeric.length
+    ? {
+        min: Math.min(...numeric),
+        max: Math.max(...numeric),
+        mean: numeric.reduce((a, b) => a + b, 0) / numeric.length,
+        non_numeric: problems.length - numeric.length,
+      }
+    : null;
+
+  const steps = { parsed: 0, carry: 0, borrow: 0, remainder: 0 };
+  for (const p of problems) {
+    const o = operandsOf(p);
+    if (!o) continue;
+    steps.parsed++;
+    if (o.op === "+" && hasCarry(o.a, o.b, "+")) steps.carry++;
+    if (o.op === "-" && hasCarry(o.a, o.b, "-")) steps.borrow++;
+    if (o.op === "÷" && o.b !== 0 && o.a % o.b !== 0) steps.remainder++;
+  }
+
+  const duplicates = findDuplicateGroups(problems).map((g) => g.map((p) => p.id));
+  const notes = evaluationNotes(problems, base);
+  if (duplicates.length) {
+    notes.push({ code: "duplicates", params: { n: duplicates.length }, message: `Có ${duplicates.length} nhóm câu trùng hoặc gần trùng.` });
+  }
+
+  return {
+    ...base,
+    notes: notes.map((n) => n.message),
+    note_codes: notes,
+    histogram,
+    ordering: {
+      ascending: diffs.length > 1 ? up / pairs : 1,
+      descending: diffs.length > 1 ? down / pairs : 1,
+      inversions,
+    },
+    duplicates,
+    answers,
+    steps,
+    estimated_minutes: Math.ceil(problems.reduce((s, p) => s + problemSeconds(p), 0) / 60),
+  };
+}
@@ -0,0 +1,33 @@
+// lib/local/assemble.ts
+// Ráp đề từ ngân hàng tại chỗ, cùng hợp đồng với /api/assemble.
+
+import { AssemblePayload, Problem } from "../types";
+import { isMcqSlot } from "../mcq";
+
+const diff = (p: Problem) => p.difficulty ?? 0.5;
+
+export function orderByMode(items: Problem[], mode: AssemblePayload["mode"]): Problem[] {
+  const asc = [...items].sort((a, b) => diff(a) - diff(b));
+  if (mode === "easy_to_hard") return asc;
+  if (mode === "hard_to_easy") return asc.reverse();
+  // balanced: xen kẽ dễ – khó từ hai đầu
+  const out: Problem[] = [];
+  for (let i = 0, j = asc.length - 1; i <= j; i++, j--) {
+    out.push(asc[i]);
+    if (i !== j) out.push(asc[j]);
+  }
+  return out;
+}
+
+export function assembleLocal({ pool, total_count, mcq_count, word_count, mode }: AssemblePayload): Problem[] {
+  const used = new Set<Problem>();
+  const take = (pred: (p: Problem) => boolean, n: number) => {
+    const picked = pool.filter((p) => !used.has(p) && pred(p)).slice(0, Math.max(0, n));
+    picked.forEach((p) => used.add(p));
+    return picked;
+  };
+  const words = take((p) => p.kind === "word", word_count);
+  const mcqs = take(isMcqSlot, mcq_count);
+  const rest = take(() => true, total_count - words.length - mcqs.length);
+  return orderByMode([...mcqs, ...rest, ...words], mode).map((p, i) => ({ ...p, id: i + 1 }));
+}
@@ -0,0 +1,64 @@
+// lib/local/evaluate.ts
+// Đánh giá đề tại chỗ, cùng dạng Evaluation mà /api/evaluate trả về.
+
+import { Evaluation, EvaluationNote, Operation, Problem } from "../types";
+
+const OPS: Operation[] = ["+", "-", "×", "÷"];
+
+export function bucketOf(d: number): "easy" | "medium" | "hard" {
+  if (d >= 0.67) return "hard";
+  if (d >= 0.34) return "medium";
+  return "easy";
+}
+
+// Các dạng mà "8:15", "3/4", "2 m 5 cm"… trong đề không phải phép tính nên không đoán phép toán từ đề
+const NO_OP_GUESS: Problem["kind"][] = ["fraction", "time", "sequence", "measurement", "money", "geometry"];
+
+/**
+ * Phép toán của câu: lấy từ trường op nếu có, không thì đoán từ đề bài. "/" giữa hai số là dấu phân số,
+ * không phải phép chia; phép chia viết bằng ÷ hoặc ":".
+ */
+export function opOf(p: Problem): Operation | undefined {
+  if (p.op) return p.op;
+  if (NO_OP_GUESS.includes(p.kind)) return undefined;
+  const m = p.text.match(/\d\s*([+\-×÷*:x])\s*\d/);
+  if (!m) return undefined;
+  const sym = m[1];
+  if (sym === "*" || sym === "x") return "×";
+  if (sym === ":") return "÷";
+  return sym as Operation;
+}
+
+export function evaluateLocal(problems: Problem[]): Evaluation {
+  const ev: Evaluation = { avg_difficulty: 0, buckets: {}, by_kind: {}, by_op: {}, notes: [] };
+  let sum = 0, scored = 0;
+  for (const p of problems) {
+    if (p.difficulty != null) {
+      sum += p.difficulty;
+      scored++;
+      const b = bucketOf(p.difficulty);
+      ev.buckets[b] = (ev.buckets[b] ?? 0) + 1;
+    }
+    ev.by_kind[p.kind] = (ev.by_kind[p.kind] ?? 0) + 1;
+    const op = opOf(p);
+    if (op) ev.by_op[op] = (ev.by_op[op] ?? 0) + 1;
+  }
+  ev.avg_difficulty = scored ? sum / scored : 0;
+  ev.notes = evaluationNotes(problems, ev).map((n) => n.message);
+  return ev;
+}
+
+/** Ghi chú về đề: đề trống, không đọc được phép toán, thiếu câu khó / câu dễ. */
+export function evaluationNotes(problems: Problem[], ev: Evaluation): EvaluationNote[] {
+  const notes: EvaluationNote[] = [];
+  if (problems.length === 0) notes.push({ code: "empty", params: {}, message: "Đề trống." });
+  const missing = OPS.filter((op) => !ev.by_op[op]);
+  if (problems.length > 0 && missing.length === OPS.length) {
+    notes.push({ code: "no_ops", params: {}, message: "Không nhận diện được phép toán nào." });
+  }
+  if ((ev.buckets.hard ?? 0) === 0 && problems.length >= 10) notes.push({ code: "no_hard", params: {}, message: "Đề chưa có câu khó." });
+  if ((ev.buckets.easy ?? 0) === 0 && problems.length >= 10) {
+    notes.push({ code: "no_easy", params: {}, message: "Đề chưa có câu dễ để khởi động." });
+  }
+  return notes;
+}
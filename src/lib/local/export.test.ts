@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+
+import type { Problem } from "../types";
+import { renderAnswerKeyTable } from "./export";
+
+const p = (id: number, answer: string, extra: Partial<Problem> = {}): Problem => ({ id, text: `${id}`, answer, kind: "arithmetic", ...extra });
+
+const variants = [
+  { code: "A", problems: [p(1, "7"), p(2, "12", { distractors: ["10"], options: ["10", "12"], correct_option: "B" })] },
+  { code: "B", problems: [p(1, "9")] },
+];
+
+describe("renderAnswerKeyTable", () => {
+  it("mỗi dòng một câu, mỗi cột một mã đề; mã đề ngắn hơn để trống", () => {
+    expect(renderAnswerKeyTable(variants).split("\n")).toEqual(["Câu\tĐề A\tĐề B", "1\t7\t9", "2\tB) 12\t", ""]);
+  });
+
+  it("tiêu đề cột theo ngôn ngữ của đề", () => {
+    expect(renderAnswerKeyTable(variants, { language: "en" }).split("\n")[0]).toBe("Question\tVersion A\tVersion B");
+  });
+});
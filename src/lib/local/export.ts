@@ -0,0 +1,43 @@
+// lib/local/export.ts
+// Xuất phiếu dạng văn bản thuần khi không có backend PDF.
+
+import { ExportOptions, ExportPayload, Problem } from "../types";
+import { OPTION_LETTERS, mcqOptions } from "../mcq";
+import { isBlockMath, mathToText } from "../math";
+import { labelsOf } from "../exporters/model";
+
+export function renderPlainText({ problems, title, header }: ExportPayload, kind: "questions" | "answers"): string {
+  const lines: string[] = [];
+  if (title) lines.push(title);
+  if (header) lines.push(header);
+  if (lines.length) lines.push("");
+  // Đánh số theo thứ tự hiện tại: id giữ nguyên khi sắp xếp lại nên không dùng làm số câu
+  problems.forEach((p, i) => {
+    const mcq = mcqOptions(p);
+    if (kind === "answers") {
+      lines.push(mcq ? `${i + 1}. ${mcq.correct}) ${p.answer}` : `${i + 1}. ${p.answer}`);
+      return;
+    }
+    lines.push(`${i + 1}. ${p.text}`);
+    // Phân số / lũy thừa viết ngang đã có sẵn trong text; chỉ cột dọc và chia cột cần vẽ thêm
+    if (isBlockMath(p.math)) lines.push(...mathToText(p.math).map((l) => ("     " + l).trimEnd()), "");
+    if (mcq) lines.push("   " + mcq.options.map((o, j) => `${OPTION_LETTERS[j]}) ${o}`).join("   "));
+  });
+  return lines.join("\n") + "\n";
+}
+
+/** Bảng đáp án gộp: mỗi dòng một số câu, mỗi cột một mã đề; tiêu đề cột theo ngôn ngữ của đề. */
+export function renderAnswerKeyTable(variants: { code: string; problems: Problem[] }[], layout: ExportOptions = {}): string {
+  const L = labelsOf(layout);
+  const rows = Math.max(0, ...variants.map((v) => v.problems.length));
+  const cell = (p?: Problem) => {
+    if (!p) return "";
+    const mcq = mcqOptions(p);
+    return mcq ? `${mcq.correct}) ${p.answer}` : p.answer;
+  };
+  const lines = [[L.question, ...variants.map((v) => `${L.variant} ${v.code}`)].join("\t")];
+  for (let i = 0; i < rows; i++) {
+    lines.push([String(i + 1), ...variants.map((v) => cell(v.problems[i]))].join("\t"));
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import type { GenerationConfig, Operation, Problem } from "../types";
+import { generateLocal, hasCarry } from "./generator";
+
+const base: GenerationConfig = {
+  grade: 3,
+  operations: ["+", "-", "×", "÷"],
+  count: 20,
+  min_value: 0,
+  max_value: 100,
+  include_word_problems: false,
+  include_distractors: false,
+  seed: 42,
+  language: "vi",
+};
+
+const COMPUTE: Record<Operation, (a: number, b: number) => number> = {
+  "+": (a, b) => a + b,
+  "-": (a, b) => a - b,
+  "×": (a, b) => a * b,
+  "÷": (a, b) => a / b,
+};
+
+// "a op b = ?" → [a, b]
+const operands = (p: Problem) => {
+  const m = p.text.match(/^(\d+) ([+\-×÷]) (\d+) = \?$/);
+  if (!m) throw new Error(`không đọc được đề: ${p.text}`);
+  return [Number(m[1]), Number(m[3])] as const;
+};
+
+describe("generateLocal", () => {
+  it("cùng seed cho cùng đề, khác seed cho đề khác", () => {
+    expect(generateLocal(base)).toEqual(generateLocal(base));
+    expect(generateLocal({ ...base, seed: 43 })).not.toEqual(generateLocal(base));
+  });
+
+  it("đáp án câu tính đúng với phép tính trong đề", () => {
+    for (const p of generateLocal({ ...base, count: 40 })) {
+      const [a, b] = operands(p);
+      expect(Number(p.answer)).toBe(COMPUTE[p.op as Operation](a, b));
+    }
+  });
+
+  it("giữ số hạng và tổng trong khoảng min–max", () => {
+    const cfg = { ...base, operations: ["+", "-"] as Operation[], min_value: 10, max_value: 50, count: 40 };
+    for (const p of generateLocal(cfg)) {
+      const [a, b] = operands(p);
+      expect(Math.max(a, b, Number(p.answer))).toBeLessThanOrEqual(50);
+      if (p.op === "+") expect(Math.min(a, b)).toBeGreaterThanOrEqual(10);
+    }
+  });
+
+  it("đặt câu lời văn ở cuối và trắc nghiệm ở đầu đúng số lượng", () => {
+    const out = generateLocal({ ...base, include_distractors: true, mcq_count: 5, word_count: 4 });
+    expect(out).toHaveLength(20);
+    expect(out.map((p) => p.kind === "word")).toEqual(Array.from({ length: 20 }, (_, i) => i >= 16));
+    expect(out.map((p) => p.distractors != null)).toEqual(Array.from({ length: 20 }, (_, i) => i < 5));
+  });
+
+  it("lựa chọn nhiễu khác nhau và khác đáp án", () => {
+    for (const p of generateLocal({ ...base, include_distractors: true, count: 40 })) {
+      const d = p.distractors ?? [];
+      expect(d).toHaveLength(3);
+      expect(new Set(d).size).toBe(3);
+      expect(d).not.toContain(p.answer);
+    }
+  });
+
+  it("không nhớ / không mượn khi rules.carry = false", () => {
+    const cfg = { ...base, operations: ["+", "-"] as Operation[], rules: { carry: false }, count: 40 };
+    for (const p of generateLocal(cfg)) {
+      const [a, b] = operands(p);
+      expect(hasCarry(a, b, p.op as Operation)).toBe(false);
+    }
+  });
+
+  it("nhân chia theo bảng đã chọn", () => {
+    const cfg = { ...base, operations: ["×", "÷"] as Operation[], rules: { tables: [7] }, count: 20 };
+    for (const p of generateLocal(cfg)) expect(operands(p)[1]).toBe(7);
+  });
+});
@@ -0,0 +1,191 @@
+// lib/local/generator.ts
+// Bộ sinh đề chạy ngay trong trình duyệt, cùng hợp đồng GenerationConfig → Problem[] với backend.
+
+import { GenerationConfig, Operation, Problem } from "../types";
+import { createRng, Rng } from "./random";
+import { scoreSteps } from "../difficulty";
+import { EXTRA_KINDS, isExtraKind } from "../kinds";
+import { inferMath } from "../math";
+import { generateKind } from "./kinds";
+
+type Arith = { a: number; b: number; op: Operation; answer: number; remainder?: number };
+
+export function resolveSeed(seed?: number): number {
+  return Number.isFinite(seed) ? Number(seed) : Math.floor(Math.random() * 2 ** 31);
+}
+
+// Có nhớ (cộng) / có mượn (trừ) ở ít nhất một hàng
+export function hasCarry(a: number, b: number, op: Operation): boolean {
+  let x = a, y = b;
+  while (x > 0 || y > 0) {
+    const dx = x % 10, dy = y % 10;
+    if (op === "+" && dx + dy >= 10) return true;
+    if (op === "-" && dx < dy) return true;
+    x = Math.floor(x / 10);
+    y = Math.floor(y / 10);
+  }
+  return false;
+}
+
+/** Bảng nhân/chia trong bảng cho lớp 2–3, rộng dần ở lớp trên. */
+const factorLimit = (grade: number) => (grade <= 3 ? 10 : grade === 4 ? 99 : 999);
+
+const MAX_TRIES = 50;
+
+export function makeArithmetic(rng: Rng, op: Operation, cfg: GenerationConfig): Arith {
+  const rules = cfg.rules ?? {};
+  // Không nhớ / không mượn: thử lại vài lần, khoảng số quá hẹp thì chấp nhận câu cuối
+  if ((op === "+" || op === "-") && rules.carry === false) {
+    let ar = makeRaw(rng, op, cfg);
+    for (let i = 0; i < MAX_TRIES && hasCarry(ar.a, ar.b, op); i++) ar = makeRaw(rng, op, cfg);
+    return ar;
+  }
+  if ((op === "×" || op === "÷") && rules.tables?.length) {
+    const t = rng.pick(rules.tables);
+    const k = rng.int(1, 10);
+    return op === "×" ? { a: k, b: t, op, answer: k * t } : { a: k * t, b: t, op, answer: k };
+  }
+  const ar = makeRaw(rng, op, cfg);
+  if (op === "÷" && rules.remainder && ar.b > 1 && rng.next() < 0.5) {
+    const r = rng.int(1, ar.b - 1);
+    return { ...ar, a: ar.a + r, remainder: r };
+  }
+  return ar;
+}
+
+function makeRaw(rng: Rng, op: Operation, cfg: GenerationConfig): Arith {
+  const min = Math.max(0, Math.floor(cfg.min_value));
+  const max = Math.max(min + 1, Math.floor(cfg.max_value));
+  switch (op) {
+    case "+": {
+      if (min * 2 > max) {
+        const a = rng.int(min, max), b = rng.int(min, max);
+        return { a, b, op, answer: a + b };
+      }
+      const sum = rng.int(min * 2, max);
+      const a = rng.int(min, sum - min);
+      return { a, b: sum - a, op, answer: sum };
+    }
+    case "-": {
+      const a = rng.int(min, max);
+      const b = rng.int(min, a);
+      return { a, b, op, answer: a - b };
+    }
+    case "×": {
+      const b = rng.int(2, Math.max(2, Math.min(factorLimit(cfg.grade), max)));
+      const aMax = Math.max(2, Math.floor(max / b));
+      const a = rng.int(Math.min(Math.max(min, 1), aMax), aMax);
+      return { a, b, op, answer: a * b };
+    }
+    case "÷": {
+      // Luôn chia hết: a = b × thương
+      const b = rng.int(2, Math.max(2, Math.min(factorLimit(cfg.grade), max)));
+      const qMax = Math.max(1, Math.floor(max / b));
+      const q = rng.int(Math.min(Math.max(Math.ceil(min / b), 1), qMax), qMax);
+      return { a: b * q, b, op, answer: q };
+    }
+  }
+}
+
+export function makeDistractors(rng: Rng, answer: number, count = 3): string[] {
+  const reversed = Number(String(answer).split("").reverse().join(""));
+  const candidates = [answer + 1, answer - 1, answer + 2, answer - 2, answer + 10, answer - 10, reversed];
+  const unique = [...new Set(candidates)].filter((n) => n >= 0 && n !== answer);
+  return rng.shuffle(unique).slice(0, count).map(String);
+}
+
+const NAMES = {
+  vi: ["An", "Bình", "Chi", "Dũng", "Hoa", "Lan", "Minh", "Nam"],
+  en: ["Anna", "Ben", "Chloe", "David", "Emma", "Leo", "Mia", "Sam"],
+};
+const ITEMS = {
+  vi: ["quả táo", "cái kẹo", "quyển vở", "bông hoa", "viên bi"],
+  en: ["apples", "candies", "notebooks", "flowers", "marbles"],
+};
+
+/** Chủ đề bài toán có lời văn: đổi đồ vật trong đề cho gần với bài đang học. */
+export const WORD_THEMES: Record<string, { label: string; vi: string[]; en: string[] }> = {
+  school: { label: "Trường học", vi: ["quyển vở", "cái bút", "thước kẻ", "quyển sách"], en: ["notebooks", "pens", "rulers", "books"] },
+  garden: { label: "Vườn cây", vi: ["quả táo", "bông hoa", "cây cam", "quả bưởi"], en: ["apples", "flowers", "orange trees", "pomelos"] },
+  toys: { label: "Đồ chơi", vi: ["viên bi", "con diều", "quả bóng", "cái kẹo"], en: ["marbles", "kites", "balls", "candies"] },
+  farm: { label: "Trang trại", vi: ["con gà", "con vịt", "quả trứng", "bó rau"], en: ["chickens", "ducks", "eggs", "bunches of greens"] },
+  market: { label: "Đi chợ", vi: ["kg gạo", "quả chuối", "hộp sữa", "gói bánh"], en: ["kg of rice", "bananas", "cartons of milk", "packs of biscuits"] },
+};
+
+export function wordText(rng: Rng, { a, b, op }: Arith, lang: "vi" | "en", theme?: string): string {
+  const [n1, n2] = rng.shuffle(NAMES[lang]);
+  const item = rng.pick(WORD_THEMES[theme ?? ""]?.[lang] ?? ITEMS[lang]);
+  if (lang === "en") {
+    switch (op) {
+      case "+": return `${n1} has ${a} ${item}. ${n2} gives ${n1} ${b} more. How many ${item} does ${n1} have now?`;
+      case "-": return `${n1} has ${a} ${item} and gives ${b} to ${n2}. How many ${item} are left?`;
+      case "×": return `There are ${a} boxes with ${b} ${item} in each. How many ${item} are there in total?`;
+      case "÷": return `${a} ${item} are shared equally among ${b} friends. How many ${item} does each friend get?`;
+    }
+  }
+  switch (op) {
+    case "+": return `${n1} có ${a} ${item}, ${n2} cho ${n1} thêm ${b} ${item}. Hỏi ${n1} có tất cả bao nhiêu ${item}?`;
+    case "-": return `${n1} có ${a} ${item}, ${n1} cho ${n2} ${b} ${item}. Hỏi ${n1} còn lại bao nhiêu ${item}?`;
+    case "×": return `Có ${a} hộp, mỗi hộp có ${b} ${item}. Hỏi có tất cả bao nhiêu ${item}?`;
+    case "÷": return `Có ${a} ${item} chia đều cho ${b} bạn. Hỏi mỗi bạn được bao nhiêu ${item}?`;
+  }
+}
+
+/** Sinh một câu theo loại và phép toán cho trước; dùng chung cho sinh cả đề và sinh lại từng câu. */
+export function generateOne(
+  rng: Rng,
+  cfg: GenerationConfig,
+  id: number,
+  kind: Problem["kind"],
+  op: Operation,
+  withDistractors: boolean,
+): Problem {
+  if (isExtraKind(kind)) return generateKind(rng, cfg, id, kind, op, withDistractors);
+  const word = kind === "word";
+  // Chia có dư chỉ ra ở câu tính; đề lời văn "chia đều" luôn chia hết
+  const ar = makeArithmetic(rng, op, word ? { ...cfg, rules: { ...cfg.rules, remainder: false } } : cfg);
+  const withRemainder = (n: number | string) =>
+    ar.remainder ? `${n} ${cfg.language === "en" ? "R" : "dư"} ${ar.remainder}` : String(n);
+  const column = cfg.layout === "column" && !word;
+  const text = word
+    ? wordText(rng, ar, cfg.language, cfg.theme)
+    : column
+      ? `${cfg.language === "en" ? "Set out and compute" : "Đặt tính rồi tính"}: ${ar.a} ${op} ${ar.b}`
+      : `${ar.a} ${op} ${ar.b} = ?`;
+  return {
+    id,
+    text,
+    answer: withRemainder(ar.answer),
+    distractors: withDistractors ? makeDistractors(rng, ar.answer).map(withRemainder) : undefined,
+    kind,
+    op,
+    difficulty: scoreSteps([{ a: ar.a, b: ar.b, op, result: op === "÷" ? ar.a / ar.b : ar.answer }], { word, grade: cfg.grade }).score,
+    source: "local",
+    math: column ? inferMath(text) : undefined,
+  };
+}
+
+export function generateLocal(cfg: GenerationConfig): Problem[] {
+  const rng = createRng(resolveSeed(cfg.seed));
+  const ops = cfg.operations.length > 0 ? cfg.operations : (["+"] as Operation[]);
+  const count = Math.max(0, Math.floor(cfg.count));
+  const wordCount = Math.min(
+    count,
+    cfg.word_count ?? (cfg.include_word_problems ? Math.round(count * 0.2) : 0),
+  );
+  const mcqCount = cfg.include_distractors ? Math.min(count - wordCount, cfg.mcq_count ?? count - wordCount) : 0;
+
+  // Các dạng khác lấy chỗ của câu tính, xếp ngay trước câu lời văn; quá số chỗ thì cắt bớt
+  const extras: Problem["kind"][] = [];
+  for (const k of EXTRA_KINDS) {
+    for (let n = Math.floor(cfg.kind_counts?.[k] ?? 0); n > 0 && extras.length < count - wordCount; n--) extras.push(k);
+  }
+  const arithCount = count - wordCount - extras.length;
+
+  const out: Problem[] = [];
+  for (let i = 0; i < count; i++) {
+    const kind: Problem["kind"] = i >= count - wordCount ? "word" : i >= arithCount ? extras[i - arithCount] : "arithmetic";
+    out.push(generateOne(rng, cfg, i + 1, kind, ops[i % ops.length], i < mcqCount));
+  }
+  return out;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import type { ExtraKind, GenerationConfig, Problem } from "../types";
+import { answersMatch, parseAnswer } from "../answers";
+import { EXTRA_KINDS } from "../kinds";
+import { generateLocal } from "./generator";
+
+const base: GenerationConfig = {
+  grade: 4,
+  operations: ["+", "-", "×", "÷"],
+  count: 8,
+  min_value: 0,
+  max_value: 100,
+  include_word_problems: false,
+  include_distractors: true,
+  seed: 1,
+  language: "vi",
+};
+
+const ofKind = (kind: ExtraKind, extra: Partial<GenerationConfig> = {}): Problem[] =>
+  [1, 2, 3].flatMap((seed) => generateLocal({ ...base, ...extra, seed, kind_counts: { [kind]: base.count } }));
+
+// Phép tính trong đề (chỉ số, + - × ÷ và ngoặc) → giá trị
+const calc = (expr: string): number => {
+  const js = expr.replace(/×/g, "*").replace(/÷/g, "/");
+  if (!/^[\d\s+\-*/()]+$/.test(js)) throw new Error(`không tính được: ${expr}`);
+  return Function(`return (${js})`)() as number;
+};
+
+// Phần sau dấu ":" đầu tiên của đề: "Điền số …: __ + 15 = 69" → "__ + 15 = 69"
+const body = (p: Problem) => p.text.slice(p.text.indexOf(":") + 1).trim();
+
+describe("generateKind", () => {
+  it.each(EXTRA_KINDS)("%s: đáp án chấm được, nhiễu không trùng giá trị đáp án", (kind) => {
+    for (const language of ["vi", "en"] as const) {
+      for (const p of ofKind(kind, { language })) {
+        expect(p.kind).toBe(kind);
+        expect(parseAnswer(p.answer).type, p.answer).not.toBe("text");
+        expect(answersMatch(p.answer, p.answer), p.answer).toBe(true);
+        const d = p.distractors ?? [];
+        expect(d.some((x) => answersMatch(p.answer, x)), `${p.answer} / ${d}`).toBe(false);
+        expect(d.every((x, i) => d.findIndex((y) => answersMatch(x, y)) === i), `${d}`).toBe(true);
+      }
+    }
+  });
+
+  it("điền số: thay đáp án vào chỗ trống thì đẳng thức đúng", () => {
+    for (const p of ofKind("fill_blank")) {
+      const [left, right] = body(p).replace("__", p.answer).split("=");
+      expect(calc(left), p.text).toBe(Number(right));
+    }
+  });
+
+  it("so sánh và biểu thức: đáp án đúng với phép tính trong đề", () => {
+    for (const p of ofKind("comparison")) {
+      const [left, right] = body(p).split("…");
+      const diff = calc(left) - Number(right);
+      expect(p.answer, p.text).toBe(diff > 0 ? ">" : diff < 0 ? "<" : "=");
+    }
+    for (const p of ofKind("expression")) expect(answersMatch(p.answer, String(calc(body(p)))), p.text).toBe(true);
+  });
+
+  it("dãy số: điền đáp án vào thì dãy cách đều hoặc gấp đều", () => {
+    for (const p of ofKind("sequence")) {
+      const xs = body(p).replace("__", p.answer).split(",").map(Number);
+      const steps = xs.slice(1).map((x, i) => x - xs[i]);
+      const ratios = xs.slice(1).map((x, i) => x / xs[i]);
+      expect(new Set(steps).size === 1 || new Set(ratios).size === 1, p.text).toBe(true);
+    }
+  });
+
+  it("học sinh viết cách khác vẫn được chấm đúng", () => {
+    const money = ofKind("money")[0];
+    expect(answersMatch(money.answer, money.answer.replace(/\D/g, ""))).toBe(true);
+    for (const p of ofKind("fraction").filter((x) => /^\d+\/\d+$/.test(x.answer))) {
+      const [n, d] = p.answer.split("/").map(Number);
+      expect(answersMatch(p.answer, `${n * 2}/${d * 2}`), p.answer).toBe(false);
+      expect(answersMatch(p.answer, String(n / d)), p.answer).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,456 @@
+// lib/local/kinds.ts
+// Sinh các dạng câu ngoài phép tính và lời văn: điền số, so sánh, biểu thức, dãy số, phân số,
+// đo lường, thời gian, tiền, hình học. Đáp án viết theo dạng lib/answers.ts đọc được.
+
+import { ExtraKind, GenerationConfig, Operation, Problem } from "../types";
+import { Rng } from "./random";
+import { makeArithmetic, makeDistractors } from "./generator";
+import { parseSteps, scoreSteps, Step } from "../difficulty";
+import { answersMatch } from "../answers";
+import { inferMath } from "../math";
+
+type Lang = GenerationConfig["language"];
+
+type Draft = {
+  text: string;
+  answer: string;
+  distractors: string[];
+  op: Operation;
+  steps: Step[];
+  parentheses?: boolean;
+  mixedOrder?: boolean;
+};
+
+const MAX_TRIES = 50;
+
+const tr = (lang: Lang, vi: string, en: string) => (lang === "en" ? en : vi);
+const fmt = (n: number, lang: Lang) => n.toLocaleString(lang === "en" ? "en-US" : "vi-VN");
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+// Các dạng có đáp án là số nguyên không chấp nhận chia có dư
+const exact = (cfg: GenerationConfig): GenerationConfig => ({ ...cfg, rules: { ...cfg.rules, remainder: false } });
+
+function fillBlank(rng: Rng, cfg: GenerationConfig, op: Operation): Draft {
+  const ar = makeArithmetic(rng, op, exact(cfg));
+  const left = rng.next() < 0.5;
+  const hidden = left ? ar.a : ar.b;
+  const eq = left ? `__ ${op} ${ar.b} = ${ar.answer}` : `${ar.a} ${op} __ = ${ar.answer}`;
+  return {
+    text: `${tr(cfg.language, "Điền số thích hợp vào chỗ trống", "Fill in the blank")}: ${eq}`,
+    answer: String(hidden),
+    distractors: makeDistractors(rng, hidden),
+    op,
+    steps: [{ a: ar.a, b: ar.b, op, result: ar.answer }],
+  };
+}
+
+function comparison(rng: Rng, cfg: GenerationConfig, op: Operation): Draft {
+  const ar = makeArithmetic(rng, op, exact(cfg));
+  // Vế phải gần kết quả để HS phải tính chứ không ước lượng được
+  const spread = Math.max(1, Math.round(ar.answer * 0.1));
+  const right = Math.max(0, ar.answer + rng.pick([-1, 0, 1]) * rng.int(1, spread));
+  const answer = ar.answer > right ? ">" : ar.answer < right ? "<" : "=";
+  return {
+    text: `${tr(cfg.language, "So sánh", "Compare")} (>, <, =): ${ar.a} ${op} ${ar.b} … ${right}`,
+    answer,
+    distractors: ["<", ">", "="].filter((s) => s !== answer),
+    op,
+    steps: [{ a: ar.a, b: ar.b, op, result: ar.answer }],
+  };
+}
+
+function expression(rng: Rng, cfg: GenerationConfig, op: Operation): Draft {
+  const ops = cfg.operations.length ? cfg.operations : (["+"] as Operation[]);
+  const min = Math.max(1, Math.floor(cfg.min_value));
+  const max = Math.max(min + 1, Math.floor(cfg.max_value));
+  let fallback = "";
+  for (let i = 0; i < MAX_TRIES; i++) {
+    const x = makeArithmetic(rng, op, exact(cfg));
+    const op2 = rng.pick(ops);
+    const c = op2 === "×" || op2 === "÷" ? rng.int(2, 9) : rng.int(min, max);
+    const inner = `${x.a} ${op} ${x.b}`;
+    const expr = rng.pick([`(${inner}) ${op2} ${c}`, `${inner} ${op2} ${c}`, `${c} ${op2} (${inner})`]);
+    fallback ||= `${x.a} + ${x.b} + ${c}`;
+    const parsed = parseSteps(expr);
+    if (!parsed || parsed.steps.some((s) => !Number.isInteger(s.result) || s.result < 0)) continue;
+    const answer = parsed.steps[parsed.steps.length - 1].result;
+    return {
+      text: `${tr(cfg.language, "Tính giá trị biểu thức", "Evaluate")}: ${expr}`,
+      answer: String(answer),
+      distractors: makeDistractors(rng, answer),
+      op,
+      ...parsed,
+    };
+  }
+  const parsed = parseSteps(fallback)!;
+  const answer = parsed.steps[parsed.steps.length - 1].result;
+  return {
+    text: `${tr(cfg.language, "Tính giá trị biểu thức", "Evaluate")}: ${fallback}`,
+    answer: String(answer),
+    distractors: makeDistractors(rng, answer),
+    op: "+",
+    ...parsed,
+  };
+}
+
+function sequence(rng: Rng, cfg: GenerationConfig): Draft {
+  const len = 5;
+  const geometric = cfg.grade >= 4 && rng.next() < 0.3;
+  const descending = !geometric && cfg.grade >= 2 && rng.next() < 0.3;
+  const d = geometric ? rng.pick([2, 3]) : rng.int(cfg.grade <= 1 ? 1 : 2, cfg.grade <= 1 ? 5 : cfg.grade === 2 ? 10 : 25);
+  const span = geometric ? 0 : d * (len - 1);
+  const lo = Math.max(geometric ? 1 : 0, Math.floor(cfg.min_value));
+  const hi = Math.max(lo, geometric ? Math.min(20, Math.floor(cfg.max_value / d ** (len - 1)) || 1) : Math.floor(cfg.max_value) - span);
+  const start = rng.int(lo, hi);
+  const terms = Array.from({ length: len }, (_, i) =>
+    geometric ? start * d ** i : descending ? start + span - d * i : start + d * i,
+  );
+  const missing = rng.int(1, len - 1);
+  const op: Operation = geometric ? "×" : descending ? "-" : "+";
+  const shown = terms.map((t, i) => (i === missing ? "__" : String(t))).join(", ");
+  return {
+    text: `${tr(cfg.language, "Điền số còn thiếu vào dãy số", "Find the missing number")}: ${shown}`,
+    answer: String(terms[missing]),
+    distractors: makeDistractors(rng, terms[missing]),
+    op,
+    steps: [{ a: terms[missing - 1], b: d, op, result: terms[missing] }],
+  };
+}
+
+const fraction = (n: number, d: number) => {
+  const g = gcd(n, d) || 1;
+  return d / g === 1 ? String(n / g) : `${n / g}/${d / g}`;
+};
+
+function fractionProblem(rng: Rng, cfg: GenerationConfig, op: Operation): Draft {
+  const lang = cfg.language;
+  const kind = rng.pick(cfg.grade >= 5 ? ["same", "unlike", "simplify"] : ["same", "simplify"]);
+  if (kind === "simplify") {
+    const b = rng.int(2, 9);
+    const a = rng.int(1, b - 1);
+    const k = rng.int(2, 6);
+    const g = gcd(a, b);
+    return {
+      text: `${tr(lang, "Rút gọn phân số", "Simplify")}: ${a * k}/${b * k}`,
+      answer: fraction(a, b),
+      // Chỉ chia tử hoặc chỉ chia mẫu; đảo ngược phân số
+      distractors: [`${a * k}/${b}`, `${a}/${b * k}`, `${b / g}/${a / g}`],
+      op: "÷",
+      steps: [{ a: a * k, b: k * g, op: "÷", result: a / g }],
+    };
+  }
+  const sign: Operation = op === "-" ? "-" : "+";
+  const d1 = rng.int(2, kind === "same" ? 12 : 6);
+  const d2 = kind === "same" ? d1 : d1 * rng.int(2, 3);
+  let n1 = rng.int(1, d1 - 1) * (d2 / d1);
+  let n2 = rng.int(1, d2 - 1);
+  if (sign === "-" && n1 < n2) [n1, n2] = [n2, n1];
+  // Đề viết phân số thứ nhất theo mẫu gốc d1 (nếu n1 đổi chỗ thì có thể không chia hết, giữ mẫu chung)
+  const left = n1 % (d2 / d1) === 0 ? `${n1 / (d2 / d1)}/${d1}` : `${n1}/${d2}`;
+  const n = sign === "+" ? n1 + n2 : n1 - n2;
+  const answer = fraction(n, d2);
+  const leftN = Number(left.split("/")[0]), leftD = Number(left.split("/")[1]);
+  return {
+    text: `${tr(lang, "Tính", "Compute")}: ${left} ${sign} ${n2}/${d2}`,
+    answer,
+    // Lỗi hay gặp: cộng cả tử lẫn mẫu; quên rút gọn; lệch tử số một đơn vị
+    distractors: [
+      `${sign === "+" ? leftN + n2 : Math.abs(leftN - n2)}/${sign === "+" ? leftD + d2 : Math.abs(leftD - d2) || d2}`,
+      `${n + 1}/${d2}`,
+      `${Math.max(1, n - 1)}/${d2}`,
+    ],
+    op: sign,
+    steps: [
+      ...(leftD !== d2 ? [{ a: leftN, b: d2 / leftD, op: "×" as Operation, result: n1 }] : []),
+      { a: n1, b: n2, op: sign, result: n },
+    ],
+  };
+}
+
+type Unit = { vi: string; en?: string; factor: number; grade: number };
+
+// Hệ số quy về đơn vị nhỏ nhất của mỗi nhóm; grade = lớp bắt đầu học đơn vị đó
+const UNITS: Unit[][] = [
+  [
+    { vi: "km", en: "km", factor: 1_000_000, grade: 3 },
+    { vi: "m", en: "m", factor: 1000, grade: 2 },
+    { vi: "dm", en: "dm", factor: 100, grade: 2 },
+    { vi: "cm", en: "cm", factor: 10, grade: 2 },
+    { vi: "mm", en: "mm", factor: 1, grade: 3 },
+  ],
+  [
+    { vi: "tấn", en: "t", factor: 1_000_000, grade: 4 },
+    { vi: "tạ", factor: 100_000, grade: 4 },
+    { vi: "yến", factor: 10_000, grade: 4 },
+    { vi: "kg", en: "kg", factor: 1000, grade: 2 },
+    { vi: "g", en: "g", factor: 1, grade: 3 },
+  ],
+  [
+    { vi: "l", en: "l", factor: 1000, grade: 2 },
+    { vi: "ml", en: "ml", factor: 1, grade: 3 },
+  ],
+];
+
+function measurement(rng: Rng, cfg: GenerationConfig): Draft {
+  const lang = cfg.language;
+  const maxRatio = cfg.grade <= 2 ? 100 : 1000;
+  const pairs = UNITS.flatMap((group) => {
+    const units = group.filter((u) => u.grade <= cfg.grade && (lang === "vi" || u.en));
+    return units.flatMap((big, i) => units.slice(i + 1).map((small) => [big, small] as const));
+  }).filter(([big, small]) => big.factor / small.factor <= maxRatio);
+  const [big, small] = rng.pick(pairs.length ? pairs : [[UNITS[0][1], UNITS[0][3]] as const]);
+  const name = (u: Unit) => (lang === "en" ? (u.en ?? u.vi) : u.vi);
+  const ratio = big.factor / small.factor;
+  const v = rng.int(1, cfg.grade <= 2 ? 9 : 20);
+  const down = rng.next() < 0.6;
+  const result = down ? v * ratio : v;
+  const unit = name(down ? small : big);
+  const prompt = tr(lang, "Viết số thích hợp vào chỗ trống", "Fill in the blank");
+  const text = down
+    ? `${prompt}: ${v} ${name(big)} = __ ${name(small)}`
+    : `${prompt}: ${v * ratio} ${name(small)} = __ ${name(big)}`;
+  // Nhầm hệ số đổi: gấp / giảm thêm 10 lần
+  const wrong = down ? [result * 10, result / 10, result + ratio] : [v * 10, v * ratio, v + 1];
+  return {
+    text,
+    answer: `${result} ${unit}`,
+    distractors: [...new Set(wrong.filter((n) => Number.isInteger(n) && n > 0 && n !== result))].map((n) => `${n} ${unit}`),
+    op: down ? "×" : "÷",
+    steps: [{ a: v, b: ratio, op: "×", result: v * ratio }],
+  };
+}
+
+const clock = (minutes: number) => {
+  const m = ((minutes % (24 * 60)) + 24 * 60) % (24 * 60);
+  return `${Math.floor(m / 60)}:${String(m % 60).padStart(2, "0")}`;
+};
+
+function timeProblem(rng: Rng, cfg: GenerationConfig): Draft {
+  const lang = cfg.language;
+  const kind = rng.pick(cfg.grade <= 2 ? ["clock", "duration"] : cfg.grade === 3 ? ["duration", "convert"] : ["duration", "convert", "convert"]);
+  if (kind === "clock") {
+    const h = rng.int(1, 12);
+    const m = cfg.grade <= 1 ? 0 : rng.pick([0, 15, 30, 45]);
+    const hand = m === 0 ? 12 : m / 5;
+    const hour = m === 0
+      ? tr(lang, `kim giờ chỉ số ${h}`, `the hour hand points to ${h}`)
+      : tr(lang, `kim giờ chỉ giữa số ${h} và số ${(h % 12) + 1}`, `the hour hand is between ${h} and ${(h % 12) + 1}`);
+    const answer = clock(h * 60 + m);
+    return {
+      text: tr(lang, `Kim phút chỉ số ${hand}, ${hour}. Đồng hồ chỉ mấy giờ?`, `The minute hand points to ${hand} and ${hour}. What time is it?`),
+      answer,
+      distractors: [clock(h * 60 + hand), clock(((h % 12) + 1) * 60 + m), clock(hand * 60 + h * 5)].filter((s) => s !== answer),
+      op: "+",
+      steps: [{ a: h * 60, b: m, op: "+", result: h * 60 + m }],
+    };
+  }
+  if (kind === "convert") {
+    const conv = rng.pick(
+      cfg.grade >= 4
+        ? [["giờ", "phút", "hours", "minutes", 60], ["phút", "giây", "minutes", "seconds", 60], ["ngày", "giờ", "days", "hours", 24]] as const
+        : [["giờ", "phút", "hours", "minutes", 60], ["phút", "giây", "minutes", "seconds", 60]] as const,
+    );
+    const [bigVi, smallVi, bigEn, smallEn, ratio] = conv;
+    const v = rng.int(2, 9);
+    const small = tr(lang, smallVi, smallEn);
+    return {
+      text: `${tr(lang, "Viết số thích hợp vào chỗ trống", "Fill in the blank")}: ${v} ${tr(lang, bigVi, bigEn)} = __ ${small}`,
+      answer: `${v * ratio} ${small}`,
+      distractors: [v * 100, v * ratio + ratio, v * 10].filter((n) => n !== v * ratio).map((n) => `${n} ${small}`),
+      op: "×",
+      steps: [{ a: v, b: ratio, op: "×", result: v * ratio }],
+    };
+  }
+  const start = rng.int(6, 16) * 60 + rng.int(0, 11) * 5;
+  const dur = rng.int(2, 18) * 5;
+  const end = start + dur;
+  const [name] = rng.shuffle(lang === "en" ? ["Anna", "Ben", "Mia", "Sam"] : ["An", "Lan", "Minh", "Hoa"]);
+  const answer = clock(end);
+  return {
+    text: tr(
+      lang,
+      `${name} bắt đầu làm bài lúc ${clock(start)} và làm trong ${dur} phút. Hỏi ${name} làm xong lúc mấy giờ?`,
+      `${name} starts homework at ${clock(start)} and works for ${dur} minutes. What time does ${name} finish?`,
+    ),
+    answer,
+    // Quên nhớ sang giờ: 7:50 + 20 phút → 7:70 viết thành 7:10
+    distractors: [clock(end - 60), clock(end + 10), clock(start + dur + 60)].filter((s) => s !== answer),
+    op: "+",
+    steps: [{ a: start % 60, b: dur, op: "+", result: (start % 60) + dur }],
+  };
+}
+
+const GOODS = {
+  vi: ["quyển vở", "cái bút", "hộp sữa", "gói bánh", "quả bóng", "cái thước"],
+  en: ["notebook", "pen", "carton of milk", "pack of biscuits", "ball", "ruler"],
+};
+
+function money(rng: Rng, cfg: GenerationConfig, op: Operation): Draft {
+  const lang = cfg.language;
+  const cur = tr(lang, "đồng", "dong");
+  const vnd = (n: number) => `${fmt(n, lang)} ${cur}`;
+  // Lớp 2 làm tròn nghìn, đến 20 000 đồng; từ lớp 3 lẻ 500 đồng
+  const [step, top] = cfg.grade <= 2 ? [1000, 20] : cfg.grade === 3 ? [500, 200] : [500, 400];
+  const price = () => rng.int(1, top) * step;
+  const [g1, g2] = rng.shuffle(GOODS[lang]);
+  const kind = op === "-" ? "change" : op === "×" && cfg.grade >= 3 ? "many" : "total";
+  let text: string, answer: number, steps: Step[], wrong: number[];
+  if (kind === "change") {
+    const p = price();
+    const note = [10_000, 20_000, 50_000, 100_000, 200_000, 500_000].find((n) => n > p) ?? 500_000;
+    answer = note - p;
+    text = tr(
+      lang,
+      `Mẹ đưa ${vnd(note)} để mua một ${g1} giá ${vnd(p)}. Hỏi người bán trả lại bao nhiêu tiền?`,
+      `Mum pays ${vnd(note)} for a ${g1} that costs ${vnd(p)}. How much change does she get?`,
+    );
+    steps = [{ a: note, b: p, op: "-", result: answer }];
+    wrong = [note + p, answer + 1000, answer - 1000];
+  } else if (kind === "many") {
+    const p = price();
+    const k = rng.int(2, 9);
+    answer = p * k;
+    text = tr(lang, `Mỗi ${g1} giá ${vnd(p)}. Hỏi mua ${k} ${g1} hết bao nhiêu tiền?`, `One ${g1} costs ${vnd(p)}. How much do ${k} of them cost?`);
+    steps = [{ a: p, b: k, op: "×", result: answer }];
+    wrong = [p + k, answer + p, answer - p];
+  } else {
+    const p1 = price(), p2 = price();
+    answer = p1 + p2;
+    text = tr(
+      lang,
+      `Một ${g1} giá ${vnd(p1)}, một ${g2} giá ${vnd(p2)}. Hỏi mua cả hai hết bao nhiêu tiền?`,
+      `A ${g1} costs ${vnd(p1)} and a ${g2} costs ${vnd(p2)}. How much do both cost?`,
+    );
+    steps = [{ a: p1, b: p2, op: "+", result: answer }];
+    wrong = [Math.abs(p1 - p2), answer + 1000, answer - 1000];
+  }
+  return {
+    text,
+    answer: vnd(answer),
+    distractors: [...new Set(wrong.filter((n) => n > 0 && n !== answer))].map(vnd),
+    op: kind === "change" ? "-" : kind === "many" ? "×" : "+",
+    steps,
+  };
+}
+
+function geometry(rng: Rng, cfg: GenerationConfig): Draft {
+  const lang = cfg.language;
+  const unit = cfg.grade >= 4 && rng.next() < 0.4 ? "m" : "cm";
+  const area = `${unit}²`;
+  const kinds = cfg.grade <= 2
+    ? ["triangle", "quad"]
+    : ["rect_perimeter", "square_perimeter", "rect_area", "square_area", ...(cfg.grade >= 5 ? ["triangle_area"] : [])];
+  const kind = rng.pick(kinds);
+  const side = () => rng.int(2, cfg.grade <= 2 ? 20 : 30);
+  const pick = (vi: string, en: string) => tr(lang, vi, en);
+  switch (kind) {
+    case "triangle":
+    case "quad": {
+      const sides = Array.from({ length: kind === "triangle" ? 3 : 4 }, side);
+      const steps: Step[] = [];
+      const p = sides.reduce((sum, x) => {
+        steps.push({ a: sum, b: x, op: "+", result: sum + x });
+        return sum + x;
+      });
+      const list = sides.map((s) => `${s} ${unit}`).join(", ");
+      return {
+        text: kind === "triangle"
+          ? pick(`Tính chu vi hình tam giác có độ dài các cạnh là ${list}.`, `Find the perimeter of a triangle with sides ${list}.`)
+          : pick(`Tính chu vi hình tứ giác có độ dài các cạnh là ${list}.`, `Find the perimeter of a quadrilateral with sides ${list}.`),
+        answer: `${p} ${unit}`,
+        distractors: [p + sides[0], p - sides[sides.length - 1], p + 10].map((n) => `${n} ${unit}`),
+        op: "+",
+        steps,
+      };
+    }
+    case "square_perimeter":
+    case "square_area": {
+      const a = side();
+      const perimeter = kind === "square_perimeter";
+      const res = perimeter ? a * 4 : a * a;
+      return {
+        text: perimeter
+          ? pick(`Tính chu vi hình vuông có cạnh ${a} ${unit}.`, `Find the perimeter of a square with side ${a} ${unit}.`)
+          : pick(`Tính diện tích hình vuông có cạnh ${a} ${unit}.`, `Find the area of a square with side ${a} ${unit}.`),
+        answer: `${res} ${perimeter ? unit : area}`,
+        // Nhầm chu vi với diện tích
+        distractors: perimeter
+          ? [`${a * a} ${unit}`, `${a * 2} ${unit}`, `${a * 4 + 4} ${unit}`]
+          : [`${a * 4} ${area}`, `${a * 2} ${area}`, `${a * a + a} ${area}`],
+        op: "×",
+        steps: [{ a, b: perimeter ? 4 : a, op: "×", result: res }],
+      };
+    }
+    case "triangle_area": {
+      const b = side() * 2, h = side();
+      const res = (b * h) / 2;
+      return {
+        text: pick(`Tính diện tích hình tam giác có độ dài đáy ${b} ${unit} và chiều cao ${h} ${unit}.`, `Find the area of a triangle with base ${b} ${unit} and height ${h} ${unit}.`),
+        answer: `${res} ${area}`,
+        distractors: [`${b * h} ${area}`, `${b + h} ${area}`, `${res + h} ${area}`],
+        op: "×",
+        steps: [{ a: b, b: h, op: "×", result: b * h }, { a: b * h, b: 2, op: "÷", result: res }],
+      };
+    }
+    default: {
+      let a = side(), b = side();
+      if (a === b) a += 1;
+      if (a < b) [a, b] = [b, a];
+      const perimeter = kind === "rect_perimeter";
+      const res = perimeter ? (a + b) * 2 : a * b;
+      return {
+        text: perimeter
+          ? pick(`Tính chu vi hình chữ nhật có chiều dài ${a} ${unit}, chiều rộng ${b} ${unit}.`, `Find the perimeter of a rectangle ${a} ${unit} long and ${b} ${unit} wide.`)
+          : pick(`Tính diện tích hình chữ nhật có chiều dài ${a} ${unit}, chiều rộng ${b} ${unit}.`, `Find the area of a rectangle ${a} ${unit} long and ${b} ${unit} wide.`),
+        answer: `${res} ${perimeter ? unit : area}`,
+        // Quên nhân 2; nhầm chu vi với diện tích
+        distractors: perimeter
+          ? [`${a + b} ${unit}`, `${a * b} ${unit}`, `${a * 2 + b} ${unit}`]
+          : [`${(a + b) * 2} ${area}`, `${a + b} ${area}`, `${a * b + a} ${area}`],
+        op: perimeter ? "+" : "×",
+        steps: perimeter
+          ? [{ a, b, op: "+", result: a + b }, { a: a + b, b: 2, op: "×", result: res }]
+          : [{ a, b, op: "×", result: res }],
+      };
+    }
+  }
+}
+
+const DRAFTS: Record<ExtraKind, (rng: Rng, cfg: GenerationConfig, op: Operation) => Draft> = {
+  fill_blank: fillBlank,
+  comparison,
+  expression,
+  sequence: (rng, cfg) => sequence(rng, cfg),
+  fraction: fractionProblem,
+  measurement: (rng, cfg) => measurement(rng, cfg),
+  time: (rng, cfg) => timeProblem(rng, cfg),
+  money,
+  geometry: (rng, cfg) => geometry(rng, cfg),
+};
+
+/** Sinh một câu thuộc dạng mở rộng; op là phép gợi ý (dạng không dùng phép tính thì bỏ qua). */
+export function generateKind(
+  rng: Rng,
+  cfg: GenerationConfig,
+  id: number,
+  kind: ExtraKind,
+  op: Operation,
+  withDistractors: boolean,
+): Problem {
+  const d = DRAFTS[kind](rng, cfg, op);
+  // Nhiễu không được trùng giá trị với đáp án, kể cả khi viết khác (6/8 và 3/4)
+  const distractors = d.distractors.filter(
+    (x, i) => !answersMatch(d.answer, x) && d.distractors.findIndex((y) => answersMatch(x, y)) === i,
+  );
+  return {
+    id,
+    text: d.text,
+    answer: d.answer,
+    distractors: withDistractors && distractors.length ? distractors.slice(0, 3) : undefined,
+    kind,
+    op: d.op,
+    difficulty: scoreSteps(d.steps, { grade: cfg.grade, parentheses: d.parentheses, mixedOrder: d.mixedOrder, kind }).score,
+    source: "local",
+    math: inferMath(d.text),
+  };
+}
@@ -0,0 +1,366 @@
+// lib/local/pdf.ts
+// Dựng file PDF ngay trong trình duyệt từ đúng danh sách câu đang xem trước, dùng font Roboto đi kèm
+// (public/fonts) nên in đủ dấu tiếng Việt, không cần mạng và cùng đầu vào luôn cho cùng một file.
+
+import { PDFDocument, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+
+import { ExportContent, ExportPayload, MathNode, PaperSize } from "../types";
+import { AppError } from "../errors";
+import { OPTION_LETTERS } from "../mcq";
+import { columnResult, divisionResult, isBlockMath } from "../math";
+import { answerLabel, itemsOf, keyText, keyTitle, labelsOf, planOf, studentFields, type Item, type Labels } from "../exporters/model";
+
+export const FONT_URL = "/fonts/Roboto-VariableFont_wdth,wght.ttf";
+
+// Khổ giấy theo point (1/72 inch)
+export const PAPER: Record<PaperSize, [number, number]> = { a4: [595.28, 841.89], letter: [612, 792] };
+
+const MARGIN = 42;
+const GUTTER = 18;
+const SIZE = 11;
+const LINE = SIZE * 1.45;
+const FOOTER = 24;
+
+export const INK = rgb(0.1, 0.12, 0.16);
+export const MUTED = rgb(0.45, 0.48, 0.53);
+export const ANSWER = rgb(0.02, 0.45, 0.3);
+
+let fontBytes: Promise<ArrayBuffer> | null = null;
+
+/** Tải font một lần cho cả phiên; lỗi thì cho tải lại ở lần xuất sau. */
+export function loadFont(): Promise<ArrayBuffer> {
+  fontBytes ??= fetch(encodeURI(FONT_URL)).then((res) => {
+    if (!res.ok) {
+      throw new AppError("font_load", `Không tải được font ${FONT_URL} (${res.status})`, { url: FONT_URL, status: res.status });
+    }
+    return res.arrayBuffer();
+  });
+  fontBytes.catch(() => (fontBytes = null));
+  return fontBytes;
+}
+
+/** Một khối không tách được (một câu, một ô đáp án); draw nhận góc trên bên trái. */
+type Block = { height: number; draw: (page: PDFPage, x: number, top: number) => void };
+
+type Ctx = { font: PDFFont; width: number };
+
+const textWidth = (font: PDFFont, s: string, size = SIZE) => font.widthOfTextAtSize(s, size);
+
+/** Ngắt dòng theo khoảng trắng; từ dài hơn cả dòng thì cắt theo ký tự. */
+export function wrapText(font: PDFFont, text: string, width: number, size = SIZE): string[] {
+  const lines: string[] = [];
+  for (const para of text.split("\n")) {
+    let line = "";
+    for (const word of para.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (textWidth(font, next, size) <= width) {
+        line = next;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(font, line, size) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(font, line.slice(0, cut), size) > width) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const drawLines = (page: PDFPage, font: PDFFont, lines: string[], x: number, top: number, size = SIZE, color = INK) =>
+  lines.forEach((l, i) => page.drawText(l, { x, y: top - size - i * size * 1.45, size, font, color }));
+
+const dotted = (page: PDFPage, x1: number, x2: number, y: number) =>
+  page.drawLine({ start: { x: x1, y }, end: { x: x2, y }, thickness: 0.6, color: MUTED, dashArray: [1, 2.5] });
+
+/** Đặt tính cột dọc / chia cột, vẽ như components/MathView.tsx. */
+function mathBlock({ font }: Ctx, m: Extract<MathNode, { type: "column" | "long_division" }>, withAnswer: boolean): Block {
+  if (m.type === "column") {
+    const result = columnResult(m);
+    const numW = Math.max(...[...m.operands, result].map((x) => textWidth(font, String(x))));
+    const opW = textWidth(font, "×") + 6;
+    const rows = m.operands.length + 1;
+    return {
+      height: rows * LINE + 6,
+      draw: (page, x, top) => {
+        const right = x + opW + numW;
+        m.operands.forEach((v, i) => {
+          const y = top - SIZE - i * LINE;
+          if (i === m.operands.length - 1) page.drawText(m.op, { x, y, size: SIZE, font, color: INK });
+          page.drawText(String(v), { x: right - textWidth(font, String(v)), y, size: SIZE, font, color: INK });
+        });
+        const ruleY = top - m.operands.length * LINE - 1;
+        page.drawLine({ start: { x, y: ruleY }, end: { x: right, y: ruleY }, thickness: 1, color: INK });
+        if (withAnswer) {
+          const s = String(result);
+          page.drawText(s, { x: right - textWidth(font, s), y: ruleY - SIZE - 3, size: SIZE, font, color: ANSWER });
+        }
+      },
+    };
+  }
+  const { quotient, remainder } = divisionResult(m);
+  const left = textWidth(font, String(m.dividend)) + 8;
+  const right = Math.max(textWidth(font, String(m.divisor)), textWidth(font, String(quotient))) + 16;
+  return {
+    height: 2 * LINE + 8,
+    draw: (page, x, top) => {
+      const mid = x + left;
+      page.drawText(String(m.dividend), { x, y: top - SIZE, size: SIZE, font, color: INK });
+      page.drawText(String(m.divisor), { x: mid + 6, y: top - SIZE, size: SIZE, font, color: INK });
+      page.drawLine({ start: { x: mid, y: top + 2 }, end: { x: mid, y: top - 2 * LINE - 4 }, thickness: 1, color: INK });
+      page.drawLine({ start: { x: mid, y: top - LINE + 2 }, end: { x: mid + right, y: top - LINE + 2 }, thickness: 1, color: INK });
+      if (withAnswer) {
+        page.drawText(String(quotient), { x: mid + 6, y: top - LINE - SIZE, size: SIZE, font, color: ANSWER });
+        const r = String(remainder);
+        page.drawText(r, { x: mid - 8 - textWidth(font, r), y: top - LINE - SIZE, size: SIZE, font, color: ANSWER });
+      }
+    },
+  };
+}
+
+/** Phương án trắc nghiệm xếp 4, 2 hoặc 1 cột tùy độ dài; kiểu "bubbles" vẽ vòng tròn để tô. */
+function optionsBlock({ font, width }: Ctx, options: string[], correct: string | null, bubbles: boolean): Block {
+  const indent = bubbles ? 20 : 0;
+  const labels = options.map((o, j) => (bubbles ? o : `${OPTION_LETTERS[j]}. ${o}`));
+  const widest = Math.max(...labels.map((l) => textWidth(font, l))) + indent + 12;
+  const perRow = [4, 2, 1].find((n) => widest <= width / n) ?? 1;
+  const cell = width / perRow;
+  const cellLines = labels.map((l) => wrapText(font, l, cell - indent - 6));
+  const rows: number[] = [];
+  for (let i = 0; i < labels.length; i += perRow) {
+    rows.push(Math.max(...cellLines.slice(i, i + perRow).map((ls) => ls.length)) * LINE + 2);
+  }
+  return {
+    height: rows.reduce((s, h) => s + h, 0),
+    draw: (page, x, top) => {
+      let y = top;
+      labels.forEach((_, j) => {
+        const col = j % perRow;
+        const cx = x + col * cell;
+        const letter = OPTION_LETTERS[j];
+        const hit = correct === letter;
+        if (bubbles) {
+          page.drawCircle({
+            x: cx + 7, y: y - SIZE / 2 - 1.5, size: 6.5,
+            borderColor: hit ? ANSWER : INK, borderWidth: 0.8, color: hit ? ANSWER : undefined,
+          });
+          const lw = textWidth(font, letter, 7.5);
+          page.drawText(letter, { x: cx + 7 - lw / 2, y: y - SIZE / 2 - 4, size: 7.5, font, color: hit ? rgb(1, 1, 1) : INK });
+        }
+        drawLines(page, font, cellLines[j], cx + indent, y, SIZE, hit ? ANSWER : INK);
+        if (col === perRow - 1 || j === labels.length - 1) y -= rows[Math.floor(j / perRow)];
+      });
+    },
+  };
+}
+
+/** Chỗ ghi đáp số; bài có lời văn cần thêm vài dòng để viết lời giải. */
+function answerSpace({ font, width }: Ctx, label: string, solution: boolean): Block {
+  const rows = solution ? 3 : 1;
+  const start = solution ? 1 : 0;
+  return {
+    height: (start + rows) * LINE + 4,
+    draw: (page, x, top) => {
+      page.drawText(label, { x, y: top - SIZE, size: SIZE, font, color: MUTED });
+      for (let r = 0; r < rows; r++) {
+        const y = top - SIZE - (start + r) * LINE - 2;
+        dotted(page, start === 0 ? x + textWidth(font, label) + 4 : x, x + width, y);
+      }
+    },
+  };
+}
+
+/** Một câu: đề (ngắt dòng, thụt sau số câu), phần toán cột dọc, phương án hoặc chỗ trả lời. */
+function questionBlock(ctx: Ctx, { n, p, mcq }: Item, L: Labels, withAnswer: boolean, bubbles: boolean): Block {
+  const { font, width } = ctx;
+  const num = `${n}. `;
+  const indent = textWidth(font, "10. ");
+  const inner = width - indent;
+  const textLines = wrapText(font, p.text, inner);
+  const parts: Block[] = [];
+  if (isBlockMath(p.math)) parts.push(mathBlock(ctx, p.math, withAnswer));
+  const innerCtx = { font, width: inner };
+  if (mcq) parts.push(optionsBlock(innerCtx, mcq.options, withAnswer ? mcq.correct : null, bubbles));
+  if (withAnswer) {
+    if (!mcq) {
+      const lines = wrapText(font, `${L.answer}: ${p.answer}`, inner);
+      parts.push({ height: lines.length * LINE, draw: (page, x, top) => drawLines(page, font, lines, x, top, SIZE, ANSWER) });
+    }
+  } else if (!isBlockMath(p.math) && !(mcq && bubbles)) {
+    parts.push(answerSpace(innerCtx, `${answerLabel(p, L)}:`, p.kind === "word"));
+  }
+  const gap = 4;
+  return {
+    height: textLines.length * LINE + parts.reduce((s, b) => s + b.height + gap, 0) + 10,
+    draw: (page, x, top) => {
+      page.drawText(num, { x, y: top - SIZE, size: SIZE, font, color: INK });
+      drawLines(page, font, textLines, x + indent, top);
+      let y = top - textLines.length * LINE - gap;
+      for (const b of parts) {
+        b.draw(page, x + indent, y);
+        y -= b.height + gap;
+      }
+    },
+  };
+}
+
+/** Ô đáp án gọn cho trang đáp án riêng: "12. B) 42" hoặc "12. 7 dư 2". */
+function keyBlock({ font, width }: Ctx, it: Item): Block {
+  const lines = wrapText(font, `${it.n}. ${keyText(it)}`, width);
+  return { height: lines.length * LINE + 2, draw: (page, x, top) => drawLines(page, font, lines, x, top) };
+}
+
+/**
+ * Dàn các khối theo cột từ trên xuống rồi sang cột kế, hết trang thì sang trang mới.
+ * Trang đầu của mỗi phần có phần đầu chiếm hết bề ngang.
+ */
+class Flow {
+  private pages: PDFPage[] = [];
+
+  constructor(private doc: PDFDocument, private font: PDFFont, private size: [number, number]) {}
+
+  get contentWidth() {
+    return this.size[0] - 2 * MARGIN;
+  }
+
+  columnWidth(columns: number) {
+    return (this.contentWidth - (columns - 1) * GUTTER) / columns;
+  }
+
+  place(blocks: Block[], columns: number, drawHeading: (page: PDFPage, top: number) => number) {
+    let page = this.addPage();
+    let top = drawHeading(page, this.size[1] - MARGIN);
+    const colW = this.columnWidth(columns);
+    const bottom = MARGIN + FOOTER;
+    let col = 0;
+    let y = top;
+    for (const b of blocks) {
+      if (y - b.height < bottom && y < top) {
+        col++;
+        if (col >= columns) {
+          page = this.addPage();
+          top = this.size[1] - MARGIN;
+          col = 0;
+        }
+        y = top;
+      }
+      b.draw(page, MARGIN + col * (colW + GUTTER), y);
+      y -= b.height;
+    }
+  }
+
+  /** Số trang "Trang i/n" ở chân mỗi trang, vẽ sau cùng khi đã biết tổng số trang. */
+  numberPages(word: string) {
+    const n = this.pages.length;
+    this.pages.forEach((page, i) => {
+      const label = `${word} ${i + 1}/${n}`;
+      const w = textWidth(this.font, label, 9);
+      page.drawText(label, { x: (this.size[0] - w) / 2, y: MARGIN / 2, size: 9, font: this.font, color: MUTED });
+    });
+  }
+
+  private addPage() {
+    const page = this.doc.addPage(this.size);
+    this.pages.push(page);
+    return page;
+  }
+}
+
+/** Phần đầu phiếu: ô Trường / Lớp / Họ tên / Ngày (bản học sinh), tiêu đề, dòng phụ, mã đề. */
+function drawHeader(
+  page: PDFPage, font: PDFFont, width: number, top: number,
+  payload: ExportPayload,
+  withFields: boolean,
+): number {
+  const { title, header, variant_code } = payload;
+  let y = top;
+  const half = width / 2;
+  const field = (label: string, value: string | undefined, x: number, w: number) => {
+    page.drawText(`${label}:`, { x, y: y - SIZE, size: SIZE, font, color: INK });
+    const lx = x + textWidth(font, `${label}:`) + 4;
+    if (value) page.drawText(value, { x: lx, y: y - SIZE, size: SIZE, font, color: INK });
+    else dotted(page, lx, x + w - 12, y - SIZE - 1);
+  };
+  if (withFields) {
+    for (const [[l1, v1], [l2, v2]] of studentFields(payload)) {
+      field(l1, v1, MARGIN, half);
+      field(l2, v2, MARGIN + half, half);
+      y -= LINE + 6;
+    }
+    y -= 4;
+  }
+  if (variant_code) {
+    const label = `${labelsOf(payload).code}: ${variant_code}`;
+    const w = textWidth(font, label, 10) + 12;
+    page.drawRectangle({ x: MARGIN + width - w, y: y - 18, width: w, height: 18, borderColor: INK, borderWidth: 0.8 });
+    page.drawText(label, { x: MARGIN + width - w + 6, y: y - 13, size: 10, font, color: INK });
+  }
+  if (title) {
+    for (const line of wrapText(font, title, width - 120, 16)) {
+      page.drawText(line, { x: MARGIN + (width - textWidth(font, line, 16)) / 2, y: y - 16, size: 16, font, color: INK });
+      y -= 16 * 1.4;
+    }
+  } else if (variant_code) {
+    y -= 22;
+  }
+  if (header) {
+    for (const line of wrapText(font, header, width, 10)) {
+      page.drawText(line, { x: MARGIN + (width - textWidth(font, line, 10)) / 2, y: y - 10, size: 10, font, color: MUTED });
+      y -= 10 * 1.45;
+    }
+  }
+  y -= 6;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: MARGIN + width, y }, thickness: 0.8, color: MUTED });
+  return y - 12;
+}
+
+/** Một phiếu (một mã đề): bắt đầu trang mới và đánh số trang riêng như khi in rời. */
+function drawPayload(doc: PDFDocument, embedded: PDFFont, payload: ExportPayload, content: ExportContent) {
+  const flow = new Flow(doc, embedded, PAPER[payload.paper ?? "a4"]);
+  const columns = payload.columns ?? 1;
+  const bubbles = payload.answer_style === "bubbles";
+  const items = itemsOf(payload.problems);
+  const plan = planOf(content, payload.answer_layout);
+  const L = labelsOf(payload);
+  const head = (withFields: boolean, p: ExportPayload = payload) => (page: PDFPage, top: number) =>
+    drawHeader(page, embedded, flow.contentWidth, top, p, withFields);
+
+  if (plan.questions) {
+    const ctx = { font: embedded, width: flow.columnWidth(columns) };
+    const blocks = items.map((it) => questionBlock(ctx, it, L, plan.inlineAnswers, bubbles));
+    flow.place(blocks, columns, head(plan.studentFields));
+  }
+  if (plan.key) {
+    // Đáp án ngắn nên luôn xếp nhiều cột hơn phiếu đề
+    const keyColumns = payload.paper === "letter" ? 3 : 4;
+    const ctx = { font: embedded, width: flow.columnWidth(keyColumns) };
+    flow.place(items.map((it) => keyBlock(ctx, it)), keyColumns, head(false, { ...payload, title: keyTitle(L, payload.title) }));
+  }
+  flow.numberPages(L.page);
+}
+
+/** Phần nào được in xem exporters/model planOf. Nhiều mã đề thì gộp một file, mỗi mã đề từ trang mới. */
+export async function renderPdf(
+  payloads: ExportPayload[],
+  content: ExportContent,
+  font?: ArrayBuffer | Uint8Array,
+): Promise<Uint8Array> {
+  // Không ghi ngày tạo / phần mềm tạo vào metadata để cùng đầu vào cho cùng một file
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  doc.registerFontkit(fontkit);
+  const embedded = await doc.embedFont(font ?? (await loadFont()), { subset: true });
+  const title = payloads[0]?.title;
+  if (title) doc.setTitle(title);
+  for (const payload of payloads) drawPayload(doc, embedded, payload, content);
+  return doc.save({ useObjectStreams: false });
+}
+
+export async function renderPdfBlob(payloads: ExportPayload[], content: ExportContent): Promise<Blob> {
+  const bytes = await renderPdf(payloads, content);
+  return new Blob([bytes as BlobPart], { type: "application/pdf" });
+}
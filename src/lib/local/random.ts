@@ -0,0 +1,45 @@
+// lib/local/random.ts
+// PRNG có seed (mulberry32) — cùng seed luôn ra cùng dãy số.
+
+export type Rng = {
+  next: () => number;                       // [0, 1)
+  int: (min: number, max: number) => number; // [min, max], cả hai đầu
+  pick: <T>(items: readonly T[]) => T;
+  shuffle: <T>(items: readonly T[]) => T[];
+};
+
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => {
+    const lo = Math.ceil(Math.min(min, max));
+    const hi = Math.floor(Math.max(min, max));
+    return lo + Math.floor(next() * (hi - lo + 1));
+  };
+  const pick = <T,>(items: readonly T[]) => items[Math.floor(next() * items.length)];
+  const shuffle = <T,>(items: readonly T[]) => {
+    const out = [...items];
+    for (let i = out.length - 1; i > 0; i--) {
+      const j = Math.floor(next() * (i + 1));
+      [out[i], out[j]] = [out[j], out[i]];
+    }
+    return out;
+  };
+  return { next, int, pick, shuffle };
+}
+
+/** Seed con ổn định từ seed gốc + nhãn, để sinh lại một phần mà không ảnh hưởng phần còn lại. */
+export function deriveSeed(seed: number, ...parts: (string | number)[]): number {
+  let h = (seed >>> 0) ^ 0x811c9dc5;
+  for (const ch of parts.join(":")) {
+    h ^= ch.charCodeAt(0);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,29 @@
+// lib/local/regenerate.ts
+// Sinh lại một câu: giữ id, loại câu, phép toán và mức độ khó; seed suy ra từ seed gốc + id + lượt.
+
+import { GenerationConfig, Problem } from "../types";
+import { generateOne, resolveSeed } from "./generator";
+import { bucketOf, opOf } from "./evaluate";
+import { createRng, deriveSeed } from "./random";
+
+const MAX_TRIES = 30;
+
+export function regenerateProblem(p: Problem, cfg: GenerationConfig, round: number): Problem {
+  const rng = createRng(deriveSeed(resolveSeed(cfg.seed), "regen", p.id, round));
+  const op = opOf(p) ?? rng.pick(cfg.operations.length ? cfg.operations : ["+" as const]);
+  const withDistractors = (p.distractors?.length ?? 0) > 0;
+  const band = p.difficulty == null ? null : bucketOf(p.difficulty);
+
+  let best: Problem | null = null;
+  for (let i = 0; i < MAX_TRIES; i++) {
+    const next = generateOne(rng, cfg, p.id, p.kind, op, withDistractors);
+    if (next.text === p.text) continue;
+    best ??= next;
+    if (band === null || next.difficulty == null || bucketOf(next.difficulty) === band) {
+      best = next;
+      break;
+    }
+  }
+  // Khoảng số quá hẹp thì có thể không tìm được câu khác cùng mức: giữ câu khác đầu tiên tìm được
+  return best ?? p;
+}
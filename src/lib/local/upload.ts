@@ -0,0 +1,42 @@
+// lib/local/upload.ts
+// Đọc ngân hàng dạng văn bản đơn giản: mỗi dòng "câu hỏi | đáp án | nhiễu1; nhiễu2; ..."
+// (chấp nhận cả dấu phẩy/tab cho file .csv). Định dạng khác (.pdf, .docx, .xlsx) cần backend.
+
+import { Problem } from "../types";
+import { ValidationError } from "../errors";
+
+const SEPARATORS = ["|", "\t", ";", ","];
+
+export function parseBankText(content: string, source: string | null = null): Problem[] {
+  const out: Problem[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const sep = SEPARATORS.find((s) => line.includes(s));
+    if (!sep) continue;
+    const [text, answer, ...rest] = line.split(sep).map((c) => c.trim());
+    if (!text || !answer) continue;
+    const distractors = rest.join(sep === "|" ? ";" : sep).split(/[;,]/).map((d) => d.trim()).filter(Boolean);
+    out.push({
+      id: out.length + 1,
+      text,
+      answer,
+      distractors: distractors.length ? distractors : undefined,
+      kind: /\d\s*[+\-×÷*:/x]\s*\d/.test(text) && text.length < 40 ? "arithmetic" : "word",
+      source,
+    });
+  }
+  return out;
+}
+
+export async function uploadLocal(file: File): Promise<Problem[]> {
+  if (!/\.(txt|csv)$/i.test(file.name)) {
+    throw new ValidationError(
+      `Chế độ offline chỉ đọc được .txt/.csv, không đọc được "${file.name}".`,
+      { file: "Định dạng chưa hỗ trợ" },
+      undefined,
+      { code: "offline_format", params: { file: file.name } },
+    );
+  }
+  return parseBankText(await file.text(), file.name);
+}
@@ -0,0 +1,106 @@
+// lib/math.ts
+// Phần toán có cấu trúc của câu hỏi (Problem.math): đọc từ đề bài, tính kết quả để điền đáp án,
+// và bản văn bản thuần cho file xuất hoặc nơi không vẽ được (components/MathView.tsx vẽ bản đẹp).
+
+import { MathNode, MathToken, Problem } from "./types";
+
+const COLUMN_HINT = /đặt tính|set out/i;
+
+const SYMBOL: Record<string, "+" | "-" | "×" | "÷"> = { "+": "+", "-": "-", "×": "×", x: "×", "*": "×", "÷": "÷", ":": "÷" };
+
+/** Tách lời dẫn khỏi biểu thức: "Tính: 2/5 + 3/5" → ["Tính", "2/5 + 3/5"]. Không có lời dẫn thì prompt rỗng. */
+export function splitPrompt(text: string): [prompt: string, expr: string] {
+  const i = text.lastIndexOf(": ");
+  return i < 0 ? ["", text] : [text.slice(0, i), text.slice(i + 2)];
+}
+
+const TOKEN =
+  /(\d+)\s+(\d+)\s*\/\s*(\d+)|(\d+)\s*\/\s*(\d+)|(\d+)\s*\^\s*(\d+)|(\d+(?:[.,]\d+)?)|(_{2,}|\?)|([+\-×÷:=<>…()x*])|(\S)/g;
+
+/** Đọc biểu thức ngang thành các mảnh; gặp ký tự lạ thì trả undefined để giữ nguyên text. */
+export function tokenize(expr: string): MathToken[] | undefined {
+  const out: MathToken[] = [];
+  for (const m of expr.matchAll(TOKEN)) {
+    if (m[1]) out.push({ t: "frac", w: m[1], n: m[2], d: m[3] });
+    else if (m[4]) out.push({ t: "frac", n: m[4], d: m[5] });
+    else if (m[6]) out.push({ t: "pow", base: m[6], exp: m[7] });
+    else if (m[8]) out.push({ t: "num", v: m[8] });
+    else if (m[9]) out.push({ t: "blank" });
+    else if (m[10]) out.push({ t: "op", v: SYMBOL[m[10]] ?? m[10] });
+    else return undefined;
+  }
+  return out.length ? out : undefined;
+}
+
+/**
+ * Suy ra cách trình bày từ đề bài: "Đặt tính rồi tính: 345 + 78" → cột dọc (÷ → chia cột);
+ * biểu thức có phân số hoặc lũy thừa → biểu thức ngang. Còn lại không cần, trả undefined.
+ */
+export function inferMath(text: string): MathNode | undefined {
+  const [, expr] = splitPrompt(text);
+  if (COLUMN_HINT.test(text)) {
+    const m = expr.match(/^\s*(\d+)\s*([+\-×x*÷:])\s*(\d+)\s*(?:=\s*\?)?\s*$/);
+    const op = m && SYMBOL[m[2]];
+    if (m && op) {
+      const a = Number(m[1]), b = Number(m[3]);
+      if (op === "÷") return b > 0 ? { type: "long_division", dividend: a, divisor: b } : undefined;
+      return { type: "column", op, operands: [a, b] };
+    }
+  }
+  if (/\d\s*\/\s*\d|\d\s*\^\s*\d/.test(expr)) {
+    const tokens = tokenize(expr);
+    if (tokens) return { type: "inline", tokens };
+  }
+  return undefined;
+}
+
+/** Giữ math khớp với đề: đề đổi thì suy lại. */
+export const withMath = (p: Problem): Problem => {
+  const math = inferMath(p.text);
+  return math ? { ...p, math } : p.math ? { ...p, math: undefined } : p;
+};
+
+export const isBlockMath = (m?: MathNode): m is Extract<MathNode, { type: "column" | "long_division" }> =>
+  m?.type === "column" || m?.type === "long_division";
+
+export function columnResult(m: Extract<MathNode, { type: "column" }>): number {
+  const [first, ...rest] = m.operands;
+  return rest.reduce((acc, x) => (m.op === "+" ? acc + x : m.op === "-" ? acc - x : acc * x), first);
+}
+
+export const divisionResult = (m: Extract<MathNode, { type: "long_division" }>) => ({
+  quotient: Math.floor(m.dividend / m.divisor),
+  remainder: m.dividend % m.divisor,
+});
+
+const tokenText = (t: MathToken) => {
+  switch (t.t) {
+    case "frac": return t.w ? `${t.w} ${t.n}/${t.d}` : `${t.n}/${t.d}`;
+    case "pow": return `${t.base}^${t.exp}`;
+    case "blank": return "__";
+    default: return t.v;
+  }
+};
+
+/** Bản văn bản thuần, mỗi phần tử một dòng; withAnswer điền kết quả (dùng cho file đáp án). */
+export function mathToText(m: MathNode, withAnswer = false): string[] {
+  switch (m.type) {
+    case "inline":
+      return [m.tokens.map(tokenText).join(" ")];
+    case "column": {
+      const result = columnResult(m);
+      const w = Math.max(...m.operands.map((x) => String(x).length), String(result).length);
+      const rows = m.operands.map((x, i) => `${i === 0 ? " " : m.op} ${String(x).padStart(w)}`);
+      return [...rows, "-".repeat(w + 2), withAnswer ? `  ${String(result).padStart(w)}` : ""];
+    }
+    case "long_division": {
+      const { quotient, remainder } = divisionResult(m);
+      const left = String(m.dividend);
+      const pad = " ".repeat(left.length);
+      const right = Math.max(String(m.divisor).length, String(quotient).length) + 1;
+      const rows = [`${left} | ${m.divisor}`, `${pad} |${"-".repeat(right)}`, `${pad} | ${withAnswer ? quotient : ""}`];
+      if (withAnswer) rows.push(String(remainder).padStart(left.length));
+      return rows;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import type { Problem } from "./types";
+import { OPTION_LETTERS, ensureOptions, mcqOptions, shuffleOptions } from "./mcq";
+
+const p: Problem = { id: 3, text: "12 + 5 = ?", answer: "17", distractors: ["15", "16", "18"], kind: "arithmetic" };
+
+describe("shuffleOptions", () => {
+  it("xáo theo seed, chữ cái đáp án trỏ đúng phương án", () => {
+    const out = shuffleOptions(p, 9);
+    expect(out).toEqual(shuffleOptions(p, 9));
+    expect([...(out.options ?? [])].sort()).toEqual(["15", "16", "17", "18"]);
+    expect(out.options?.[OPTION_LETTERS.indexOf(out.correct_option!)]).toBe("17");
+    expect(mcqOptions(out)).toEqual({ options: out.options, correct: out.correct_option });
+  });
+});
+
+describe("ensureOptions", () => {
+  it("thứ tự đã có còn khớp thì giữ nguyên", () => {
+    const shuffled = shuffleOptions(p, 9);
+    expect(ensureOptions(shuffled, 1)).toBe(shuffled);
+  });
+
+  it("mới sinh hoặc sửa đáp án, lựa chọn nhiễu thì xáo lại", () => {
+    expect(ensureOptions(p, 9)).toEqual(shuffleOptions(p, 9));
+    const edited = { ...shuffleOptions(p, 9), answer: "19" };
+    const out = ensureOptions(edited, 9);
+    expect(out.options).toContain("19");
+    expect(out.options).not.toContain("17");
+    expect(mcqOptions(out)?.correct).toBe(out.correct_option);
+  });
+
+  it("chữ cái đáp án lệch với thứ tự thì tính lại", () => {
+    const shuffled = shuffleOptions(p, 9);
+    const wrong = shuffled.correct_option === "A" ? "B" : "A";
+    expect(ensureOptions({ ...shuffled, correct_option: wrong }, 9).correct_option).toBe(shuffled.correct_option);
+  });
+
+  it("bỏ hết lựa chọn nhiễu thì xóa phương án cũ", () => {
+    const out = ensureOptions({ ...shuffleOptions(p, 9), distractors: undefined }, 9);
+    expect(out.options).toBeUndefined();
+    expect(out.correct_option).toBeUndefined();
+    expect(mcqOptions(out)).toBeNull();
+  });
+});
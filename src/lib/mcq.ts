@@ -0,0 +1,39 @@
+// lib/mcq.ts
+// Thứ tự phương án trắc nghiệm: xáo theo seed, lưu vào Problem.options cùng chữ cái đáp án đúng,
+// để xem trước, file đáp án và phiếu tô đều dùng chung một thứ tự.
+
+import { Problem } from "./types";
+import { createRng, deriveSeed } from "./local/random";
+
+export const OPTION_LETTERS = "ABCDEFGHIJ";
+
+export const isMcq = (p: Problem) => (p.distractors?.length ?? 0) > 0;
+
+/** Câu tính vào chỉ tiêu trắc nghiệm khi ráp đề: có phương án và không phải bài lời văn (tính riêng theo word_count). */
+export const isMcqSlot = (p: Problem) => p.kind !== "word" && isMcq(p);
+
+const sameSet = (a: string[], b: string[]) =>
+  a.length === b.length && [...a].sort().join("\u0000") === [...b].sort().join("\u0000");
+
+/** Phương án theo thứ tự hiển thị, kèm chữ cái đáp án đúng. Câu tự luận trả về null. */
+export function mcqOptions(p: Problem): { options: string[]; correct: string } | null {
+  if (!isMcq(p)) return null;
+  const all = [p.answer, ...(p.distractors ?? [])];
+  const options = p.options && sameSet(p.options, all) ? p.options : all;
+  return { options, correct: OPTION_LETTERS[options.indexOf(p.answer)] };
+}
+
+export function shuffleOptions(p: Problem, seed: number): Problem {
+  if (!isMcq(p)) return { ...p, options: undefined, correct_option: undefined };
+  const rng = createRng(deriveSeed(seed, "mcq", p.id, p.answer, ...(p.distractors ?? [])));
+  const options = rng.shuffle([p.answer, ...(p.distractors ?? [])]);
+  return { ...p, options, correct_option: OPTION_LETTERS[options.indexOf(p.answer)] };
+}
+
+/** Giữ thứ tự đã có nếu vẫn khớp đáp án + nhiễu; nếu không (mới sinh, vừa sửa) thì xáo lại. */
+export function ensureOptions(p: Problem, seed: number): Problem {
+  if (!isMcq(p)) return p.options ? { ...p, options: undefined, correct_option: undefined } : p;
+  const cur = mcqOptions(p);
+  if (p.options && cur && cur.options === p.options && p.correct_option === cur.correct) return p;
+  return shuffleOptions(p, seed);
+}
@@ -0,0 +1,87 @@
+// lib/practice.ts
+// Luyện tập trực tuyến: chuyển bộ câu hỏi hiện tại sang trang /practice và chấm bài của học sinh,
+// tổng hợp điểm theo phép toán và theo mức độ khó.
+
+import { z } from "zod";
+import { Operation, Problem } from "./types";
+import { ProblemListSchema } from "./schemas";
+import { checkAnswer } from "./answers";
+import { mcqOptions } from "./mcq";
+import { bucketOf, opOf } from "./local/evaluate";
+import type { Band } from "./bank";
+
+/** Bộ câu đem đi luyện tập; title hiển thị ở đầu trang. */
+export type PracticeSet = { title: string; problems: Problem[] };
+
+export type PracticeMode = "single" | "page";
+
+export type Tally = { correct: number; total: number };
+
+export type PracticeResult = {
+  id: number;
+  given: string;
+  correct: boolean;
+  /** Đáp án đúng để hiển thị; câu trắc nghiệm kèm chữ cái ("B. 42"). */
+  expected: string;
+};
+
+export type PracticeReport = {
+  results: PracticeResult[];
+  score: Tally;
+  /** Câu không rõ phép toán (dãy số, hình học...) gom vào "other". */
+  by_op: Partial<Record<Operation | "other", Tally>>;
+  by_band: Partial<Record<Band, Tally>>;
+};
+
+// sessionStorage: chỉ sống trong tab hiện tại, đủ để mở trang luyện tập ngay sau khi tạo đề
+const STASH_KEY = "practice-set";
+
+const PracticeSetSchema = z.object({ title: z.string(), problems: ProblemListSchema });
+
+export function stashPractice(set: PracticeSet) {
+  window.sessionStorage.setItem(STASH_KEY, JSON.stringify(set));
+}
+
+export function readStashedPractice(): PracticeSet | null {
+  const raw = window.sessionStorage.getItem(STASH_KEY);
+  if (!raw) return null;
+  try {
+    const r = PracticeSetSchema.safeParse(JSON.parse(raw));
+    return r.success ? r.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function expectedOf(p: Problem): string {
+  const mcq = mcqOptions(p);
+  return mcq ? `${mcq.correct}. ${p.answer}` : p.answer;
+}
+
+/** Chấm một câu; câu trắc nghiệm nhận chữ cái phương án hoặc nội dung phương án. */
+export function gradeOne(p: Problem, given: string): PracticeResult {
+  return { id: p.id, given, correct: checkAnswer(p, given, mcqOptions(p) ?? undefined), expected: expectedOf(p) };
+}
+
+const bump = <K extends string>(acc: Partial<Record<K, Tally>>, key: K, ok: boolean) => {
+  const t = (acc[key] ??= { correct: 0, total: 0 });
+  t.total++;
+  if (ok) t.correct++;
+};
+
+/** Chấm cả bài; câu bỏ trống tính là sai. */
+export function gradePractice(problems: Problem[], answers: Record<number, string>): PracticeReport {
+  const report: PracticeReport = { results: [], score: { correct: 0, total: 0 }, by_op: {}, by_band: {} };
+  for (const p of problems) {
+    const r = gradeOne(p, answers[p.id] ?? "");
+    report.results.push(r);
+    report.score.total++;
+    if (r.correct) report.score.correct++;
+    bump(report.by_op, opOf(p) ?? "other", r.correct);
+    bump(report.by_band, bucketOf(p.difficulty ?? 0.5), r.correct);
+  }
+  return report;
+}
+
+/** Điểm thang 10, làm tròn 0,25 như cách chấm ở trường. */
+export const scoreOutOf10 = (t: Tally) => (t.total ? Math.round((t.correct / t.total) * 40) / 4 : 0);
@@ -0,0 +1,81 @@
+// lib/request.ts
+// fetch có timeout, hủy qua AbortSignal và thử lại với backoff cho lời gọi idempotent.
+
+import { AbortedError, ApiError, NetworkError, ServerError, TimeoutError, errorFromResponse, toApiError } from "./errors";
+
+export type RetryOptions = {
+  retries: number;     // số lần thử lại (không tính lần đầu)
+  baseDelayMs: number; // chờ baseDelay × 2^lần, cộng nhiễu ngẫu nhiên
+  maxDelayMs: number;
+};
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retry?: Partial<RetryOptions> | false;
+};
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+export const DEFAULT_RETRY: RetryOptions = { retries: 2, baseDelayMs: 500, maxDelayMs: 5_000 };
+
+/** Cách đọc thân phản hồi; chạy bên trong fetchChecked để timeout, hủy và lỗi định dạng được quy về ApiError. */
+export type ReadBody<T> = (res: Response) => Promise<T>;
+
+export const readJSON = <T = unknown,>(res: Response): Promise<T> => res.json();
+export const readBlob = (res: Response) => res.blob();
+
+export async function fetchChecked<T>(
+  url: string,
+  init: RequestInit,
+  read: ReadBody<T>,
+  opts: RequestOptions = {},
+): Promise<T> {
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = opts.signal ? AbortSignal.any([opts.signal, timeout]) : timeout;
+  let res: Response | undefined;
+  try {
+    res = await fetch(url, { ...init, signal });
+    if (!res.ok) throw await errorFromResponse(res);
+    return await read(res);
+  } catch (e) {
+    if (e instanceof ApiError) throw e;
+    if (opts.signal?.aborted) throw new AbortedError();
+    if (timeout.aborted) throw new TimeoutError(timeoutMs);
+    // Đã có phản hồi 2xx nhưng thân không đọc được (ví dụ trang HTML thay cho JSON)
+    if (res && e instanceof SyntaxError) {
+      throw new ServerError("Phản hồi của máy chủ không đúng định dạng.", res.status, { code: "bad_body", params: {} });
+    }
+    throw new NetworkError(e);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AbortedError());
+    const t = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(new AbortedError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Chạy fn, thử lại khi lỗi có retryable = true. Không bao giờ thử lại lỗi kiểm tra dữ liệu hay khi đã hủy. */
+export async function withRetry<T>(fn: () => Promise<T>, opts: RequestOptions = {}): Promise<T> {
+  const retry = opts.retry === false ? { ...DEFAULT_RETRY, retries: 0 } : { ...DEFAULT_RETRY, ...opts.retry };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      const err = toApiError(e);
+      if (!err.retryable || attempt >= retry.retries) throw err;
+      const delay = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+      await sleep(delay / 2 + Math.random() * (delay / 2), opts.signal);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+// lib/schemas.ts
+// Schema zod cho dữ liệu trao đổi với backend. Kiểu tĩnh trong types.ts suy ra từ đây
+// nên schema và kiểu không thể lệch nhau.
+
+import { z } from "zod";
+import { FieldErrors, ServerError, ValidationError } from "./errors";
+
+export const OperationSchema = z.enum(["+", "-", "×", "÷"]);
+
+/** Dạng câu hỏi. "arithmetic" và "word" là hai dạng gốc; các dạng còn lại xem lib/kinds.ts. */
+export const ProblemKindSchema = z.enum([
+  "arithmetic", "word",
+  "fill_blank", "comparison", "expression", "sequence", "fraction", "measurement", "time", "money", "geometry",
+]);
+
+/** Một mảnh của biểu thức viết ngang: số, dấu, phân số (có thể kèm phần nguyên), lũy thừa, ô trống. */
+export const MathTokenSchema = z.discriminatedUnion("t", [
+  z.object({ t: z.literal("num"), v: z.string() }),
+  z.object({ t: z.literal("op"), v: z.string() }),
+  z.object({ t: z.literal("frac"), n: z.string(), d: z.string(), w: z.string().optional() }),
+  z.object({ t: z.literal("pow"), base: z.string(), exp: z.string() }),
+  z.object({ t: z.literal("blank") }),
+]);
+
+/**
+ * Cách trình bày phần toán của câu hỏi (xem lib/math.ts): đặt tính cột dọc, chia cột kiểu Việt Nam,
+ * hoặc biểu thức ngang có phân số / lũy thừa. Không có thì hiển thị text như cũ.
+ */
+export const MathSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("column"),
+    op: z.enum(["+", "-", "×"]),
+    operands: z.array(z.number().int().min(0)).min(2),
+  }),
+  z.object({ type: z.literal("long_division"), dividend: z.number().int().min(0), divisor: z.number().int().min(1) }),
+  z.object({ type: z.literal("inline"), tokens: z.array(MathTokenSchema).min(1) }),
+]);
+
+export const ProblemSchema = z.object({
+  id: z.number(),
+  text: z.string(),
+  answer: z.string(),
+  distractors: z.array(z.string()).optional(),
+  options: z.array(z.string()).optional(),               // đáp án + nhiễu theo thứ tự hiển thị
+  correct_option: z.string().regex(/^[A-J]$/).optional(), // chữ cái của đáp án trong options
+  kind: ProblemKindSchema,
+  op: OperationSchema.optional(),
+  difficulty: z.number().min(0).max(1).optional(),
+  source: z.string().nullable().optional(),
+  topic: z.string().optional(),                          // chủ đề do GV gắn khi quản lý ngân hàng
+  grade: z.number().int().min(1).max(5).optional(),
+  math: MathSchema.optional(),
+});
+
+export const ProblemListSchema = z.array(ProblemSchema);
+
+/**
+ * Cấu hình sinh đề đọc lại từ thư viện hoặc liên kết chia sẻ: chỉ chặn dữ liệu hỏng hẳn, giữ nguyên các trường
+ * còn lại (phiếu cũ có thể thiếu term, rules...) vì form kiểm tra đầy đủ trước khi sinh đề.
+ */
+export const GenerationConfigSchema = z.looseObject({
+  grade: z.number().int(),
+  operations: z.array(OperationSchema),
+});
+
+export const ModeSchema = z.enum(["easy_to_hard", "balanced", "hard_to_easy"]);
+
+export const AssemblePayloadSchema = z.object({
+  pool: ProblemListSchema,
+  total_count: z.number().int().min(0),
+  mcq_count: z.number().int().min(0),
+  word_count: z.number().int().min(0),
+  mode: ModeSchema,
+  seed: z.number().optional(),
+});
+
+const count = z.number().int().min(0);
+
+/** Khoảng số câu cho một ràng buộc; min = max nghĩa là đúng bằng. Bỏ trống = không giới hạn. */
+export const CountRangeSchema = z
+  .object({ min: count.optional(), max: count.optional() })
+  .refine((r) => r.min == null || r.max == null || r.min <= r.max, { message: "Tối thiểu phải ≤ tối đa", path: ["min"] });
+
+/** Ma trận đề: ràng buộc thêm cho việc ráp đề, ngoài tổng số câu / trắc nghiệm / lời văn. */
+export const BlueprintSchema = z.object({
+  by_op: z.partialRecord(OperationSchema, CountRangeSchema),
+  by_band: z.partialRecord(z.enum(["easy", "medium", "hard"]), CountRangeSchema),
+  by_topic: z.record(z.string(), CountRangeSchema),
+  by_source: z.record(z.string(), CountRangeSchema),
+  target_difficulty: z
+    .object({ value: z.number().min(0).max(1), tolerance: z.number().min(0).max(0.5) })
+    .optional(),
+});
+
+export const EvaluationSchema = z.object({
+  avg_difficulty: z.number(),
+  buckets: z.object({ easy: count.optional(), medium: count.optional(), hard: count.optional() }),
+  by_kind: z.partialRecord(ProblemKindSchema, count),
+  by_op: z.object({ "+": count.optional(), "-": count.optional(), "×": count.optional(), "÷": count.optional() }),
+  notes: z.array(z.string()),
+});
+
+/** Phản hồi sai cấu trúc: lỗi phía máy chủ, chỉ rõ trường hỏng (ví dụ "buckets", "[3].difficulty"). */
+export class InvalidResponseError extends ServerError {
+  readonly path: string;
+
+  constructor(what: string, path: string, detail: string) {
+    super(`Phản hồi ${what} không hợp lệ tại "${path || "(gốc)"}": ${detail}`, undefined, {
+      code: "invalid_response",
+      params: { what, path, detail },
+    });
+    this.name = "InvalidResponseError";
+    this.path = path;
+  }
+}
+
+const formatPath = (path: PropertyKey[]) =>
+  path.map((k, i) => (typeof k === "number" ? `[${k}]` : i === 0 ? String(k) : `.${String(k)}`)).join("");
+
+export function parseResponse<S extends z.ZodType>(schema: S, data: unknown, what: string): z.infer<S> {
+  const r = schema.safeParse(data);
+  if (r.success) return r.data;
+  const issue = r.error.issues[0];
+  throw new InvalidResponseError(what, formatPath(issue.path), issue.message);
+}
+
+/** Kiểm tra dữ liệu gửi lên (dùng ở mock server); lỗi trả về theo từng trường. */
+export function parseRequest<S extends z.ZodType>(schema: S, data: unknown): z.infer<S> {
+  const r = schema.safeParse(data);
+  if (r.success) return r.data;
+  const fields: FieldErrors = {};
+  for (const issue of r.error.issues) fields[formatPath(issue.path) || "body"] ??= issue.message;
+  throw new ValidationError(z.prettifyError(r.error), fields, 422);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import type { GenerationConfig } from "./types";
+import { generateLocal } from "./local/generator";
+import { makeVariants } from "./variants";
+import { contentDigest, decodeShare, encodeShare, makeSharedSheet, restoreVariants } from "./share";
+
+const config: GenerationConfig = {
+  grade: 2,
+  operations: ["+", "-"],
+  count: 8,
+  min_value: 0,
+  max_value: 50,
+  include_word_problems: false,
+  include_distractors: true,
+  seed: 11,
+  language: "vi",
+};
+
+const generate = () => makeVariants(generateLocal(config), 2, { seed: config.seed!, cfg: config });
+
+const generated = generate();
+// Giáo viên sửa một câu và đổi chỗ hai câu đầu của đề B
+const [a, b] = generated;
+const edited = { ...b.problems[3], text: "7 + 8 = ?", answer: "15" };
+const current = [a, { code: b.code, problems: [b.problems[1], b.problems[0], b.problems[2], edited, ...b.problems.slice(4)] }];
+const sheet = makeSharedSheet({ name: "Phiếu tuần 3", config, generated, current });
+
+describe("liên kết chia sẻ", () => {
+  it("chỉ ghi chỉnh sửa của mã đề đã sửa", () => {
+    expect(Object.keys(sheet.edits ?? {})).toEqual(["B"]);
+    expect(sheet.edits?.B.changed).toEqual([edited]);
+  });
+
+  it("mã hóa rồi giải mã ra đúng phiếu; sinh lại và áp chỉnh sửa cho đúng đề lúc chia sẻ", async () => {
+    const decoded = await decodeShare(await encodeShare(sheet));
+    expect(decoded).toEqual(sheet);
+    const restored = restoreVariants(generate(), decoded!.edits);
+    expect(restored.map((v) => v.problems)).toEqual(current.map((v) => v.problems));
+    expect(contentDigest(restored)).toBe(sheet.digest);
+  });
+
+  it("chuỗi hỏng, bị cắt hoặc sai cấu trúc thì trả về undefined", async () => {
+    const payload = await encodeShare(sheet);
+    const toJ = (v: unknown) => `j${Buffer.from(JSON.stringify(v)).toString("base64url")}`;
+    expect(await decodeShare(payload.slice(0, payload.length / 2))).toBeUndefined();
+    expect(await decodeShare(`x${payload.slice(1)}`)).toBeUndefined();
+    expect(await decodeShare("z!!!")).toBeUndefined();
+    expect(await decodeShare("")).toBeUndefined();
+    expect(await decodeShare(toJ({ ...sheet, variants: 9 }))).toBeUndefined();
+    expect(await decodeShare(toJ({ ...sheet, v: 2 }))).toBeUndefined();
+    expect(await decodeShare(toJ(sheet))).toEqual(sheet);
+  });
+});
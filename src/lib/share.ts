@@ -0,0 +1,185 @@
+// lib/share.ts
+// Liên kết chia sẻ phiếu: cấu hình (kèm seed), số mã đề, chỉnh sửa tay và cài đặt ráp đề gói vào URL.
+// Người nhận sinh lại đề từ cấu hình (cùng seed → cùng đề), áp chỉnh sửa, rồi so dấu vân tay nội dung
+// để biết đề có còn giống lúc tạo liên kết không. Phiếu quá lớn thì lưu cục bộ và chỉ đưa mã ngắn vào URL.
+
+import { z } from "zod";
+import { BlueprintSchema, GenerationConfigSchema, ProblemListSchema } from "./schemas";
+import type { Blueprint, GenerationConfig, Problem } from "./types";
+import { MAX_VARIANTS, type Variant } from "./variants";
+import { AssembleSettingsSchema, makeRepo, type AssembleSettings, type Meta } from "./storage/library";
+
+const SHARE_VERSION = 1;
+
+/** Dài hơn thì nhiều ứng dụng nhắn tin cắt mất link; khi đó lưu cục bộ và dùng mã ngắn. */
+const MAX_URL_PAYLOAD = 1800;
+
+/** Chỉnh sửa của một mã đề so với bản sinh lại: thứ tự câu cuối cùng và các câu khác bản sinh. */
+export type VariantEdits = {
+  order: number[];
+  changed: Problem[];
+};
+
+export type SharedSheet = {
+  v: typeof SHARE_VERSION;
+  name?: string;
+  config: GenerationConfig;            // luôn có seed
+  variants: number;
+  edits?: Record<string, VariantEdits>; // theo mã đề; mã đề không sửa thì không có
+  assemble?: AssembleSettings;
+  blueprint?: Blueprint;
+  digest: string;                      // dấu vân tay nội dung các mã đề lúc tạo liên kết
+};
+
+const SharedSheetSchema = z.object({
+  v: z.literal(SHARE_VERSION),
+  name: z.string().optional(),
+  config: GenerationConfigSchema.extend({ seed: z.number() }),
+  variants: z.number().int().min(1).max(MAX_VARIANTS),
+  edits: z.record(z.string(), z.object({ order: z.array(z.number()), changed: ProblemListSchema })).optional(),
+  assemble: AssembleSettingsSchema.optional(),
+  blueprint: BlueprintSchema.optional(),
+  digest: z.string(),
+});
+
+// Như thư viện (storage/library makeRepo): schema chỉ dùng để kiểm tra, giữ nguyên các trường cấu hình lạ
+const isSharedSheet = (v: unknown): v is SharedSheet => SharedSheetSchema.safeParse(v).success;
+
+// JSON với khóa sắp xếp, bỏ trường undefined: cùng nội dung luôn ra cùng chuỗi
+const stableJson = (v: unknown): string => {
+  if (Array.isArray(v)) return `[${v.map((x) => (x === undefined ? "null" : stableJson(x))).join(",")}]`;
+  if (v && typeof v === "object") {
+    const o = v as Record<string, unknown>;
+    const keys = Object.keys(o).filter((k) => o[k] !== undefined).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableJson(o[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v);
+};
+
+const sameProblem = (a: Problem, b: Problem) => stableJson(a) === stableJson(b);
+
+/** FNV-1a 32 bit trên nội dung câu hỏi các mã đề; không tính đánh giá vì đánh giá có thể tính lại. */
+export function contentDigest(variants: Variant[]): string {
+  let h = 0x811c9dc5;
+  for (const ch of stableJson(variants.map((v) => [v.code, v.problems]))) {
+    h ^= ch.charCodeAt(0);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h.toString(36);
+}
+
+export function diffProblems(generated: Problem[], current: Problem[]): VariantEdits | undefined {
+  const byId = new Map(generated.map((p) => [p.id, p]));
+  const changed = current.filter((p) => {
+    const g = byId.get(p.id);
+    return !g || !sameProblem(g, p);
+  });
+  const order = current.map((p) => p.id);
+  const sameOrder = order.length === generated.length && order.every((id, i) => id === generated[i].id);
+  return changed.length === 0 && sameOrder ? undefined : { order, changed };
+}
+
+export function applyEdits(generated: Problem[], edits?: VariantEdits): Problem[] {
+  if (!edits) return generated;
+  const byId = new Map([...generated, ...edits.changed].map((p) => [p.id, p]));
+  return edits.order.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Gói phiếu đang mở: generated là bản sinh lại từ config ngay lúc chia sẻ, current là các mã đề đang hiện
+ * (đã sửa tay, hoặc ráp từ ngân hàng — khi đó mọi câu đều nằm trong edits).
+ */
+export function makeSharedSheet(args: {
+  name?: string;
+  config: GenerationConfig;
+  generated: Variant[];
+  current: Variant[];
+  assemble?: AssembleSettings;
+  blueprint?: Blueprint;
+}): SharedSheet {
+  const edits: Record<string, VariantEdits> = {};
+  args.current.forEach((v, i) => {
+    const e = diffProblems(args.generated[i]?.problems ?? [], v.problems);
+    if (e) edits[v.code] = e;
+  });
+  return {
+    v: SHARE_VERSION,
+    name: args.name || undefined,
+    config: args.config,
+    variants: args.current.length,
+    ...(Object.keys(edits).length > 0 && { edits }),
+    assemble: args.assemble,
+    blueprint: args.blueprint,
+    digest: contentDigest(args.current),
+  };
+}
+
+/** Áp chỉnh sửa lên các mã đề vừa sinh lại; mã đề đã sửa bỏ đánh giá cũ để tính lại. */
+export function restoreVariants(generated: Variant[], edits?: Record<string, VariantEdits>): Variant[] {
+  return generated.map((v) =>
+    edits?.[v.code] ? { code: v.code, problems: applyEdits(v.problems, edits[v.code]) } : v,
+  );
+}
+
+// ---- Mã hóa URL: JSON → deflate (nếu trình duyệt hỗ trợ) → base64url; ký tự đầu cho biết có nén không
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (s: string) => {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+const canCompress = () => typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+export async function encodeShare(sheet: SharedSheet): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(sheet));
+  return canCompress()
+    ? `z${toBase64Url(await pipe(json, new CompressionStream("deflate-raw")))}`
+    : `j${toBase64Url(json)}`;
+}
+
+/** Chuỗi hỏng, bị cắt hoặc sai cấu trúc thì trả về undefined. */
+export async function decodeShare(payload: string): Promise<SharedSheet | undefined> {
+  try {
+    let bytes = fromBase64Url(payload.slice(1));
+    if (payload[0] === "z") bytes = await pipe(bytes, new DecompressionStream("deflate-raw"));
+    else if (payload[0] !== "j") return undefined;
+    const data: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    return isSharedSheet(data) ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Phiếu chia sẻ quá dài cho URL; id là mã ngắn trong ?share=. */
+export type SavedShare = Meta & {
+  sheet: SharedSheet;
+};
+
+const shares = makeRepo<SavedShare>("shares", z.object({ id: z.string(), sheet: SharedSheetSchema }));
+
+const shortId = () => Math.random().toString(36).slice(2, 10);
+
+/** Liên kết mở lại phiếu; local = true nghĩa là phiếu chỉ lưu trên trình duyệt này (mã ngắn). */
+export async function shareLink(sheet: SharedSheet, base: string): Promise<{ url: string; local: boolean }> {
+  const payload = await encodeShare(sheet);
+  if (payload.length <= MAX_URL_PAYLOAD) return { url: `${base}?s=${payload}`, local: false };
+  const saved = await shares.save({ id: shortId(), name: sheet.name ?? "", sheet });
+  return { url: `${base}?share=${saved.id}`, local: true };
+}
+
+/** Đọc phiếu từ tham số ?s= hoặc ?share=; không tìm thấy / không hợp lệ thì undefined. */
+export async function readShare(params: URLSearchParams): Promise<SharedSheet | undefined> {
+  const payload = params.get("s");
+  if (payload) return decodeShare(payload);
+  const id = params.get("share");
+  return id ? (await shares.get(id))?.sheet : undefined;
+}
@@ -0,0 +1,84 @@
+// lib/storage/db.ts
+// IndexedDB có đánh số phiên bản. Thêm thay đổi lược đồ bằng cách nối một bước vào MIGRATIONS
+// (không sửa bước cũ) — DB_VERSION tự tăng theo.
+
+import { AppError } from "../errors";
+
+const DB_NAME = "math-worksheet";
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+  // v1: phiếu bài tập và ngân hàng câu hỏi
+  (db) => {
+    const ws = db.createObjectStore("worksheets", { keyPath: "id" });
+    ws.createIndex("updated_at", "updated_at");
+    const banks = db.createObjectStore("banks", { keyPath: "id" });
+    banks.createIndex("updated_at", "updated_at");
+  },
+  // v2: ma trận đề dùng lại qua các học kỳ
+  (db) => {
+    db.createObjectStore("blueprints", { keyPath: "id" }).createIndex("updated_at", "updated_at");
+  },
+  // v3: phiếu chia sẻ quá dài để đưa cả vào URL, mở lại bằng mã ngắn
+  (db) => {
+    db.createObjectStore("shares", { keyPath: "id" }).createIndex("updated_at", "updated_at");
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+export type StoreName = "worksheets" | "banks" | "blueprints" | "shares";
+
+let opening: Promise<IDBDatabase> | null = null;
+
+export function openDB(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") return Promise.reject(new AppError("no_indexeddb", "Trình duyệt không hỗ trợ IndexedDB."));
+  return (opening ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const tx = req.transaction!;
+      for (let v = e.oldVersion; v < DB_VERSION; v++) MIGRATIONS[v](req.result, tx);
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Tab khác nâng phiên bản: đóng để không chặn, lần sau mở lại
+      db.onversionchange = () => {
+        db.close();
+        opening = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => {
+      opening = null;
+      reject(req.error);
+    };
+  }));
+}
+
+const done = <T,>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDB();
+  return done(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+export async function getOne<T>(store: StoreName, id: string): Promise<T | undefined> {
+  const db = await openDB();
+  return done(db.transaction(store).objectStore(store).get(id) as IDBRequest<T | undefined>);
+}
+
+export async function put<T>(store: StoreName, value: T): Promise<T> {
+  const db = await openDB();
+  await done(db.transaction(store, "readwrite").objectStore(store).put(value));
+  return value;
+}
+
+export async function remove(store: StoreName, id: string): Promise<void> {
+  const db = await openDB();
+  await done(db.transaction(store, "readwrite").objectStore(store).delete(id));
+}
@@ -0,0 +1,76 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it, vi } from "vitest";
+
+import type { GenerationConfig, Problem } from "../types";
+import { DB_VERSION, openDB, put } from "./db";
+import { banks, matchesQuery, worksheets, type SavedWorksheet } from "./library";
+
+const config: GenerationConfig = {
+  grade: 2,
+  operations: ["+"],
+  count: 1,
+  min_value: 0,
+  max_value: 20,
+  include_word_problems: false,
+  include_distractors: false,
+  language: "vi",
+};
+
+const problems: Problem[] = [{ id: 1, text: "An có 12 quả táo, được cho thêm 5 quả.", answer: "17", kind: "word" }];
+
+const old: SavedWorksheet = { id: "w1", name: "Phiếu cũ", created_at: 1, updated_at: 1, config, problems, evaluation: null };
+
+// Dựng cơ sở dữ liệu như phiên bản v1 đã ghi: chỉ có kho phiếu và ngân hàng
+const createV1 = () =>
+  new Promise<void>((resolve, reject) => {
+    const req = indexedDB.open("math-worksheet", 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore("worksheets", { keyPath: "id" }).createIndex("updated_at", "updated_at");
+      req.result.createObjectStore("banks", { keyPath: "id" }).createIndex("updated_at", "updated_at");
+      req.transaction!.objectStore("worksheets").put(old);
+    };
+    req.onsuccess = () => {
+      req.result.close();
+      resolve();
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+describe("thư viện cục bộ", () => {
+  // Chạy trước mọi lần openDB khác trong file: openDB giữ kết nối cho cả phiên
+  it("nâng cấp từ v1 thêm kho mới và giữ phiếu đã lưu", async () => {
+    await createV1();
+    const db = await openDB();
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual(["banks", "blueprints", "shares", "worksheets"]);
+    expect(await worksheets.get("w1")).toEqual(old);
+  });
+
+  it("lưu lại giữ created_at, nhân bản thêm hậu tố do giao diện truyền vào", async () => {
+    vi.spyOn(Date, "now").mockReturnValueOnce(100).mockReturnValueOnce(200);
+    const saved = await worksheets.save({ ...old, name: "Phiếu mới" });
+    expect(saved).toMatchObject({ created_at: 1, updated_at: 100 });
+    const copy = await worksheets.duplicate("w1", "(copy)");
+    expect(copy).toMatchObject({ name: "Phiếu mới (copy)", problems });
+    expect(copy!.id).not.toBe("w1");
+    expect((await worksheets.list()).map((w) => w.id)).toEqual([copy!.id, "w1"]);
+    await worksheets.remove(copy!.id);
+    expect(await worksheets.get(copy!.id)).toBeUndefined();
+  });
+
+  it("bỏ qua bản ghi hỏng", async () => {
+    await put("banks", { id: "b1", name: "Ngân hàng", created_at: 1, updated_at: 1, problems, evaluation: null });
+    await put("banks", { id: "b2", name: "Hỏng", problems: "không phải danh sách" });
+    expect((await banks.list()).map((b) => b.id)).toEqual(["b1"]);
+    expect(await banks.get("b2")).toBeUndefined();
+  });
+});
+
+describe("matchesQuery", () => {
+  it("tìm theo tên hoặc đề, không phân biệt hoa thường và dấu", () => {
+    expect(matchesQuery(old, "phieu cu")).toBe(true);
+    expect(matchesQuery(old, "QUẢ TÁO")).toBe(true);
+    expect(matchesQuery(old, "qua cam")).toBe(false);
+    expect(matchesQuery(old, "  ")).toBe(true);
+  });
+});
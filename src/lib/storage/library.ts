@@ -0,0 +1,124 @@
+// lib/storage/library.ts
+// Thư viện cục bộ: phiếu bài tập đã lưu, ngân hàng câu hỏi và ma trận đề dùng lại được.
+
+import { z } from "zod";
+import { AssemblePayload, Blueprint, Evaluation, GenerationConfig, Problem } from "../types";
+import {
+  AssemblePayloadSchema, BlueprintSchema, EvaluationSchema, GenerationConfigSchema, ProblemListSchema,
+} from "../schemas";
+import type { Variant } from "../variants";
+import type { Curation } from "../bank";
+import { getAll, getOne, put, remove, type StoreName } from "./db";
+
+export type Meta = {
+  id: string;
+  name: string;
+  created_at: number;
+  updated_at: number;
+};
+
+export type AssembleSettings = Omit<AssemblePayload, "pool">;
+
+export type SavedWorksheet = Meta & {
+  config: GenerationConfig;
+  seed?: number;
+  problems: Problem[];
+  evaluation: Evaluation | null;
+  variants?: Variant[];
+  assemble?: AssembleSettings;
+  blueprint?: Blueprint;
+};
+
+export type SavedBank = Meta & {
+  problems: Problem[];
+  evaluation: Evaluation | null;
+  curation?: Curation;
+};
+
+/** Ma trận đề kèm số câu / chế độ sắp xếp, để mỗi học kỳ chỉ cần chọn lại. */
+export type SavedBlueprint = Meta & {
+  settings: AssembleSettings;
+  blueprint: Blueprint;
+};
+
+// Bản ghi IndexedDB có thể do phiên bản cũ ghi hoặc bị sửa tay: kiểm tra trước khi đưa lên UI,
+// bản ghi hỏng bị bỏ qua. Chỉ kiểm tra, không dùng kết quả parse để khỏi rơi mất trường lạ.
+const MetaSchema = z.object({ id: z.string(), name: z.string(), created_at: z.number(), updated_at: z.number() });
+
+// Phiếu cũ có thể lưu seed NaN khi ô seed để trống
+export const AssembleSettingsSchema = AssemblePayloadSchema.omit({ pool: true, seed: true }).extend({
+  seed: z.number().or(z.nan()).optional(),
+});
+
+const VariantSchema = z.object({ code: z.string(), problems: ProblemListSchema, evaluation: EvaluationSchema.optional() });
+
+const SavedWorksheetSchema = MetaSchema.extend({
+  config: GenerationConfigSchema,
+  seed: z.number().optional(),
+  problems: ProblemListSchema,
+  evaluation: EvaluationSchema.nullable(),
+  variants: z.array(VariantSchema).optional(),
+  assemble: AssembleSettingsSchema.optional(),
+  blueprint: BlueprintSchema.optional(),
+});
+
+const SavedBankSchema = MetaSchema.extend({
+  problems: ProblemListSchema,
+  evaluation: EvaluationSchema.nullable(),
+  curation: z.object({ pinned: z.array(z.number()), excluded: z.array(z.number()) }).optional(),
+});
+
+const SavedBlueprintSchema = MetaSchema.extend({ settings: AssembleSettingsSchema, blueprint: BlueprintSchema });
+
+export type NewEntry<T extends Meta> = Omit<T, keyof Meta> & Partial<Pick<Meta, "id">> & { name: string };
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const byRecent = <T extends Meta>(items: T[]) => items.sort((a, b) => b.updated_at - a.updated_at);
+
+/** Tìm theo tên hoặc nội dung câu hỏi, không phân biệt hoa thường và dấu. */
+export function matchesQuery(item: Meta & { problems: Problem[] }, query: string): boolean {
+  const norm = (s: string) => s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/gi, "d").toLowerCase();
+  const q = norm(query.trim());
+  if (!q) return true;
+  return norm(item.name).includes(q) || item.problems.some((p) => norm(p.text).includes(q));
+}
+
+/** Kho theo từng object store; schema kiểm tra mỗi bản ghi đọc ra. */
+export function makeRepo<T extends Meta>(store: StoreName, schema: z.ZodType) {
+  const valid = (v: unknown): v is T => schema.safeParse(v).success;
+  const getValid = async (id: string) => {
+    const v = await getOne<T>(store, id);
+    return valid(v) ? v : undefined;
+  };
+  return {
+    list: async () => byRecent((await getAll<T>(store)).filter(valid)),
+    get: getValid,
+    /** Có id thì ghi đè bản cũ (giữ created_at), không có thì tạo mới. */
+    save: async (entry: NewEntry<T>): Promise<T> => {
+      const now = Date.now();
+      const prev = entry.id ? await getOne<T>(store, entry.id) : undefined;
+      return put<T>(store, {
+        ...entry,
+        id: entry.id ?? newId(),
+        created_at: prev?.created_at ?? now,
+        updated_at: now,
+      } as T);
+    },
+    /** suffix do giao diện truyền vào theo ngôn ngữ đang dùng, ví dụ "(bản sao)". */
+    duplicate: async (id: string, suffix: string): Promise<T | undefined> => {
+      const src = await getValid(id);
+      if (!src) return undefined;
+      const now = Date.now();
+      return put<T>(store, { ...src, id: newId(), name: `${src.name} ${suffix}`, created_at: now, updated_at: now });
+    },
+    remove: (id: string) => remove(store, id),
+  };
+}
+
+export const worksheets = makeRepo<SavedWorksheet>("worksheets", SavedWorksheetSchema);
+export const banks = makeRepo<SavedBank>("banks", SavedBankSchema);
+export const blueprints = makeRepo<SavedBlueprint>("blueprints", SavedBlueprintSchema);
@@ -1,7 +1,26 @@
-export type Operation = "+" | "-" | "×" | "÷";
+import type { z } from "zod";
+import type {
+  OperationSchema, ProblemKindSchema, ProblemSchema, ModeSchema, AssemblePayloadSchema, EvaluationSchema,
+  CountRangeSchema, BlueprintSchema, MathSchema, MathTokenSchema,
+} from "./schemas";
+
+export type Operation = z.infer<typeof OperationSchema>;
+
+export type ProblemKind = z.infer<typeof ProblemKindSchema>;
+
+/** Các dạng ngoài hai dạng gốc; số câu mỗi dạng đặt riêng trong GenerationConfig.kind_counts. */
+export type ExtraKind = Exclude<ProblemKind, "arithmetic" | "word">;
+
+/** Giới hạn dạng phép tính theo chương trình (lib/curriculum); bỏ trống = không giới hạn. */
+export type OperationRules = {
+  carry?: boolean;          // false: cộng không nhớ, trừ không mượn
+  remainder?: boolean;      // true: một phần câu chia (không lời văn) có dư
+  tables?: number[];        // nhân/chia chỉ trong các bảng này, ví dụ [2, 5]
+};
 
 export type GenerationConfig = {
   grade: number;
+  term?: 1 | 2;             // học kỳ, để đối chiếu chương trình
   operations: Operation[];
   count: number;
   mcq_count?: number;      // mới
@@ -12,32 +31,73 @@ export type GenerationConfig = {
   include_distractors: boolean;
   seed?: number;
   language: "vi" | "en";
+  rules?: OperationRules;
+  theme?: string;           // chủ đề bài toán có lời văn (WORD_THEMES)
+  kind_counts?: Partial<Record<ExtraKind, number>>; // dạng khác, lấy bớt từ phần câu tính
+  layout?: "inline" | "column"; // column: câu tính trình bày "đặt tính rồi tính"
 };
 
-export type Problem = {
-  id: number;
-  text: string;
-  answer: string;
-  distractors?: string[];
-  kind: "arithmetic" | "word";
-  difficulty?: number;
-  source?: string | null;
+export type Problem = z.infer<typeof ProblemSchema>;
+
+export type MathNode = z.infer<typeof MathSchema>;
+export type MathToken = z.infer<typeof MathTokenSchema>;
+
+export type Mode = z.infer<typeof ModeSchema>;
+
+export type AssemblePayload = z.infer<typeof AssemblePayloadSchema>;
+
+export type Evaluation = z.infer<typeof EvaluationSchema>;
+
+/**
+ * Đánh giá mở rộng, tính tại chỗ (lib/local/analyze.ts). Phần Evaluation giữ đúng dạng /api/evaluate
+ * để lưu và so sánh mã đề như cũ.
+ */
+export type EvaluationNoteCode = "empty" | "no_ops" | "no_hard" | "no_easy" | "duplicates";
+
+/** code + params để giao diện dựng ghi chú theo ngôn ngữ (lib/i18n noteMessage); message là bản trong Evaluation.notes. */
+export type EvaluationNote = { code: EvaluationNoteCode; params: { n?: number }; message: string };
+
+export type ExamAnalysis = Evaluation & {
+  note_codes: EvaluationNote[];         // notes dạng code, cùng thứ tự
+  histogram: number[];                  // 10 ô độ khó: [0, 0.1), [0.1, 0.2), …, [0.9, 1]
+  ordering: {
+    ascending: number;                  // tỉ lệ cặp câu liền kề không giảm độ khó (0..1)
+    descending: number;                 // tỉ lệ cặp câu liền kề không tăng độ khó
+    inversions: number;                 // số cặp câu (không cần liền kề) ngược chiều dễ → khó
+  };
+  duplicates: number[][];               // id các câu trùng / gần trùng, theo nhóm
+  answers: { min: number; max: number; mean: number; non_numeric: number } | null;
+  steps: { parsed: number; carry: number; borrow: number; remainder: number };
+  estimated_minutes: number;
 };
 
-export type Mode = "easy_to_hard" | "balanced" | "hard_to_easy";
+export type CountRange = z.infer<typeof CountRangeSchema>;
+
+export type Blueprint = z.infer<typeof BlueprintSchema>;
 
-export type AssemblePayload = {
-  pool: Problem[];
-  total_count: number;
-  mcq_count: number;
-  word_count: number;
-  mode: Mode;
+export type AnswerLayout = "inline" | "separate_page" | "key_table";
+
+export type PaperSize = "a4" | "letter";
+
+/** Chỗ làm bài cho câu trắc nghiệm: ghi chữ cái vào ô trống hoặc tô vòng tròn trước phương án. */
+export type AnswerStyle = "blanks" | "bubbles";
+
+export type ExportOptions = {
+  title?: string;
+  header?: string;              // dòng phụ: trường, lớp, ngày...
+  answer_layout?: AnswerLayout;
+  variant_code?: string;        // mã đề in ở đầu trang (A, B, ...)
+  paper?: PaperSize;
+  columns?: 1 | 2 | 3;
+  answer_style?: AnswerStyle;
+  school?: string;              // điền sẵn vào ô Trường / Lớp ở đầu phiếu; để trống thì in dòng chấm
+  class_name?: string;
+  language?: GenerationConfig["language"]; // nhãn in trên phiếu (Đáp án, Họ và tên…) theo ngôn ngữ nội dung
 };
 
-export type Evaluation = {
-  avg_difficulty: number;
-  buckets: Partial<Record<"easy" | "medium" | "hard", number>>;
-  by_kind: Partial<Record<"arithmetic" | "word", number>>;
-  by_op: Partial<Record<Operation, number>>;
-  notes: string[];
+/** Phần cần xuất: đề cho học sinh, đáp án cho giáo viên, hoặc đề kèm trang đáp án. */
+export type ExportContent = "questions" | "answers" | "both";
+
+export type ExportPayload = ExportOptions & {
+  problems: Problem[];
 };
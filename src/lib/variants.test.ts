@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import type { GenerationConfig, Problem } from "./types";
+import { generateLocal } from "./local/generator";
+import { bucketOf, opOf } from "./local/evaluate";
+import { OPTION_LETTERS, isMcq, mcqOptions } from "./mcq";
+import { MAX_VARIANTS, makeVariants } from "./variants";
+
+const cfg: GenerationConfig = {
+  grade: 3,
+  operations: ["+", "-", "×", "÷"],
+  count: 16,
+  min_value: 0,
+  max_value: 100,
+  include_word_problems: true,
+  include_distractors: true,
+  mcq_count: 6,
+  word_count: 4,
+  seed: 21,
+  language: "vi",
+};
+
+const base = generateLocal(cfg);
+const variants = makeVariants(base, 4, { seed: 21, cfg });
+
+const tally = (problems: Problem[], key: (p: Problem) => string | undefined) => {
+  const out: Record<string, number> = {};
+  for (const p of problems) out[key(p) ?? "?"] = (out[key(p) ?? "?"] ?? 0) + 1;
+  return out;
+};
+
+describe("makeVariants", () => {
+  it("đặt mã A–D, đề A là đề gốc", () => {
+    expect(variants.map((v) => v.code)).toEqual(["A", "B", "C", "D"]);
+    expect(variants[0].problems).toBe(base);
+    expect(makeVariants(base, 9, { seed: 21 })).toHaveLength(MAX_VARIANTS);
+  });
+
+  it("mọi mã đề cùng số câu trắc nghiệm, lời văn và cùng số câu mỗi phép", () => {
+    for (const v of variants.slice(1)) {
+      expect(v.problems).toHaveLength(base.length);
+      expect(v.problems.filter(isMcq)).toHaveLength(6);
+      expect(v.problems.filter((p) => p.kind === "word")).toHaveLength(4);
+      expect(tally(v.problems, opOf)).toEqual(tally(base, opOf));
+    }
+  });
+
+  it("khác thứ tự câu, phương án trắc nghiệm vẫn đúng đáp án", () => {
+    for (const v of variants.slice(1)) {
+      expect(v.problems.map((p) => p.text)).not.toEqual(base.map((p) => p.text));
+      for (const p of v.problems.filter(isMcq)) {
+        const opts = mcqOptions(p)!;
+        expect(opts.options[OPTION_LETTERS.indexOf(opts.correct)]).toBe(p.answer);
+      }
+    }
+  });
+
+  it("cùng seed cho cùng các mã đề", () => {
+    expect(makeVariants(base, 4, { seed: 21, cfg })).toEqual(variants);
+  });
+
+  it("keepBandOrder giữ trình tự mức độ của đề gốc", () => {
+    const ordered = [...base].sort((x, y) => (x.difficulty ?? 0) - (y.difficulty ?? 0));
+    const band = (p: Problem) => (p.difficulty == null ? "?" : bucketOf(p.difficulty));
+    for (const v of makeVariants(ordered, 3, { seed: 5, keepBandOrder: true }).slice(1)) {
+      expect(v.problems.map(band)).toEqual(ordered.map(band));
+    }
+  });
+});
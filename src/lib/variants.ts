@@ -0,0 +1,61 @@
+// lib/variants.ts
+// Nhiều mã đề (A/B/C/D) từ một đề gốc: cùng số câu mỗi loại, cùng phép toán và mức độ khó,
+// khác thứ tự câu, thứ tự phương án và (nếu là câu số học sinh được) khác số.
+
+import { Evaluation, GenerationConfig, Problem } from "./types";
+import { bucketOf, opOf } from "./local/evaluate";
+import { regenerateProblem } from "./local/regenerate";
+import { createRng, deriveSeed } from "./local/random";
+import { shuffleOptions } from "./mcq";
+
+export const VARIANT_CODES = ["A", "B", "C", "D"] as const;
+export const MAX_VARIANTS = VARIANT_CODES.length;
+
+export type Variant = {
+  code: string;
+  problems: Problem[];
+  evaluation?: Evaluation;
+};
+
+export type VariantOptions = {
+  seed: number;
+  /** Có cấu hình sinh đề thì sinh lại số cho câu số học; ráp từ ngân hàng thì chỉ xáo. */
+  cfg?: GenerationConfig;
+  /** Giữ trình tự mức độ (dễ → khó...) khi đề gốc được ráp theo chế độ có thứ tự. */
+  keepBandOrder?: boolean;
+};
+
+const ARITH_TEXT = /^\s*\d+\s*[+\-×÷]\s*\d+\s*=\s*\?\s*$/;
+const canRenumber = (p: Problem) => p.source === "local" || (p.kind === "arithmetic" && ARITH_TEXT.test(p.text) && !!opOf(p));
+
+function reorder(problems: Problem[], seed: number, keepBandOrder: boolean): Problem[] {
+  const rng = createRng(seed);
+  if (!keepBandOrder) return rng.shuffle(problems);
+  // Xáo trong từng đoạn liên tiếp cùng mức độ, giữ nguyên trình tự các đoạn
+  const out: Problem[] = [];
+  let run: Problem[] = [];
+  const band = (p: Problem) => (p.difficulty == null ? "?" : bucketOf(p.difficulty));
+  for (const p of problems) {
+    if (run.length && band(run[0]) !== band(p)) {
+      out.push(...rng.shuffle(run));
+      run = [];
+    }
+    run.push(p);
+  }
+  return [...out, ...rng.shuffle(run)];
+}
+
+export function makeVariants(base: Problem[], count: number, { seed, cfg, keepBandOrder = false }: VariantOptions): Variant[] {
+  const n = Math.max(1, Math.min(MAX_VARIANTS, Math.floor(count)));
+  const variants: Variant[] = [{ code: VARIANT_CODES[0], problems: base }];
+  for (let v = 1; v < n; v++) {
+    const code = VARIANT_CODES[v];
+    const vSeed = deriveSeed(seed, "variant", code);
+    const items = base.map((p) => {
+      const fresh = cfg && canRenumber(p) ? regenerateProblem(p, cfg, 1000 + v) : p;
+      return shuffleOptions(fresh, vSeed);
+    });
+    variants.push({ code, problems: reorder(items, vSeed, keepBandOrder) });
+  }
+  return variants;
+}